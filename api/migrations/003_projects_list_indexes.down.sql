@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_projects_updated_at;
+DROP INDEX IF EXISTS idx_projects_created_at;
+DROP INDEX IF EXISTS idx_projects_name_trgm;
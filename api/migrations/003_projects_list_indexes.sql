@@ -0,0 +1,4 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS idx_projects_name_trgm ON projects USING gin (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_projects_updated_at ON projects(updated_at, id);
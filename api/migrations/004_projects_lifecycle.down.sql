@@ -0,0 +1,10 @@
+DROP TRIGGER IF EXISTS trg_projects_updated_at ON projects;
+DROP FUNCTION IF EXISTS set_updated_at();
+DROP INDEX IF EXISTS idx_projects_deleted_at;
+DROP INDEX IF EXISTS idx_projects_slug;
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_status_check;
+ALTER TABLE projects
+  DROP COLUMN IF EXISTS deleted_at,
+  DROP COLUMN IF EXISTS status,
+  DROP COLUMN IF EXISTS description,
+  DROP COLUMN IF EXISTS slug;
@@ -0,0 +1,33 @@
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS slug TEXT,
+  ADD COLUMN IF NOT EXISTS description TEXT NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft',
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Backfill slugs from names, suffixing duplicates with their rank.
+WITH bases AS (
+  SELECT id, COALESCE(NULLIF(trim(BOTH '-' FROM regexp_replace(lower(name), '[^a-z0-9]+', '-', 'g')), ''), 'project') AS base
+  FROM projects
+  WHERE slug IS NULL
+), ranked AS (
+  SELECT id, base, ROW_NUMBER() OVER (PARTITION BY base ORDER BY id) AS n FROM bases
+)
+UPDATE projects p
+SET slug = CASE WHEN ranked.n = 1 THEN ranked.base ELSE ranked.base || '-' || ranked.n END
+FROM ranked
+WHERE p.id = ranked.id;
+
+ALTER TABLE projects ALTER COLUMN slug SET NOT NULL;
+ALTER TABLE projects ADD CONSTRAINT projects_status_check CHECK (status IN ('draft', 'published', 'archived'));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_slug ON projects(slug);
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects(deleted_at);
+
+CREATE OR REPLACE FUNCTION set_updated_at() RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_projects_updated_at ON projects;
+CREATE TRIGGER trg_projects_updated_at BEFORE UPDATE ON projects FOR EACH ROW EXECUTE FUNCTION set_updated_at();
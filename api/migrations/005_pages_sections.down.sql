@@ -0,0 +1,4 @@
+DROP FUNCTION IF EXISTS reorder_sections(BIGINT, BIGINT[]);
+DROP FUNCTION IF EXISTS reorder_pages(BIGINT, BIGINT[]);
+DROP TABLE IF EXISTS sections;
+DROP TABLE IF EXISTS pages;
@@ -0,0 +1,41 @@
+CREATE TABLE IF NOT EXISTS pages (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  slug TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, slug)
+);
+CREATE INDEX IF NOT EXISTS idx_pages_project_position ON pages(project_id, position);
+
+CREATE TABLE IF NOT EXISTS sections (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  page_id BIGINT NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('hero', 'rich_text', 'image_gallery', 'call_to_action')),
+  position INTEGER NOT NULL DEFAULT 0,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_sections_page_position ON sections(page_id, position);
+
+DROP TRIGGER IF EXISTS trg_pages_updated_at ON pages;
+CREATE TRIGGER trg_pages_updated_at BEFORE UPDATE ON pages FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+DROP TRIGGER IF EXISTS trg_sections_updated_at ON sections;
+CREATE TRIGGER trg_sections_updated_at BEFORE UPDATE ON sections FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- Reorders run in one statement so a partial reorder can never be observed.
+-- Ids are numbered in the order given; callers validate the id set first.
+CREATE OR REPLACE FUNCTION reorder_pages(p_project_id BIGINT, p_ids BIGINT[]) RETURNS void AS $$
+  UPDATE pages SET position = ordered.idx - 1
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, idx)
+  WHERE pages.id = ordered.id AND pages.project_id = p_project_id;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION reorder_sections(p_page_id BIGINT, p_ids BIGINT[]) RETURNS void AS $$
+  UPDATE sections SET position = ordered.idx - 1
+  FROM unnest(p_ids) WITH ORDINALITY AS ordered(id, idx)
+  WHERE sections.id = ordered.id AND sections.page_id = p_page_id;
+$$ LANGUAGE sql;
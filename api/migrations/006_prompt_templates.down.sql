@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS prompt_template_versions;
+DROP TABLE IF EXISTS prompt_templates;
+DROP FUNCTION IF EXISTS snapshot_prompt_template();
+DROP FUNCTION IF EXISTS bump_prompt_template_version();
@@ -0,0 +1,61 @@
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  system TEXT,
+  body TEXT NOT NULL,
+  variables JSONB NOT NULL DEFAULT '[]'::jsonb,
+  provider TEXT,
+  model TEXT,
+  temperature DOUBLE PRECISION,
+  max_tokens INTEGER,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, name)
+);
+
+-- One immutable row per saved version; written by trigger so every backend keeps the same history.
+CREATE TABLE IF NOT EXISTS prompt_template_versions (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  template_id BIGINT NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  system TEXT,
+  body TEXT NOT NULL,
+  variables JSONB NOT NULL,
+  provider TEXT,
+  model TEXT,
+  temperature DOUBLE PRECISION,
+  max_tokens INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (template_id, version)
+);
+
+DROP TRIGGER IF EXISTS trg_prompt_templates_updated_at ON prompt_templates;
+CREATE TRIGGER trg_prompt_templates_updated_at BEFORE UPDATE ON prompt_templates FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+CREATE OR REPLACE FUNCTION bump_prompt_template_version() RETURNS trigger AS $$
+BEGIN
+  NEW.version = OLD.version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_prompt_templates_version ON prompt_templates;
+CREATE TRIGGER trg_prompt_templates_version BEFORE UPDATE ON prompt_templates FOR EACH ROW EXECUTE FUNCTION bump_prompt_template_version();
+
+CREATE OR REPLACE FUNCTION snapshot_prompt_template() RETURNS trigger AS $$
+BEGIN
+  INSERT INTO prompt_template_versions
+    (template_id, version, name, description, system, body, variables, provider, model, temperature, max_tokens)
+  VALUES
+    (NEW.id, NEW.version, NEW.name, NEW.description, NEW.system, NEW.body, NEW.variables, NEW.provider, NEW.model, NEW.temperature, NEW.max_tokens);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_prompt_templates_snapshot ON prompt_templates;
+CREATE TRIGGER trg_prompt_templates_snapshot AFTER INSERT OR UPDATE ON prompt_templates FOR EACH ROW EXECUTE FUNCTION snapshot_prompt_template();
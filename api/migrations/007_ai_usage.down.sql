@@ -0,0 +1,4 @@
+DROP FUNCTION IF EXISTS ai_usage_tokens_since(TIMESTAMPTZ, BIGINT);
+DROP FUNCTION IF EXISTS ai_usage_daily(TIMESTAMPTZ, TIMESTAMPTZ, BIGINT);
+DROP TABLE IF EXISTS ai_quotas;
+DROP TABLE IF EXISTS ai_usage;
@@ -0,0 +1,62 @@
+-- One row per upstream model call, including failed fallback attempts.
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  project_id BIGINT REFERENCES projects(id) ON DELETE SET NULL,
+  route TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'error', 'timeout', 'cancelled')),
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_project_created ON ai_usage(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at);
+
+-- Per-project overrides of AI_MONTHLY_TOKEN_QUOTA; NULL means unlimited.
+CREATE TABLE IF NOT EXISTS ai_quotas (
+  project_id BIGINT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  monthly_tokens BIGINT CHECK (monthly_tokens IS NULL OR monthly_tokens >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trg_ai_quotas_updated_at ON ai_quotas;
+CREATE TRIGGER trg_ai_quotas_updated_at BEFORE UPDATE ON ai_quotas FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- PostgREST cannot aggregate, so the reports go through these functions.
+CREATE OR REPLACE FUNCTION ai_usage_daily(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ, p_project_id BIGINT DEFAULT NULL)
+RETURNS TABLE (
+  project_id BIGINT,
+  day TEXT,
+  calls BIGINT,
+  errors BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  total_tokens BIGINT,
+  avg_latency_ms INTEGER
+) AS $$
+  SELECT
+    u.project_id,
+    to_char(u.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') AS day,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE u.outcome <> 'success'),
+    COALESCE(SUM(u.input_tokens), 0),
+    COALESCE(SUM(u.output_tokens), 0),
+    COALESCE(SUM(u.total_tokens), 0),
+    ROUND(AVG(u.latency_ms))::INTEGER
+  FROM ai_usage u
+  WHERE u.created_at >= p_from AND u.created_at < p_to
+    AND (p_project_id IS NULL OR u.project_id = p_project_id)
+  GROUP BY 1, 2
+  ORDER BY 2, 1 NULLS FIRST;
+$$ LANGUAGE sql STABLE;
+
+-- p_project_id NULL sums every call (the instance-wide quota).
+CREATE OR REPLACE FUNCTION ai_usage_tokens_since(p_since TIMESTAMPTZ, p_project_id BIGINT DEFAULT NULL)
+RETURNS BIGINT AS $$
+  SELECT COALESCE(SUM(total_tokens), 0)::BIGINT FROM ai_usage
+  WHERE created_at >= p_since AND (p_project_id IS NULL OR project_id = p_project_id);
+$$ LANGUAGE sql STABLE;
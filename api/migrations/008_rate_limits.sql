@@ -0,0 +1,40 @@
+-- Token buckets for RATE_LIMIT_STORE=database, shared by every API instance.
+-- updated_at is epoch milliseconds, matching the limiter's clock.
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  bucket_key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at BIGINT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated ON rate_limit_buckets(updated_at);
+
+-- Refills and takes one token under a row lock, so concurrent requests for the
+-- same key cannot both spend the last token. Mirrors takeToken in src/domain/ratelimit.ts.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(
+  p_key TEXT,
+  p_capacity DOUBLE PRECISION,
+  p_refill_per_ms DOUBLE PRECISION,
+  p_now BIGINT
+)
+RETURNS TABLE (allowed BOOLEAN, tokens_left DOUBLE PRECISION) AS $$
+DECLARE
+  v_tokens DOUBLE PRECISION;
+  v_updated BIGINT;
+BEGIN
+  INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at)
+  VALUES (p_key, p_capacity, p_now)
+  ON CONFLICT (bucket_key) DO NOTHING;
+
+  SELECT b.tokens, b.updated_at INTO v_tokens, v_updated
+  FROM rate_limit_buckets b WHERE b.bucket_key = p_key FOR UPDATE;
+
+  v_tokens := LEAST(p_capacity, v_tokens + GREATEST(p_now - v_updated, 0) * p_refill_per_ms);
+  allowed := v_tokens >= 1;
+  IF allowed THEN
+    v_tokens := v_tokens - 1;
+  END IF;
+
+  UPDATE rate_limit_buckets SET tokens = v_tokens, updated_at = p_now WHERE bucket_key = p_key;
+  tokens_left := v_tokens;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_projects_owner;
+ALTER TABLE projects DROP COLUMN IF EXISTS owner_id;
@@ -0,0 +1,5 @@
+-- The user id (JWT `sub`, a Supabase Auth user id) that owns each project.
+-- Projects created before authentication have no owner and are hidden until
+-- claimed, e.g. UPDATE projects SET owner_id = '<user id>' WHERE owner_id IS NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS owner_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_projects_owner ON projects(owner_id);
@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS project_invitations;
+DROP TRIGGER IF EXISTS trg_projects_add_creator ON projects;
+DROP FUNCTION IF EXISTS add_project_creator();
+DROP TABLE IF EXISTS project_members;
@@ -0,0 +1,49 @@
+-- Access to a project goes through membership; projects.owner_id only records the creator.
+CREATE TABLE IF NOT EXISTS project_members (
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  email TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (project_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_project_members_user ON project_members(user_id);
+
+DROP TRIGGER IF EXISTS trg_project_members_updated_at ON project_members;
+CREATE TRIGGER trg_project_members_updated_at BEFORE UPDATE ON project_members
+FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- The creator becomes the first owner in the same statement as the project.
+CREATE OR REPLACE FUNCTION add_project_creator() RETURNS trigger AS $$
+BEGIN
+  IF NEW.owner_id IS NOT NULL THEN
+    INSERT INTO project_members (project_id, user_id, role) VALUES (NEW.id, NEW.owner_id, 'owner')
+    ON CONFLICT DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_projects_add_creator ON projects;
+CREATE TRIGGER trg_projects_add_creator AFTER INSERT ON projects
+FOR EACH ROW EXECUTE FUNCTION add_project_creator();
+
+INSERT INTO project_members (project_id, user_id, role)
+SELECT id, owner_id, 'owner' FROM projects WHERE owner_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Only a SHA-256 of the token is stored; the token itself is handed out once.
+CREATE TABLE IF NOT EXISTS project_invitations (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  accepted_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_project_invitations_project ON project_invitations(project_id);
@@ -0,0 +1,24 @@
+-- A per-project media library. Each row is one image with the attribution its
+-- licence requires and the URL of every stored size.
+CREATE TABLE IF NOT EXISTS project_assets (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  source_url TEXT,
+  photographer TEXT,
+  photographer_url TEXT,
+  alt TEXT NOT NULL DEFAULT '',
+  width INTEGER,
+  height INTEGER,
+  sizes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  tags JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, source, source_id)
+);
+CREATE INDEX IF NOT EXISTS idx_project_assets_tags ON project_assets USING GIN (tags);
+
+DROP TRIGGER IF EXISTS trg_project_assets_updated_at ON project_assets;
+CREATE TRIGGER trg_project_assets_updated_at BEFORE UPDATE ON project_assets
+FOR EACH ROW EXECUTE FUNCTION set_updated_at();
@@ -0,0 +1,4 @@
+ALTER TABLE project_assets DROP COLUMN IF EXISTS byte_size;
+ALTER TABLE project_assets DROP COLUMN IF EXISTS content_type;
+ALTER TABLE project_assets DROP COLUMN IF EXISTS file_name;
+ALTER TABLE project_assets DROP COLUMN IF EXISTS storage_keys;
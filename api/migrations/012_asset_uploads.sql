@@ -0,0 +1,6 @@
+-- Uploaded files: where each size is kept in storage (served through signed
+-- URLs rather than stored ones) and what was uploaded.
+ALTER TABLE project_assets ADD COLUMN IF NOT EXISTS storage_keys JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE project_assets ADD COLUMN IF NOT EXISTS file_name TEXT;
+ALTER TABLE project_assets ADD COLUMN IF NOT EXISTS content_type TEXT;
+ALTER TABLE project_assets ADD COLUMN IF NOT EXISTS byte_size BIGINT;
@@ -0,0 +1,25 @@
+-- Append-only audit trail of changes made through the API. project_id has no
+-- foreign key so the history outlives a purged project.
+CREATE TABLE IF NOT EXISTS project_activity (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  project_id BIGINT NOT NULL,
+  actor_id TEXT,
+  action TEXT NOT NULL,
+  before JSONB,
+  after JSONB,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  request_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_project_activity_project ON project_activity(project_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_project_activity_created ON project_activity(created_at);
+
+CREATE OR REPLACE FUNCTION project_activity_append_only() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'project_activity is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_project_activity_append_only ON project_activity;
+CREATE TRIGGER trg_project_activity_append_only BEFORE UPDATE OR DELETE ON project_activity
+FOR EACH ROW EXECUTE FUNCTION project_activity_append_only();
@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS project_revisions;
+DROP FUNCTION IF EXISTS number_project_revision();
@@ -0,0 +1,26 @@
+-- Numbered snapshots of a project's content (fields, pages and sections) taken
+-- after every save. Old ones are pruned by the API's retention policy.
+CREATE TABLE IF NOT EXISTS project_revisions (
+  id BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  number INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  content_hash TEXT NOT NULL,
+  -- The activity action that caused the snapshot, e.g. page.updated.
+  action TEXT NOT NULL,
+  actor_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, number)
+);
+CREATE INDEX IF NOT EXISTS idx_project_revisions_created ON project_revisions(created_at);
+
+-- Numbers count up per project and are never reused, even after pruning.
+CREATE OR REPLACE FUNCTION number_project_revision() RETURNS trigger AS $$
+BEGIN
+  SELECT COALESCE(MAX(number), 0) + 1 INTO NEW.number FROM project_revisions WHERE project_id = NEW.project_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_project_revisions_number ON project_revisions;
+CREATE TRIGGER trg_project_revisions_number BEFORE INSERT ON project_revisions FOR EACH ROW EXECUTE FUNCTION number_project_revision();
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_projects_name_key;
+DROP FUNCTION IF EXISTS name_key(projects);
@@ -0,0 +1,7 @@
+-- Name ordering ignores case, as it does on SQLite (COLLATE NOCASE). PostgREST
+-- sorts and filters on this computed field (projects?order=name_key), and the
+-- function is inlined, so the expression index below serves it.
+CREATE OR REPLACE FUNCTION name_key(projects) RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$ SELECT lower($1.name) $$;
+
+CREATE INDEX IF NOT EXISTS idx_projects_name_key ON projects (lower(name), id);
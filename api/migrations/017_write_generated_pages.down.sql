@@ -0,0 +1 @@
+DROP FUNCTION IF EXISTS write_generated_pages(BIGINT, JSONB);
@@ -0,0 +1,49 @@
+-- Writes a generated site in one transaction, so a failure part-way never
+-- leaves half a site or a page stripped of its old sections. p_pages is an
+-- array of {page_id?, title, slug, sections: [{type, data}]}; a page_id
+-- replaces the sections of that page, otherwise a page is appended.
+CREATE OR REPLACE FUNCTION write_generated_pages(p_project_id BIGINT, p_pages JSONB) RETURNS JSONB AS $$
+DECLARE
+  item JSONB;
+  target pages;
+  removed INTEGER;
+  result JSONB := '[]'::jsonb;
+BEGIN
+  FOR item IN SELECT value FROM jsonb_array_elements(p_pages) LOOP
+    IF item ? 'page_id' THEN
+      SELECT * INTO target FROM pages
+      WHERE id = (item->>'page_id')::BIGINT AND project_id = p_project_id
+      FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'page % not found', item->>'page_id';
+      END IF;
+      DELETE FROM sections WHERE page_id = target.id;
+      GET DIAGNOSTICS removed = ROW_COUNT;
+    ELSE
+      INSERT INTO pages (project_id, title, slug, position)
+      VALUES (
+        p_project_id,
+        item->>'title',
+        item->>'slug',
+        (SELECT COALESCE(MAX(position) + 1, 0) FROM pages WHERE project_id = p_project_id)
+      )
+      RETURNING * INTO target;
+      removed := 0;
+    END IF;
+
+    INSERT INTO sections (page_id, type, data, position)
+    SELECT target.id, section.value->>'type', section.value->'data', section.idx - 1
+    FROM jsonb_array_elements(item->'sections') WITH ORDINALITY AS section(value, idx);
+
+    result := result || jsonb_build_array(jsonb_build_object(
+      'page', to_jsonb(target),
+      'sections', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(s) ORDER BY s.position, s.id), '[]'::jsonb)
+        FROM sections s WHERE s.page_id = target.id
+      ),
+      'removed_sections', removed
+    ));
+  END LOOP;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,6 @@
+CREATE OR REPLACE FUNCTION number_project_revision() RETURNS trigger AS $$
+BEGIN
+  SELECT COALESCE(MAX(number), 0) + 1 INTO NEW.number FROM project_revisions WHERE project_id = NEW.project_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
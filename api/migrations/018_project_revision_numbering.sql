@@ -0,0 +1,11 @@
+-- Two revisions inserted concurrently for one project could both read the same
+-- MAX(number) and collide on the unique (project_id, number). Locking the
+-- project row first makes numbering for a project one at a time; the lock is
+-- held until the inserting transaction ends.
+CREATE OR REPLACE FUNCTION number_project_revision() RETURNS trigger AS $$
+BEGIN
+  PERFORM 1 FROM projects WHERE id = NEW.project_id FOR UPDATE;
+  SELECT COALESCE(MAX(number), 0) + 1 INTO NEW.number FROM project_revisions WHERE project_id = NEW.project_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,4 @@
+-- Receivers' response bodies were shown to project owners in the delivery log,
+-- which let a webhook read whatever its URL answered. Only the status and a
+-- short note are kept now; bodies stored so far go with the column.
+ALTER TABLE webhook_deliveries DROP COLUMN IF EXISTS response_body;
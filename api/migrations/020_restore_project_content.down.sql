@@ -0,0 +1 @@
+DROP FUNCTION IF EXISTS restore_project_content(BIGINT, JSONB);
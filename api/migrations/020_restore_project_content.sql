@@ -0,0 +1,75 @@
+-- Restores a revision in one transaction, so a failure part-way (a slug taken
+-- by another project, say) never leaves a mix of the old and the restored
+-- content. p_content is a revision's content: {project: {name, slug,
+-- description}, pages: [{id, title, slug, sections: [{id, type, data}]}]}.
+-- Pages and sections that still exist keep their ids; the others are
+-- recreated. Rows are only written when something differs, so untouched ones
+-- keep their updated_at. Answers false for a missing or trashed project.
+CREATE OR REPLACE FUNCTION restore_project_content(p_project_id BIGINT, p_content JSONB) RETURNS BOOLEAN AS $$
+DECLARE
+  entry RECORD;
+  part RECORD;
+  target_page BIGINT;
+BEGIN
+  -- Also locks the project row, so concurrent restores run one after another.
+  UPDATE projects
+  SET name = p_content->'project'->>'name',
+      slug = p_content->'project'->>'slug',
+      description = p_content->'project'->>'description'
+  WHERE id = p_project_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM pages
+  WHERE project_id = p_project_id
+    AND id NOT IN (SELECT (value->>'id')::BIGINT FROM jsonb_array_elements(p_content->'pages'));
+
+  -- Park changed slugs first so pages can swap slugs without colliding.
+  UPDATE pages
+  SET slug = 'restoring-' || pages.id || '-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::BIGINT
+  FROM jsonb_array_elements(p_content->'pages') AS wanted(value)
+  WHERE pages.project_id = p_project_id
+    AND pages.id = (wanted.value->>'id')::BIGINT
+    AND pages.slug <> wanted.value->>'slug';
+
+  FOR entry IN
+    SELECT page.value, page.idx - 1 AS position
+    FROM jsonb_array_elements(p_content->'pages') WITH ORDINALITY AS page(value, idx)
+  LOOP
+    SELECT id INTO target_page FROM pages
+    WHERE project_id = p_project_id AND id = (entry.value->>'id')::BIGINT;
+    IF FOUND THEN
+      UPDATE pages
+      SET title = entry.value->>'title', slug = entry.value->>'slug', position = entry.position
+      WHERE id = target_page
+        AND (title, slug, position) IS DISTINCT FROM (entry.value->>'title', entry.value->>'slug', entry.position);
+    ELSE
+      INSERT INTO pages (project_id, title, slug, position)
+      VALUES (p_project_id, entry.value->>'title', entry.value->>'slug', entry.position)
+      RETURNING id INTO target_page;
+    END IF;
+
+    DELETE FROM sections
+    WHERE page_id = target_page
+      AND id NOT IN (SELECT (value->>'id')::BIGINT FROM jsonb_array_elements(entry.value->'sections'));
+
+    FOR part IN
+      SELECT section.value, section.idx - 1 AS position
+      FROM jsonb_array_elements(entry.value->'sections') WITH ORDINALITY AS section(value, idx)
+    LOOP
+      PERFORM 1 FROM sections WHERE page_id = target_page AND id = (part.value->>'id')::BIGINT;
+      IF FOUND THEN
+        UPDATE sections
+        SET type = part.value->>'type', data = part.value->'data', position = part.position
+        WHERE id = (part.value->>'id')::BIGINT
+          AND (type, data, position) IS DISTINCT FROM (part.value->>'type', part.value->'data', part.position);
+      ELSE
+        INSERT INTO sections (page_id, type, data, position)
+        VALUES (target_page, part.value->>'type', part.value->'data', part.position);
+      END IF;
+    END LOOP;
+  END LOOP;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
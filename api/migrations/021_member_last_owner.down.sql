@@ -0,0 +1,3 @@
+DROP FUNCTION IF EXISTS remove_member(BIGINT, TEXT);
+DROP FUNCTION IF EXISTS update_member_role(BIGINT, TEXT, TEXT);
+DROP FUNCTION IF EXISTS guard_last_owner(BIGINT, TEXT);
@@ -0,0 +1,39 @@
+-- Counting the owners and then demoting or removing one in separate requests
+-- let two concurrent changes each see another owner and leave a project with
+-- none. These functions lock the project row, so changes to one project's
+-- members run one at a time, and refuse with SQLSTATE PT409 (PostgREST answers
+-- it with 409) when the write would take away the last owner.
+CREATE OR REPLACE FUNCTION guard_last_owner(p_project_id BIGINT, p_user_id TEXT) RETURNS void AS $$
+BEGIN
+  PERFORM 1 FROM projects WHERE id = p_project_id FOR UPDATE;
+  IF EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_id = p_project_id AND user_id = p_user_id AND role = 'owner'
+  ) AND (
+    SELECT COUNT(*) FROM project_members WHERE project_id = p_project_id AND role = 'owner'
+  ) <= 1 THEN
+    RAISE EXCEPTION 'a project needs at least one owner' USING ERRCODE = 'PT409';
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_member_role(p_project_id BIGINT, p_user_id TEXT, p_role TEXT)
+RETURNS SETOF project_members AS $$
+BEGIN
+  IF p_role <> 'owner' THEN
+    PERFORM guard_last_owner(p_project_id, p_user_id);
+  END IF;
+  RETURN QUERY
+  UPDATE project_members SET role = p_role
+  WHERE project_id = p_project_id AND user_id = p_user_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION remove_member(p_project_id BIGINT, p_user_id TEXT) RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM guard_last_owner(p_project_id, p_user_id);
+  DELETE FROM project_members WHERE project_id = p_project_id AND user_id = p_user_id;
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1 @@
+CREATE INDEX IF NOT EXISTS idx_projects_name ON projects(name);
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_projects_updated_at;
+DROP INDEX IF EXISTS idx_projects_created_at;
@@ -0,0 +1,2 @@
+CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_projects_updated_at ON projects(updated_at, id);
@@ -0,0 +1,7 @@
+DROP TRIGGER IF EXISTS trg_projects_updated_at;
+DROP INDEX IF EXISTS idx_projects_deleted_at;
+DROP INDEX IF EXISTS idx_projects_slug;
+ALTER TABLE projects DROP COLUMN deleted_at;
+ALTER TABLE projects DROP COLUMN status;
+ALTER TABLE projects DROP COLUMN description;
+ALTER TABLE projects DROP COLUMN slug;
@@ -0,0 +1,16 @@
+ALTER TABLE projects ADD COLUMN slug TEXT;
+ALTER TABLE projects ADD COLUMN description TEXT NOT NULL DEFAULT '';
+ALTER TABLE projects ADD COLUMN status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived'));
+ALTER TABLE projects ADD COLUMN deleted_at TEXT;
+
+-- SQLite has no regexp_replace; local rows get id-based slugs.
+UPDATE projects SET slug = 'project-' || id WHERE slug IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_slug ON projects(slug);
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects(deleted_at);
+
+CREATE TRIGGER IF NOT EXISTS trg_projects_updated_at AFTER UPDATE ON projects
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE projects SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
@@ -0,0 +1,60 @@
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  system TEXT,
+  body TEXT NOT NULL,
+  variables TEXT NOT NULL DEFAULT '[]' CHECK (json_valid(variables)),
+  provider TEXT,
+  model TEXT,
+  temperature REAL,
+  max_tokens INTEGER,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (project_id, name)
+);
+
+-- One immutable row per saved version; written by trigger so every backend keeps the same history.
+CREATE TABLE IF NOT EXISTS prompt_template_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  template_id INTEGER NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  system TEXT,
+  body TEXT NOT NULL,
+  variables TEXT NOT NULL,
+  provider TEXT,
+  model TEXT,
+  temperature REAL,
+  max_tokens INTEGER,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (template_id, version)
+);
+
+CREATE TRIGGER IF NOT EXISTS trg_prompt_templates_updated_at AFTER UPDATE ON prompt_templates
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE prompt_templates SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
+
+-- SQLite triggers cannot rewrite NEW, so the repository bumps `version` itself.
+CREATE TRIGGER IF NOT EXISTS trg_prompt_templates_snapshot_insert AFTER INSERT ON prompt_templates
+FOR EACH ROW
+BEGIN
+  INSERT INTO prompt_template_versions
+    (template_id, version, name, description, system, body, variables, provider, model, temperature, max_tokens)
+  VALUES
+    (NEW.id, NEW.version, NEW.name, NEW.description, NEW.system, NEW.body, NEW.variables, NEW.provider, NEW.model, NEW.temperature, NEW.max_tokens);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_prompt_templates_snapshot_update AFTER UPDATE OF version ON prompt_templates
+FOR EACH ROW WHEN NEW.version <> OLD.version
+BEGIN
+  INSERT INTO prompt_template_versions
+    (template_id, version, name, description, system, body, variables, provider, model, temperature, max_tokens)
+  VALUES
+    (NEW.id, NEW.version, NEW.name, NEW.description, NEW.system, NEW.body, NEW.variables, NEW.provider, NEW.model, NEW.temperature, NEW.max_tokens);
+END;
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_projects_owner;
+ALTER TABLE projects DROP COLUMN owner_id;
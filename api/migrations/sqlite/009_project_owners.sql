@@ -0,0 +1,3 @@
+-- The user id (JWT `sub`) that owns each project; see the Postgres migration.
+ALTER TABLE projects ADD COLUMN owner_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_projects_owner ON projects(owner_id);
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS project_invitations;
+DROP TRIGGER IF EXISTS trg_projects_add_creator;
+DROP TABLE IF EXISTS project_members;
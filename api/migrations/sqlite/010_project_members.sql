@@ -0,0 +1,43 @@
+-- Access to a project goes through membership; projects.owner_id only records the creator.
+CREATE TABLE IF NOT EXISTS project_members (
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  email TEXT,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (project_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_project_members_user ON project_members(user_id);
+
+CREATE TRIGGER IF NOT EXISTS trg_project_members_updated_at AFTER UPDATE ON project_members
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE project_members SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE project_id = NEW.project_id AND user_id = NEW.user_id;
+END;
+
+-- The creator becomes the first owner in the same statement as the project.
+CREATE TRIGGER IF NOT EXISTS trg_projects_add_creator AFTER INSERT ON projects
+FOR EACH ROW WHEN NEW.owner_id IS NOT NULL
+BEGIN
+  INSERT OR IGNORE INTO project_members (project_id, user_id, role) VALUES (NEW.id, NEW.owner_id, 'owner');
+END;
+
+INSERT OR IGNORE INTO project_members (project_id, user_id, role)
+SELECT id, owner_id, 'owner' FROM projects WHERE owner_id IS NOT NULL;
+
+-- Only a SHA-256 of the token is stored; the token itself is handed out once.
+CREATE TABLE IF NOT EXISTS project_invitations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  accepted_at TEXT,
+  accepted_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_project_invitations_project ON project_invitations(project_id);
@@ -0,0 +1,25 @@
+-- A per-project media library. Each row is one image with the attribution its
+-- licence requires and the URL of every stored size.
+CREATE TABLE IF NOT EXISTS project_assets (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  source_url TEXT,
+  photographer TEXT,
+  photographer_url TEXT,
+  alt TEXT NOT NULL DEFAULT '',
+  width INTEGER,
+  height INTEGER,
+  sizes TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(sizes)),
+  tags TEXT NOT NULL DEFAULT '[]' CHECK (json_valid(tags)),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (project_id, source, source_id)
+);
+
+CREATE TRIGGER IF NOT EXISTS trg_project_assets_updated_at AFTER UPDATE ON project_assets
+FOR EACH ROW WHEN NEW.updated_at = OLD.updated_at
+BEGIN
+  UPDATE project_assets SET updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE id = NEW.id;
+END;
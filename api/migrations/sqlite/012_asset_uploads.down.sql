@@ -0,0 +1,4 @@
+ALTER TABLE project_assets DROP COLUMN byte_size;
+ALTER TABLE project_assets DROP COLUMN content_type;
+ALTER TABLE project_assets DROP COLUMN file_name;
+ALTER TABLE project_assets DROP COLUMN storage_keys;
@@ -0,0 +1,6 @@
+-- Uploaded files: where each size is kept in storage (served through signed
+-- URLs rather than stored ones) and what was uploaded.
+ALTER TABLE project_assets ADD COLUMN storage_keys TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(storage_keys));
+ALTER TABLE project_assets ADD COLUMN file_name TEXT;
+ALTER TABLE project_assets ADD COLUMN content_type TEXT;
+ALTER TABLE project_assets ADD COLUMN byte_size INTEGER;
@@ -0,0 +1,25 @@
+-- Append-only audit trail of changes made through the API. project_id has no
+-- foreign key so the history outlives a purged project.
+CREATE TABLE IF NOT EXISTS project_activity (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL,
+  actor_id TEXT,
+  action TEXT NOT NULL,
+  before TEXT CHECK (before IS NULL OR json_valid(before)),
+  after TEXT CHECK (after IS NULL OR json_valid(after)),
+  details TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(details)),
+  request_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+CREATE INDEX IF NOT EXISTS idx_project_activity_project ON project_activity(project_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_project_activity_created ON project_activity(created_at);
+
+CREATE TRIGGER IF NOT EXISTS trg_project_activity_no_update BEFORE UPDATE ON project_activity
+BEGIN
+  SELECT RAISE(ABORT, 'project_activity is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_project_activity_no_delete BEFORE DELETE ON project_activity
+BEGIN
+  SELECT RAISE(ABORT, 'project_activity is append-only');
+END;
@@ -0,0 +1,15 @@
+-- Numbered snapshots of a project's content (fields, pages and sections) taken
+-- after every save. Old ones are pruned by the API's retention policy.
+CREATE TABLE IF NOT EXISTS project_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  number INTEGER NOT NULL,
+  content TEXT NOT NULL CHECK (json_valid(content)),
+  content_hash TEXT NOT NULL,
+  -- The activity action that caused the snapshot, e.g. page.updated.
+  action TEXT NOT NULL,
+  actor_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (project_id, number)
+);
+CREATE INDEX IF NOT EXISTS idx_project_revisions_created ON project_revisions(created_at);
@@ -0,0 +1,15 @@
+import { getRepositories } from '../db/index.js';
+import type { DomainEvent } from '../events/index.js';
+
+// Writes an event to the project's activity log; publish awaits it, so the row
+// exists by the time the request that made the change answers.
+export const recordActivity = (event: DomainEvent) =>
+  getRepositories().activity.record({
+    project_id: event.projectId,
+    actor_id: event.actorId,
+    action: event.type,
+    before: event.before,
+    after: event.after,
+    details: event.data,
+    request_id: event.requestId,
+  });
@@ -0,0 +1,96 @@
+import { getConfig } from '../config.js';
+import { firstText, postJson, postUpstream, streamJson } from './http.js';
+import { ProviderError } from './types.js';
+import type { CompletionRequest, FinishReason, LlmProvider, Usage } from './types.js';
+
+const readUsage = (raw: unknown): Usage | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const usage = raw as Record<string, unknown>;
+  const inputTokens = Number(usage.promptTokenCount) || 0;
+  const outputTokens = Number(usage.candidatesTokenCount) || 0;
+  return { inputTokens, outputTokens, totalTokens: Number(usage.totalTokenCount) || inputTokens + outputTokens };
+};
+
+const FINISH_REASONS: Record<string, FinishReason> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+};
+
+const firstCandidate = (payload: Record<string, unknown>) =>
+  (Array.isArray(payload.candidates) ? payload.candidates[0] : undefined) as Record<string, unknown> | undefined;
+
+const partsOf = (candidate: Record<string, unknown>) => {
+  const content = candidate.content;
+  return content && typeof content === 'object' ? (content as Record<string, unknown>).parts : undefined;
+};
+
+export const createGeminiProvider = (): LlmProvider => {
+  const label = 'Google AI API';
+  const defaultModel = getConfig().ai.gemini.model;
+
+  const post = (request: CompletionRequest, signal: AbortSignal, stream: boolean) => {
+    const apiKey = getConfig().ai.gemini.apiKey;
+    if (!apiKey) {
+      throw new ProviderError('Gemini is not configured on this server', 503, false);
+    }
+
+    const model = encodeURIComponent(request.model ?? defaultModel);
+    const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+    const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${model}:${method}key=${encodeURIComponent(apiKey)}`;
+    const body = {
+      contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+      ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+      generationConfig: {
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens !== undefined ? { maxOutputTokens: request.maxTokens } : {}),
+        ...(request.json ? { responseMimeType: 'application/json' } : {}),
+      },
+    };
+    return stream
+      ? postUpstream('gemini', label, endpoint, body, {}, signal)
+      : postJson('gemini', label, endpoint, body, {}, signal);
+  };
+
+  return {
+    name: 'gemini',
+    label,
+    defaultModel,
+
+    async complete(request, signal) {
+      const result = (await post(request, signal, false)) as Record<string, unknown>;
+      const text = firstText(result.candidates, partsOf);
+      if (!text) {
+        throw new ProviderError('Unable to parse response from Google AI API', 502, false);
+      }
+      return {
+        text,
+        provider: 'gemini',
+        model: request.model ?? defaultModel,
+        usage: readUsage(result.usageMetadata),
+        finishReason: FINISH_REASONS[String(firstCandidate(result)?.finishReason)] ?? 'other',
+      };
+    },
+
+    // Each streamed chunk is a partial GenerateContentResponse; the last one
+    // carries the finish reason and the usage totals.
+    async *stream(request, signal) {
+      const response = (await post(request, signal, true)) as Response;
+      let usage: Usage | null = null;
+      let finishReason: FinishReason = 'other';
+      for await (const { payload } of streamJson(response, label)) {
+        const candidate = firstCandidate(payload);
+        const parts = candidate ? partsOf(candidate) : undefined;
+        for (const part of Array.isArray(parts) ? parts : []) {
+          const text = (part as Record<string, unknown> | null)?.text;
+          if (typeof text === 'string' && text) yield { type: 'delta', text };
+        }
+        if (candidate?.finishReason) finishReason = FINISH_REASONS[String(candidate.finishReason)] ?? 'other';
+        usage = readUsage(payload.usageMetadata) ?? usage;
+      }
+      yield { type: 'done', usage, finishReason };
+    },
+  };
+};
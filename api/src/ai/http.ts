@@ -0,0 +1,92 @@
+import { logger } from '../lib/logger.js';
+import { measuredFetch } from '../metrics/index.js';
+import type { UpstreamService } from '../metrics/index.js';
+import { readSseEvents } from './sse.js';
+import { ProviderError } from './types.js';
+
+// Shared fetch wrapper for provider APIs: maps network failures, timeouts and
+// non-2xx answers onto ProviderError, and records each call as `service`.
+export const postUpstream = async (
+  service: UpstreamService,
+  label: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+) => {
+  let response: Response;
+  try {
+    response = await measuredFetch(service)(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      throw new ProviderError(`${label} request timed out`, 504, true);
+    }
+    logger.error(`Failed to reach ${label}`, { error });
+    throw new ProviderError(`Failed to reach ${label}`, 502, true);
+  }
+
+  // The upstream body can echo the request or name internal details: it goes to
+  // the log, and clients only learn the status.
+  if (!response.ok) {
+    logger.error(`${label} answered ${response.status}`, { body: await response.text().catch(() => '') });
+    throw new ProviderError(`${label} answered ${response.status}`, 502, response.status >= 500);
+  }
+
+  return response;
+};
+
+export const postJson = async (...args: Parameters<typeof postUpstream>) =>
+  (await (await postUpstream(...args)).json()) as Record<string, unknown>;
+
+// Yields the parsed JSON payload of every event of a streaming response.
+export async function* streamJson(response: Response, label: string) {
+  if (!response.body) {
+    throw new ProviderError(`${label} returned an empty stream`, 502, true);
+  }
+  for await (const { event, data } of readSseEvents(response.body)) {
+    if (data === '[DONE]') return;
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(data) as Record<string, unknown>;
+    } catch {
+      throw new ProviderError(`${label} sent an unreadable stream event`, 502, false);
+    }
+    yield { event, payload };
+  }
+}
+
+// Both APIs nest text parts two levels deep: output[].content[] / candidates[].content.parts[].
+export const firstText = (items: unknown, partsOf: (item: Record<string, unknown>) => unknown) => {
+  if (!Array.isArray(items)) {
+    return undefined;
+  }
+
+  for (const item of items) {
+    if (!item || typeof item !== 'object') {
+      continue;
+    }
+
+    const parts = partsOf(item as Record<string, unknown>);
+    if (!Array.isArray(parts)) {
+      continue;
+    }
+
+    for (const part of parts) {
+      if (!part || typeof part !== 'object') {
+        continue;
+      }
+
+      const text = (part as Record<string, unknown>).text;
+      if (typeof text === 'string' && text.trim().length > 0) {
+        return text.trim();
+      }
+    }
+  }
+
+  return undefined;
+};
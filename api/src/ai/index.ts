@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import { getConfig } from '../config.js';
+import type { UsageOutcome } from '../db/types.js';
+import { ApiError } from '../lib/errors.js';
+import { logger } from '../lib/logger.js';
+import { trimmed } from '../lib/validation.js';
+import { createGeminiProvider } from './gemini.js';
+import { createMockProvider } from './mock.js';
+import { createOpenAIProvider } from './openai.js';
+import { PROVIDER_NAMES, ProviderError } from './types.js';
+import type { CompletionRequest, FinishReason, LlmProvider, ProviderName, Usage } from './types.js';
+import { enforceQuota, recordUsage, UNTRACKED } from './usage.js';
+import type { UsageContext } from './usage.js';
+
+export { PROVIDER_NAMES, ProviderError } from './types.js';
+export type { CompletionRequest, CompletionResult, FinishReason, LlmProvider, ProviderName, Usage } from './types.js';
+export type { UsageContext } from './usage.js';
+
+export interface CompletionOptions {
+  provider?: ProviderName;
+  // Tried in order after `provider` when it fails with a 5xx or times out.
+  fallbacks?: ProviderName[];
+  // Aborts the upstream request, e.g. when the client disconnects. Never falls back.
+  signal?: AbortSignal;
+  // Ledger attribution; also selects the project quota checked before the call.
+  usage?: UsageContext;
+}
+
+export type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; provider: ProviderName; model: string; usage: Usage | null; finishReason: FinishReason };
+
+const MAX_TOKENS_LIMIT = 32_000;
+const MODEL_PATTERN = /^[\w.:-]{1,100}$/;
+
+const factories: Record<ProviderName, () => LlmProvider> = {
+  openai: createOpenAIProvider,
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+const providers = new Map<ProviderName, LlmProvider>();
+
+export const isProviderName = (value: unknown): value is ProviderName =>
+  typeof value === 'string' && (PROVIDER_NAMES as readonly string[]).includes(value);
+
+export const getProvider = (name: ProviderName) => {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = factories[name]();
+    providers.set(name, provider);
+  }
+  return provider;
+};
+
+// Whether a provider has the API key it needs; the mock provider needs none.
+const isConfigured = (name: ProviderName) => {
+  const { openai, gemini } = getConfig().ai;
+  return { openai: openai.apiKey !== null, gemini: gemini.apiKey !== null, mock: true }[name];
+};
+
+// AI_PROVIDER picks the default provider and AI_FALLBACK_PROVIDERS the default
+// chain. Providers without a key are left out, since they could only fail; a
+// chain with none configured answers 503 before anything is checked or recorded.
+const resolveChain = ({ provider, fallbacks }: CompletionOptions) => {
+  const { ai } = getConfig();
+  const requested = [...new Set([provider ?? ai.provider, ...(fallbacks ?? ai.fallbacks)])];
+  const chain = requested.filter(isConfigured);
+  if (chain.length === 0) {
+    throw new ApiError(503, 'integration_unavailable', 'No AI provider of the chain is configured on this server', {
+      details: { providers: requested },
+    });
+  }
+  return chain;
+};
+
+// Provider errors are 502 or 504 upstream failures. Providers also answer 503
+// when called without a key, which resolveChain keeps from happening.
+const PROVIDER_ERROR_CODES = {
+  502: 'upstream_error',
+  503: 'integration_unavailable',
+  504: 'upstream_timeout',
+} as const;
+
+const toApiError = (error: ProviderError) => {
+  const status = error.status as keyof typeof PROVIDER_ERROR_CODES;
+  return new ApiError(status, PROVIDER_ERROR_CODES[status] ?? 'upstream_error', error.message);
+};
+
+// Per-attempt abort signal: fires after `timeoutMs` without progress or when the
+// caller's signal aborts. `dispose` also aborts so abandoned upstream bodies are released.
+const createDeadline = (timeoutMs: number, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timer = setTimeout(abort, timeoutMs);
+  parent?.addEventListener('abort', abort, { once: true });
+  if (parent?.aborted) abort();
+
+  return {
+    signal: controller.signal,
+    refresh() {
+      clearTimeout(timer);
+      timer = setTimeout(abort, timeoutMs);
+    },
+    dispose() {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', abort);
+      abort();
+    },
+  };
+};
+
+// Reading a body after an abort rejects with a DOMException rather than a ProviderError.
+const toProviderError = (error: unknown, provider: LlmProvider, signal: AbortSignal) => {
+  if (error instanceof ProviderError) return error;
+  if (signal.aborted) return new ProviderError(`${provider.label} request timed out`, 504, true);
+  if (error instanceof TypeError) {
+    logger.error(`Failed to reach ${provider.label}`, { error });
+    return new ProviderError(`Failed to reach ${provider.label}`, 502, true);
+  }
+  return undefined;
+};
+
+// An explicit model only makes sense for the provider it was chosen for, which
+// is not in the chain when it has no key.
+const requestFor = (request: CompletionRequest, name: ProviderName, options: CompletionOptions) =>
+  name === (options.provider ?? getConfig().ai.provider) ? request : { ...request, model: undefined };
+
+// Starts the clock for one provider attempt. The returned function writes the
+// ledger entry only once, so the `finally` below cannot overwrite an outcome.
+const trackAttempt = (options: CompletionOptions, provider: LlmProvider, model: string) => {
+  const startedAt = Date.now();
+  let recorded = false;
+  return (outcome: UsageOutcome, usage: Usage | null = null, error?: string) => {
+    if (recorded) return;
+    recorded = true;
+    const latencyMs = Date.now() - startedAt;
+    recordUsage(options.usage ?? UNTRACKED, { provider: provider.name, model, usage, latencyMs, outcome, error });
+  };
+};
+
+const outcomeOf = (failure: ProviderError | undefined, options: CompletionOptions): UsageOutcome => {
+  if (options.signal?.aborted) return 'cancelled';
+  return failure?.status === 504 ? 'timeout' : 'error';
+};
+
+const reportFallback = (chain: ProviderName[], index: number, error: ProviderError) => {
+  const next = chain[index + 1];
+  logger.warn(`AI provider ${chain[index]} failed`, { reason: error.message, fallback: next ?? null });
+};
+
+// Runs `request` against the provider chain, moving on to the next provider when
+// one fails with a retryable error. Other failures (bad key, 4xx) surface directly.
+export const complete = async (request: CompletionRequest, options: CompletionOptions = {}) => {
+  const chain = resolveChain(options);
+  await enforceQuota(options.usage ?? UNTRACKED);
+  let lastError: ProviderError | undefined;
+
+  for (const [index, name] of chain.entries()) {
+    const provider = getProvider(name);
+    const attempt = requestFor(request, name, options);
+    const deadline = createDeadline(getConfig().ai.timeoutMs, options.signal);
+    const track = trackAttempt(options, provider, attempt.model ?? provider.defaultModel);
+    try {
+      const result = await provider.complete(attempt, deadline.signal);
+      track('success', result.usage);
+      return result;
+    } catch (error) {
+      const failure = toProviderError(error, provider, deadline.signal);
+      track(outcomeOf(failure, options), null, failure?.message ?? String(error));
+      if (!failure) throw error;
+      if (!failure.retryable || options.signal?.aborted) throw toApiError(failure);
+      reportFallback(chain, index, failure);
+      lastError = failure;
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  throw toApiError(lastError);
+};
+
+// Streaming counterpart of `complete`. Fallback only happens before the first
+// delta; once text has been relayed a failure ends the stream with an error.
+export async function* streamCompletion(
+  request: CompletionRequest,
+  options: CompletionOptions = {},
+): AsyncGenerator<StreamEvent> {
+  const chain = resolveChain(options);
+  await enforceQuota(options.usage ?? UNTRACKED);
+  let lastError: ProviderError | undefined;
+
+  for (const [index, name] of chain.entries()) {
+    const provider = getProvider(name);
+    const attempt = requestFor(request, name, options);
+    const deadline = createDeadline(getConfig().ai.timeoutMs, options.signal);
+    const track = trackAttempt(options, provider, attempt.model ?? provider.defaultModel);
+    let started = false;
+    try {
+      for await (const chunk of provider.stream(attempt, deadline.signal)) {
+        deadline.refresh();
+        if (chunk.type === 'delta') {
+          started = true;
+          yield chunk;
+        } else {
+          track('success', chunk.usage);
+          yield { ...chunk, provider: name, model: attempt.model ?? provider.defaultModel };
+          return;
+        }
+      }
+      throw new ProviderError(`${provider.label} stream ended unexpectedly`, 502, true);
+    } catch (error) {
+      const failure = toProviderError(error, provider, deadline.signal);
+      track(outcomeOf(failure, options), null, failure?.message ?? String(error));
+      if (!failure) throw error;
+      if (started || !failure.retryable || options.signal?.aborted) throw toApiError(failure);
+      reportFallback(chain, index, failure);
+      lastError = failure;
+    } finally {
+      // Reached without an entry when the consumer stops reading mid-stream.
+      track('cancelled');
+      deadline.dispose();
+    }
+  }
+
+  throw toApiError(lastError);
+}
+
+export const MAX_SYSTEM_LENGTH = 8000;
+
+// Field schemas shared by the AI routes and stored prompt templates.
+export const Provider = z.enum(PROVIDER_NAMES).meta({ id: 'ProviderName' });
+export const Model = z.string().regex(MODEL_PATTERN, 'must be a model identifier');
+export const Temperature = z.number().min(0).max(2);
+export const MaxTokens = z.number().int().min(1).max(MAX_TOKENS_LIMIT);
+
+// The optional {provider, fallbacks, model, system, temperature, maxTokens}
+// fields shared by the AI routes.
+export const ModelOptions = z.object({
+  provider: Provider.optional(),
+  fallbacks: z.array(Provider).optional(),
+  model: Model.optional(),
+  system: z.preprocess(trimmed, z.string().max(MAX_SYSTEM_LENGTH).optional()),
+  temperature: Temperature.optional(),
+  maxTokens: MaxTokens.optional(),
+});
+export type ModelOptions = z.output<typeof ModelOptions>;
+
+// Splits parsed ModelOptions into the provider chain and the request settings,
+// leaving out what was not sent so it cannot override other defaults.
+export const readModelOptions = ({ provider, fallbacks, model, system, temperature, maxTokens }: ModelOptions) => {
+  const defined = <T extends object>(value: T) =>
+    Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+  const options: CompletionOptions = defined({ provider, fallbacks });
+  const settings: Omit<CompletionRequest, 'prompt' | 'json'> = defined({ model, system, temperature, maxTokens });
+  return { options, settings };
+};
@@ -0,0 +1,75 @@
+import { ProviderError } from './types.js';
+import type { CompletionRequest, LlmProvider, Usage } from './types.js';
+
+// Picks the page list out of the site generation prompt so offline runs of
+// POST /projects/:id/generate produce the requested pages.
+const PAGE_LIST_PATTERN = /these pages, in this order: (.+)\.$/m;
+
+const mockSite = (prompt: string) => {
+  const titles = PAGE_LIST_PATTERN.exec(prompt)?.[1].split(', ') ?? ['Home'];
+  return JSON.stringify({
+    pages: titles.map((title, index) => ({
+      title,
+      sections: [
+        index === 0
+          ? { type: 'hero', data: { heading: title, subheading: 'Generated offline by the mock provider.' } }
+          : { type: 'rich_text', data: { heading: title, body: `Placeholder content for ${title}.` } },
+        {
+          type: 'call_to_action',
+          data: { heading: 'Get in touch', buttonLabel: 'Contact us', buttonHref: '/contact' },
+        },
+      ],
+    })),
+  });
+};
+
+const mockText = ({ prompt, system }: CompletionRequest) =>
+  `Mock completion for: ${prompt.slice(0, 200)}${system ? ` (system: ${system.slice(0, 80)})` : ''}`;
+
+// Whitespace-separated words stand in for tokens.
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const mockUsage = (request: CompletionRequest, text: string): Usage => {
+  const inputTokens = countWords(`${request.system ?? ''} ${request.prompt}`);
+  const outputTokens = countWords(text);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+};
+
+// Deterministic provider for tests and offline development; no network, no key.
+// The models "mock-error" and "mock-timeout" simulate an upstream 5xx and a hang.
+export const createMockProvider = (): LlmProvider => {
+  const defaultModel = 'mock-1';
+
+  // Resolves the canned answer, honouring the simulated failure models.
+  const answer = async (request: CompletionRequest, signal: AbortSignal) => {
+    const model = request.model ?? defaultModel;
+    if (model === 'mock-error') {
+      throw new ProviderError('Mock provider error: simulated upstream failure', 502, true);
+    }
+    if (model === 'mock-timeout') {
+      await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }));
+      throw new ProviderError('Mock provider request timed out', 504, true);
+    }
+    return { model, text: request.json ? mockSite(request.prompt) : mockText(request) };
+  };
+
+  return {
+    name: 'mock',
+    label: 'Mock provider',
+    defaultModel,
+
+    async complete(request, signal) {
+      const { model, text } = await answer(request, signal);
+      return { text, provider: 'mock', model, usage: mockUsage(request, text), finishReason: 'stop' };
+    },
+
+    async *stream(request, signal) {
+      const { text } = await answer(request, signal);
+      for (const word of text.match(/\S+\s*/g) ?? []) {
+        if (signal.aborted) return;
+        yield { type: 'delta', text: word };
+      }
+      yield { type: 'done', usage: mockUsage(request, text), finishReason: 'stop' };
+    },
+  };
+};
@@ -0,0 +1,91 @@
+import { getConfig } from '../config.js';
+import { logger } from '../lib/logger.js';
+import { firstText, postJson, postUpstream, streamJson } from './http.js';
+import { ProviderError } from './types.js';
+import type { CompletionRequest, FinishReason, LlmProvider, Usage } from './types.js';
+
+const ENDPOINT = 'https://api.openai.com/v1/responses';
+
+const readUsage = (raw: unknown): Usage | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const usage = raw as Record<string, unknown>;
+  const inputTokens = Number(usage.input_tokens) || 0;
+  const outputTokens = Number(usage.output_tokens) || 0;
+  return { inputTokens, outputTokens, totalTokens: Number(usage.total_tokens) || inputTokens + outputTokens };
+};
+
+const readFinishReason = (response: Record<string, unknown>): FinishReason => {
+  if (response.status === 'completed') return 'stop';
+  const details = response.incomplete_details as Record<string, unknown> | null | undefined;
+  if (details?.reason === 'max_output_tokens') return 'length';
+  if (details?.reason === 'content_filter') return 'content_filter';
+  return 'other';
+};
+
+export const createOpenAIProvider = (): LlmProvider => {
+  const label = 'OpenAI API';
+  const defaultModel = getConfig().ai.openai.model;
+
+  const post = (request: CompletionRequest, signal: AbortSignal, stream: boolean) => {
+    const apiKey = getConfig().ai.openai.apiKey;
+    if (!apiKey) {
+      throw new ProviderError('OpenAI is not configured on this server', 503, false);
+    }
+
+    const body = {
+      model: request.model ?? defaultModel,
+      input: request.prompt,
+      ...(stream ? { stream: true } : {}),
+      ...(request.system ? { instructions: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens !== undefined ? { max_output_tokens: request.maxTokens } : {}),
+      ...(request.json ? { text: { format: { type: 'json_object' } } } : {}),
+    };
+    const headers = { Authorization: `Bearer ${apiKey}` };
+    return stream
+      ? postUpstream('openai', label, ENDPOINT, body, headers, signal)
+      : postJson('openai', label, ENDPOINT, body, headers, signal);
+  };
+
+  return {
+    name: 'openai',
+    label,
+    defaultModel,
+
+    async complete(request, signal) {
+      const result = (await post(request, signal, false)) as Record<string, unknown>;
+      const text = firstText(result.output, (item) => item.content);
+      if (!text) {
+        throw new ProviderError('Unable to parse response from OpenAI', 502, false);
+      }
+      return {
+        text,
+        provider: 'openai',
+        model: request.model ?? defaultModel,
+        usage: readUsage(result.usage),
+        finishReason: readFinishReason(result),
+      };
+    },
+
+    async *stream(request, signal) {
+      const response = (await post(request, signal, true)) as Response;
+      for await (const { payload } of streamJson(response, label)) {
+        if (payload.type === 'response.output_text.delta' && typeof payload.delta === 'string') {
+          yield { type: 'delta', text: payload.delta };
+        } else if (payload.type === 'response.completed' || payload.type === 'response.incomplete') {
+          const final = (payload.response ?? {}) as Record<string, unknown>;
+          yield { type: 'done', usage: readUsage(final.usage), finishReason: readFinishReason(final) };
+          return;
+        } else if (payload.type === 'response.failed' || payload.type === 'error') {
+          const failure = ((payload.response as Record<string, unknown> | undefined)?.error ?? payload) as Record<
+            string,
+            unknown
+          >;
+          logger.error('OpenAI API stream failed', { failure });
+          throw new ProviderError('OpenAI API stream failed', 502, true);
+        }
+      }
+      throw new ProviderError('OpenAI API stream ended unexpectedly', 502, true);
+    },
+  };
+};
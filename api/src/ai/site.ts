@@ -0,0 +1,45 @@
+import { HTTPException } from 'hono/http-exception';
+import {
+  buildRepairPrompt,
+  buildSitePrompt,
+  parseSiteJson,
+  SITE_INSTRUCTIONS,
+  validateGeneratedSite,
+} from '../domain/generation.js';
+import type { SiteBrief } from '../domain/generation.js';
+import { complete } from './index.js';
+import type { CompletionOptions, CompletionRequest } from './index.js';
+
+type SiteModelSettings = Pick<CompletionRequest, 'model' | 'temperature' | 'maxTokens'>;
+
+// Asks the model for a site structure. When the first answer does not validate,
+// the errors are sent back once for a repair; whatever still fails is dropped and
+// reported as warnings.
+export const generateSite = async (
+  brief: SiteBrief,
+  settings: SiteModelSettings = {},
+  options: CompletionOptions = {},
+) => {
+  const ask = (prompt: string) => complete({ ...settings, system: SITE_INSTRUCTIONS, prompt, json: true }, options);
+
+  const first = await ask(buildSitePrompt(brief));
+  let result = validateGeneratedSite(parseSiteJson(first.text));
+  let { provider, model } = first;
+  let repaired = false;
+
+  if (result.errors.length > 0) {
+    const retry = await ask(buildRepairPrompt(first.text, result.errors));
+    const retryResult = validateGeneratedSite(parseSiteJson(retry.text));
+    if (retryResult.site.length > 0) {
+      result = retryResult;
+      ({ provider, model } = retry);
+      repaired = true;
+    }
+  }
+
+  if (result.site.length === 0) {
+    throw new HTTPException(502, { message: 'Model did not return a usable site structure' });
+  }
+
+  return { site: result.site, warnings: result.errors, repaired, provider, model };
+};
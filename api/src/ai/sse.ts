@@ -0,0 +1,43 @@
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+// Splits an upstream text/event-stream body into events. Only the `event` and
+// `data` fields are used by the provider APIs; comments and ids are ignored.
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : (lines.pop() ?? '');
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = 'message';
+          data = [];
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        if (data.length > 0) yield { event, data: data.join('\n') };
+        return;
+      }
+    }
+  } finally {
+    // Also runs when the consumer stops early; cancelling releases the upstream connection.
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,54 @@
+export const PROVIDER_NAMES = ['openai', 'gemini', 'mock'] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export interface CompletionRequest {
+  prompt: string;
+  system?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object instead of free text.
+  json?: boolean;
+}
+
+export interface Usage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// Normalised across providers: "stop", "length" (max tokens hit), "content_filter" or "other".
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'other';
+
+export interface CompletionResult {
+  text: string;
+  provider: ProviderName;
+  model: string;
+  usage: Usage | null;
+  finishReason: FinishReason;
+}
+
+export type StreamChunk =
+  { type: 'delta'; text: string } | { type: 'done'; usage: Usage | null; finishReason: FinishReason };
+
+export interface LlmProvider {
+  name: ProviderName;
+  label: string;
+  defaultModel: string;
+  complete(request: CompletionRequest, signal: AbortSignal): Promise<CompletionResult>;
+  // Yields text deltas and ends with exactly one "done" chunk.
+  stream(request: CompletionRequest, signal: AbortSignal): AsyncGenerator<StreamChunk>;
+}
+
+// Raised by providers for upstream failures. `retryable` failures (5xx, timeouts,
+// network errors) move on to the next provider of the fallback chain.
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
@@ -0,0 +1,126 @@
+import { getConfig } from '../config.js';
+import { getRepositories } from '../db/index.js';
+import type { UsageOutcome } from '../db/types.js';
+import { ApiError } from '../lib/errors.js';
+import { logger } from '../lib/logger.js';
+import type { ProviderName, Usage } from './types.js';
+
+// Who a model call is billed to: `route` names the feature that made it
+// (e.g. "ai.complete", "generate", "prompts.run").
+export interface UsageContext {
+  projectId: number | null;
+  route: string;
+}
+
+export interface UsageEntry {
+  provider: ProviderName;
+  model: string;
+  usage: Usage | null;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  error?: string;
+}
+
+export interface QuotaStatus {
+  project_id: number;
+  monthly_tokens: number | null;
+  used_tokens: number;
+  remaining_tokens: number | null;
+  // true when monthly_tokens comes from a per-project override rather than AI_MONTHLY_TOKEN_QUOTA.
+  override: boolean;
+  resets_at: string;
+}
+
+export const UNTRACKED: UsageContext = { projectId: null, route: 'other' };
+
+// Ledger writes never fail the call they describe.
+export const recordUsage = (context: UsageContext, entry: UsageEntry) => {
+  const { usage } = getRepositories();
+  usage
+    .record({
+      project_id: context.projectId,
+      route: context.route,
+      provider: entry.provider,
+      model: entry.model,
+      input_tokens: entry.usage?.inputTokens ?? 0,
+      output_tokens: entry.usage?.outputTokens ?? 0,
+      total_tokens: entry.usage?.totalTokens ?? 0,
+      latency_ms: Math.round(entry.latencyMs),
+      outcome: entry.outcome,
+      error: entry.error?.slice(0, 1000) ?? null,
+    })
+    .catch((error) => logger.error('Failed to record AI usage', { error }));
+};
+
+// Quotas count calendar months in UTC.
+export const monthWindow = (now = new Date()) => ({
+  start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+  end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+});
+
+// Null means unlimited.
+export const readQuotaLimits = () => getConfig().ai.quotas;
+
+export const getQuotaStatus = async (projectId: number, now = new Date()): Promise<QuotaStatus> => {
+  const { usage } = getRepositories();
+  const { start, end } = monthWindow(now);
+  const [override, used] = await Promise.all([
+    usage.getQuota(projectId),
+    usage.tokensSince(start.toISOString(), projectId),
+  ]);
+  const limit = override ? override.monthly_tokens : readQuotaLimits().projectMonthlyTokens;
+  return {
+    project_id: projectId,
+    monthly_tokens: limit,
+    used_tokens: used,
+    remaining_tokens: limit === null ? null : Math.max(limit - used, 0),
+    override: override !== null,
+    resets_at: end.toISOString(),
+  };
+};
+
+const formatTokens = (value: number) => value.toLocaleString('en-US');
+
+// Checked before each call, so the request that crosses a limit still completes.
+// A project over its own quota gets 402 (raise the quota or wait for the reset);
+// the instance-wide AI_GLOBAL_MONTHLY_TOKEN_QUOTA answers 429 with Retry-After.
+export const enforceQuota = async (context: UsageContext) => {
+  const now = new Date();
+  const { start, end } = monthWindow(now);
+
+  if (context.projectId !== null) {
+    const status = await getQuotaStatus(context.projectId, now);
+    if (status.remaining_tokens === 0) {
+      throw new ApiError(
+        402,
+        'quota_exceeded',
+        `Monthly AI token quota exceeded for project ${context.projectId}: ${formatTokens(status.used_tokens)} of ${formatTokens(status.monthly_tokens)} tokens used; resets ${status.resets_at.slice(0, 10)}`,
+        {
+          details: {
+            scope: 'project',
+            usedTokens: status.used_tokens,
+            monthlyTokens: status.monthly_tokens,
+            resetsAt: status.resets_at,
+          },
+        },
+      );
+    }
+  }
+
+  const globalLimit = readQuotaLimits().globalMonthlyTokens;
+  if (globalLimit !== null) {
+    const used = await getRepositories().usage.tokensSince(start.toISOString());
+    if (used >= globalLimit) {
+      const retryAfter = Math.ceil((end.getTime() - now.getTime()) / 1000);
+      throw new ApiError(
+        429,
+        'quota_exceeded',
+        `Monthly AI token quota for this service exhausted (${formatTokens(globalLimit)} tokens); resets ${end.toISOString().slice(0, 10)}`,
+        {
+          details: { scope: 'service', monthlyTokens: globalLimit, resetsAt: end.toISOString(), retryAfter },
+          headers: { 'Retry-After': String(retryAfter) },
+        },
+      );
+    }
+  }
+};
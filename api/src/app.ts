@@ -0,0 +1,205 @@
+import { timingSafeEqual } from 'node:crypto';
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { authenticate, currentUser, requireUser } from './auth/index.js';
+import { getConfig } from './config.js';
+import { checkReadiness } from './health/index.js';
+import activity from './routes/activity.js';
+import ai from './routes/ai.js';
+import assets from './routes/assets.js';
+import files from './routes/files.js';
+import generate from './routes/generate.js';
+import invitations from './routes/invitations.js';
+import members from './routes/members.js';
+import pages from './routes/pages.js';
+import projects from './routes/projects.js';
+import prompts from './routes/prompts.js';
+import revisions from './routes/revisions.js';
+import usage from './routes/usage.js';
+import webhooks from './routes/webhooks.js';
+import { getRepositories } from './db/index.js';
+import { requestId } from './lib/context.js';
+import { ApiError, errorResponse } from './lib/errors.js';
+import { accessLog } from './lib/logger.js';
+import { validate } from './lib/validation.js';
+import { cachedJson, cacheKey, normaliseQueryText } from './cache/index.js';
+import { searchPexels } from './media/pexels.js';
+import { measureRequests, registry } from './metrics/index.js';
+import { buildOpenApiDocument, routeDocs } from './openapi/index.js';
+import { rateLimit } from './ratelimit/index.js';
+import { Readiness } from './schemas/health.js';
+import { PexelsQuery, PexelsSearchResult } from './schemas/media.js';
+import { SearchQuery, SearchResult } from './schemas/search.js';
+import { searchProjects } from './search/index.js';
+
+// The HTTP API without a listener or background work, so scripts can inspect
+// its routes; src/server.ts serves it.
+
+// Bumped with breaking changes to the contract served at /openapi.json.
+const API_VERSION = '1.0.0';
+
+const docs = routeDocs('Service');
+
+const matchesToken = (given: string, expected: string) => {
+  const [a, b] = [Buffer.from(given), Buffer.from(expected)];
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+const app = new Hono();
+
+app.use('*', async (c, next) => {
+  c.res.headers.set('Access-Control-Allow-Origin', getConfig().corsOrigin);
+  c.res.headers.set('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
+  c.res.headers.set('Access-Control-Allow-Headers', 'Content-Type,Authorization,If-None-Match,X-Request-Id');
+  c.res.headers.set(
+    'Access-Control-Expose-Headers',
+    'RateLimit-Limit,RateLimit-Remaining,RateLimit-Reset,RateLimit-Policy,Retry-After,Content-Disposition,X-Export-Skipped-Assets,ETag,x-cache,X-Request-Id',
+  );
+  c.res.headers.append('Vary', 'Origin');
+
+  if (c.req.method === 'OPTIONS') {
+    return c.body(null, 204);
+  }
+
+  return next();
+});
+
+// Every failure, thrown or unrouted, answers with the error envelope of src/lib/errors.ts.
+app.onError((err, c) => errorResponse(c, err));
+app.notFound((c) => errorResponse(c, new ApiError(404, 'not_found', `no route for ${c.req.method} ${c.req.path}`)));
+
+app.use('*', requestId());
+app.use('*', accessLog());
+app.use('*', measureRequests());
+
+// GET /metrics in the Prometheus text format. Registered ahead of authentication:
+// scrapers send METRICS_TOKEN, when set, as their bearer token rather than a JWT.
+app.get(
+  '/metrics',
+  docs({
+    summary: 'Get Prometheus metrics',
+    description: 'Needs `Authorization: Bearer <METRICS_TOKEN>` when METRICS_TOKEN is set.',
+    public: true,
+    responses: {
+      200: { description: 'Metrics', content: { 'text/plain': z.string() } },
+      401: 'Missing or wrong token',
+    },
+  }),
+  async (c) => {
+    const token = getConfig().metricsToken;
+    if (token && !matchesToken(c.req.header('authorization') ?? '', `Bearer ${token}`)) {
+      throw new ApiError(401, 'unauthorized', 'metrics token required', { headers: { 'WWW-Authenticate': 'Bearer' } });
+    }
+    c.header('Content-Type', registry.contentType);
+    return c.body(await registry.metrics());
+  },
+);
+
+// Authentication runs first so the rate limiter can key signed-in users by id.
+app.use('*', authenticate());
+// Per-route limits live in src/ratelimit/policies.ts.
+app.use('*', rateLimit());
+for (const path of [
+  '/projects/*',
+  '/invitations/*',
+  '/ai/*',
+  '/usage/*',
+  '/activity',
+  '/activity/*',
+  '/webhooks',
+  '/webhooks/*',
+  '/search',
+])
+  app.use(path, requireUser());
+
+app.get(
+  '/health',
+  docs({ summary: 'Check that the API is up', public: true, responses: { 200: z.object({ ok: z.boolean() }) } }),
+  (c) => c.json({ ok: true }),
+);
+
+// GET /ready for load balancers and deploys: 503 until the database answers.
+// Integrations are reported but never make the API unready.
+app.get(
+  '/ready',
+  docs({
+    summary: 'Check the database and configured integrations',
+    description: 'Every check reports its status and how long it took; unconfigured integrations are `disabled`.',
+    public: true,
+    responses: { 200: Readiness, 503: Readiness },
+  }),
+  async (c) => {
+    const readiness = await checkReadiness();
+    return c.json(readiness, readiness.ready ? 200 : 503);
+  },
+);
+
+app.route('/projects', projects);
+app.route('/projects/:projectId/pages', pages);
+app.route('/projects/:projectId/generate', generate);
+app.route('/projects/:projectId/prompts', prompts);
+app.route('/projects/:projectId/assets', assets);
+app.route('/projects/:projectId/activity', activity);
+app.route('/projects/:projectId/revisions', revisions);
+app.route('/projects/:projectId/webhooks', webhooks);
+app.route('/projects/:projectId', members);
+app.route('/invitations', invitations);
+
+app.route('/files', files);
+app.route('/ai', ai);
+app.route('/usage', usage);
+app.route('/activity', activity);
+app.route('/webhooks', webhooks);
+
+// GET /search?q= over the caller's projects and pages (see src/search).
+app.get(
+  '/search',
+  docs({ summary: "Search the caller's projects and pages", responses: { 200: SearchResult, 304: null } }),
+  validate('query', SearchQuery),
+  async (c) => {
+    // Upstream gets the normalised text too, so every variant sharing a cache entry gets the same answer.
+    const text = normaliseQueryText(c.req.valid('query').q);
+    const projectIds = await getRepositories().members.projectIds(currentUser(c).id);
+    const key = cacheKey({ q: text, projects: projectIds.join(',') });
+    return cachedJson(c, 'search', key, () => searchProjects(text, projectIds));
+  },
+);
+
+// GET /media/pexels?query=&page=&per_page=
+app.get(
+  '/media/pexels',
+  docs({
+    summary: 'Search Pexels photos',
+    public: true,
+    responses: { 200: PexelsSearchResult, 304: null },
+  }),
+  validate('query', PexelsQuery),
+  async (c) => {
+    const { query, page, per_page: perPage } = c.req.valid('query');
+    const text = normaliseQueryText(query);
+    return cachedJson(c, 'media', cacheKey({ query: text, page, per_page: perPage }), () =>
+      searchPexels(text, page, perPage),
+    );
+  },
+);
+
+// GET /openapi.json: this API's contract, built from the routes above.
+let served: Record<string, unknown> | undefined;
+app.get(
+  '/openapi.json',
+  docs({
+    summary: 'Get this OpenAPI document',
+    public: true,
+    responses: { 200: z.record(z.string(), z.unknown()) },
+  }),
+  (c) => c.json((served ??= openApiDocument())),
+);
+
+export const openApiDocument = () =>
+  buildOpenApiDocument(app, {
+    title: 'Sitef API',
+    version: API_VERSION,
+    description: 'Projects, pages and sections of Sitef sites, with AI generation, media and collaboration.',
+  });
+
+export default app;
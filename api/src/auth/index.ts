@@ -0,0 +1,82 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { createRemoteJWKSet, jwtVerify } from 'jose';
+import type { JWTPayload, JWTVerifyOptions } from 'jose';
+import { getConfig } from '../config.js';
+import { ApiError } from '../lib/errors.js';
+
+export interface AuthUser {
+  // The token's `sub`; a Supabase Auth user id.
+  id: string;
+  email: string | null;
+  // Listed in ADMIN_USER_IDS.
+  admin: boolean;
+}
+
+let verify: ((token: string) => Promise<JWTPayload>) | null = null;
+
+// JWT_JWKS_URL verifies asymmetric tokens against a key set (Supabase:
+// <SUPABASE_URL>/auth/v1/.well-known/jwks.json); JWT_SECRET verifies HS256
+// tokens (Supabase's legacy JWT secret, or tokens from `npm run token`).
+const getVerifier = () => {
+  if (verify) return verify;
+  const { issuer, audience, jwksUrl, secret } = getConfig().auth;
+  const options: JWTVerifyOptions = { issuer, audience };
+
+  if (jwksUrl) {
+    const keys = createRemoteJWKSet(new URL(jwksUrl));
+    verify = async (token) => (await jwtVerify(token, keys, options)).payload;
+  } else if (secret) {
+    const key = new TextEncoder().encode(secret);
+    verify = async (token) => (await jwtVerify(token, key, { ...options, algorithms: ['HS256'] })).payload;
+  } else {
+    throw new Error('Authentication is not configured: set JWT_SECRET or JWT_JWKS_URL');
+  }
+  return verify;
+};
+
+const unauthorized = (message: string) =>
+  new ApiError(401, 'unauthorized', message, { headers: { 'WWW-Authenticate': 'Bearer' } });
+
+// Resolves the bearer token, if any, into `c.get('user')`. Requests without a
+// token pass through anonymously; a malformed, expired or forged token is a 401.
+export const authenticate = (): MiddlewareHandler => async (c, next) => {
+  const header = c.req.header('authorization');
+  if (!header) return next();
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) throw unauthorized('expected a bearer token');
+
+  let payload: JWTPayload;
+  try {
+    payload = await getVerifier()(token);
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Authentication is not configured')) throw error;
+    throw unauthorized('invalid or expired token');
+  }
+  if (!payload.sub) throw unauthorized('token has no subject');
+
+  c.set('user', {
+    id: payload.sub,
+    email: typeof payload.email === 'string' ? payload.email : null,
+    admin: getConfig().auth.adminIds.has(payload.sub),
+  });
+  await next();
+};
+
+// The signed-in user, or a 401 for anonymous requests.
+export const currentUser = (c: Context) => {
+  const user = c.get('user');
+  if (!user) throw unauthorized('authentication required');
+  return user;
+};
+
+export const requireUser = (): MiddlewareHandler => async (c, next) => {
+  currentUser(c);
+  await next();
+};
+
+export const requireAdmin = (): MiddlewareHandler => async (c, next) => {
+  if (!currentUser(c).admin) throw new HTTPException(403, { message: 'admin access required' });
+  await next();
+};
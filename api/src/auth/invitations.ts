@@ -0,0 +1,13 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { getConfig } from '../config.js';
+import { INVITATION_TTL_DAYS } from '../domain/members.js';
+
+// Invitation tokens are shown once, in the accept link; only their hash is stored.
+export const createInvitationToken = () => randomBytes(32).toString('base64url');
+
+export const hashInvitationToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const invitationExpiry = (now = new Date()) =>
+  new Date(now.getTime() + INVITATION_TTL_DAYS * 86_400_000).toISOString();
+
+export const invitationUrl = (token: string) => `${getConfig().appUrl}/#/invitations/${token}`;
@@ -0,0 +1,31 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { getRepositories } from '../db/index.js';
+import { hasRole, type ProjectRole } from '../domain/members.js';
+import { currentUser } from './index.js';
+
+export interface ProjectAccess {
+  // Role the caller needs; viewer (any member) when omitted.
+  role?: ProjectRole;
+  includeDeleted?: boolean;
+}
+
+// Loads a project the signed-in user is a member of, along with their role.
+// Non-members get 404 like a missing project, so ids cannot be probed; members
+// without the required role get 403.
+export const requireProject = async (c: Context, projectId: number, options: ProjectAccess = {}) => {
+  const user = currentUser(c);
+  const { projects, members } = getRepositories();
+  const [project, member] = await Promise.all([
+    projects.get(projectId, { includeDeleted: options.includeDeleted }),
+    members.get(projectId, user.id),
+  ]);
+  if (!project || !member) throw new HTTPException(404, { message: 'project not found' });
+  const required = options.role ?? 'viewer';
+  if (!hasRole(member.role, required)) throw new HTTPException(403, { message: `requires ${required} role` });
+  return { ...project, role: member.role };
+};
+
+// Reads are open to every member; anything else changes content.
+export const roleForMethod = (method: string): ProjectRole =>
+  method === 'GET' || method === 'HEAD' ? 'viewer' : 'editor';
@@ -0,0 +1,120 @@
+import { createHash } from 'node:crypto';
+import type { Context } from 'hono';
+import { getConfig } from '../config.js';
+import { createLruCache } from './lru.js';
+
+// In-memory cache for upstream lookups (Azure AI Search, Pexels). Entries are
+// serialised JSON bodies keyed by normalised query params. Concurrent misses
+// for the same key share one upstream call, and failures are never stored.
+export type CacheName = 'search' | 'media';
+
+// Seconds; overridden by CACHE_TTL_SEARCH / CACHE_TTL_MEDIA, where 0 turns
+// storage off but keeps coalescing.
+const DEFAULT_TTL_SECONDS: Record<CacheName, number> = { search: 60, media: 300 };
+// Search results depend on the caller's projects, so only the browser may keep them.
+const VISIBILITY: Record<CacheName, 'public' | 'private'> = { search: 'private', media: 'public' };
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+
+export interface CachedBody {
+  body: string;
+  etag: string;
+  expiresAt: number;
+}
+
+export interface CacheResult extends CachedBody {
+  hit: boolean;
+}
+
+export interface ResponseCache {
+  readonly ttlMs: number;
+  load(key: string, loader: () => Promise<unknown>): Promise<CacheResult>;
+  clear(): void;
+}
+
+// Lowercases and collapses whitespace so "Red  Car" and "red car" share an entry.
+export const normaliseQueryText = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Stable key regardless of the order the params arrive in.
+export const cacheKey = (params: Record<string, string | number>) =>
+  Object.keys(params)
+    .sort()
+    .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(String(params[name]))}`)
+    .join('&');
+
+export const createResponseCache = (
+  ttlSeconds: number,
+  { maxEntries = DEFAULT_MAX_ENTRIES, maxBytes = DEFAULT_MAX_BYTES } = {},
+): ResponseCache => {
+  const ttlMs = ttlSeconds * 1000;
+  const entries = createLruCache<CachedBody>({ maxEntries, maxSize: maxBytes });
+  const inFlight = new Map<string, Promise<CachedBody>>();
+
+  const fetchEntry = async (key: string, loader: () => Promise<unknown>) => {
+    try {
+      const body = JSON.stringify(await loader());
+      const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+      const now = Date.now();
+      const entry = { body, etag, expiresAt: now + ttlMs };
+      if (ttlMs > 0) entries.set(key, entry, Buffer.byteLength(body), entry.expiresAt, now);
+      return entry;
+    } finally {
+      inFlight.delete(key);
+    }
+  };
+
+  return {
+    ttlMs,
+
+    async load(key, loader) {
+      const cached = entries.get(key, Date.now());
+      if (cached) return { ...cached, hit: true };
+
+      let pending = inFlight.get(key);
+      if (!pending) {
+        pending = fetchEntry(key, loader);
+        inFlight.set(key, pending);
+      }
+      return { ...(await pending), hit: false };
+    },
+
+    clear: () => entries.clear(),
+  };
+};
+
+const caches = new Map<CacheName, ResponseCache>();
+
+export const getResponseCache = (name: CacheName) => {
+  let cache = caches.get(name);
+  if (!cache) {
+    const { ttlSeconds, maxEntries, maxBytes } = getConfig().cache;
+    cache = createResponseCache(ttlSeconds[name] ?? DEFAULT_TTL_SECONDS[name], { maxEntries, maxBytes });
+    caches.set(name, cache);
+  }
+  return cache;
+};
+
+const matchesEtag = (header: string | undefined, etag: string) =>
+  header !== undefined &&
+  header.split(',').some((candidate) => {
+    const value = candidate.trim();
+    return value === '*' || value.replace(/^W\//, '') === etag;
+  });
+
+// Serves `loader`'s result through the named cache with ETag, Cache-Control and
+// x-cache (hit|miss) headers, answering If-None-Match with 304.
+export const cachedJson = async (c: Context, name: CacheName, key: string, loader: () => Promise<unknown>) => {
+  const cache = getResponseCache(name);
+  const result = await cache.load(key, loader);
+  const maxAge = Math.max(0, Math.floor((result.expiresAt - Date.now()) / 1000));
+  const headers = {
+    ETag: result.etag,
+    'Cache-Control': cache.ttlMs > 0 ? `${VISIBILITY[name]}, max-age=${maxAge}` : 'no-cache',
+    'x-cache': result.hit ? 'hit' : 'miss',
+  };
+
+  if (matchesEtag(c.req.header('If-None-Match'), result.etag)) {
+    return c.body(null, 304, headers);
+  }
+  return c.body(result.body, 200, { ...headers, 'Content-Type': 'application/json; charset=UTF-8' });
+};
@@ -0,0 +1,68 @@
+interface Entry<V> {
+  value: V;
+  size: number;
+  expiresAt: number;
+}
+
+export interface LruCache<V> {
+  get(key: string, now: number): V | undefined;
+  set(key: string, value: V, size: number, expiresAt: number, now: number): void;
+  delete(key: string): void;
+  clear(): void;
+}
+
+// Bounded by entry count and by the summed `size` of the entries (e.g. body
+// bytes). Expired entries are dropped when read or when room is needed; after
+// that the least recently used go first.
+export const createLruCache = <V>({ maxEntries, maxSize }: { maxEntries: number; maxSize: number }): LruCache<V> => {
+  const entries = new Map<string, Entry<V>>();
+  let totalSize = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalSize -= entry.size;
+  };
+
+  const evict = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) remove(key);
+    }
+    for (const key of entries.keys()) {
+      if (entries.size <= maxEntries && totalSize <= maxSize) break;
+      remove(key);
+    }
+  };
+
+  return {
+    get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now) {
+        remove(key);
+        return undefined;
+      }
+      // Re-inserting keeps the Map in least-recently-used order.
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value, size, expiresAt, now) {
+      // Anything larger than the whole budget would only evict everything else.
+      if (size > maxSize) return;
+      remove(key);
+      entries.set(key, { value, size, expiresAt });
+      totalSize += size;
+      if (entries.size > maxEntries || totalSize > maxSize) evict(now);
+    },
+
+    delete: remove,
+
+    clear() {
+      entries.clear();
+      totalSize = 0;
+    },
+  };
+};
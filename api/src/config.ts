@@ -0,0 +1,261 @@
+import { isIP } from 'node:net';
+import { z } from 'zod';
+import { PROVIDER_NAMES } from './ai/types.js';
+import type { CacheName } from './cache/index.js';
+import { fieldPath, trimmed } from './lib/validation.js';
+import type { PolicyName } from './ratelimit/policies.js';
+
+// Every setting of the API, read from the environment (see .env.example) and
+// checked in one pass, so a bad deploy reports all of its problems at boot
+// instead of one per request. Modules read getConfig(), never process.env.
+// Blank variables count as unset.
+
+// A variable parsed by `schema` once trimmed.
+const variable = <T extends z.ZodType>(schema: T) => z.preprocess(trimmed, schema);
+const text = () => variable(z.string().optional());
+const url = () =>
+  variable(
+    z
+      .url({ protocol: /^https?$/, error: 'must be an http(s) URL' })
+      .transform((value) => value.replace(/\/$/, ''))
+      .optional(),
+  );
+const integer = (min: number) => z.coerce.number().int().min(min);
+const list = <T extends z.ZodType>(item: T) =>
+  z.preprocess(
+    (value) =>
+      typeof value === 'string'
+        ? value
+            .split(',')
+            .map((entry) => entry.trim())
+            .filter(Boolean)
+        : [],
+    z.array(item),
+  );
+// Empty or 0 means unlimited.
+const quota = () => variable(integer(0).optional()).transform((value) => value || null);
+
+// <requests>/<seconds>, e.g. 10/60.
+const RATE = /^([1-9]\d*)\s*\/\s*([1-9]\d*)$/;
+const rate = () =>
+  variable(
+    z
+      .string()
+      .regex(RATE, 'must look like <requests>/<seconds>, e.g. 10/60')
+      .transform((value) => {
+        const [, limit, windowSeconds] = RATE.exec(value) ?? [];
+        return { limit: Number(limit), windowSeconds: Number(windowSeconds) };
+      })
+      .optional(),
+  );
+
+// An address or CIDR range such as 10.0.0.0/8.
+const isProxyEntry = (entry: string) => {
+  const [address, prefix] = entry.split('/');
+  const family = isIP(address);
+  if (!family) return false;
+  return prefix === undefined || (/^\d+$/.test(prefix) && Number(prefix) <= (family === 6 ? 128 : 32));
+};
+
+const Env = z.object({
+  PORT: variable(integer(1).default(3000)),
+  CORS_ORIGIN: variable(z.string().default('*')),
+  APP_URL: url().transform((value) => value ?? 'http://localhost:5173'),
+  PUBLIC_API_URL: url(),
+  METRICS_TOKEN: text(),
+
+  JWT_SECRET: text(),
+  JWT_JWKS_URL: url(),
+  JWT_ISSUER: text(),
+  JWT_AUDIENCE: text(),
+  ADMIN_USER_IDS: list(z.string()),
+
+  TRUSTED_PROXIES: list(z.string().refine(isProxyEntry, 'must list addresses or CIDR ranges')),
+  RATE_LIMIT_STORE: variable(z.enum(['memory', 'database']).default('memory')),
+  RATE_LIMIT_MAX_KEYS: variable(integer(1).optional()),
+  RATE_LIMIT_AI: rate(),
+  RATE_LIMIT_SEARCH: rate(),
+  RATE_LIMIT_MEDIA: rate(),
+  RATE_LIMIT_PROJECTS: rate(),
+
+  CACHE_TTL_SEARCH: variable(z.coerce.number().min(0).optional()),
+  CACHE_TTL_MEDIA: variable(z.coerce.number().min(0).optional()),
+  CACHE_MAX_ENTRIES: variable(integer(1).optional()),
+  CACHE_MAX_BYTES: variable(integer(1).optional()),
+
+  DB_DRIVER: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() || undefined : value),
+    z.enum(['supabase', 'sqlite']).default('supabase'),
+  ),
+  SQLITE_PATH: variable(z.string().default('data/sitef.db')),
+  SUPABASE_URL: url(),
+  SUPABASE_SERVICE_ROLE_KEY: text(),
+  // A postgres:// connection string, used by the migrate script only.
+  DATABASE_URL: text(),
+
+  OPENAI_API_KEY: text(),
+  OPENAI_MODEL: variable(z.string().default('gpt-4.1-mini')),
+  GOOGLE_API_KEY: text(),
+  GEMINI_MODEL: variable(z.string().default('gemini-1.5-flash')),
+  AI_PROVIDER: variable(z.enum(PROVIDER_NAMES).default('openai')),
+  AI_FALLBACK_PROVIDERS: list(z.enum(PROVIDER_NAMES)),
+  AI_TIMEOUT_MS: variable(integer(1).default(30_000)),
+  AI_MONTHLY_TOKEN_QUOTA: quota(),
+  AI_GLOBAL_MONTHLY_TOKEN_QUOTA: quota(),
+
+  REVISIONS_KEEP: variable(integer(1).default(50)),
+  REVISIONS_MAX_AGE_DAYS: variable(z.coerce.number().min(0).default(90)),
+
+  WEBHOOK_MAX_ATTEMPTS: variable(integer(1).default(8)),
+  WEBHOOK_RETRY_BASE_SECONDS: variable(z.coerce.number().positive().default(30)),
+  WEBHOOK_RETRY_MAX_SECONDS: variable(z.coerce.number().positive().default(3600)),
+  WEBHOOK_TIMEOUT_MS: variable(integer(1).default(10_000)),
+  WEBHOOK_POLL_MS: variable(integer(1).default(5000)),
+  WEBHOOK_ALLOW_PRIVATE_TARGETS: variable(z.stringbool().default(false)),
+
+  AZURE_SEARCH_ENDPOINT: url(),
+  AZURE_SEARCH_API_KEY: text(),
+  AZURE_SEARCH_INDEX: text(),
+  PEXELS_API_KEY: text(),
+
+  STORAGE_DRIVER: variable(z.enum(['local']).default('local')),
+  STORAGE_LOCAL_PATH: variable(z.string().default('data/uploads')),
+  STORAGE_SIGNING_SECRET: text(),
+  STORAGE_URL_TTL_SECONDS: variable(integer(1).default(3600)),
+  UPLOAD_MAX_BYTES: variable(integer(1).default(10 * 1024 * 1024)),
+});
+type Env = z.output<typeof Env>;
+
+const AZURE_VARIABLES = ['AZURE_SEARCH_ENDPOINT', 'AZURE_SEARCH_API_KEY', 'AZURE_SEARCH_INDEX'] as const;
+
+type RawEnv = Record<string, string | undefined>;
+
+// Settings that only make sense together; checked on the raw variables so
+// they are reported along with malformed values.
+const crossChecks = (env: RawEnv) => {
+  const isSet = (name: string) => Boolean(env[name]?.trim());
+  const problems: string[] = [];
+  if (!isSet('JWT_SECRET') && !isSet('JWT_JWKS_URL')) {
+    problems.push('JWT_SECRET or JWT_JWKS_URL must be set to verify bearer tokens');
+  }
+  if ((env.DB_DRIVER?.trim().toLowerCase() || 'supabase') === 'supabase') {
+    for (const name of ['SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY']) {
+      if (!isSet(name)) problems.push(`${name} is required when DB_DRIVER is supabase`);
+    }
+  }
+  const azureSet = AZURE_VARIABLES.filter(isSet);
+  if (azureSet.length > 0 && azureSet.length < AZURE_VARIABLES.length) {
+    const missing = AZURE_VARIABLES.filter((name) => !isSet(name));
+    problems.push(`${missing.join(' and ')} must be set along with ${azureSet.join(' and ')}`);
+  }
+  return problems;
+};
+
+// Optional integrations are null unless configured.
+const toConfig = (env: Env) => ({
+  port: env.PORT,
+  corsOrigin: env.CORS_ORIGIN,
+  appUrl: env.APP_URL,
+  publicApiUrl: env.PUBLIC_API_URL ?? `http://localhost:${env.PORT}`,
+  metricsToken: env.METRICS_TOKEN ?? null,
+  auth: {
+    secret: env.JWT_SECRET ?? null,
+    jwksUrl: env.JWT_JWKS_URL ?? null,
+    issuer: env.JWT_ISSUER,
+    audience: env.JWT_AUDIENCE,
+    adminIds: new Set(env.ADMIN_USER_IDS),
+  },
+  rateLimit: {
+    store: env.RATE_LIMIT_STORE,
+    maxKeys: env.RATE_LIMIT_MAX_KEYS,
+    trustedProxies: env.TRUSTED_PROXIES,
+    policies: {
+      ai: env.RATE_LIMIT_AI,
+      search: env.RATE_LIMIT_SEARCH,
+      media: env.RATE_LIMIT_MEDIA,
+      projects: env.RATE_LIMIT_PROJECTS,
+    } satisfies Record<PolicyName, unknown>,
+  },
+  cache: {
+    ttlSeconds: { search: env.CACHE_TTL_SEARCH, media: env.CACHE_TTL_MEDIA } satisfies Record<CacheName, unknown>,
+    maxEntries: env.CACHE_MAX_ENTRIES,
+    maxBytes: env.CACHE_MAX_BYTES,
+  },
+  db: {
+    driver: env.DB_DRIVER,
+    sqlitePath: env.SQLITE_PATH,
+    supabase:
+      env.SUPABASE_URL && env.SUPABASE_SERVICE_ROLE_KEY
+        ? { url: env.SUPABASE_URL, serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY }
+        : null,
+    databaseUrl: env.DATABASE_URL ?? null,
+  },
+  ai: {
+    provider: env.AI_PROVIDER,
+    fallbacks: env.AI_FALLBACK_PROVIDERS,
+    timeoutMs: env.AI_TIMEOUT_MS,
+    openai: { apiKey: env.OPENAI_API_KEY ?? null, model: env.OPENAI_MODEL },
+    gemini: { apiKey: env.GOOGLE_API_KEY ?? null, model: env.GEMINI_MODEL },
+    quotas: {
+      projectMonthlyTokens: env.AI_MONTHLY_TOKEN_QUOTA,
+      globalMonthlyTokens: env.AI_GLOBAL_MONTHLY_TOKEN_QUOTA,
+    },
+  },
+  revisions: { keep: env.REVISIONS_KEEP, maxAgeDays: env.REVISIONS_MAX_AGE_DAYS },
+  webhooks: {
+    maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+    retryBaseMs: env.WEBHOOK_RETRY_BASE_SECONDS * 1000,
+    retryMaxMs: env.WEBHOOK_RETRY_MAX_SECONDS * 1000,
+    timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+    pollMs: env.WEBHOOK_POLL_MS,
+    allowPrivateTargets: env.WEBHOOK_ALLOW_PRIVATE_TARGETS,
+  },
+  azureSearch:
+    env.AZURE_SEARCH_ENDPOINT && env.AZURE_SEARCH_API_KEY && env.AZURE_SEARCH_INDEX
+      ? { endpoint: env.AZURE_SEARCH_ENDPOINT, apiKey: env.AZURE_SEARCH_API_KEY, index: env.AZURE_SEARCH_INDEX }
+      : null,
+  pexels: env.PEXELS_API_KEY ? { apiKey: env.PEXELS_API_KEY } : null,
+  storage: {
+    driver: env.STORAGE_DRIVER,
+    localPath: env.STORAGE_LOCAL_PATH,
+    signingSecret: env.STORAGE_SIGNING_SECRET ?? null,
+    urlTtlSeconds: env.STORAGE_URL_TTL_SECONDS,
+    uploadMaxBytes: env.UPLOAD_MAX_BYTES,
+  },
+});
+export type Config = ReturnType<typeof toConfig>;
+
+// Which optional integrations this instance can use.
+export const enabledIntegrations = (config: Config) => ({
+  openai: config.ai.openai.apiKey !== null,
+  gemini: config.ai.gemini.apiKey !== null,
+  azureSearch: config.azureSearch !== null,
+  pexels: config.pexels !== null,
+});
+export type Integration = keyof ReturnType<typeof enabledIntegrations>;
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Throws a ConfigError listing every problem.
+export const loadConfig = (env: RawEnv = process.env): Config => {
+  const result = Env.safeParse(env);
+  const problems = [
+    ...(result.error?.issues.map((issue) => `${fieldPath(issue.path)} ${issue.message}`) ?? []),
+    ...crossChecks(env),
+  ];
+  if (!result.success || problems.length > 0) throw new ConfigError(problems);
+  return toConfig(result.data);
+};
+
+let config: Config | null = null;
+
+// Loaded on first use; src/server.ts loads it before serving so problems stop the boot.
+export const getConfig = () => {
+  config ??= loadConfig();
+  return config;
+};
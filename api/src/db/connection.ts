@@ -1,8 +1,73 @@
-import { createClient } from '@supabase/supabase-js';
-
-const url = process.env.SUPABASE_URL!;
-const key = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-if (!url || !key) {
-  console.warn('Supabase env missing. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
-}
-export const supabase = createClient(url, key, { auth: { persistSession: false } });
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import Database from 'better-sqlite3';
+import { getConfig } from '../config.js';
+import { measuredFetch } from '../metrics/index.js';
+import { getPendingMigrations, loadMigrations, SQLITE_MIGRATIONS_DIR } from './migrations.js';
+import { createSqliteMigrationStore } from './sqlite/migrations.js';
+
+export type DbDriver = 'supabase' | 'sqlite';
+
+export const getDbDriver = (): DbDriver => getConfig().db.driver;
+
+let supabaseClient: SupabaseClient | null = null;
+
+export const getSupabaseClient = () => {
+  if (supabaseClient) return supabaseClient;
+
+  const settings = getConfig().db.supabase;
+  if (!settings) {
+    throw new Error('Supabase env missing. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+  supabaseClient = createClient(settings.url, settings.serviceRoleKey, {
+    auth: { persistSession: false },
+    global: { fetch: measuredFetch('supabase') },
+  });
+  return supabaseClient;
+};
+
+let sqliteDatabase: Database | null = null;
+
+// A local database is brought up to date on open; like `npm run migrate up`,
+// this refuses to start when an applied migration file was edited.
+export const applySqliteMigrations = (db: Database) => {
+  const store = createSqliteMigrationStore(db);
+  store.init();
+  const pending = getPendingMigrations(loadMigrations(SQLITE_MIGRATIONS_DIR), store.listApplied());
+  for (const migration of pending) {
+    store.apply(migration);
+  }
+};
+
+export const openSqliteDatabase = () => {
+  const filename = getConfig().db.sqlitePath;
+  if (filename !== ':memory:') {
+    mkdirSync(dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+};
+
+export const getSqliteDatabase = () => {
+  if (sqliteDatabase) return sqliteDatabase;
+
+  const db = openSqliteDatabase();
+  applySqliteMigrations(db);
+  sqliteDatabase = db;
+  return sqliteDatabase;
+};
+
+// Throws unless the database answers a trivial query; used by GET /ready.
+export const pingDatabase = async (signal?: AbortSignal) => {
+  if (getDbDriver() === 'sqlite') {
+    getSqliteDatabase().prepare('select 1').get();
+    return;
+  }
+  let query = getSupabaseClient().from('projects').select('id', { head: true }).limit(1);
+  if (signal) query = query.abortSignal(signal);
+  const { error } = await query;
+  if (error) throw new Error(error.message);
+};
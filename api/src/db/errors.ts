@@ -0,0 +1,24 @@
+// Raised by repositories when a write hits a unique constraint, so routes can
+// answer 409 without knowing which backend produced it.
+export class UniqueViolationError extends Error {}
+
+// Raised by member writes that would leave a project without an owner.
+export class LastOwnerError extends Error {
+  constructor() {
+    super('a project needs at least one owner');
+  }
+}
+
+export const isUniqueViolation = (error: unknown) => {
+  if (!error || typeof error !== 'object') return false;
+  const code = (error as { code?: unknown }).code;
+  return code === '23505' || code === 'SQLITE_CONSTRAINT_UNIQUE';
+};
+
+// Normalises a driver error (better-sqlite3 exception or PostgREST error object).
+export const toStorageError = (error: unknown, conflictMessage: string) => {
+  if (isUniqueViolation(error)) return new UniqueViolationError(conflictMessage);
+  if (error instanceof Error) return error;
+  const message = (error as { message?: unknown } | null)?.message;
+  return new Error(typeof message === 'string' ? message : String(error));
+};
@@ -0,0 +1,95 @@
+import { getDbDriver, getSqliteDatabase, getSupabaseClient } from './connection.js';
+import { createSqliteActivityRepository } from './sqlite/activity.js';
+import { createSqliteAssetRepository } from './sqlite/assets.js';
+import { createSqliteInvitationRepository, createSqliteMemberRepository } from './sqlite/members.js';
+import { createSqlitePageRepository } from './sqlite/pages.js';
+import { createSqliteProjectRepository } from './sqlite/projects.js';
+import { createSqlitePromptTemplateRepository } from './sqlite/prompts.js';
+import { createSqliteRateLimitRepository } from './sqlite/ratelimits.js';
+import { createSqliteRevisionRepository } from './sqlite/revisions.js';
+import { createSqliteSectionRepository } from './sqlite/sections.js';
+import { createSqliteUsageRepository } from './sqlite/usage.js';
+import { createSqliteWebhookRepository } from './sqlite/webhooks.js';
+import { createSupabaseActivityRepository } from './supabase/activity.js';
+import { createSupabaseAssetRepository } from './supabase/assets.js';
+import { createSupabaseInvitationRepository, createSupabaseMemberRepository } from './supabase/members.js';
+import { createSupabasePageRepository } from './supabase/pages.js';
+import { createSupabaseProjectRepository } from './supabase/projects.js';
+import { createSupabasePromptTemplateRepository } from './supabase/prompts.js';
+import { createSupabaseRateLimitRepository } from './supabase/ratelimits.js';
+import { createSupabaseRevisionRepository } from './supabase/revisions.js';
+import { createSupabaseSectionRepository } from './supabase/sections.js';
+import { createSupabaseUsageRepository } from './supabase/usage.js';
+import { createSupabaseWebhookRepository } from './supabase/webhooks.js';
+import type {
+  ActivityRepository,
+  AssetRepository,
+  InvitationRepository,
+  MemberRepository,
+  PageRepository,
+  ProjectRepository,
+  PromptTemplateRepository,
+  RateLimitRepository,
+  RevisionRepository,
+  SectionRepository,
+  UsageRepository,
+  WebhookRepository,
+} from './types.js';
+
+export interface Repositories {
+  projects: ProjectRepository;
+  pages: PageRepository;
+  sections: SectionRepository;
+  prompts: PromptTemplateRepository;
+  usage: UsageRepository;
+  rateLimits: RateLimitRepository;
+  members: MemberRepository;
+  invitations: InvitationRepository;
+  assets: AssetRepository;
+  activity: ActivityRepository;
+  revisions: RevisionRepository;
+  webhooks: WebhookRepository;
+}
+
+let repositories: Repositories | null = null;
+
+// Picks the storage backend from DB_DRIVER (supabase by default) on first use.
+export const getRepositories = (): Repositories => {
+  if (repositories) return repositories;
+
+  if (getDbDriver() === 'sqlite') {
+    const db = getSqliteDatabase();
+    repositories = {
+      projects: createSqliteProjectRepository(db),
+      pages: createSqlitePageRepository(db),
+      sections: createSqliteSectionRepository(db),
+      prompts: createSqlitePromptTemplateRepository(db),
+      usage: createSqliteUsageRepository(db),
+      rateLimits: createSqliteRateLimitRepository(db),
+      members: createSqliteMemberRepository(db),
+      invitations: createSqliteInvitationRepository(db),
+      assets: createSqliteAssetRepository(db),
+      activity: createSqliteActivityRepository(db),
+      revisions: createSqliteRevisionRepository(db),
+      webhooks: createSqliteWebhookRepository(db),
+    };
+  } else {
+    const supabase = getSupabaseClient();
+    repositories = {
+      projects: createSupabaseProjectRepository(supabase),
+      pages: createSupabasePageRepository(supabase),
+      sections: createSupabaseSectionRepository(supabase),
+      prompts: createSupabasePromptTemplateRepository(supabase),
+      usage: createSupabaseUsageRepository(supabase),
+      rateLimits: createSupabaseRateLimitRepository(supabase),
+      members: createSupabaseMemberRepository(supabase),
+      invitations: createSupabaseInvitationRepository(supabase),
+      assets: createSupabaseAssetRepository(supabase),
+      activity: createSupabaseActivityRepository(supabase),
+      revisions: createSupabaseRevisionRepository(supabase),
+      webhooks: createSupabaseWebhookRepository(supabase),
+    };
+  }
+
+  return repositories;
+};
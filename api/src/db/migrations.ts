@@ -0,0 +1,156 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const MIGRATIONS_DIR = join(dirname(fileURLToPath(import.meta.url)), '../../migrations');
+export const SQLITE_MIGRATIONS_DIR = join(MIGRATIONS_DIR, 'sqlite');
+
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.sql$/;
+
+type Awaitable<T> = T | Promise<T>;
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  downSql: string | null;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  applied_at: string | null;
+}
+
+// Where applied migrations are recorded. `apply` and `revert` must run the SQL
+// and update schema_migrations atomically.
+export interface MigrationStore {
+  init(): Awaitable<void>;
+  listApplied(): Awaitable<AppliedMigration[]>;
+  apply(migration: Migration): Awaitable<void>;
+  revert(migration: Migration): Awaitable<void>;
+  close(): Awaitable<void>;
+}
+
+export class MigrationError extends Error {}
+
+export const migrationLabel = ({ version, name }: { version: number; name: string }) =>
+  `${String(version).padStart(3, '0')}_${name}`;
+
+const checksum = (sql: string) => createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+
+// Reads NNN_name.sql files (and their optional NNN_name.down.sql pairs) in version order.
+export const loadMigrations = (dir: string): Migration[] => {
+  const migrations = readdirSync(dir)
+    .map((file) => MIGRATION_FILE.exec(file))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(([file, version, name]) => {
+      const sql = readFileSync(join(dir, file), 'utf8');
+      const downFile = join(dir, `${version}_${name}.down.sql`);
+      return {
+        version: Number(version),
+        name,
+        sql,
+        downSql: existsSync(downFile) ? readFileSync(downFile, 'utf8') : null,
+        checksum: checksum(sql),
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  for (let i = 1; i < migrations.length; i += 1) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new MigrationError(`Duplicate migration version ${migrations[i].version} in ${dir}`);
+    }
+  }
+
+  return migrations;
+};
+
+export const getMigrationStatus = (migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] => {
+  const appliedByVersion = new Map(applied.map((entry) => [Number(entry.version), entry]));
+  const statuses: MigrationStatus[] = migrations.map((migration) => {
+    const entry = appliedByVersion.get(migration.version);
+    appliedByVersion.delete(migration.version);
+    if (!entry) {
+      return { version: migration.version, name: migration.name, state: 'pending', applied_at: null };
+    }
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: entry.checksum === migration.checksum ? 'applied' : 'modified',
+      applied_at: String(entry.applied_at),
+    };
+  });
+
+  for (const entry of appliedByVersion.values()) {
+    statuses.push({
+      version: Number(entry.version),
+      name: entry.name,
+      state: 'missing',
+      applied_at: String(entry.applied_at),
+    });
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+};
+
+const assertIntact = (statuses: MigrationStatus[]) => {
+  const broken = statuses.filter((status) => status.state === 'modified' || status.state === 'missing');
+  if (broken.length > 0) {
+    const details = broken.map((status) => `${migrationLabel(status)} (${status.state})`).join(', ');
+    throw new MigrationError(`Applied migrations no longer match the files on disk: ${details}`);
+  }
+};
+
+// Returns the migrations `up` would apply, refusing when an applied file was edited or removed.
+export const getPendingMigrations = (migrations: Migration[], applied: AppliedMigration[]) => {
+  const statuses = getMigrationStatus(migrations, applied);
+  assertIntact(statuses);
+  const pending = new Set(statuses.filter((status) => status.state === 'pending').map((status) => status.version));
+  return migrations.filter((migration) => pending.has(migration.version));
+};
+
+export const migrateUp = async (store: MigrationStore, migrations: Migration[]) => {
+  await store.init();
+  const pending = getPendingMigrations(migrations, await store.listApplied());
+  for (const migration of pending) {
+    await store.apply(migration);
+  }
+  return pending;
+};
+
+export const migrateDown = async (store: MigrationStore, migrations: Migration[], steps = 1) => {
+  await store.init();
+  const statuses = getMigrationStatus(migrations, await store.listApplied());
+  assertIntact(statuses);
+
+  const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+  const targets = statuses
+    .filter((status) => status.state === 'applied')
+    .reverse()
+    .slice(0, steps)
+    .map((status) => byVersion.get(status.version)!);
+
+  const withoutDown = targets.filter((migration) => migration.downSql === null);
+  if (withoutDown.length > 0) {
+    const names = withoutDown.map(migrationLabel).join(', ');
+    throw new MigrationError(`No down file for: ${names}`);
+  }
+
+  for (const migration of targets) {
+    await store.revert(migration);
+  }
+  return targets;
+};
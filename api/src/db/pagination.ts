@@ -0,0 +1,49 @@
+export type SortOrder = 'asc' | 'desc';
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// Keyset position: the sort value and id of the last row of the previous page.
+// Sort and order are embedded so a cursor can't be replayed against another ordering.
+export interface Cursor {
+  sort: string;
+  order: SortOrder;
+  value: string | number;
+  id: number;
+}
+
+export class InvalidCursorError extends Error {}
+
+export const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString('base64url');
+
+export const decodeCursor = (raw: string, sort: string, order: SortOrder): Cursor => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError('invalid cursor');
+  }
+
+  if (!Array.isArray(parsed) || parsed.length !== 4) {
+    throw new InvalidCursorError('invalid cursor');
+  }
+
+  const [cursorSort, cursorOrder, value, id] = parsed;
+  if (
+    cursorSort !== sort ||
+    cursorOrder !== order ||
+    (typeof value !== 'string' && typeof value !== 'number') ||
+    !Number.isInteger(id)
+  ) {
+    throw new InvalidCursorError('cursor does not match the requested sort');
+  }
+
+  return { sort, order, value, id };
+};
+
+// Escapes LIKE wildcards so `q` is matched literally (both backends use `\` as escape).
+export const likePattern = (q: string) => `%${q.replace(/[\\%_]/g, '\\$&')}%`;
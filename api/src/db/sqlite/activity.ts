@@ -0,0 +1,83 @@
+import type Database from 'better-sqlite3';
+import { decodeCursor, encodeCursor } from '../pagination.js';
+import type { ActivityEntry, ActivityRepository } from '../types.js';
+
+type Row = Omit<ActivityEntry, 'before' | 'after' | 'details'> & {
+  before: string | null;
+  after: string | null;
+  details: string;
+};
+
+const parse = (row: Row): ActivityEntry => ({
+  ...row,
+  before: row.before === null ? null : JSON.parse(row.before),
+  after: row.after === null ? null : JSON.parse(row.after),
+  details: JSON.parse(row.details),
+});
+
+const json = (value: unknown) => (value === null || value === undefined ? null : JSON.stringify(value));
+
+// Newest first by id, which follows insertion order.
+export const createSqliteActivityRepository = (db: Database): ActivityRepository => {
+  const insert = db.prepare(
+    `INSERT INTO project_activity (project_id, actor_id, action, before, after, details, request_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  );
+
+  return {
+    async record(input) {
+      insert.run(
+        input.project_id,
+        input.actor_id,
+        input.action,
+        json(input.before),
+        json(input.after),
+        JSON.stringify(input.details),
+        input.request_id,
+      );
+    },
+
+    async list({ limit, cursor, projectId, actions, from, to }) {
+      const filters: string[] = [];
+      const params: unknown[] = [];
+      if (projectId !== undefined) {
+        filters.push('project_id = ?');
+        params.push(projectId);
+      }
+      if (actions?.length) {
+        filters.push(`action IN (${actions.map(() => '?').join(', ')})`);
+        params.push(...actions);
+      }
+      if (from) {
+        filters.push('created_at >= ?');
+        params.push(from);
+      }
+      if (to) {
+        filters.push('created_at < ?');
+        params.push(to);
+      }
+
+      const where = () => (filters.length ? `WHERE ${filters.join(' AND ')}` : '');
+      const total = db
+        .prepare<{ total: number }>(`SELECT COUNT(*) AS total FROM project_activity ${where()}`)
+        .get(...params).total;
+
+      if (cursor) {
+        filters.push('id < ?');
+        params.push(decodeCursor(cursor, 'id', 'desc').id);
+      }
+      const rows = db
+        .prepare<Row>(`SELECT * FROM project_activity ${where()} ORDER BY id DESC LIMIT ?`)
+        .all(...params, limit + 1);
+
+      const items = rows.slice(0, limit).map(parse);
+      const last = items[items.length - 1];
+      return {
+        items,
+        nextCursor:
+          rows.length > limit ? encodeCursor({ sort: 'id', order: 'desc', value: last.id, id: last.id }) : null,
+        total,
+      };
+    },
+  };
+};
@@ -0,0 +1,90 @@
+import type Database from 'better-sqlite3';
+import type { AssetRepository, ProjectAsset, ProjectAssetInput } from '../types.js';
+import { translateErrors } from './helpers.js';
+
+const COLUMNS = [
+  'source',
+  'source_id',
+  'source_url',
+  'photographer',
+  'photographer_url',
+  'alt',
+  'width',
+  'height',
+  'sizes',
+  'tags',
+  'storage_keys',
+  'file_name',
+  'content_type',
+  'byte_size',
+] as const satisfies readonly (keyof ProjectAssetInput)[];
+
+const CONFLICT = 'this image is already in the library';
+
+const JSON_COLUMNS = ['sizes', 'tags', 'storage_keys'] as const;
+
+type Row = Omit<ProjectAsset, (typeof JSON_COLUMNS)[number]> & Record<(typeof JSON_COLUMNS)[number], string>;
+
+const parse = (row: Row | undefined): ProjectAsset | null =>
+  row
+    ? { ...row, sizes: JSON.parse(row.sizes), tags: JSON.parse(row.tags), storage_keys: JSON.parse(row.storage_keys) }
+    : null;
+
+const toColumn = (input: ProjectAssetInput, column: (typeof COLUMNS)[number]) => {
+  if (column === 'storage_keys') return JSON.stringify(input.storage_keys ?? {});
+  if (column === 'sizes' || column === 'tags') return JSON.stringify(input[column]);
+  return input[column] ?? null;
+};
+
+export const createSqliteAssetRepository = (db: Database): AssetRepository => {
+  const selectOne = db.prepare<Row>('SELECT * FROM project_assets WHERE project_id = ? AND id = ?');
+
+  return {
+    async list(projectId, { tag } = {}) {
+      const rows = tag
+        ? db
+            .prepare<Row>(
+              `SELECT * FROM project_assets
+               WHERE project_id = ? AND EXISTS (SELECT 1 FROM json_each(project_assets.tags) WHERE value = ?)
+               ORDER BY created_at DESC, id DESC`,
+            )
+            .all(projectId, tag)
+        : db
+            .prepare<Row>('SELECT * FROM project_assets WHERE project_id = ? ORDER BY created_at DESC, id DESC')
+            .all(projectId);
+      return rows.map(parse);
+    },
+
+    async get(projectId, assetId) {
+      return parse(selectOne.get(projectId, assetId));
+    },
+
+    async create(projectId, input) {
+      const result = translateErrors(
+        () =>
+          db
+            .prepare(
+              `INSERT INTO project_assets (project_id, ${COLUMNS.join(', ')}) VALUES (?, ${COLUMNS.map(() => '?').join(', ')})`,
+            )
+            .run(projectId, ...COLUMNS.map((column) => toColumn(input, column))),
+        CONFLICT,
+      );
+      return parse(selectOne.get(projectId, Number(result.lastInsertRowid)));
+    },
+
+    async updateTags(projectId, assetId, tags) {
+      db.prepare('UPDATE project_assets SET tags = ? WHERE project_id = ? AND id = ?').run(
+        JSON.stringify(tags),
+        projectId,
+        assetId,
+      );
+      return parse(selectOne.get(projectId, assetId));
+    },
+
+    async delete(projectId, assetId) {
+      return (
+        db.prepare('DELETE FROM project_assets WHERE project_id = ? AND id = ?').run(projectId, assetId).changes > 0
+      );
+    },
+  };
+};
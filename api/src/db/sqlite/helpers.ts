@@ -0,0 +1,10 @@
+import { toStorageError } from '../errors.js';
+
+// Runs a synchronous write, mapping unique-constraint failures to UniqueViolationError.
+export const translateErrors = <T>(write: () => T, conflictMessage: string): T => {
+  try {
+    return write();
+  } catch (error) {
+    throw toStorageError(error, conflictMessage);
+  }
+};
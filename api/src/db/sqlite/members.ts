@@ -0,0 +1,121 @@
+import type Database from 'better-sqlite3';
+import { LastOwnerError } from '../errors.js';
+import type { InvitationRepository, MemberRepository, ProjectInvitation, ProjectMember } from '../types.js';
+
+export const createSqliteMemberRepository = (db: Database): MemberRepository => {
+  const selectOne = db.prepare<ProjectMember>('SELECT * FROM project_members WHERE project_id = ? AND user_id = ?');
+  const countOwners = db.prepare<{ total: number }>(
+    "SELECT COUNT(*) AS total FROM project_members WHERE project_id = ? AND role = 'owner'",
+  );
+
+  // Runs `write` unless it would take away the project's last owner.
+  const keepingAnOwner = <T>(projectId: number, userId: string, keepsOwner: boolean, write: () => T) =>
+    db.transaction(() => {
+      const member = selectOne.get(projectId, userId);
+      if (member?.role === 'owner' && !keepsOwner && countOwners.get(projectId).total <= 1) {
+        throw new LastOwnerError();
+      }
+      return write();
+    })();
+
+  return {
+    async list(projectId) {
+      return db
+        .prepare<ProjectMember>('SELECT * FROM project_members WHERE project_id = ? ORDER BY created_at, user_id')
+        .all(projectId);
+    },
+
+    async get(projectId, userId) {
+      return selectOne.get(projectId, userId) ?? null;
+    },
+
+    // Re-adding keeps a known email when the new one is missing.
+    async add(projectId, input) {
+      db.prepare(
+        `INSERT INTO project_members (project_id, user_id, email, role) VALUES (?, ?, ?, ?)
+         ON CONFLICT (project_id, user_id) DO UPDATE SET role = excluded.role, email = COALESCE(excluded.email, email)`,
+      ).run(projectId, input.user_id, input.email, input.role);
+      return selectOne.get(projectId, input.user_id);
+    },
+
+    async updateRole(projectId, userId, role) {
+      return keepingAnOwner(projectId, userId, role === 'owner', () => {
+        db.prepare('UPDATE project_members SET role = ? WHERE project_id = ? AND user_id = ?').run(
+          role,
+          projectId,
+          userId,
+        );
+        return selectOne.get(projectId, userId) ?? null;
+      });
+    },
+
+    async remove(projectId, userId) {
+      return keepingAnOwner(
+        projectId,
+        userId,
+        false,
+        () =>
+          db.prepare('DELETE FROM project_members WHERE project_id = ? AND user_id = ?').run(projectId, userId)
+            .changes > 0,
+      );
+    },
+
+    async projectIds(userId) {
+      return db
+        .prepare<{ project_id: number }>('SELECT project_id FROM project_members WHERE user_id = ? ORDER BY project_id')
+        .all(userId)
+        .map((row) => row.project_id);
+    },
+  };
+};
+
+const INVITATION_COLUMNS = 'id, project_id, email, role, invited_by, expires_at, accepted_at, accepted_by, created_at';
+
+export const createSqliteInvitationRepository = (db: Database): InvitationRepository => {
+  const selectById = db.prepare<ProjectInvitation>(
+    `SELECT ${INVITATION_COLUMNS} FROM project_invitations WHERE id = ?`,
+  );
+
+  return {
+    async listPending(projectId) {
+      return db
+        .prepare<ProjectInvitation>(
+          `SELECT ${INVITATION_COLUMNS} FROM project_invitations
+           WHERE project_id = ? AND accepted_at IS NULL ORDER BY created_at DESC, id DESC`,
+        )
+        .all(projectId);
+    },
+
+    async create(projectId, input) {
+      const result = db
+        .prepare(
+          `INSERT INTO project_invitations (project_id, email, role, token_hash, invited_by, expires_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+        )
+        .run(projectId, input.email, input.role, input.token_hash, input.invited_by, input.expires_at);
+      return selectById.get(Number(result.lastInsertRowid));
+    },
+
+    async findByTokenHash(tokenHash) {
+      return (
+        db
+          .prepare<ProjectInvitation>(`SELECT ${INVITATION_COLUMNS} FROM project_invitations WHERE token_hash = ?`)
+          .get(tokenHash) ?? null
+      );
+    },
+
+    async markAccepted(invitationId, userId) {
+      const { changes } = db
+        .prepare('UPDATE project_invitations SET accepted_at = ?, accepted_by = ? WHERE id = ? AND accepted_at IS NULL')
+        .run(new Date().toISOString(), userId, invitationId);
+      return changes > 0;
+    },
+
+    async delete(projectId, invitationId) {
+      return (
+        db.prepare('DELETE FROM project_invitations WHERE project_id = ? AND id = ?').run(projectId, invitationId)
+          .changes > 0
+      );
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import type Database from 'better-sqlite3';
+import type { AppliedMigration, Migration, MigrationStore } from '../migrations.js';
+
+// Synchronous on purpose: getSqliteDatabase() migrates while opening the file.
+export const createSqliteMigrationStore = (db: Database) => {
+  const store = {
+    init() {
+      db.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )`);
+    },
+
+    listApplied() {
+      return db.prepare<AppliedMigration>('SELECT * FROM schema_migrations ORDER BY version').all();
+    },
+
+    apply(migration: Migration) {
+      db.transaction(() => {
+        db.exec(migration.sql);
+        db.prepare('INSERT INTO schema_migrations (version, name, checksum) VALUES (?, ?, ?)').run(
+          migration.version,
+          migration.name,
+          migration.checksum,
+        );
+      })();
+    },
+
+    revert(migration: Migration) {
+      db.transaction(() => {
+        db.exec(migration.downSql!);
+        db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+      })();
+    },
+
+    close() {
+      db.close();
+    },
+  };
+
+  return store satisfies MigrationStore;
+};
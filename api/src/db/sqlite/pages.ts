@@ -0,0 +1,95 @@
+import type Database from 'better-sqlite3';
+import type { PageRepository, Section, SitePage } from '../types.js';
+import { translateErrors } from './helpers.js';
+
+type SectionRow = Omit<Section, 'data'> & { data: string };
+
+export const createSqlitePageRepository = (db: Database): PageRepository => {
+  const selectOne = db.prepare<SitePage>('SELECT * FROM pages WHERE project_id = ? AND id = ?');
+  const selectAll = db.prepare<SitePage>('SELECT * FROM pages WHERE project_id = ? ORDER BY position, id');
+  const insertPage = db.prepare(
+    `INSERT INTO pages (project_id, title, slug, position)
+     VALUES (?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM pages WHERE project_id = ?))`,
+  );
+
+  return {
+    async list(projectId) {
+      return selectAll.all(projectId);
+    },
+
+    async get(projectId, pageId) {
+      return selectOne.get(projectId, pageId) ?? null;
+    },
+
+    async slugExists(projectId, slug, exceptId) {
+      return Boolean(
+        db
+          .prepare('SELECT 1 FROM pages WHERE project_id = ? AND slug = ? AND id IS NOT ?')
+          .get(projectId, slug, exceptId ?? null),
+      );
+    },
+
+    async create(projectId, input) {
+      const result = translateErrors(
+        () => insertPage.run(projectId, input.title, input.slug, projectId),
+        'page slug already taken',
+      );
+      return selectOne.get(projectId, Number(result.lastInsertRowid));
+    },
+
+    async update(projectId, pageId, patch) {
+      const columns = (['title', 'slug'] as const).filter((column) => patch[column] !== undefined);
+      if (columns.length > 0) {
+        translateErrors(
+          () =>
+            db
+              .prepare(
+                `UPDATE pages SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE project_id = ? AND id = ?`,
+              )
+              .run(...columns.map((column) => patch[column]), projectId, pageId),
+          'page slug already taken',
+        );
+      }
+      return selectOne.get(projectId, pageId) ?? null;
+    },
+
+    async delete(projectId, pageId) {
+      return db.prepare('DELETE FROM pages WHERE project_id = ? AND id = ?').run(projectId, pageId).changes > 0;
+    },
+
+    async reorder(projectId, pageIds) {
+      const setPosition = db.prepare('UPDATE pages SET position = ? WHERE project_id = ? AND id = ?');
+      db.transaction(() => {
+        pageIds.forEach((pageId, position) => setPosition.run(position, projectId, pageId));
+      })();
+      return selectAll.all(projectId);
+    },
+
+    async writeGenerated(projectId, pages) {
+      const deleteSections = db.prepare('DELETE FROM sections WHERE page_id = ?');
+      const insertSection = db.prepare('INSERT INTO sections (page_id, type, data, position) VALUES (?, ?, ?, ?)');
+      const selectSections = db.prepare<SectionRow>('SELECT * FROM sections WHERE page_id = ? ORDER BY position, id');
+
+      const write = db.transaction(() =>
+        pages.map((input) => {
+          let page: SitePage | undefined;
+          let removedSections = 0;
+          if (input.pageId !== undefined) {
+            page = selectOne.get(projectId, input.pageId);
+            if (!page) throw new Error(`page ${input.pageId} not found`);
+            removedSections = deleteSections.run(page.id).changes;
+          } else {
+            const { lastInsertRowid } = insertPage.run(projectId, input.title, input.slug, projectId);
+            page = selectOne.get(projectId, Number(lastInsertRowid));
+          }
+          input.sections.forEach((section, position) =>
+            insertSection.run(page.id, section.type, JSON.stringify(section.data), position),
+          );
+          const sections = selectSections.all(page.id).map((row) => ({ ...row, data: JSON.parse(row.data) }));
+          return { page, sections, removedSections };
+        }),
+      );
+      return translateErrors(() => write(), 'page slug already taken');
+    },
+  };
+};
@@ -0,0 +1,114 @@
+import type Database from 'better-sqlite3';
+import { decodeCursor, encodeCursor, likePattern } from '../pagination.js';
+import type { Project, ProjectRepository } from '../types.js';
+import { translateErrors } from './helpers.js';
+
+const PATCHABLE_COLUMNS = ['name', 'slug', 'description', 'status'] as const;
+
+export const createSqliteProjectRepository = (db: Database): ProjectRepository => {
+  const selectById = db.prepare<Project>('SELECT * FROM projects WHERE id = ? AND deleted_at IS NULL');
+  const selectAnyById = db.prepare<Project>('SELECT * FROM projects WHERE id = ?');
+
+  return {
+    async list({ limit, sort, order, cursor, q, status, trashed, memberId }) {
+      const filters: string[] = [trashed ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'];
+      const params: unknown[] = [];
+      if (memberId !== undefined) {
+        filters.push('id IN (SELECT project_id FROM project_members WHERE user_id = ?)');
+        params.push(memberId);
+      }
+      if (q) {
+        filters.push("name LIKE ? ESCAPE '\\'");
+        params.push(likePattern(q));
+      }
+      if (status) {
+        filters.push('status = ?');
+        params.push(status);
+      }
+
+      const total = db
+        .prepare<{ total: number }>(`SELECT COUNT(*) AS total FROM projects WHERE ${filters.join(' AND ')}`)
+        .get(...params).total;
+
+      // Names sort case-insensitively, like name_key on Postgres (migration 016).
+      const column = sort === 'name' ? 'name COLLATE NOCASE' : sort;
+      if (cursor) {
+        const after = decodeCursor(cursor, sort, order);
+        const op = order === 'asc' ? '>' : '<';
+        filters.push(`(${column} ${op} ? OR (${column} = ? AND id ${op} ?))`);
+        params.push(after.value, after.value, after.id);
+      }
+
+      const direction = order === 'asc' ? 'ASC' : 'DESC';
+      const rows = db
+        .prepare<Project>(
+          `SELECT * FROM projects WHERE ${filters.join(' AND ')}
+           ORDER BY ${column} ${direction}, id ${direction} LIMIT ?`,
+        )
+        .all(...params, limit + 1);
+
+      const items = rows.slice(0, limit);
+      const last = items[items.length - 1];
+      return {
+        items,
+        nextCursor: rows.length > limit ? encodeCursor({ sort, order, value: last[sort], id: last.id }) : null,
+        total,
+      };
+    },
+
+    async get(id, options) {
+      return (options?.includeDeleted ? selectAnyById : selectById).get(id) ?? null;
+    },
+
+    async slugExists(slug, exceptId) {
+      return Boolean(db.prepare('SELECT 1 FROM projects WHERE slug = ? AND id IS NOT ?').get(slug, exceptId ?? null));
+    },
+
+    async create(input) {
+      const result = translateErrors(
+        () =>
+          db
+            .prepare('INSERT INTO projects (name, slug, description, status, owner_id) VALUES (?, ?, ?, ?, ?)')
+            .run(input.name, input.slug, input.description ?? '', input.status ?? 'draft', input.owner_id ?? null),
+        'slug already taken',
+      );
+      return selectById.get(Number(result.lastInsertRowid));
+    },
+
+    // updated_at is maintained by the trg_projects_updated_at trigger.
+    async update(id, patch) {
+      const columns = PATCHABLE_COLUMNS.filter((column) => patch[column] !== undefined);
+      if (columns.length > 0) {
+        translateErrors(
+          () =>
+            db
+              .prepare(
+                `UPDATE projects SET ${columns.map((column) => `${column} = ?`).join(', ')}
+               WHERE id = ? AND deleted_at IS NULL`,
+              )
+              .run(...columns.map((column) => patch[column]), id),
+          'slug already taken',
+        );
+      }
+      return selectById.get(id) ?? null;
+    },
+
+    async delete(id) {
+      const { changes } = db
+        .prepare('UPDATE projects SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL')
+        .run(new Date().toISOString(), id);
+      return changes > 0;
+    },
+
+    async restore(id) {
+      const { changes } = db
+        .prepare('UPDATE projects SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL')
+        .run(id);
+      return changes > 0 ? selectById.get(id) : null;
+    },
+
+    async purge(id) {
+      return db.prepare('DELETE FROM projects WHERE id = ? AND deleted_at IS NOT NULL').run(id).changes > 0;
+    },
+  };
+};
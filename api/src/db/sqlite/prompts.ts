@@ -0,0 +1,98 @@
+import type Database from 'better-sqlite3';
+import type { PromptTemplate, PromptTemplateInput, PromptTemplateRepository, PromptTemplateVersion } from '../types.js';
+import { translateErrors } from './helpers.js';
+
+const COLUMNS = [
+  'name',
+  'description',
+  'system',
+  'body',
+  'variables',
+  'provider',
+  'model',
+  'temperature',
+  'max_tokens',
+] as const satisfies readonly (keyof PromptTemplateInput)[];
+
+const CONFLICT = 'a prompt template with this name already exists';
+
+type Row<T> = Omit<T, 'variables'> & { variables: string };
+
+const parse = <T extends { variables: unknown }>(row: Row<T> | undefined) =>
+  row ? ({ ...row, variables: JSON.parse(row.variables) } as unknown as T) : null;
+
+const toColumn = (input: Partial<PromptTemplateInput>, column: (typeof COLUMNS)[number]) =>
+  column === 'variables' ? JSON.stringify(input.variables) : input[column];
+
+export const createSqlitePromptTemplateRepository = (db: Database): PromptTemplateRepository => {
+  const selectOne = db.prepare<Row<PromptTemplate>>('SELECT * FROM prompt_templates WHERE project_id = ? AND id = ?');
+
+  return {
+    async list(projectId) {
+      return db
+        .prepare<Row<PromptTemplate>>(
+          'SELECT * FROM prompt_templates WHERE project_id = ? ORDER BY name COLLATE NOCASE, id',
+        )
+        .all(projectId)
+        .map((row) => parse<PromptTemplate>(row));
+    },
+
+    async get(projectId, templateId) {
+      return parse<PromptTemplate>(selectOne.get(projectId, templateId));
+    },
+
+    async create(projectId, input) {
+      const result = translateErrors(
+        () =>
+          db
+            .prepare(
+              `INSERT INTO prompt_templates (project_id, ${COLUMNS.join(', ')}) VALUES (?, ${COLUMNS.map(() => '?').join(', ')})`,
+            )
+            .run(projectId, ...COLUMNS.map((column) => toColumn(input, column))),
+        CONFLICT,
+      );
+      return parse<PromptTemplate>(selectOne.get(projectId, Number(result.lastInsertRowid)));
+    },
+
+    async update(projectId, templateId, patch) {
+      const columns = COLUMNS.filter((column) => patch[column] !== undefined);
+      translateErrors(
+        () =>
+          db
+            .prepare(
+              `UPDATE prompt_templates SET ${[...columns.map((column) => `${column} = ?`), 'version = version + 1'].join(', ')}
+               WHERE project_id = ? AND id = ?`,
+            )
+            .run(...columns.map((column) => toColumn(patch, column)), projectId, templateId),
+        CONFLICT,
+      );
+      return parse<PromptTemplate>(selectOne.get(projectId, templateId));
+    },
+
+    async delete(projectId, templateId) {
+      return (
+        db.prepare('DELETE FROM prompt_templates WHERE project_id = ? AND id = ?').run(projectId, templateId).changes >
+        0
+      );
+    },
+
+    async listVersions(templateId) {
+      return db
+        .prepare<Row<PromptTemplateVersion>>(
+          'SELECT * FROM prompt_template_versions WHERE template_id = ? ORDER BY version DESC',
+        )
+        .all(templateId)
+        .map((row) => parse<PromptTemplateVersion>(row));
+    },
+
+    async getVersion(templateId, version) {
+      return parse<PromptTemplateVersion>(
+        db
+          .prepare<Row<PromptTemplateVersion>>(
+            'SELECT * FROM prompt_template_versions WHERE template_id = ? AND version = ?',
+          )
+          .get(templateId, version),
+      );
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import type Database from 'better-sqlite3';
+import { takeToken } from '../../domain/ratelimit.js';
+import type { BucketState } from '../../domain/ratelimit.js';
+import type { RateLimitRepository } from '../types.js';
+
+// better-sqlite3 is synchronous, so the read-modify-write transaction is atomic.
+export const createSqliteRateLimitRepository = (db: Database): RateLimitRepository => {
+  const select = db.prepare<BucketState>(
+    'SELECT tokens, updated_at AS updatedAt FROM rate_limit_buckets WHERE bucket_key = ?',
+  );
+  const upsert = db.prepare(
+    `INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (bucket_key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at`,
+  );
+
+  return {
+    async take(key, bucket, now) {
+      return db.transaction(() => {
+        const { result, state } = takeToken(select.get(key) ?? undefined, bucket, now);
+        upsert.run(key, state.tokens, state.updatedAt);
+        return result;
+      })();
+    },
+
+    async prune(idleBefore) {
+      return db.prepare('DELETE FROM rate_limit_buckets WHERE updated_at < ?').run(idleBefore).changes;
+    },
+  };
+};
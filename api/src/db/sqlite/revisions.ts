@@ -0,0 +1,123 @@
+import type Database from 'better-sqlite3';
+import type { ProjectRevision, ProjectRevisionSummary, RevisionRepository } from '../types.js';
+import { translateErrors } from './helpers.js';
+
+const SUMMARY_COLUMNS = 'id, project_id, number, content_hash, action, actor_id, created_at';
+
+type Row = Omit<ProjectRevision, 'content'> & { content: string };
+
+export const createSqliteRevisionRepository = (db: Database): RevisionRepository => {
+  const selectLatest = db.prepare<ProjectRevisionSummary>(
+    `SELECT ${SUMMARY_COLUMNS} FROM project_revisions WHERE project_id = ? ORDER BY number DESC LIMIT 1`,
+  );
+  // Numbering inside the INSERT keeps it atomic.
+  const insert = db.prepare(
+    `INSERT INTO project_revisions (project_id, number, content, content_hash, action, actor_id)
+     SELECT ?, COALESCE(MAX(number), 0) + 1, ?, ?, ?, ? FROM project_revisions WHERE project_id = ?`,
+  );
+  const selectById = db.prepare<ProjectRevisionSummary>(
+    `SELECT ${SUMMARY_COLUMNS} FROM project_revisions WHERE id = ?`,
+  );
+
+  return {
+    async list(projectId) {
+      return db
+        .prepare<ProjectRevisionSummary>(
+          `SELECT ${SUMMARY_COLUMNS} FROM project_revisions WHERE project_id = ? ORDER BY number DESC`,
+        )
+        .all(projectId);
+    },
+
+    async get(projectId, number) {
+      const row = db
+        .prepare<Row>('SELECT * FROM project_revisions WHERE project_id = ? AND number = ?')
+        .get(projectId, number);
+      return row ? { ...row, content: JSON.parse(row.content) } : null;
+    },
+
+    async latest(projectId) {
+      return selectLatest.get(projectId) ?? null;
+    },
+
+    async create(projectId, input) {
+      const result = insert.run(
+        projectId,
+        JSON.stringify(input.content),
+        input.content_hash,
+        input.action,
+        input.actor_id,
+        projectId,
+      );
+      return selectById.get(Number(result.lastInsertRowid));
+    },
+
+    async delete(projectId, numbers) {
+      if (numbers.length === 0) return 0;
+      return db
+        .prepare(
+          `DELETE FROM project_revisions WHERE project_id = ? AND number IN (${numbers.map(() => '?').join(', ')})`,
+        )
+        .run(projectId, ...numbers).changes;
+    },
+
+    // Rows only get written when something differs, so untouched pages and
+    // sections keep their updated_at.
+    async restore(projectId, content) {
+      const updateProject = db.prepare(
+        'UPDATE projects SET name = ?, slug = ?, description = ? WHERE id = ? AND deleted_at IS NULL',
+      );
+      const selectPages = db.prepare<{ id: number; slug: string }>('SELECT id, slug FROM pages WHERE project_id = ?');
+      const deletePage = db.prepare('DELETE FROM pages WHERE id = ?');
+      const parkSlug = db.prepare('UPDATE pages SET slug = ? WHERE id = ?');
+      const updatePage = db.prepare(
+        `UPDATE pages SET title = ?, slug = ?, position = ?
+         WHERE id = ? AND (title IS NOT ? OR slug IS NOT ? OR position IS NOT ?)`,
+      );
+      const insertPage = db.prepare('INSERT INTO pages (project_id, title, slug, position) VALUES (?, ?, ?, ?)');
+      const selectSections = db.prepare<{ id: number }>('SELECT id FROM sections WHERE page_id = ?');
+      const deleteSection = db.prepare('DELETE FROM sections WHERE id = ?');
+      const updateSection = db.prepare(
+        `UPDATE sections SET type = ?, data = ?, position = ?
+         WHERE id = ? AND (type IS NOT ? OR data IS NOT ? OR position IS NOT ?)`,
+      );
+      const insertSection = db.prepare('INSERT INTO sections (page_id, type, data, position) VALUES (?, ?, ?, ?)');
+
+      const write = db.transaction(() => {
+        const { name, slug, description } = content.project;
+        if (updateProject.run(name, slug, description, projectId).changes === 0) return false;
+
+        const wanted = new Map(content.pages.map((page) => [page.id, page]));
+        const current = selectPages.all(projectId);
+        for (const page of current) {
+          const target = wanted.get(page.id);
+          if (!target) deletePage.run(page.id);
+          // Park changed slugs first so pages can swap slugs without colliding.
+          else if (target.slug !== page.slug) parkSlug.run(`restoring-${page.id}-${Date.now()}`, page.id);
+        }
+
+        const kept = new Set(current.map((page) => page.id));
+        content.pages.forEach((target, position) => {
+          let pageId = target.id;
+          if (kept.has(pageId)) {
+            updatePage.run(target.title, target.slug, position, pageId, target.title, target.slug, position);
+          } else {
+            pageId = Number(insertPage.run(projectId, target.title, target.slug, position).lastInsertRowid);
+          }
+
+          const sectionIds = new Set(target.sections.map((section) => section.id));
+          const existing = new Set(selectSections.all(pageId).map((section) => section.id));
+          for (const id of existing) {
+            if (!sectionIds.has(id)) deleteSection.run(id);
+          }
+          target.sections.forEach(({ id, type, data }, index) => {
+            const json = JSON.stringify(data);
+            if (existing.has(id)) updateSection.run(type, json, index, id, type, json, index);
+            else insertSection.run(pageId, type, json, index);
+          });
+        });
+        return true;
+      });
+      return translateErrors(() => write(), 'slug already taken');
+    },
+  };
+};
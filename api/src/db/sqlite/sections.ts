@@ -0,0 +1,54 @@
+import type Database from 'better-sqlite3';
+import type { Section, SectionRepository } from '../types.js';
+
+type SectionRow = Omit<Section, 'data'> & { data: string };
+
+const toSection = (row: SectionRow | undefined): Section | null =>
+  row ? { ...row, data: JSON.parse(row.data) } : null;
+
+export const createSqliteSectionRepository = (db: Database): SectionRepository => {
+  const selectOne = db.prepare<SectionRow>('SELECT * FROM sections WHERE page_id = ? AND id = ?');
+  const selectAll = db.prepare<SectionRow>('SELECT * FROM sections WHERE page_id = ? ORDER BY position, id');
+
+  return {
+    async list(pageId) {
+      return selectAll.all(pageId).map(toSection);
+    },
+
+    async get(pageId, sectionId) {
+      return toSection(selectOne.get(pageId, sectionId));
+    },
+
+    async create(pageId, input) {
+      const result = db
+        .prepare(
+          `INSERT INTO sections (page_id, type, data, position)
+           VALUES (?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM sections WHERE page_id = ?))`,
+        )
+        .run(pageId, input.type, JSON.stringify(input.data), pageId);
+      return toSection(selectOne.get(pageId, Number(result.lastInsertRowid)));
+    },
+
+    async update(pageId, sectionId, patch) {
+      db.prepare('UPDATE sections SET type = ?, data = ? WHERE page_id = ? AND id = ?').run(
+        patch.type,
+        JSON.stringify(patch.data),
+        pageId,
+        sectionId,
+      );
+      return toSection(selectOne.get(pageId, sectionId));
+    },
+
+    async delete(pageId, sectionId) {
+      return db.prepare('DELETE FROM sections WHERE page_id = ? AND id = ?').run(pageId, sectionId).changes > 0;
+    },
+
+    async reorder(pageId, sectionIds) {
+      const setPosition = db.prepare('UPDATE sections SET position = ? WHERE page_id = ? AND id = ?');
+      db.transaction(() => {
+        sectionIds.forEach((sectionId, position) => setPosition.run(position, pageId, sectionId));
+      })();
+      return selectAll.all(pageId).map(toSection);
+    },
+  };
+};
@@ -0,0 +1,73 @@
+import type Database from 'better-sqlite3';
+import type { DailyUsage, ProjectQuota, UsageRecordInput, UsageRepository } from '../types.js';
+
+const COLUMNS = [
+  'project_id',
+  'route',
+  'provider',
+  'model',
+  'input_tokens',
+  'output_tokens',
+  'total_tokens',
+  'latency_ms',
+  'outcome',
+  'error',
+] as const satisfies readonly (keyof UsageRecordInput)[];
+
+export const createSqliteUsageRepository = (db: Database): UsageRepository => {
+  const insert = db.prepare(
+    `INSERT INTO ai_usage (${COLUMNS.join(', ')}) VALUES (${COLUMNS.map(() => '?').join(', ')})`,
+  );
+  const selectQuota = db.prepare<ProjectQuota>('SELECT * FROM ai_quotas WHERE project_id = ?');
+
+  return {
+    async record(input) {
+      insert.run(...COLUMNS.map((column) => input[column]));
+    },
+
+    // created_at is stored as an ISO string, so its first ten characters are the UTC day.
+    async daily(from, to, projectId) {
+      const filter = projectId === undefined ? '' : 'AND project_id = ?';
+      return db
+        .prepare<DailyUsage>(
+          `SELECT project_id, substr(created_at, 1, 10) AS day, COUNT(*) AS calls,
+                  SUM(outcome <> 'success') AS errors, SUM(input_tokens) AS input_tokens,
+                  SUM(output_tokens) AS output_tokens, SUM(total_tokens) AS total_tokens,
+                  CAST(ROUND(AVG(latency_ms)) AS INTEGER) AS avg_latency_ms
+           FROM ai_usage WHERE created_at >= ? AND created_at < ? ${filter}
+           GROUP BY project_id, day ORDER BY day, project_id`,
+        )
+        .all(...[from, to, projectId].filter((value) => value !== undefined));
+    },
+
+    async tokensSince(since, projectId) {
+      const filter = projectId === undefined ? '' : 'AND project_id = ?';
+      const row = db
+        .prepare<{ total: number }>(
+          `SELECT COALESCE(SUM(total_tokens), 0) AS total FROM ai_usage WHERE created_at >= ? ${filter}`,
+        )
+        .get(...[since, projectId].filter((value) => value !== undefined));
+      return row?.total ?? 0;
+    },
+
+    async getQuota(projectId) {
+      return selectQuota.get(projectId) ?? null;
+    },
+
+    async listQuotas() {
+      return db.prepare<ProjectQuota>('SELECT * FROM ai_quotas ORDER BY project_id').all();
+    },
+
+    async setQuota(projectId, monthlyTokens) {
+      db.prepare(
+        `INSERT INTO ai_quotas (project_id, monthly_tokens) VALUES (?, ?)
+         ON CONFLICT (project_id) DO UPDATE SET monthly_tokens = excluded.monthly_tokens`,
+      ).run(projectId, monthlyTokens);
+      return selectQuota.get(projectId) as ProjectQuota;
+    },
+
+    async deleteQuota(projectId) {
+      return db.prepare('DELETE FROM ai_quotas WHERE project_id = ?').run(projectId).changes > 0;
+    },
+  };
+};
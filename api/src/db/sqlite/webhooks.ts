@@ -0,0 +1,157 @@
+import type Database from 'better-sqlite3';
+import { decodeCursor, encodeCursor } from '../pagination.js';
+import type { Webhook, WebhookDelivery, WebhookPatch, WebhookRepository } from '../types.js';
+
+type WebhookRow = Omit<Webhook, 'events' | 'active'> & { events: string; active: number };
+type DeliveryRow = Omit<WebhookDelivery, 'payload'> & { payload: string };
+
+const parseWebhook = (row: WebhookRow | undefined): Webhook | null =>
+  row ? { ...row, events: JSON.parse(row.events), active: row.active === 1 } : null;
+
+const parseDelivery = (row: DeliveryRow): WebhookDelivery => ({ ...row, payload: JSON.parse(row.payload) });
+
+const PATCH_COLUMNS = ['url', 'secret', 'events', 'active'] as const satisfies readonly (keyof WebhookPatch)[];
+
+const toColumn = (patch: WebhookPatch, column: (typeof PATCH_COLUMNS)[number]) =>
+  column === 'events' ? JSON.stringify(patch.events) : column === 'active' ? Number(patch.active) : patch[column];
+
+export const createSqliteWebhookRepository = (db: Database): WebhookRepository => {
+  const selectWebhook = db.prepare<WebhookRow>('SELECT * FROM webhooks WHERE id = ?');
+  const selectDelivery = db.prepare<DeliveryRow>('SELECT * FROM webhook_deliveries WHERE id = ?');
+
+  return {
+    async list(projectId) {
+      const rows =
+        projectId === null
+          ? db.prepare<WebhookRow>('SELECT * FROM webhooks WHERE project_id IS NULL ORDER BY id').all()
+          : db.prepare<WebhookRow>('SELECT * FROM webhooks WHERE project_id = ? ORDER BY id').all(projectId);
+      return rows.map((row) => parseWebhook(row) as Webhook);
+    },
+
+    async get(webhookId) {
+      return parseWebhook(selectWebhook.get(webhookId));
+    },
+
+    async listActive(projectId) {
+      return db
+        .prepare<WebhookRow>(
+          'SELECT * FROM webhooks WHERE active = 1 AND (project_id = ? OR project_id IS NULL) ORDER BY id',
+        )
+        .all(projectId)
+        .map((row) => parseWebhook(row) as Webhook);
+    },
+
+    async create(input) {
+      const result = db
+        .prepare('INSERT INTO webhooks (project_id, url, secret, events, active, created_by) VALUES (?, ?, ?, ?, ?, ?)')
+        .run(
+          input.project_id,
+          input.url,
+          input.secret,
+          JSON.stringify(input.events),
+          Number(input.active),
+          input.created_by,
+        );
+      return parseWebhook(selectWebhook.get(Number(result.lastInsertRowid))) as Webhook;
+    },
+
+    async update(webhookId, patch) {
+      const columns = PATCH_COLUMNS.filter((column) => patch[column] !== undefined);
+      if (columns.length > 0) {
+        db.prepare(`UPDATE webhooks SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE id = ?`).run(
+          ...columns.map((column) => toColumn(patch, column)),
+          webhookId,
+        );
+      }
+      return parseWebhook(selectWebhook.get(webhookId));
+    },
+
+    async delete(webhookId) {
+      return db.prepare('DELETE FROM webhooks WHERE id = ?').run(webhookId).changes > 0;
+    },
+
+    async listDeliveries(webhookId, { limit, cursor }) {
+      const total = db
+        .prepare<{ total: number }>('SELECT COUNT(*) AS total FROM webhook_deliveries WHERE webhook_id = ?')
+        .get(webhookId).total;
+      const rows = cursor
+        ? db
+            .prepare<DeliveryRow>(
+              'SELECT * FROM webhook_deliveries WHERE webhook_id = ? AND id < ? ORDER BY id DESC LIMIT ?',
+            )
+            .all(webhookId, decodeCursor(cursor, 'id', 'desc').id, limit + 1)
+        : db
+            .prepare<DeliveryRow>('SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ?')
+            .all(webhookId, limit + 1);
+
+      const items = rows.slice(0, limit).map(parseDelivery);
+      const last = items[items.length - 1];
+      return {
+        items,
+        nextCursor:
+          rows.length > limit ? encodeCursor({ sort: 'id', order: 'desc', value: last.id, id: last.id }) : null,
+        total,
+      };
+    },
+
+    async getDelivery(webhookId, deliveryId) {
+      const row = selectDelivery.get(deliveryId);
+      return row && row.webhook_id === webhookId ? parseDelivery(row) : null;
+    },
+
+    async createDelivery(input) {
+      const result = db
+        .prepare(
+          `INSERT INTO webhook_deliveries (webhook_id, event_id, event, payload, next_attempt_at, redelivery_of)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+        )
+        .run(
+          input.webhook_id,
+          input.event_id,
+          input.event,
+          JSON.stringify(input.payload),
+          input.next_attempt_at,
+          input.redelivery_of,
+        );
+      return parseDelivery(selectDelivery.get(Number(result.lastInsertRowid)) as DeliveryRow);
+    },
+
+    async dueDeliveries(now, limit) {
+      return db
+        .prepare<DeliveryRow>(
+          `SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ?
+           ORDER BY next_attempt_at, id LIMIT ?`,
+        )
+        .all(now, limit)
+        .map(parseDelivery);
+    },
+
+    async claimDelivery(deliveryId, expected, until) {
+      return (
+        db
+          .prepare(
+            `UPDATE webhook_deliveries SET next_attempt_at = ?
+             WHERE id = ? AND status = 'pending' AND next_attempt_at = ?`,
+          )
+          .run(until, deliveryId, expected).changes > 0
+      );
+    },
+
+    async recordAttempt(deliveryId, result) {
+      db.prepare(
+        `UPDATE webhook_deliveries SET status = ?, attempts = ?, next_attempt_at = ?, response_status = ?,
+           error = ?, duration_ms = ?, last_attempt_at = ?
+         WHERE id = ?`,
+      ).run(
+        result.status,
+        result.attempts,
+        result.next_attempt_at,
+        result.response_status,
+        result.error,
+        result.duration_ms,
+        result.last_attempt_at,
+        deliveryId,
+      );
+    },
+  };
+};
@@ -0,0 +1,46 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { decodeCursor, encodeCursor } from '../pagination.js';
+import type { ActivityEntry, ActivityListOptions, ActivityRepository } from '../types.js';
+
+// Newest first by id, which follows insertion order.
+export const createSupabaseActivityRepository = (supabase: SupabaseClient): ActivityRepository => ({
+  async record(input) {
+    const { error } = await supabase.from('project_activity').insert([input]);
+    if (error) throw new Error(error.message);
+  },
+
+  async list({ limit, cursor, projectId, actions, from, to }: ActivityListOptions) {
+    let countQuery = supabase.from('project_activity').select('id', { count: 'exact', head: true });
+    let query = supabase.from('project_activity').select('*');
+    if (projectId !== undefined) {
+      countQuery = countQuery.eq('project_id', projectId);
+      query = query.eq('project_id', projectId);
+    }
+    if (actions?.length) {
+      countQuery = countQuery.in('action', actions);
+      query = query.in('action', actions);
+    }
+    if (from) {
+      countQuery = countQuery.gte('created_at', from);
+      query = query.gte('created_at', from);
+    }
+    if (to) {
+      countQuery = countQuery.lt('created_at', to);
+      query = query.lt('created_at', to);
+    }
+    if (cursor) query = query.lt('id', decodeCursor(cursor, 'id', 'desc').id);
+
+    const [count, page] = await Promise.all([countQuery, query.order('id', { ascending: false }).limit(limit + 1)]);
+    if (count.error) throw new Error(count.error.message);
+    if (page.error) throw new Error(page.error.message);
+
+    const rows = (page.data ?? []) as ActivityEntry[];
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > limit ? encodeCursor({ sort: 'id', order: 'desc', value: last.id, id: last.id }) : null,
+      total: count.count ?? 0,
+    };
+  },
+});
@@ -0,0 +1,59 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toStorageError } from '../errors.js';
+import type { AssetRepository, ProjectAsset } from '../types.js';
+
+const CONFLICT = 'this image is already in the library';
+
+export const createSupabaseAssetRepository = (supabase: SupabaseClient): AssetRepository => ({
+  async list(projectId, { tag } = {}) {
+    let query = supabase.from('project_assets').select('*').eq('project_id', projectId);
+    if (tag) query = query.contains('tags', [tag]);
+    const { data, error } = await query.order('created_at', { ascending: false }).order('id', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data ?? []) as ProjectAsset[];
+  },
+
+  async get(projectId, assetId) {
+    const { data, error } = await supabase
+      .from('project_assets')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('id', assetId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ProjectAsset | null) ?? null;
+  },
+
+  async create(projectId, input) {
+    const { data, error } = await supabase
+      .from('project_assets')
+      .insert([{ project_id: projectId, ...input }])
+      .select()
+      .single();
+    if (error) throw toStorageError(error, CONFLICT);
+    return data as ProjectAsset;
+  },
+
+  async updateTags(projectId, assetId, tags) {
+    const { data, error } = await supabase
+      .from('project_assets')
+      .update({ tags })
+      .eq('project_id', projectId)
+      .eq('id', assetId)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ProjectAsset | null) ?? null;
+  },
+
+  async delete(projectId, assetId) {
+    const { data, error } = await supabase
+      .from('project_assets')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('id', assetId)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+});
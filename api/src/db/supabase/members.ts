@@ -0,0 +1,132 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LastOwnerError } from '../errors.js';
+import type { InvitationRepository, MemberRepository, ProjectInvitation, ProjectMember } from '../types.js';
+
+// Raised by update_member_role and remove_member (migration 021) when the write
+// would take away the project's last owner.
+const LAST_OWNER = 'PT409';
+
+export const createSupabaseMemberRepository = (supabase: SupabaseClient): MemberRepository => ({
+  async list(projectId) {
+    const { data, error } = await supabase
+      .from('project_members')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at')
+      .order('user_id');
+    if (error) throw new Error(error.message);
+    return (data ?? []) as ProjectMember[];
+  },
+
+  async get(projectId, userId) {
+    const { data, error } = await supabase
+      .from('project_members')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ProjectMember | null) ?? null;
+  },
+
+  // Re-adding keeps a known email when the new one is missing.
+  async add(projectId, input) {
+    const row = {
+      project_id: projectId,
+      user_id: input.user_id,
+      role: input.role,
+      ...(input.email && { email: input.email }),
+    };
+    const { data, error } = await supabase
+      .from('project_members')
+      .upsert(row, { onConflict: 'project_id,user_id' })
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return data as ProjectMember;
+  },
+
+  async updateRole(projectId, userId, role) {
+    const { data, error } = await supabase
+      .rpc('update_member_role', { p_project_id: projectId, p_user_id: userId, p_role: role })
+      .maybeSingle();
+    if (error?.code === LAST_OWNER) throw new LastOwnerError();
+    if (error) throw new Error(error.message);
+    return (data as ProjectMember | null) ?? null;
+  },
+
+  async remove(projectId, userId) {
+    const { data, error } = await supabase.rpc('remove_member', { p_project_id: projectId, p_user_id: userId });
+    if (error?.code === LAST_OWNER) throw new LastOwnerError();
+    if (error) throw new Error(error.message);
+    return data === true;
+  },
+
+  async projectIds(userId) {
+    const { data, error } = await supabase
+      .from('project_members')
+      .select('project_id')
+      .eq('user_id', userId)
+      .order('project_id');
+    if (error) throw new Error(error.message);
+    return ((data ?? []) as { project_id: number }[]).map((row) => row.project_id);
+  },
+});
+
+const INVITATION_COLUMNS = 'id, project_id, email, role, invited_by, expires_at, accepted_at, accepted_by, created_at';
+
+export const createSupabaseInvitationRepository = (supabase: SupabaseClient): InvitationRepository => ({
+  async listPending(projectId) {
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('project_id', projectId)
+      .is('accepted_at', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data ?? []) as ProjectInvitation[];
+  },
+
+  async create(projectId, input) {
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .insert([{ project_id: projectId, ...input }])
+      .select(INVITATION_COLUMNS)
+      .single();
+    if (error) throw new Error(error.message);
+    return data as ProjectInvitation;
+  },
+
+  async findByTokenHash(tokenHash) {
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ProjectInvitation | null) ?? null;
+  },
+
+  async markAccepted(invitationId, userId) {
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .update({ accepted_at: new Date().toISOString(), accepted_by: userId })
+      .eq('id', invitationId)
+      .is('accepted_at', null)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+
+  async delete(projectId, invitationId) {
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('id', invitationId)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+});
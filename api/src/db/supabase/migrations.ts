@@ -0,0 +1,57 @@
+import pg from 'pg';
+import type { AppliedMigration, Migration, MigrationStore } from '../migrations.js';
+
+// supabase-js cannot run DDL, so migrations talk to the Supabase Postgres
+// instance directly through its connection string.
+export const createPostgresMigrationStore = async (connectionString: string): Promise<MigrationStore> => {
+  const client = new pg.Client({ connectionString });
+  await client.connect();
+
+  const inTransaction = async (sql: string, record: () => Promise<unknown>) => {
+    await client.query('BEGIN');
+    try {
+      await client.query(sql);
+      await record();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  };
+
+  return {
+    async init() {
+      await client.query(`CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )`);
+    },
+
+    async listApplied() {
+      const { rows } = await client.query<AppliedMigration>('SELECT * FROM schema_migrations ORDER BY version');
+      return rows.map((row) => ({ ...row, applied_at: new Date(row.applied_at).toISOString() }));
+    },
+
+    async apply(migration: Migration) {
+      await inTransaction(migration.sql, () =>
+        client.query('INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', [
+          migration.version,
+          migration.name,
+          migration.checksum,
+        ]),
+      );
+    },
+
+    async revert(migration: Migration) {
+      await inTransaction(migration.downSql!, () =>
+        client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]),
+      );
+    },
+
+    async close() {
+      await client.end();
+    },
+  };
+};
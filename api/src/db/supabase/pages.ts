@@ -0,0 +1,100 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toStorageError } from '../errors.js';
+import type { GeneratedPage, PageRepository, Section, SitePage } from '../types.js';
+
+export const createSupabasePageRepository = (supabase: SupabaseClient): PageRepository => {
+  const list = async (projectId: number) => {
+    const { data, error } = await supabase
+      .from('pages')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('position')
+      .order('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []) as SitePage[];
+  };
+
+  return {
+    list,
+
+    async get(projectId, pageId) {
+      const { data, error } = await supabase
+        .from('pages')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('id', pageId)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as SitePage | null) ?? null;
+    },
+
+    async slugExists(projectId, slug, exceptId) {
+      let query = supabase
+        .from('pages')
+        .select('id', { count: 'exact', head: true })
+        .eq('project_id', projectId)
+        .eq('slug', slug);
+      if (exceptId !== undefined) query = query.neq('id', exceptId);
+      const { count, error } = await query;
+      if (error) throw new Error(error.message);
+      return (count ?? 0) > 0;
+    },
+
+    async create(projectId, input) {
+      const existing = await list(projectId);
+      const position = existing.reduce((max, page) => Math.max(max, page.position + 1), 0);
+      const { data, error } = await supabase
+        .from('pages')
+        .insert([{ project_id: projectId, ...input, position }])
+        .select()
+        .single();
+      if (error) throw toStorageError(error, 'page slug already taken');
+      return data as SitePage;
+    },
+
+    async update(projectId, pageId, patch) {
+      const { data, error } = await supabase
+        .from('pages')
+        .update(patch)
+        .eq('project_id', projectId)
+        .eq('id', pageId)
+        .select()
+        .maybeSingle();
+      if (error) throw toStorageError(error, 'page slug already taken');
+      return (data as SitePage | null) ?? null;
+    },
+
+    async delete(projectId, pageId) {
+      const { data, error } = await supabase
+        .from('pages')
+        .delete()
+        .eq('project_id', projectId)
+        .eq('id', pageId)
+        .select('id');
+      if (error) throw new Error(error.message);
+      return (data ?? []).length > 0;
+    },
+
+    async reorder(projectId, pageIds) {
+      const { error } = await supabase.rpc('reorder_pages', { p_project_id: projectId, p_ids: pageIds });
+      if (error) throw new Error(error.message);
+      return list(projectId);
+    },
+
+    // One RPC (migration 017), so the whole site is written in one transaction.
+    async writeGenerated(projectId, pages) {
+      const { data, error } = await supabase.rpc('write_generated_pages', {
+        p_project_id: projectId,
+        p_pages: pages.map(({ pageId, title, slug, sections }) => ({ page_id: pageId, title, slug, sections })),
+      });
+      if (error) throw toStorageError(error, 'page slug already taken');
+      return ((data ?? []) as { page: SitePage; sections: Section[]; removed_sections: number }[]).map(
+        (written): GeneratedPage => ({
+          page: written.page,
+          sections: written.sections,
+          removedSections: written.removed_sections,
+        }),
+      );
+    },
+  };
+};
@@ -0,0 +1,134 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toStorageError } from '../errors.js';
+import { decodeCursor, encodeCursor, likePattern } from '../pagination.js';
+import type { Project, ProjectRepository, ProjectSort } from '../types.js';
+
+// PostgREST filter values containing reserved characters (, . : ( ) must be double-quoted.
+const quote = (value: string | number) => `"${String(value).replace(/["\\]/g, '\\$&')}"`;
+
+// Names sort case-insensitively through the name_key computed field (migration 016).
+const sortColumn = (sort: ProjectSort) => (sort === 'name' ? 'name_key' : sort);
+
+// updated_at is maintained by the trg_projects_updated_at trigger.
+export const createSupabaseProjectRepository = (supabase: SupabaseClient): ProjectRepository => ({
+  async list({ limit, sort, order, cursor, q, status, trashed, memberId }) {
+    // An inner join on project_members keeps only the member's projects.
+    const members = memberId === undefined ? '' : ', project_members!inner(user_id)';
+    let countQuery = supabase.from('projects').select(`id${members}`, { count: 'exact', head: true });
+    let query = supabase.from('projects').select(`*${members}`);
+    if (memberId !== undefined) {
+      countQuery = countQuery.eq('project_members.user_id', memberId);
+      query = query.eq('project_members.user_id', memberId);
+    }
+    if (trashed) {
+      countQuery = countQuery.not('deleted_at', 'is', null);
+      query = query.not('deleted_at', 'is', null);
+    } else {
+      countQuery = countQuery.is('deleted_at', null);
+      query = query.is('deleted_at', null);
+    }
+    if (q) {
+      countQuery = countQuery.ilike('name', likePattern(q));
+      query = query.ilike('name', likePattern(q));
+    }
+    if (status) {
+      countQuery = countQuery.eq('status', status);
+      query = query.eq('status', status);
+    }
+
+    if (cursor) {
+      const after = decodeCursor(cursor, sort, order);
+      const op = order === 'asc' ? 'gt' : 'lt';
+      const column = sortColumn(sort);
+      const value = quote(sort === 'name' ? String(after.value).toLowerCase() : after.value);
+      query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${after.id})`);
+    }
+
+    const ascending = order === 'asc';
+    const [count, page] = await Promise.all([
+      countQuery,
+      query.order(sortColumn(sort), { ascending }).order('id', { ascending }).limit(limit + 1),
+    ]);
+    if (count.error) throw new Error(count.error.message);
+    if (page.error) throw new Error(page.error.message);
+
+    const rows = ((page.data ?? []) as unknown as (Project & { project_members?: unknown })[]).map(
+      ({ project_members: _members, ...project }) => project as Project,
+    );
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > limit ? encodeCursor({ sort, order, value: last[sort], id: last.id }) : null,
+      total: count.count ?? 0,
+    };
+  },
+
+  async get(id, options) {
+    let query = supabase.from('projects').select('*').eq('id', id);
+    if (!options?.includeDeleted) query = query.is('deleted_at', null);
+    const { data, error } = await query.maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as Project | null) ?? null;
+  },
+
+  async slugExists(slug, exceptId) {
+    let query = supabase.from('projects').select('id', { count: 'exact', head: true }).eq('slug', slug);
+    if (exceptId !== undefined) query = query.neq('id', exceptId);
+    const { count, error } = await query;
+    if (error) throw new Error(error.message);
+    return (count ?? 0) > 0;
+  },
+
+  async create(input) {
+    const { data, error } = await supabase.from('projects').insert([input]).select().single();
+    if (error) throw toStorageError(error, 'slug already taken');
+    return data as Project;
+  },
+
+  async update(id, patch) {
+    const { data, error } = await supabase
+      .from('projects')
+      .update(patch)
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select()
+      .maybeSingle();
+    if (error) throw toStorageError(error, 'slug already taken');
+    return (data as Project | null) ?? null;
+  },
+
+  async delete(id) {
+    const { data, error } = await supabase
+      .from('projects')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+
+  async restore(id) {
+    const { data, error } = await supabase
+      .from('projects')
+      .update({ deleted_at: null })
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select()
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as Project | null) ?? null;
+  },
+
+  async purge(id) {
+    const { data, error } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', id)
+      .not('deleted_at', 'is', null)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+});
@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toStorageError } from '../errors.js';
+import type { PromptTemplate, PromptTemplateRepository, PromptTemplateVersion } from '../types.js';
+
+const CONFLICT = 'a prompt template with this name already exists';
+
+// Versions are bumped and snapshotted by triggers (see migration 006).
+export const createSupabasePromptTemplateRepository = (supabase: SupabaseClient): PromptTemplateRepository => ({
+  async list(projectId) {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('name')
+      .order('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []) as PromptTemplate[];
+  },
+
+  async get(projectId, templateId) {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('id', templateId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as PromptTemplate | null) ?? null;
+  },
+
+  async create(projectId, input) {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .insert([{ project_id: projectId, ...input }])
+      .select()
+      .single();
+    if (error) throw toStorageError(error, CONFLICT);
+    return data as PromptTemplate;
+  },
+
+  async update(projectId, templateId, patch) {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .update(patch)
+      .eq('project_id', projectId)
+      .eq('id', templateId)
+      .select()
+      .maybeSingle();
+    if (error) throw toStorageError(error, CONFLICT);
+    return (data as PromptTemplate | null) ?? null;
+  },
+
+  async delete(projectId, templateId) {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .delete()
+      .eq('project_id', projectId)
+      .eq('id', templateId)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+
+  async listVersions(templateId) {
+    const { data, error } = await supabase
+      .from('prompt_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('version', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data ?? []) as PromptTemplateVersion[];
+  },
+
+  async getVersion(templateId, version) {
+    const { data, error } = await supabase
+      .from('prompt_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .eq('version', version)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as PromptTemplateVersion | null) ?? null;
+  },
+});
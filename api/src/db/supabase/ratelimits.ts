@@ -0,0 +1,29 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { RateLimitRepository } from '../types.js';
+
+// The refill runs inside take_rate_limit_token (migration 008) under a row lock.
+export const createSupabaseRateLimitRepository = (supabase: SupabaseClient): RateLimitRepository => ({
+  async take(key, bucket, now) {
+    const { data, error } = await supabase
+      .rpc('take_rate_limit_token', {
+        p_key: key,
+        p_capacity: bucket.capacity,
+        p_refill_per_ms: bucket.refillPerMs,
+        p_now: now,
+      })
+      .single();
+    if (error) throw new Error(error.message);
+    const row = data as { allowed: boolean; tokens_left: number };
+    return { allowed: row.allowed, tokens: Number(row.tokens_left) };
+  },
+
+  async prune(idleBefore) {
+    const { data, error } = await supabase
+      .from('rate_limit_buckets')
+      .delete()
+      .lt('updated_at', idleBefore)
+      .select('bucket_key');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length;
+  },
+});
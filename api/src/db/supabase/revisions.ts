@@ -0,0 +1,73 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toStorageError } from '../errors.js';
+import type { ProjectRevision, ProjectRevisionSummary, RevisionRepository } from '../types.js';
+
+const SUMMARY_COLUMNS = 'id, project_id, number, content_hash, action, actor_id, created_at';
+
+// Numbers are assigned by the trg_project_revisions_number trigger (migration 014).
+export const createSupabaseRevisionRepository = (supabase: SupabaseClient): RevisionRepository => ({
+  async list(projectId) {
+    const { data, error } = await supabase
+      .from('project_revisions')
+      .select(SUMMARY_COLUMNS)
+      .eq('project_id', projectId)
+      .order('number', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data ?? []) as ProjectRevisionSummary[];
+  },
+
+  async get(projectId, number) {
+    const { data, error } = await supabase
+      .from('project_revisions')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('number', number)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ProjectRevision | null) ?? null;
+  },
+
+  async latest(projectId) {
+    const { data, error } = await supabase
+      .from('project_revisions')
+      .select(SUMMARY_COLUMNS)
+      .eq('project_id', projectId)
+      .order('number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ProjectRevisionSummary | null) ?? null;
+  },
+
+  async create(projectId, input) {
+    const { data, error } = await supabase
+      .from('project_revisions')
+      .insert([{ project_id: projectId, ...input }])
+      .select(SUMMARY_COLUMNS)
+      .single();
+    if (error) throw new Error(error.message);
+    return data as ProjectRevisionSummary;
+  },
+
+  async delete(projectId, numbers) {
+    if (numbers.length === 0) return 0;
+    const { data, error } = await supabase
+      .from('project_revisions')
+      .delete()
+      .eq('project_id', projectId)
+      .in('number', numbers)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length;
+  },
+
+  // One transaction inside the restore_project_content function (migration 020).
+  async restore(projectId, content) {
+    const { data, error } = await supabase.rpc('restore_project_content', {
+      p_project_id: projectId,
+      p_content: content,
+    });
+    if (error) throw toStorageError(error, 'slug already taken');
+    return data === true;
+  },
+});
@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Section, SectionRepository } from '../types.js';
+
+export const createSupabaseSectionRepository = (supabase: SupabaseClient): SectionRepository => {
+  const list = async (pageId: number) => {
+    const { data, error } = await supabase
+      .from('sections')
+      .select('*')
+      .eq('page_id', pageId)
+      .order('position')
+      .order('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []) as Section[];
+  };
+
+  return {
+    list,
+
+    async get(pageId, sectionId) {
+      const { data, error } = await supabase
+        .from('sections')
+        .select('*')
+        .eq('page_id', pageId)
+        .eq('id', sectionId)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as Section | null) ?? null;
+    },
+
+    async create(pageId, input) {
+      const existing = await list(pageId);
+      const position = existing.reduce((max, section) => Math.max(max, section.position + 1), 0);
+      const { data, error } = await supabase
+        .from('sections')
+        .insert([{ page_id: pageId, ...input, position }])
+        .select()
+        .single();
+      if (error) throw new Error(error.message);
+      return data as Section;
+    },
+
+    async update(pageId, sectionId, patch) {
+      const { data, error } = await supabase
+        .from('sections')
+        .update(patch)
+        .eq('page_id', pageId)
+        .eq('id', sectionId)
+        .select()
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as Section | null) ?? null;
+    },
+
+    async delete(pageId, sectionId) {
+      const { data, error } = await supabase
+        .from('sections')
+        .delete()
+        .eq('page_id', pageId)
+        .eq('id', sectionId)
+        .select('id');
+      if (error) throw new Error(error.message);
+      return (data ?? []).length > 0;
+    },
+
+    async reorder(pageId, sectionIds) {
+      const { error } = await supabase.rpc('reorder_sections', { p_page_id: pageId, p_ids: sectionIds });
+      if (error) throw new Error(error.message);
+      return list(pageId);
+    },
+  };
+};
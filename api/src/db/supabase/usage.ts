@@ -0,0 +1,64 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DailyUsage, ProjectQuota, UsageRepository } from '../types.js';
+
+// Aggregates run in the ai_usage_* functions from migration 007.
+export const createSupabaseUsageRepository = (supabase: SupabaseClient): UsageRepository => ({
+  async record(input) {
+    const { error } = await supabase.from('ai_usage').insert([input]);
+    if (error) throw new Error(error.message);
+  },
+
+  async daily(from, to, projectId) {
+    const { data, error } = await supabase.rpc('ai_usage_daily', {
+      p_from: from,
+      p_to: to,
+      p_project_id: projectId ?? null,
+    });
+    if (error) throw new Error(error.message);
+    return ((data ?? []) as DailyUsage[]).map((row) => ({
+      ...row,
+      calls: Number(row.calls),
+      errors: Number(row.errors),
+      input_tokens: Number(row.input_tokens),
+      output_tokens: Number(row.output_tokens),
+      total_tokens: Number(row.total_tokens),
+    }));
+  },
+
+  async tokensSince(since, projectId) {
+    const { data, error } = await supabase.rpc('ai_usage_tokens_since', {
+      p_since: since,
+      p_project_id: projectId ?? null,
+    });
+    if (error) throw new Error(error.message);
+    return Number(data ?? 0);
+  },
+
+  async getQuota(projectId) {
+    const { data, error } = await supabase.from('ai_quotas').select('*').eq('project_id', projectId).maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ProjectQuota | null) ?? null;
+  },
+
+  async listQuotas() {
+    const { data, error } = await supabase.from('ai_quotas').select('*').order('project_id');
+    if (error) throw new Error(error.message);
+    return (data ?? []) as ProjectQuota[];
+  },
+
+  async setQuota(projectId, monthlyTokens) {
+    const { data, error } = await supabase
+      .from('ai_quotas')
+      .upsert({ project_id: projectId, monthly_tokens: monthlyTokens }, { onConflict: 'project_id' })
+      .select()
+      .single();
+    if (error) throw new Error(error.message);
+    return data as ProjectQuota;
+  },
+
+  async deleteQuota(projectId) {
+    const { data, error } = await supabase.from('ai_quotas').delete().eq('project_id', projectId).select('project_id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+});
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { decodeCursor, encodeCursor } from '../pagination.js';
+import type { Webhook, WebhookDelivery, WebhookRepository } from '../types.js';
+
+export const createSupabaseWebhookRepository = (supabase: SupabaseClient): WebhookRepository => ({
+  async list(projectId) {
+    const query = supabase.from('webhooks').select('*');
+    const { data, error } = await (
+      projectId === null ? query.is('project_id', null) : query.eq('project_id', projectId)
+    ).order('id', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data ?? []) as Webhook[];
+  },
+
+  async get(webhookId) {
+    const { data, error } = await supabase.from('webhooks').select('*').eq('id', webhookId).maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as Webhook | null) ?? null;
+  },
+
+  async listActive(projectId) {
+    const { data, error } = await supabase
+      .from('webhooks')
+      .select('*')
+      .eq('active', true)
+      .or(`project_id.eq.${projectId},project_id.is.null`)
+      .order('id', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data ?? []) as Webhook[];
+  },
+
+  async create(input) {
+    const { data, error } = await supabase.from('webhooks').insert([input]).select('*').single();
+    if (error) throw new Error(error.message);
+    return data as Webhook;
+  },
+
+  async update(webhookId, patch) {
+    const { data, error } = await supabase.from('webhooks').update(patch).eq('id', webhookId).select('*').maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as Webhook | null) ?? null;
+  },
+
+  async delete(webhookId) {
+    const { data, error } = await supabase.from('webhooks').delete().eq('id', webhookId).select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+
+  async listDeliveries(webhookId, { limit, cursor }) {
+    const countQuery = supabase
+      .from('webhook_deliveries')
+      .select('id', { count: 'exact', head: true })
+      .eq('webhook_id', webhookId);
+    let query = supabase.from('webhook_deliveries').select('*').eq('webhook_id', webhookId);
+    if (cursor) query = query.lt('id', decodeCursor(cursor, 'id', 'desc').id);
+
+    const [count, page] = await Promise.all([countQuery, query.order('id', { ascending: false }).limit(limit + 1)]);
+    if (count.error) throw new Error(count.error.message);
+    if (page.error) throw new Error(page.error.message);
+
+    const rows = (page.data ?? []) as WebhookDelivery[];
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: rows.length > limit ? encodeCursor({ sort: 'id', order: 'desc', value: last.id, id: last.id }) : null,
+      total: count.count ?? 0,
+    };
+  },
+
+  async getDelivery(webhookId, deliveryId) {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('webhook_id', webhookId)
+      .eq('id', deliveryId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as WebhookDelivery | null) ?? null;
+  },
+
+  async createDelivery(input) {
+    const { data, error } = await supabase.from('webhook_deliveries').insert([input]).select('*').single();
+    if (error) throw new Error(error.message);
+    return data as WebhookDelivery;
+  },
+
+  async dueDeliveries(now, limit) {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now)
+      .order('next_attempt_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+    if (error) throw new Error(error.message);
+    return (data ?? []) as WebhookDelivery[];
+  },
+
+  async claimDelivery(deliveryId, expected, until) {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .update({ next_attempt_at: until })
+      .eq('id', deliveryId)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', expected)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data ?? []).length > 0;
+  },
+
+  async recordAttempt(deliveryId, result) {
+    const { error } = await supabase.from('webhook_deliveries').update(result).eq('id', deliveryId);
+    if (error) throw new Error(error.message);
+  },
+});
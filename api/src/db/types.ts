@@ -0,0 +1,467 @@
+import type { ProviderName } from '../ai/types.js';
+import type { ActivityAction } from '../domain/activity.js';
+import type { AssetSizes, AssetSource } from '../domain/assets.js';
+import type { ProjectRole } from '../domain/members.js';
+import type { ProjectStatus } from '../domain/projects.js';
+import type { PromptVariable } from '../domain/prompts.js';
+import type { RevisionContent } from '../domain/revisions.js';
+import type { BucketShape, TakeResult } from '../domain/ratelimit.js';
+import type { SectionData, SectionType } from '../domain/sections.js';
+import type { WebhookDeliveryStatus, WebhookEvent } from '../domain/webhooks.js';
+import type { Page, SortOrder } from './pagination.js';
+
+export interface Project {
+  id: number;
+  name: string;
+  slug: string;
+  description: string;
+  status: ProjectStatus;
+  // The creator; access itself is governed by project_members. null for
+  // projects created before authentication, until claimed.
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface ProjectInput {
+  name: string;
+  slug: string;
+  description?: string;
+  status?: ProjectStatus;
+  owner_id?: string;
+}
+
+export type ProjectPatch = Partial<Omit<ProjectInput, 'owner_id'>>;
+
+export const PROJECT_SORTS = ['name', 'created_at', 'updated_at'] as const;
+export type ProjectSort = (typeof PROJECT_SORTS)[number];
+
+export interface ProjectListOptions {
+  limit: number;
+  sort: ProjectSort;
+  order: SortOrder;
+  cursor?: string;
+  q?: string;
+  status?: ProjectStatus;
+  // When true, lists the trash (soft-deleted projects) instead of live ones.
+  trashed?: boolean;
+  // Only projects this user is a member of.
+  memberId?: string;
+}
+
+// Storage contract for projects. Lookups and writes report a missing row with
+// null/false so routes can answer 404 themselves; trashed projects are only
+// visible to `get` with `includeDeleted`, `restore` and `purge`. Writes that
+// collide on the slug throw UniqueViolationError.
+export interface ProjectRepository {
+  list(options: ProjectListOptions): Promise<Page<Project>>;
+  get(id: number, options?: { includeDeleted?: boolean }): Promise<Project | null>;
+  slugExists(slug: string, exceptId?: number): Promise<boolean>;
+  create(input: ProjectInput): Promise<Project>;
+  update(id: number, patch: ProjectPatch): Promise<Project | null>;
+  // Moves the project to the trash.
+  delete(id: number): Promise<boolean>;
+  restore(id: number): Promise<Project | null>;
+  // Permanently removes a project that is already in the trash.
+  purge(id: number): Promise<boolean>;
+}
+
+export interface SitePage {
+  id: number;
+  project_id: number;
+  title: string;
+  slug: string;
+  position: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SitePageInput {
+  title: string;
+  slug: string;
+}
+
+export type SitePagePatch = Partial<SitePageInput>;
+
+export interface Section {
+  id: number;
+  page_id: number;
+  type: SectionType;
+  position: number;
+  data: SectionData;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SectionInput {
+  type: SectionType;
+  data: SectionData;
+}
+
+// One page of a generated site: a new page, or with `pageId` an existing page
+// of the project whose sections are replaced (its title and slug are kept).
+export interface GeneratedPageInput {
+  pageId?: number;
+  title: string;
+  slug: string;
+  sections: SectionInput[];
+}
+
+export interface GeneratedPage {
+  page: SitePage;
+  sections: Section[];
+  removedSections: number;
+}
+
+// Pages of one project, ordered by position. New pages are appended; `reorder`
+// expects every page id of the project exactly once. `writeGenerated` writes a
+// whole generated site in one transaction: on any error nothing is changed.
+export interface PageRepository {
+  list(projectId: number): Promise<SitePage[]>;
+  get(projectId: number, pageId: number): Promise<SitePage | null>;
+  slugExists(projectId: number, slug: string, exceptId?: number): Promise<boolean>;
+  create(projectId: number, input: SitePageInput): Promise<SitePage>;
+  update(projectId: number, pageId: number, patch: SitePagePatch): Promise<SitePage | null>;
+  delete(projectId: number, pageId: number): Promise<boolean>;
+  reorder(projectId: number, pageIds: number[]): Promise<SitePage[]>;
+  writeGenerated(projectId: number, pages: GeneratedPageInput[]): Promise<GeneratedPage[]>;
+}
+
+// Sections of one page, ordered by position; same conventions as PageRepository.
+export interface SectionRepository {
+  list(pageId: number): Promise<Section[]>;
+  get(pageId: number, sectionId: number): Promise<Section | null>;
+  create(pageId: number, input: SectionInput): Promise<Section>;
+  update(pageId: number, sectionId: number, patch: SectionInput): Promise<Section | null>;
+  delete(pageId: number, sectionId: number): Promise<boolean>;
+  reorder(pageId: number, sectionIds: number[]): Promise<Section[]>;
+}
+
+export interface PromptTemplate {
+  id: number;
+  project_id: number;
+  name: string;
+  description: string;
+  system: string | null;
+  body: string;
+  variables: PromptVariable[];
+  provider: ProviderName | null;
+  model: string | null;
+  temperature: number | null;
+  max_tokens: number | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PromptTemplateInput = Pick<
+  PromptTemplate,
+  'name' | 'description' | 'system' | 'body' | 'variables' | 'provider' | 'model' | 'temperature' | 'max_tokens'
+>;
+
+export type PromptTemplatePatch = Partial<PromptTemplateInput>;
+
+// Snapshot of a template as it was saved; version 1 is the original.
+export type PromptTemplateVersion = Omit<PromptTemplate, 'project_id' | 'updated_at'> & { template_id: number };
+
+// Every create or update stores a new numbered version alongside the template.
+export interface PromptTemplateRepository {
+  list(projectId: number): Promise<PromptTemplate[]>;
+  get(projectId: number, templateId: number): Promise<PromptTemplate | null>;
+  create(projectId: number, input: PromptTemplateInput): Promise<PromptTemplate>;
+  update(projectId: number, templateId: number, patch: PromptTemplatePatch): Promise<PromptTemplate | null>;
+  delete(projectId: number, templateId: number): Promise<boolean>;
+  listVersions(templateId: number): Promise<PromptTemplateVersion[]>;
+  getVersion(templateId: number, version: number): Promise<PromptTemplateVersion | null>;
+}
+
+export type UsageOutcome = 'success' | 'error' | 'timeout' | 'cancelled';
+
+// One upstream model call. `project_id` is null for calls not tied to a project
+// and after the project is purged.
+export interface UsageRecord {
+  id: number;
+  project_id: number | null;
+  route: string;
+  provider: ProviderName;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  latency_ms: number;
+  outcome: UsageOutcome;
+  error: string | null;
+  created_at: string;
+}
+
+export type UsageRecordInput = Omit<UsageRecord, 'id' | 'created_at'>;
+
+// Calls of one project (or of no project) on one UTC day.
+export interface DailyUsage {
+  project_id: number | null;
+  day: string;
+  calls: number;
+  errors: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  avg_latency_ms: number;
+}
+
+export interface ProjectQuota {
+  project_id: number;
+  // null means unlimited, overriding AI_MONTHLY_TOKEN_QUOTA.
+  monthly_tokens: number | null;
+  updated_at: string;
+}
+
+// Timestamps are ISO strings; ranges include `from` and exclude `to`. Without a
+// project id, `tokensSince` sums every call.
+export interface UsageRepository {
+  record(input: UsageRecordInput): Promise<void>;
+  daily(from: string, to: string, projectId?: number): Promise<DailyUsage[]>;
+  tokensSince(since: string, projectId?: number): Promise<number>;
+  getQuota(projectId: number): Promise<ProjectQuota | null>;
+  listQuotas(): Promise<ProjectQuota[]>;
+  setQuota(projectId: number, monthlyTokens: number | null): Promise<ProjectQuota>;
+  deleteQuota(projectId: number): Promise<boolean>;
+}
+
+// Shared token buckets for the rate limiter; see src/domain/ratelimit.ts.
+export interface RateLimitRepository {
+  take(key: string, bucket: BucketShape, now: number): Promise<TakeResult>;
+  // Removes buckets untouched since `idleBefore` (epoch ms); they would be full again.
+  prune(idleBefore: number): Promise<number>;
+}
+
+export interface ProjectMember {
+  project_id: number;
+  user_id: string;
+  // As known when the member joined; null for creators whose token had no email.
+  email: string | null;
+  role: ProjectRole;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectMemberInput {
+  user_id: string;
+  email: string | null;
+  role: ProjectRole;
+}
+
+// Members of one project, oldest first. `add` is an upsert on (project, user).
+export interface MemberRepository {
+  list(projectId: number): Promise<ProjectMember[]>;
+  get(projectId: number, userId: string): Promise<ProjectMember | null>;
+  add(projectId: number, input: ProjectMemberInput): Promise<ProjectMember>;
+  // Demoting or removing the project's last owner throws LastOwnerError; the
+  // owner count is checked in the same transaction as the write.
+  updateRole(projectId: number, userId: string, role: ProjectRole): Promise<ProjectMember | null>;
+  remove(projectId: number, userId: string): Promise<boolean>;
+  // Every project the user belongs to, including trashed ones.
+  projectIds(userId: string): Promise<number[]>;
+}
+
+export interface ProjectInvitation {
+  id: number;
+  project_id: number;
+  email: string;
+  role: ProjectRole;
+  invited_by: string;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+  created_at: string;
+}
+
+export type ProjectInvitationInput = Pick<ProjectInvitation, 'email' | 'role' | 'invited_by' | 'expires_at'> & {
+  token_hash: string;
+};
+
+// Invitations are looked up by the SHA-256 of their token, never the token itself.
+export interface InvitationRepository {
+  // Pending (not yet accepted) invitations, newest first, including expired ones.
+  listPending(projectId: number): Promise<ProjectInvitation[]>;
+  create(projectId: number, input: ProjectInvitationInput): Promise<ProjectInvitation>;
+  findByTokenHash(tokenHash: string): Promise<ProjectInvitation | null>;
+  // Marks a pending invitation accepted; false when someone got there first.
+  markAccepted(invitationId: number, userId: string): Promise<boolean>;
+  delete(projectId: number, invitationId: number): Promise<boolean>;
+}
+
+export interface ProjectAsset {
+  id: number;
+  project_id: number;
+  source: AssetSource;
+  // The image's id at the source, e.g. the Pexels photo id.
+  source_id: string;
+  // Page of the image at the source, linked from attributions.
+  source_url: string | null;
+  photographer: string | null;
+  photographer_url: string | null;
+  alt: string;
+  width: number | null;
+  height: number | null;
+  // Image URL per size. Empty for uploads, whose URLs are signed per request from storage_keys.
+  sizes: AssetSizes;
+  tags: string[];
+  // Uploads only: storage key per size, plus what the client sent.
+  storage_keys: AssetSizes;
+  file_name: string | null;
+  content_type: string | null;
+  byte_size: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+type UploadFields = 'storage_keys' | 'file_name' | 'content_type' | 'byte_size';
+
+export type ProjectAssetInput = Omit<ProjectAsset, 'id' | 'project_id' | 'created_at' | 'updated_at' | UploadFields> &
+  Partial<Pick<ProjectAsset, UploadFields>>;
+
+// A project's media library, newest first. Adding the same source image twice
+// throws UniqueViolationError.
+export interface AssetRepository {
+  list(projectId: number, options?: { tag?: string }): Promise<ProjectAsset[]>;
+  get(projectId: number, assetId: number): Promise<ProjectAsset | null>;
+  create(projectId: number, input: ProjectAssetInput): Promise<ProjectAsset>;
+  updateTags(projectId: number, assetId: number, tags: string[]): Promise<ProjectAsset | null>;
+  delete(projectId: number, assetId: number): Promise<boolean>;
+}
+
+export interface ActivityEntry {
+  id: number;
+  project_id: number;
+  // null for changes made outside a request, e.g. by scripts.
+  actor_id: string | null;
+  action: ActivityAction;
+  before: unknown;
+  after: unknown;
+  details: Record<string, unknown>;
+  request_id: string | null;
+  created_at: string;
+}
+
+export type ActivityEntryInput = Omit<ActivityEntry, 'id' | 'created_at'>;
+
+export interface ActivityListOptions {
+  limit: number;
+  cursor?: string;
+  // Without a project id, lists every project's activity.
+  projectId?: number;
+  actions?: ActivityAction[];
+  // ISO timestamps; `from` is inclusive, `to` exclusive.
+  from?: string;
+  to?: string;
+}
+
+// The activity log is append-only (the database rejects updates and deletes)
+// and lists newest first.
+export interface ActivityRepository {
+  record(input: ActivityEntryInput): Promise<void>;
+  list(options: ActivityListOptions): Promise<Page<ActivityEntry>>;
+}
+
+export interface ProjectRevision {
+  id: number;
+  project_id: number;
+  // Counts up per project from 1 and is never reused.
+  number: number;
+  content: RevisionContent;
+  content_hash: string;
+  // The change that led to this revision.
+  action: ActivityAction;
+  actor_id: string | null;
+  created_at: string;
+}
+
+export type ProjectRevisionSummary = Omit<ProjectRevision, 'content'>;
+
+export type ProjectRevisionInput = Pick<ProjectRevision, 'content' | 'content_hash' | 'action' | 'actor_id'>;
+
+// Revisions of one project, newest first; the database assigns numbers.
+export interface RevisionRepository {
+  list(projectId: number): Promise<ProjectRevisionSummary[]>;
+  get(projectId: number, number: number): Promise<ProjectRevision | null>;
+  latest(projectId: number): Promise<ProjectRevisionSummary | null>;
+  create(projectId: number, input: ProjectRevisionInput): Promise<ProjectRevisionSummary>;
+  delete(projectId: number, numbers: number[]): Promise<number>;
+  // Rewrites the project's fields, pages and sections to match `content` in one
+  // transaction. Pages and sections that still exist keep their ids; deleted
+  // ones are recreated. false for a missing or trashed project; a slug taken by
+  // another project throws UniqueViolationError and leaves everything as it was.
+  restore(projectId: number, content: RevisionContent): Promise<boolean>;
+}
+
+export interface Webhook {
+  id: number;
+  // null for webhooks that receive events of every project.
+  project_id: number | null;
+  url: string;
+  secret: string;
+  // Subscribed event names, or ['*'] for all of them.
+  events: string[];
+  active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookInput = Pick<Webhook, 'project_id' | 'url' | 'secret' | 'events' | 'active' | 'created_by'>;
+
+export type WebhookPatch = Partial<Pick<Webhook, 'url' | 'secret' | 'events' | 'active'>>;
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  // Shared by redeliveries of the same event, so receivers can drop duplicates.
+  event_id: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // When a pending delivery is tried next; null once it succeeded or failed.
+  next_attempt_at: string | null;
+  // Outcome of the latest attempt: the receiver's status, and a short note on
+  // why it did not count or why no response arrived. Response bodies are not kept.
+  response_status: number | null;
+  error: string | null;
+  duration_ms: number | null;
+  redelivery_of: number | null;
+  last_attempt_at: string | null;
+  created_at: string;
+}
+
+export type WebhookDeliveryInput = Pick<
+  WebhookDelivery,
+  'webhook_id' | 'event_id' | 'event' | 'payload' | 'next_attempt_at' | 'redelivery_of'
+>;
+
+export type WebhookAttemptResult = Pick<
+  WebhookDelivery,
+  'status' | 'attempts' | 'next_attempt_at' | 'response_status' | 'error' | 'duration_ms' | 'last_attempt_at'
+>;
+
+// Webhooks and their delivery log; deliveries list newest first. `claim` moves
+// a due delivery's next_attempt_at forward only if nobody else did, so each
+// attempt is made by one worker.
+export interface WebhookRepository {
+  // The project's own webhooks, or with null the global ones.
+  list(projectId: number | null): Promise<Webhook[]>;
+  get(webhookId: number): Promise<Webhook | null>;
+  // Active webhooks receiving the project's events, including global ones.
+  listActive(projectId: number): Promise<Webhook[]>;
+  create(input: WebhookInput): Promise<Webhook>;
+  update(webhookId: number, patch: WebhookPatch): Promise<Webhook | null>;
+  delete(webhookId: number): Promise<boolean>;
+
+  listDeliveries(webhookId: number, options: { limit: number; cursor?: string }): Promise<Page<WebhookDelivery>>;
+  getDelivery(webhookId: number, deliveryId: number): Promise<WebhookDelivery | null>;
+  createDelivery(input: WebhookDeliveryInput): Promise<WebhookDelivery>;
+  // Pending deliveries whose next attempt is at or before `now`, oldest first.
+  dueDeliveries(now: string, limit: number): Promise<WebhookDelivery[]>;
+  claimDelivery(deliveryId: number, expected: string, until: string): Promise<boolean>;
+  recordAttempt(deliveryId: number, result: WebhookAttemptResult): Promise<void>;
+}
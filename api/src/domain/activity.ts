@@ -0,0 +1,42 @@
+// Changes recorded in a project's activity log, also the event types on the
+// in-process bus (src/events). Named <subject>.<verb>.
+export const ACTIVITY_ACTIONS = [
+  'project.created',
+  'project.updated',
+  'project.deleted',
+  'project.restored',
+  'project.purged',
+  'page.created',
+  'page.updated',
+  'page.deleted',
+  'pages.reordered',
+  'section.created',
+  'section.updated',
+  'section.deleted',
+  'sections.reordered',
+  'site.generated',
+  'revision.restored',
+  'prompt.created',
+  'prompt.updated',
+  'prompt.deleted',
+  'prompt.run',
+  'asset.created',
+  'asset.updated',
+  'asset.deleted',
+  'member.updated',
+  'member.removed',
+  'invitation.created',
+  'invitation.revoked',
+  'invitation.accepted',
+  'webhook.created',
+  'webhook.updated',
+  'webhook.deleted',
+] as const;
+export type ActivityAction = (typeof ACTIVITY_ACTIONS)[number];
+
+export const isActivityAction = (value: unknown): value is ActivityAction =>
+  typeof value === 'string' && (ACTIVITY_ACTIONS as readonly string[]).includes(value);
+
+// Changes to what a project's pages say, i.e. what the search index, exports
+// and revisions depend on.
+export const isContentAction = (action: ActivityAction) => /^(project|pages?|sections?|site|revision)\./.test(action);
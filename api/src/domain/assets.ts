@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+// Where a library image came from; the source decides what attribution an export needs.
+export const ASSET_SOURCES = ['pexels', 'upload'] as const;
+export type AssetSource = (typeof ASSET_SOURCES)[number];
+
+// Sizes an image may come in, largest first. Pexels photos link to their
+// original, large, medium and small renditions; uploads keep original, medium
+// and thumbnail.
+export const ASSET_SIZES = ['original', 'large', 'medium', 'small', 'thumbnail'] as const;
+export type AssetSize = (typeof ASSET_SIZES)[number];
+export type AssetSizes = Partial<Record<AssetSize, string>>;
+
+export const MAX_ASSET_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+const normaliseTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Tags are matched case-insensitively, so they are stored lowercased and without repeats.
+export const Tags = z
+  .array(z.string().transform(normaliseTag).pipe(z.string().min(1).max(MAX_TAG_LENGTH)))
+  .transform((tags) => [...new Set(tags)])
+  .pipe(z.array(z.string()).max(MAX_ASSET_TAGS));
+
+export const normaliseTagFilter = (tag: string) => normaliseTag(tag) || undefined;
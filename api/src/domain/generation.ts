@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { slugify } from '../lib/slug.js';
+import { trimmed } from '../lib/validation.js';
+import { isSectionType, SECTION_TYPES, validateSectionData } from './sections.js';
+import type { SectionData, SectionType } from './sections.js';
+
+export interface GeneratedSection {
+  type: SectionType;
+  data: SectionData;
+}
+
+export interface GeneratedPage {
+  title: string;
+  slug: string;
+  sections: GeneratedSection[];
+}
+
+// `errors` are problems worth sending back to the model; `site` only keeps the
+// parts that passed validation.
+export interface SiteValidation {
+  site: GeneratedPage[];
+  errors: string[];
+}
+
+export const MAX_BRIEF_PAGES = 10;
+export const MAX_SECTIONS_PER_PAGE = 12;
+const MAX_BRIEF_TEXT = 4000;
+const MAX_BRIEF_FIELD = 200;
+
+// {description, audience?, tone?, pages?}. Pages default to a single "Home".
+export const SiteBrief = z.object({
+  description: z.preprocess(trimmed, z.string().max(MAX_BRIEF_TEXT)),
+  audience: z.preprocess(trimmed, z.string().max(MAX_BRIEF_FIELD).optional()),
+  tone: z.preprocess(trimmed, z.string().max(MAX_BRIEF_FIELD).optional()),
+  pages: z
+    .array(z.string().trim().min(1).max(120))
+    .min(1)
+    .max(MAX_BRIEF_PAGES)
+    .default(['Home'])
+    .transform((titles) => [...new Set(titles)]),
+});
+export type SiteBrief = z.output<typeof SiteBrief>;
+
+export const parseSiteJson = (text: string): unknown => {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+};
+
+const TYPE_ALIASES: Record<string, SectionType> = {
+  text: 'rich_text',
+  richtext: 'rich_text',
+  content: 'rich_text',
+  gallery: 'image_gallery',
+  images: 'image_gallery',
+  cta: 'call_to_action',
+  calltoaction: 'call_to_action',
+};
+
+const normaliseType = (value: unknown): SectionType | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const key = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+  if (isSectionType(key)) return key;
+  return TYPE_ALIASES[key.replace(/_/g, '')];
+};
+
+const asObject = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : undefined;
+
+// Checks model output against the section schemas, repairing what can be fixed
+// mechanically (type aliases, flattened section data, missing or duplicate slugs)
+// and reporting the rest.
+export const validateGeneratedSite = (raw: unknown): SiteValidation => {
+  const errors: string[] = [];
+  const root = asObject(raw);
+  const rawPages = Array.isArray(raw) ? raw : root?.pages;
+  if (!Array.isArray(rawPages) || rawPages.length === 0) {
+    return { site: [], errors: ['output must be an object with a non-empty "pages" array'] };
+  }
+
+  const usedSlugs = new Set<string>();
+  const site: GeneratedPage[] = [];
+
+  rawPages.slice(0, MAX_BRIEF_PAGES).forEach((rawPage, pageIndex) => {
+    const page = asObject(rawPage);
+    const title = typeof page?.title === 'string' ? page.title.trim().slice(0, 120) : '';
+    if (!title) {
+      errors.push(`pages[${pageIndex}].title is required`);
+      return;
+    }
+
+    let slug = slugify(typeof page.slug === 'string' && page.slug.trim() ? page.slug : title, 'page');
+    for (let n = 2; usedSlugs.has(slug); n += 1) slug = `${slugify(title, 'page')}-${n}`;
+    usedSlugs.add(slug);
+
+    const rawSections = Array.isArray(page.sections) ? page.sections : [];
+    if (rawSections.length === 0) errors.push(`pages[${pageIndex}].sections must be a non-empty array`);
+
+    const sections: GeneratedSection[] = [];
+    rawSections.slice(0, MAX_SECTIONS_PER_PAGE).forEach((rawSection, sectionIndex) => {
+      const path = `pages[${pageIndex}].sections[${sectionIndex}]`;
+      const section = asObject(rawSection) ?? {};
+      const type = normaliseType(section.type);
+      if (!type) {
+        errors.push(`${path}.type must be one of ${SECTION_TYPES.join(', ')}`);
+        return;
+      }
+      const { type: _type, ...flattened } = section;
+      const result = validateSectionData(type, asObject(section.data) ?? flattened);
+      if (result.errors.length > 0) {
+        errors.push(...result.errors.map((error) => `${path} (${type}): ${error}`));
+        return;
+      }
+      sections.push({ type, data: result.data });
+    });
+
+    if (sections.length > 0) site.push({ title, slug, sections });
+  });
+
+  return { site, errors };
+};
+
+const SECTION_SHAPES = `- hero: {"heading": string, "subheading"?: string, "imageUrl"?: url, "ctaLabel"?: string, "ctaHref"?: url or "/path"}
+- rich_text: {"heading"?: string, "body": string}
+- image_gallery: {"heading"?: string, "images": [{"url": url, "alt"?: string, "caption"?: string}]}
+- call_to_action: {"heading": string, "body"?: string, "buttonLabel": string, "buttonHref": url or "/path"}`;
+
+export const SITE_INSTRUCTIONS = `You design small marketing websites. Reply with a single JSON object and nothing else, shaped as:
+{"pages": [{"title": string, "slug": string, "sections": [{"type": string, "data": object}]}]}
+Allowed section types and their data:
+${SECTION_SHAPES}
+Headings stay under 120 characters and button labels under 40. Only use image URLs you are sure exist; otherwise leave images out.`;
+
+export const buildSitePrompt = (brief: SiteBrief) =>
+  [
+    `Business brief: ${brief.description}`,
+    brief.audience && `Target audience: ${brief.audience}`,
+    brief.tone && `Tone of voice: ${brief.tone}`,
+    `Create exactly these pages, in this order: ${brief.pages.join(', ')}.`,
+    'Return the JSON site structure.',
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+export const buildRepairPrompt = (previousOutput: string, errors: string[]) =>
+  [
+    'Your previous JSON site structure did not match the schema:',
+    ...errors.map((error) => `- ${error}`),
+    'Previous output:',
+    previousOutput,
+    'Return the corrected JSON site structure, keeping everything that was valid.',
+  ].join('\n');
@@ -0,0 +1,18 @@
+// Ordered from least to most access: viewers read, editors also change
+// content, owners also delete the project and manage its members.
+export const PROJECT_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
+
+export const isProjectRole = (value: unknown): value is ProjectRole =>
+  typeof value === 'string' && (PROJECT_ROLES as readonly string[]).includes(value);
+
+export const hasRole = (role: ProjectRole, required: ProjectRole) =>
+  PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+
+export const INVITATION_TTL_DAYS = 7;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normaliseEmail = (value: string) => value.trim().toLowerCase();
+
+export const isEmail = (value: string) => value.length <= 254 && EMAIL_PATTERN.test(value);
@@ -0,0 +1,17 @@
+export const PROJECT_STATUSES = ['draft', 'published', 'archived'] as const;
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+// draft -> published -> archived, with a way back: a published site can be
+// unpublished, and an archived one reopened as a draft.
+const TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  draft: ['published'],
+  published: ['draft', 'archived'],
+  archived: ['draft'],
+};
+
+export const isProjectStatus = (value: unknown): value is ProjectStatus =>
+  typeof value === 'string' && (PROJECT_STATUSES as readonly string[]).includes(value);
+
+export const canTransition = (from: ProjectStatus, to: ProjectStatus) => from === to || TRANSITIONS[from].includes(to);
+
+export const MAX_DESCRIPTION_LENGTH = 2000;
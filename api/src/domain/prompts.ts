@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+export const MAX_PROMPT_NAME_LENGTH = 120;
+export const MAX_PROMPT_BODY_LENGTH = 20_000;
+export const MAX_PROMPT_VARIABLES = 50;
+
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const orUndefined = (value: unknown) => value ?? undefined;
+
+export const PromptVariable = z
+  .object({
+    name: z.string().regex(VARIABLE_NAME, 'must be letters, digits and underscores'),
+    default: z.preprocess(orUndefined, z.string().max(2000).optional()),
+    description: z.preprocess(orUndefined, z.string().max(2000).optional()),
+  })
+  .meta({ id: 'PromptVariable' });
+export type PromptVariable = z.output<typeof PromptVariable>;
+
+// The declared variable list: [{name, default?, description?}], each name once.
+export const PromptVariables = z
+  .array(PromptVariable)
+  .max(MAX_PROMPT_VARIABLES)
+  .superRefine((variables, context) => {
+    const seen = new Set<string>();
+    variables.forEach(({ name }, index) => {
+      if (seen.has(name)) context.addIssue({ code: 'custom', path: [index, 'name'], message: 'is declared twice' });
+      seen.add(name);
+    });
+  });
+
+// {{name}} with optional inner whitespace: "{{ city }}".
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// Placeholder names in order of first appearance.
+export const extractVariables = (...texts: (string | null | undefined)[]) => {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of (text ?? '').matchAll(PLACEHOLDER)) names.add(match[1]);
+  }
+  return [...names];
+};
+
+// Replaces every placeholder with the supplied value or the declared default.
+// Placeholders with neither are reported in `missing` and left untouched. Only
+// own properties of `values` count, so names such as "constructor" or
+// "__proto__" never pick up inherited values.
+export const renderTemplate = (
+  text: string,
+  variables: PromptVariable[],
+  values: Record<string, string>,
+  missing: Set<string> = new Set(),
+) => {
+  const defaults = new Map(variables.map((variable) => [variable.name, variable.default]));
+  const rendered = text.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const value = (Object.hasOwn(values, name) ? values[name] : undefined) ?? defaults.get(name);
+    if (value === undefined) {
+      missing.add(name);
+      return placeholder;
+    }
+    return value;
+  });
+  return { text: rendered, missing: [...missing] };
+};
+
+// Declared variables plus any placeholder used in the texts but not declared.
+export const completeVariables = (variables: PromptVariable[], ...texts: (string | null | undefined)[]) => {
+  const declared = new Set(variables.map((variable) => variable.name));
+  return [
+    ...variables,
+    ...extractVariables(...texts)
+      .filter((name) => !declared.has(name))
+      .map((name) => ({ name })),
+  ];
+};
@@ -0,0 +1,36 @@
+// Token bucket maths shared by the rate limit stores. A bucket holds up to
+// `capacity` tokens, refills continuously at `refillPerMs` and each request
+// takes one token.
+
+export interface BucketShape {
+  capacity: number;
+  refillPerMs: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// `tokens` is what is left after this request.
+export interface TakeResult {
+  allowed: boolean;
+  tokens: number;
+}
+
+// A missing bucket is a full one.
+export const takeToken = (state: BucketState | undefined, bucket: BucketShape, now: number) => {
+  const elapsed = state ? Math.max(now - state.updatedAt, 0) : 0;
+  let tokens = state ? Math.min(bucket.capacity, state.tokens + elapsed * bucket.refillPerMs) : bucket.capacity;
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+  const result: TakeResult = { allowed, tokens };
+  return { result, state: { tokens, updatedAt: now } };
+};
+
+// Milliseconds until a bucket with `tokens` left holds `target` tokens again.
+export const msUntil = (tokens: number, target: number, bucket: BucketShape) =>
+  Math.max(target - tokens, 0) / bucket.refillPerMs;
+
+// Idle longer than this, a bucket is full again and can be forgotten.
+export const msUntilFull = (bucket: BucketShape) => bucket.capacity / bucket.refillPerMs;
@@ -0,0 +1,116 @@
+import type { SectionData, SectionType } from './sections.js';
+
+// What a revision stores: the editable project fields and every page with its
+// sections, in order. Status is left out; it follows its own lifecycle.
+export interface RevisionContent {
+  project: { name: string; slug: string; description: string };
+  pages: RevisionPage[];
+}
+
+export interface RevisionPage {
+  id: number;
+  title: string;
+  slug: string;
+  sections: RevisionSection[];
+}
+
+export interface RevisionSection {
+  id: number;
+  type: SectionType;
+  data: SectionData;
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SectionDiff {
+  added: RevisionSection[];
+  removed: RevisionSection[];
+  changed: { id: number; changes: FieldChange[] }[];
+  reordered: boolean;
+}
+
+export interface PageDiff {
+  id: number;
+  title: string;
+  changes: FieldChange[];
+  sections: SectionDiff;
+}
+
+export interface RevisionDiff {
+  project: FieldChange[];
+  pages: {
+    added: Pick<RevisionPage, 'id' | 'title' | 'slug'>[];
+    removed: Pick<RevisionPage, 'id' | 'title' | 'slug'>[];
+    changed: PageDiff[];
+    reordered: boolean;
+  };
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const fieldChanges = <T extends object>(before: T, after: T, fields: readonly (keyof T & string)[]) =>
+  fields
+    .filter((field) => !same(before[field], after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+
+// Whether the items both lists share appear in a different order.
+const reordered = (before: { id: number }[], after: { id: number }[]) => {
+  const kept = new Set(after.map((item) => item.id));
+  const shared = before.filter((item) => kept.has(item.id)).map((item) => item.id);
+  const present = new Set(shared);
+  return !same(
+    shared,
+    after.filter((item) => present.has(item.id)).map((item) => item.id),
+  );
+};
+
+const diffSections = (before: RevisionSection[], after: RevisionSection[]): SectionDiff => {
+  const previous = new Map(before.map((section) => [section.id, section]));
+  const next = new Set(after.map((section) => section.id));
+  const changed: SectionDiff['changed'] = [];
+  for (const section of after) {
+    const old = previous.get(section.id);
+    const changes = old ? fieldChanges(old, section, ['type', 'data']) : [];
+    if (changes.length > 0) changed.push({ id: section.id, changes });
+  }
+  return {
+    added: after.filter((section) => !previous.has(section.id)),
+    removed: before.filter((section) => !next.has(section.id)),
+    changed,
+    reordered: reordered(before, after),
+  };
+};
+
+const isEmpty = (diff: SectionDiff) =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0 && !diff.reordered;
+
+const pageSummary = ({ id, title, slug }: RevisionPage) => ({ id, title, slug });
+
+// Structured changes from `before` to `after`. Pages and sections are matched
+// by id; a restore recreates sections, so they show up as removed and added.
+export const diffRevisions = (before: RevisionContent, after: RevisionContent): RevisionDiff => {
+  const previous = new Map(before.pages.map((page) => [page.id, page]));
+  const next = new Set(after.pages.map((page) => page.id));
+  const changed: PageDiff[] = [];
+  for (const page of after.pages) {
+    const old = previous.get(page.id);
+    if (!old) continue;
+    const changes = fieldChanges(old, page, ['title', 'slug']);
+    const sections = diffSections(old.sections, page.sections);
+    if (changes.length > 0 || !isEmpty(sections)) changed.push({ id: page.id, title: page.title, changes, sections });
+  }
+
+  return {
+    project: fieldChanges(before.project, after.project, ['name', 'slug', 'description']),
+    pages: {
+      added: after.pages.filter((page) => !previous.has(page.id)).map(pageSummary),
+      removed: before.pages.filter((page) => !next.has(page.id)).map(pageSummary),
+      changed,
+      reordered: reordered(before.pages, after.pages),
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+import { fieldPath, trimmed } from '../lib/validation.js';
+
+export const SECTION_TYPES = ['hero', 'rich_text', 'image_gallery', 'call_to_action'] as const;
+export type SectionType = (typeof SECTION_TYPES)[number];
+
+export const MAX_GALLERY_IMAGES = 24;
+
+// Text is trimmed, and empty optional fields are dropped, before the checks run.
+const text = (max: number) => z.preprocess(trimmed, z.string().max(max));
+const optionalText = (max: number) => z.preprocess(trimmed, z.string().max(max).optional());
+
+// Absolute http(s) URLs, or site-relative links such as "/contact" and "#pricing".
+const isLink = (value: string) => {
+  if (value.startsWith('/') || value.startsWith('#')) return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const linkString = z.string().max(2048).refine(isLink, 'must be an http(s) URL or a relative link');
+const link = () => z.preprocess(trimmed, linkString);
+const optionalLink = () => z.preprocess(trimmed, linkString.optional());
+
+export const HeroData = z
+  .object({
+    heading: text(120),
+    subheading: optionalText(300),
+    imageUrl: optionalLink(),
+    ctaLabel: optionalText(40),
+    ctaHref: optionalLink(),
+  })
+  .meta({ id: 'HeroData' });
+export type HeroData = z.output<typeof HeroData>;
+
+export const RichTextData = z
+  .object({
+    heading: optionalText(120),
+    body: text(20_000),
+  })
+  .meta({ id: 'RichTextData' });
+export type RichTextData = z.output<typeof RichTextData>;
+
+export const GalleryImage = z
+  .object({
+    url: link(),
+    alt: optionalText(200),
+    caption: optionalText(200),
+  })
+  .meta({ id: 'GalleryImage' });
+export type GalleryImage = z.output<typeof GalleryImage>;
+
+export const ImageGalleryData = z
+  .object({
+    heading: optionalText(120),
+    images: z.array(GalleryImage).min(1).max(MAX_GALLERY_IMAGES),
+  })
+  .meta({ id: 'ImageGalleryData' });
+export type ImageGalleryData = z.output<typeof ImageGalleryData>;
+
+export const CallToActionData = z
+  .object({
+    heading: text(120),
+    body: optionalText(500),
+    buttonLabel: text(40),
+    buttonHref: link(),
+  })
+  .meta({ id: 'CallToActionData' });
+export type CallToActionData = z.output<typeof CallToActionData>;
+
+export const SECTION_DATA = {
+  hero: HeroData,
+  rich_text: RichTextData,
+  image_gallery: ImageGalleryData,
+  call_to_action: CallToActionData,
+} as const;
+
+export type SectionDataByType = { [K in SectionType]: z.output<(typeof SECTION_DATA)[K]> };
+
+export const SectionData = z
+  .union([HeroData, RichTextData, ImageGalleryData, CallToActionData])
+  .meta({ id: 'SectionData', description: 'Shaped by the section type.' });
+export type SectionData = SectionDataByType[SectionType];
+
+// {type, data} with `data` checked against the schema of its type.
+export const SectionInput = z
+  .discriminatedUnion('type', [
+    z.object({ type: z.literal('hero'), data: HeroData }),
+    z.object({ type: z.literal('rich_text'), data: RichTextData }),
+    z.object({ type: z.literal('image_gallery'), data: ImageGalleryData }),
+    z.object({ type: z.literal('call_to_action'), data: CallToActionData }),
+  ])
+  .meta({ id: 'SectionInput' });
+
+// `data` is only meaningful when `errors` is empty.
+export interface SectionValidation<T> {
+  data: T;
+  errors: string[];
+}
+
+export const isSectionType = (value: unknown): value is SectionType =>
+  typeof value === 'string' && (SECTION_TYPES as readonly string[]).includes(value);
+
+// Validates and normalises (trims, drops empty optionals) the JSON stored for a
+// section, collecting every problem so the editor can show them together.
+export const validateSectionData = <K extends SectionType>(
+  type: K,
+  input: unknown,
+): SectionValidation<SectionDataByType[K]> => {
+  const result = SECTION_DATA[type].safeParse(input);
+  if (result.success) return { data: result.data as SectionDataByType[K], errors: [] };
+  return {
+    data: null,
+    errors: result.error.issues.map((issue) => `${fieldPath(issue.path) || 'data'} ${issue.message}`),
+  };
+};
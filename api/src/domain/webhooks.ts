@@ -0,0 +1,61 @@
+import type { ActivityAction } from './activity.js';
+
+// Events a webhook can subscribe to. Most are activity actions under the same
+// name; a generated site is announced as generation.completed. `webhook.ping`
+// is only sent on request, to check a receiver.
+export const WEBHOOK_EVENTS = [
+  'project.created',
+  'project.updated',
+  'project.deleted',
+  'project.restored',
+  'project.purged',
+  'page.created',
+  'page.updated',
+  'page.deleted',
+  'generation.completed',
+  'revision.restored',
+  'webhook.ping',
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Subscribes to every event.
+export const ALL_EVENTS = '*';
+
+export const isWebhookEvent = (value: unknown): value is WebhookEvent =>
+  typeof value === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+
+const RENAMED: Partial<Record<ActivityAction, WebhookEvent>> = { 'site.generated': 'generation.completed' };
+
+// The webhook event announcing an action on the bus, if there is one.
+export const webhookEventFor = (action: ActivityAction): WebhookEvent | null => {
+  const event = RENAMED[action] ?? action;
+  return isWebhookEvent(event) && event !== 'webhook.ping' ? event : null;
+};
+
+export const subscribesTo = (events: string[], event: WebhookEvent) =>
+  events.includes(ALL_EVENTS) || events.includes(event);
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const MAX_WEBHOOK_URL_LENGTH = 2000;
+
+// Receivers are addressed over http(s) only; credentials in the URL would end
+// up in the delivery log. Where the host points is checked on every delivery
+// instead (src/webhooks/targets.ts), as DNS can change after registration.
+export const isWebhookUrl = (value: string) => {
+  if (value.length > MAX_WEBHOOK_URL_LENGTH) return false;
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'https:' || url.protocol === 'http:') && !url.username && !url.password;
+  } catch {
+    return false;
+  }
+};
+
+// Delay before attempt `attempt + 1`, doubling from `baseMs` up to `maxMs`.
+export const retryDelay = (attempt: number, baseMs: number, maxMs: number) =>
+  Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+
+// Any 2xx acknowledges a delivery; everything else is retried.
+export const isDelivered = (status: number) => status >= 200 && status < 300;
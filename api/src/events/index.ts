@@ -0,0 +1,71 @@
+import type { Context } from 'hono';
+import { recordActivity } from '../activity/index.js';
+import type { ActivityAction } from '../domain/activity.js';
+import { logger } from '../lib/logger.js';
+
+// In-process bus for changes made through the API. Routes publish after a
+// write succeeds and await it: the activity log row is written before the
+// response goes out, and a failure to write it fails the request. Subscribers
+// (search indexing, revisions, webhooks) run afterwards and never fail or
+// delay the request that caused the change.
+export type EventType = ActivityAction;
+
+export interface DomainEvent {
+  type: EventType;
+  projectId: number;
+  // null for changes made outside a request, e.g. by scripts.
+  actorId: string | null;
+  requestId: string | null;
+  // Ids of the page or section involved and other details of the change.
+  data: Record<string, unknown>;
+  // The changed values as they were and as they are now; null when the
+  // subject did not exist before or no longer exists.
+  before: unknown;
+  after: unknown;
+  occurredAt: string;
+}
+
+export type EventChange = Partial<Pick<DomainEvent, 'data' | 'before' | 'after'>>;
+
+export type EventHandler = (event: DomainEvent) => void | Promise<unknown>;
+
+const handlers = new Set<EventHandler>();
+
+// Returns a function that removes the handler again.
+export const subscribe = (handler: EventHandler) => {
+  handlers.add(handler);
+  return () => {
+    handlers.delete(handler);
+  };
+};
+
+export const publish = async (event: Omit<DomainEvent, 'occurredAt'>) => {
+  const published = { ...event, occurredAt: new Date().toISOString() };
+  await recordActivity(published);
+  for (const handler of handlers) {
+    Promise.resolve()
+      .then(() => handler(published))
+      .catch((error) => logger.error(`Event handler failed for ${published.type}`, { error }));
+  }
+};
+
+// The listed fields of a row, for the before/after of an update.
+export const pickFields = <T extends object>(row: T, fields: readonly (keyof T)[]) =>
+  Object.fromEntries(fields.map((field) => [field, row[field]])) as Partial<T>;
+
+// Publishes on behalf of the signed-in user of a request.
+export const publishFrom = (
+  c: Context,
+  type: EventType,
+  projectId: number,
+  { data = {}, before = null, after = null }: EventChange = {},
+) =>
+  publish({
+    type,
+    projectId,
+    actorId: c.get('user')?.id ?? null,
+    requestId: c.get('requestId') ?? null,
+    data,
+    before,
+    after,
+  });
@@ -0,0 +1,140 @@
+import { createHash } from 'node:crypto';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import { getRepositories } from '../db/index.js';
+import type { Project } from '../db/types.js';
+import { fileKeyFromUrl, getStorage } from '../storage/index.js';
+import { guardedRequest } from '../webhooks/targets.js';
+import { collectImageUrls, type ExportSite, renderSite } from './render.js';
+import type { ExportTheme } from './themes.js';
+
+const ASSET_TIMEOUT_MS = 10_000;
+const MAX_ASSET_BYTES = 10 * 1024 * 1024;
+const MAX_BUNDLE_BYTES = 100 * 1024 * 1024;
+const DOWNLOAD_CONCURRENCY = 4;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/svg+xml': 'svg',
+};
+
+export interface ExportOptions {
+  theme: ExportTheme;
+  baseUrl?: string;
+}
+
+export interface ExportBundle {
+  fileName: string;
+  zip: ArrayBuffer;
+  // Images left as remote links because they could not be bundled.
+  skippedAssets: string[];
+}
+
+export const loadExportSite = async (project: Project): Promise<ExportSite> => {
+  const { pages, sections, assets } = getRepositories();
+  const [list, library] = await Promise.all([pages.list(project.id), assets.list(project.id)]);
+  return {
+    project,
+    pages: await Promise.all(list.map(async (page) => ({ page, sections: await sections.list(page.id) }))),
+    credits: library.map((asset) => ({
+      urls: Object.values(asset.sizes),
+      photographer: asset.photographer,
+      photographer_url: asset.photographer_url,
+      source: asset.source,
+      source_url: asset.source_url,
+    })),
+  };
+};
+
+// Our own upload URLs are read straight from storage, so links that have
+// expired since they were pasted into a section still export. Files of other
+// projects are never bundled. Other images are downloaded under the address
+// checks of webhook deliveries, without following redirects, and abandoned as
+// soon as they pass the size cap, whatever their Content-Length said.
+const readImage = async (projectId: number, url: string) => {
+  const key = fileKeyFromUrl(url);
+  if (key !== null) {
+    if (!key.startsWith(`projects/${projectId}/`)) return null;
+    const file = await getStorage().get(key);
+    return file && { type: file.contentType, bytes: file.body };
+  }
+
+  const response = await guardedRequest(new URL(url), { signal: AbortSignal.timeout(ASSET_TIMEOUT_MS) });
+  const status = response.statusCode ?? 0;
+  const type = response.headers['content-type']?.split(';')[0].trim().toLowerCase() ?? '';
+  const length = Number(response.headers['content-length'] ?? 0);
+  if (status < 200 || status >= 300 || !EXTENSIONS[type] || length > MAX_ASSET_BYTES) {
+    response.destroy();
+    return null;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.byteLength;
+    if (size > MAX_ASSET_BYTES) {
+      response.destroy();
+      return null;
+    }
+    chunks.push(chunk);
+  }
+  return { type, bytes: new Uint8Array(Buffer.concat(chunks)) };
+};
+
+// Fetches one image; null when it is unreachable, not an image or too large.
+const downloadAsset = async (projectId: number, url: string) => {
+  try {
+    const image = await readImage(projectId, url);
+    const extension = image && EXTENSIONS[image.type];
+    if (!extension || image.bytes.byteLength > MAX_ASSET_BYTES) return null;
+    const name = createHash('sha256').update(url).digest('hex').slice(0, 16);
+    return { path: `assets/${name}.${extension}`, bytes: image.bytes };
+  } catch {
+    return null;
+  }
+};
+
+// Bundles every image it can, a few downloads at a time, until the size budget is spent.
+const downloadAssets = async (projectId: number, urls: string[]) => {
+  const files = new Map<string, { path: string; bytes: Uint8Array }>();
+  const skipped: string[] = [];
+  let total = 0;
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      const asset = await downloadAsset(projectId, url);
+      if (!asset || total + asset.bytes.byteLength > MAX_BUNDLE_BYTES) {
+        skipped.push(url);
+        continue;
+      }
+      total += asset.bytes.byteLength;
+      files.set(url, asset);
+    }
+  };
+  await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+  return { files, skipped: urls.filter((url) => skipped.includes(url)) };
+};
+
+// Renders the project and packs it, with its images, into a zip named after the
+// slug; null when the project has no pages yet.
+export const buildExport = async (project: Project, options: ExportOptions): Promise<ExportBundle | null> => {
+  const site = await loadExportSite(project);
+  if (site.pages.length === 0) return null;
+  const { files: assets, skipped } = await downloadAssets(project.id, collectImageUrls(site));
+  const rendered = renderSite(site, {
+    ...options,
+    assets: new Map([...assets].map(([url, asset]) => [url, asset.path])),
+  });
+
+  // Everything sits in one top-level folder so unpacking does not scatter files.
+  const root = project.slug;
+  const entries: Zippable = {};
+  for (const [path, contents] of Object.entries(rendered)) entries[`${root}/${path}`] = strToU8(contents);
+  // Images are already compressed; storing them saves time for nothing lost.
+  for (const { path, bytes } of assets.values()) entries[`${root}/${path}`] = [bytes, { level: 0 }];
+
+  return { fileName: `${root}.zip`, zip: zipSync(entries, { level: 6 }).buffer as ArrayBuffer, skippedAssets: skipped };
+};
@@ -0,0 +1,305 @@
+import type { Project, Section, SitePage } from '../db/types.js';
+import type { CallToActionData, HeroData, ImageGalleryData, RichTextData } from '../domain/sections.js';
+import { type ExportTheme, themeStylesheet } from './themes.js';
+
+// Turns a project into the files of a static site. Everything here is pure:
+// the caller loads the content and downloads images beforehand, so the same
+// input always renders byte-for-byte the same output.
+
+export interface ExportPage {
+  page: SitePage;
+  sections: Section[];
+}
+
+// Attribution for a library image, matched against section images by URL.
+export interface ImageCredit {
+  urls: string[];
+  photographer: string | null;
+  photographer_url: string | null;
+  source: string;
+  source_url: string | null;
+}
+
+export interface ExportSite {
+  project: Pick<Project, 'name' | 'slug' | 'description'>;
+  // In navigation order; the first page becomes index.html.
+  pages: ExportPage[];
+  credits?: ImageCredit[];
+}
+
+export interface RenderOptions {
+  theme: ExportTheme;
+  // Public address of the site, e.g. https://example.com; enables absolute
+  // canonical links and sitemap entries.
+  baseUrl?: string;
+  // Image URL -> path of the bundled copy. Images missing here stay remote.
+  assets?: ReadonlyMap<string, string>;
+}
+
+// Relative path -> file contents.
+export type RenderedFiles = Record<string, string>;
+
+export const STYLESHEET_PATH = 'assets/site.css';
+
+const DESCRIPTION_LENGTH = 160;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// The first page is the home page; a later page that happens to be called
+// "index" must not overwrite it.
+const pagePath = (index: number, page: SitePage) =>
+  index === 0 ? 'index.html' : page.slug === 'index' ? 'index-page.html' : `${page.slug}.html`;
+
+// Absolute http(s) image URLs used by the sections, in order of appearance, without repeats.
+export const collectImageUrls = (site: ExportSite) => {
+  const urls = new Set<string>();
+  for (const { sections } of site.pages) {
+    for (const section of sections) {
+      for (const url of sectionImages(section)) {
+        if (/^https?:\/\//i.test(url)) urls.add(url);
+      }
+    }
+  }
+  return [...urls];
+};
+
+const sectionImages = (section: Section): string[] => {
+  if (section.type === 'hero') {
+    const { imageUrl } = section.data as HeroData;
+    return imageUrl ? [imageUrl] : [];
+  }
+  if (section.type === 'image_gallery') return (section.data as ImageGalleryData).images.map((image) => image.url);
+  return [];
+};
+
+const truncate = (value: string, length: number) => {
+  const flat = value.replace(/\s+/g, ' ').trim();
+  return flat.length <= length ? flat : `${flat.slice(0, length - 1).trimEnd()}…`;
+};
+
+// The first text a visitor would read, for pages without their own description.
+const pageSummary = (sections: Section[]) => {
+  for (const { type, data } of sections) {
+    if (type === 'hero' && (data as HeroData).subheading) return (data as HeroData).subheading;
+    if (type === 'rich_text') return (data as RichTextData).body;
+    if (type === 'call_to_action' && (data as CallToActionData).body) return (data as CallToActionData).body;
+  }
+  return undefined;
+};
+
+const SOURCES: Record<string, { name: string; url: string }> = {
+  pexels: { name: 'Pexels', url: 'https://www.pexels.com' },
+};
+
+// Sizes of one photo differ only in their query string, so credits match on the rest.
+const withoutQuery = (url: string) => url.replace(/[?#].*$/, '');
+
+const createRenderer = (site: ExportSite, options: RenderOptions) => {
+  const creditsByUrl = new Map<string, ImageCredit>();
+  for (const credit of site.credits ?? []) {
+    for (const url of credit.urls) creditsByUrl.set(withoutQuery(url), credit);
+  }
+  const assets = options.assets ?? new Map<string, string>();
+  const baseUrl = options.baseUrl?.replace(/\/$/, '');
+  const slugs = new Map(site.pages.map(({ page }, index) => [page.slug, pagePath(index, page)]));
+
+  const image = (url: string) => escapeHtml(assets.get(url) ?? url);
+
+  // Site-relative links to a page ("/about", "/about#team", "/") point at its file.
+  const link = (href: string) => {
+    const match = /^\/([^#?]*)([#?].*)?$/.exec(href);
+    if (match) {
+      const target = match[1] === '' ? 'index.html' : slugs.get(match[1].replace(/\/$/, ''));
+      if (target) return escapeHtml(`${target}${match[2] ?? ''}`);
+    }
+    return escapeHtml(href);
+  };
+
+  const paragraphs = (text: string) =>
+    text
+      .split(/\n\s*\n/)
+      .map((block) => block.trim())
+      .filter(Boolean)
+      .map((block) => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+
+  const renderers: Record<Section['type'], (data: Section['data'], first: boolean) => string> = {
+    hero(raw, first) {
+      const data = raw as HeroData;
+      const heading = first ? 'h1' : 'h2';
+      return `<section class="hero${data.imageUrl ? ' has-image' : ''}"><div class="container">
+<div>
+<${heading}>${escapeHtml(data.heading)}</${heading}>
+${data.subheading ? `<p>${escapeHtml(data.subheading)}</p>` : ''}
+${data.ctaLabel && data.ctaHref ? `<a class="button" href="${link(data.ctaHref)}">${escapeHtml(data.ctaLabel)}</a>` : ''}
+</div>
+${data.imageUrl ? `<img src="${image(data.imageUrl)}" alt="">` : ''}
+</div></section>`;
+    },
+
+    rich_text(raw) {
+      const data = raw as RichTextData;
+      return `<section class="text"><div class="container">
+${data.heading ? `<h2>${escapeHtml(data.heading)}</h2>` : ''}
+${paragraphs(data.body)}
+</div></section>`;
+    },
+
+    image_gallery(raw) {
+      const data = raw as ImageGalleryData;
+      const items = data.images.map(
+        (item) => `<li><figure>
+<img src="${image(item.url)}" alt="${escapeHtml(item.alt ?? '')}" loading="lazy">
+${item.caption ? `<figcaption>${escapeHtml(item.caption)}</figcaption>` : ''}
+</figure></li>`,
+      );
+      return `<section class="gallery"><div class="container">
+${data.heading ? `<h2>${escapeHtml(data.heading)}</h2>` : ''}
+<ul>
+${items.join('\n')}
+</ul>
+</div></section>`;
+    },
+
+    call_to_action(raw) {
+      const data = raw as CallToActionData;
+      return `<section class="cta"><div class="container">
+<h2>${escapeHtml(data.heading)}</h2>
+${data.body ? `<p>${escapeHtml(data.body)}</p>` : ''}
+<a class="button" href="${link(data.buttonHref)}">${escapeHtml(data.buttonLabel)}</a>
+</div></section>`;
+    },
+  };
+
+  // Licences such as Pexels' ask for the photographer to be named next to their work.
+  const credits = (sections: Section[]) => {
+    const used = new Set<ImageCredit>();
+    for (const url of sections.flatMap(sectionImages)) {
+      const credit = creditsByUrl.get(withoutQuery(url));
+      if (credit?.photographer) used.add(credit);
+    }
+    if (used.size === 0) return '';
+    const items = [...used].map((credit) => {
+      const source = SOURCES[credit.source] ?? { name: credit.source, url: credit.source_url ?? '' };
+      const name = credit.photographer_url
+        ? `<a href="${escapeHtml(credit.photographer_url)}">${escapeHtml(credit.photographer)}</a>`
+        : escapeHtml(credit.photographer);
+      const sourceUrl = credit.source_url ?? source.url;
+      return `${name} on ${sourceUrl ? `<a href="${escapeHtml(sourceUrl)}">${escapeHtml(source.name)}</a>` : escapeHtml(source.name)}`;
+    });
+    return `<p class="credits">${used.size === 1 ? 'Photo' : 'Photos'} by ${items.join(', ')}</p>`;
+  };
+
+  const meta = ({ page, sections }: ExportPage, path: string) => {
+    const title = page.title === site.project.name ? page.title : `${page.title} · ${site.project.name}`;
+    const description = truncate(
+      pageSummary(sections) || site.project.description || site.project.name,
+      DESCRIPTION_LENGTH,
+    );
+    const socialImage = sections.flatMap(sectionImages)[0];
+    const tags = [
+      `<title>${escapeHtml(title)}</title>`,
+      `<meta name="description" content="${escapeHtml(description)}">`,
+      `<meta property="og:type" content="website">`,
+      `<meta property="og:site_name" content="${escapeHtml(site.project.name)}">`,
+      `<meta property="og:title" content="${escapeHtml(title)}">`,
+      `<meta property="og:description" content="${escapeHtml(description)}">`,
+      `<meta name="twitter:card" content="${socialImage ? 'summary_large_image' : 'summary'}">`,
+    ];
+    if (baseUrl) {
+      const url = `${baseUrl}/${path === 'index.html' ? '' : path}`;
+      tags.push(
+        `<link rel="canonical" href="${escapeHtml(url)}">`,
+        `<meta property="og:url" content="${escapeHtml(url)}">`,
+      );
+    }
+    if (socialImage) {
+      // Crawlers need an absolute address, so bundled copies only qualify with a base URL.
+      const bundled = assets.get(socialImage);
+      const absolute = bundled ? baseUrl && `${baseUrl}/${bundled}` : socialImage;
+      if (absolute) tags.push(`<meta property="og:image" content="${escapeHtml(absolute)}">`);
+    }
+    return tags.join('\n');
+  };
+
+  const nav = (current: string) =>
+    site.pages
+      .map(({ page }, index) => {
+        const path = pagePath(index, page);
+        const active = path === current ? ' aria-current="page"' : '';
+        return `<li><a href="${path}"${active}>${escapeHtml(page.title)}</a></li>`;
+      })
+      .join('\n');
+
+  // Optional parts render as empty strings; drop the blank lines they leave.
+  const document = (entry: ExportPage, path: string) => html(entry, path).replace(/\n{2,}/g, '\n');
+
+  const html = (entry: ExportPage, path: string) => `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+${meta(entry, path)}
+<link rel="stylesheet" href="${STYLESHEET_PATH}">
+</head>
+<body>
+<header class="site-header"><div class="container">
+<a class="site-name" href="index.html">${escapeHtml(site.project.name)}</a>
+<nav class="site-nav" aria-label="Pages"><ul>
+${nav(path)}
+</ul></nav>
+</div></header>
+<main>
+${entry.sections.map((section, index) => renderers[section.type](section.data, index === 0)).join('\n')}
+</main>
+<footer class="site-footer"><div class="container">
+<p>© ${escapeHtml(site.project.name)}</p>
+${credits(entry.sections)}
+</div></footer>
+</body>
+</html>
+`;
+
+  return { document };
+};
+
+const sitemap = (site: ExportSite, baseUrl: string | undefined) => {
+  const root = baseUrl ? `${baseUrl.replace(/\/$/, '')}/` : '';
+  const urls = site.pages.map(({ page }, index) => {
+    const path = pagePath(index, page);
+    const loc = `${root}${path === 'index.html' ? '' : path}`;
+    return `  <url><loc>${escapeHtml(loc || './')}</loc><lastmod>${page.updated_at.slice(0, 10)}</lastmod></url>`;
+  });
+  // Search engines only accept absolute locations; without a base URL the
+  // entries are relative and must be fixed up before publishing.
+  const note = baseUrl ? '' : '<!-- Export again with a base URL to get absolute locations. -->\n';
+  return `<?xml version="1.0" encoding="UTF-8"?>
+${note}<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls.join('\n')}
+</urlset>
+`;
+};
+
+const robots = (baseUrl: string | undefined) =>
+  `User-agent: *\nAllow: /\n${baseUrl ? `\nSitemap: ${baseUrl.replace(/\/$/, '')}/sitemap.xml\n` : ''}`;
+
+// Renders every page plus the stylesheet, sitemap.xml and robots.txt.
+// Bundled image files themselves are added by the caller.
+export const renderSite = (site: ExportSite, options: RenderOptions): RenderedFiles => {
+  const { document } = createRenderer(site, options);
+  const files: RenderedFiles = {};
+  site.pages.forEach((entry, index) => {
+    const path = pagePath(index, entry.page);
+    files[path] = document(entry, path);
+  });
+  files[STYLESHEET_PATH] = themeStylesheet(options.theme);
+  files['sitemap.xml'] = sitemap(site, options.baseUrl);
+  files['robots.txt'] = robots(options.baseUrl);
+  return files;
+};
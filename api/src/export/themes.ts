@@ -0,0 +1,94 @@
+// Built-in looks for exported sites. A theme only sets the CSS custom
+// properties below; the layout rules are shared.
+export const EXPORT_THEMES = ['classic', 'modern', 'dark'] as const;
+export type ExportTheme = (typeof EXPORT_THEMES)[number];
+
+export const DEFAULT_EXPORT_THEME: ExportTheme = 'modern';
+
+interface ThemeTokens {
+  font: string;
+  headingFont: string;
+  background: string;
+  surface: string;
+  text: string;
+  muted: string;
+  accent: string;
+  accentText: string;
+  radius: string;
+}
+
+const THEMES: Record<ExportTheme, ThemeTokens> = {
+  classic: {
+    font: 'Georgia, "Times New Roman", serif',
+    headingFont: 'Georgia, "Times New Roman", serif',
+    background: '#fdfcf8',
+    surface: '#f3efe4',
+    text: '#2b2a27',
+    muted: '#6b665c',
+    accent: '#8a3b12',
+    accentText: '#ffffff',
+    radius: '2px',
+  },
+  modern: {
+    font: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif',
+    headingFont: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif',
+    background: '#ffffff',
+    surface: '#f3f4f6',
+    text: '#111827',
+    muted: '#6b7280',
+    accent: '#2563eb',
+    accentText: '#ffffff',
+    radius: '0.75rem',
+  },
+  dark: {
+    font: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif',
+    headingFont: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif',
+    background: '#0f172a',
+    surface: '#1e293b',
+    text: '#e2e8f0',
+    muted: '#94a3b8',
+    accent: '#38bdf8',
+    accentText: '#0f172a',
+    radius: '0.5rem',
+  },
+};
+
+export const isExportTheme = (value: unknown): value is ExportTheme =>
+  typeof value === 'string' && (EXPORT_THEMES as readonly string[]).includes(value);
+
+const LAYOUT = `*,*::before,*::after{box-sizing:border-box}
+body{margin:0;font-family:var(--font);background:var(--background);color:var(--text);line-height:1.6}
+h1,h2,h3{font-family:var(--heading-font);line-height:1.2;margin:0 0 .75rem}
+a{color:var(--accent)}
+img{max-width:100%;height:auto;display:block}
+.container{max-width:960px;margin:0 auto;padding:0 1.25rem}
+.site-header{border-bottom:1px solid var(--surface);padding:1rem 0}
+.site-header .container{display:flex;flex-wrap:wrap;align-items:center;justify-content:space-between;gap:1rem}
+.site-name{font-family:var(--heading-font);font-weight:700;font-size:1.25rem;text-decoration:none;color:var(--text)}
+.site-nav ul{list-style:none;display:flex;flex-wrap:wrap;gap:1rem;margin:0;padding:0}
+.site-nav a{text-decoration:none;color:var(--muted)}
+.site-nav a[aria-current=page]{color:var(--text);font-weight:600}
+main section{padding:3rem 0}
+.hero{background:var(--surface)}
+.hero .container{display:grid;gap:2rem;align-items:center}
+.hero.has-image .container{grid-template-columns:repeat(auto-fit,minmax(280px,1fr))}
+.hero h1{font-size:2.5rem}
+.hero p{color:var(--muted);font-size:1.15rem}
+.hero img{border-radius:var(--radius)}
+.button{display:inline-block;background:var(--accent);color:var(--accent-text);padding:.65rem 1.25rem;border-radius:var(--radius);text-decoration:none;font-weight:600}
+.gallery ul{list-style:none;margin:0;padding:0;display:grid;gap:1rem;grid-template-columns:repeat(auto-fill,minmax(220px,1fr))}
+.gallery img{border-radius:var(--radius);aspect-ratio:4/3;object-fit:cover;width:100%}
+.gallery figcaption{color:var(--muted);font-size:.9rem;margin-top:.35rem}
+.cta{text-align:center}
+.cta .container{background:var(--surface);border-radius:var(--radius);padding:2.5rem 1.25rem}
+.site-footer{border-top:1px solid var(--surface);padding:1.5rem 0;color:var(--muted);font-size:.9rem}
+.site-footer p{margin:.25rem 0}
+.site-footer a{color:inherit}
+`;
+
+// The complete stylesheet for a theme.
+export const themeStylesheet = (theme: ExportTheme) => {
+  const tokens = THEMES[theme];
+  return `:root{--font:${tokens.font};--heading-font:${tokens.headingFont};--background:${tokens.background};--surface:${tokens.surface};--text:${tokens.text};--muted:${tokens.muted};--accent:${tokens.accent};--accent-text:${tokens.accentText};--radius:${tokens.radius}}
+${LAYOUT}`;
+};
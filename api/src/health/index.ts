@@ -0,0 +1,101 @@
+import { getConfig } from '../config.js';
+import { pingDatabase } from '../db/connection.js';
+import { logger } from '../lib/logger.js';
+import { API_URL as PEXELS_API_URL } from '../media/pexels.js';
+import { measuredFetch, type UpstreamService } from '../metrics/index.js';
+import { API_VERSION as AZURE_API_VERSION } from '../search/azure.js';
+
+// Deep readiness checks for GET /ready: the database, which the API cannot work
+// without, and every optional integration that is configured. Upstreams are
+// asked for something cheap (a model list, the index definition) with the
+// configured key, so a revoked key shows up here before it fails a request.
+
+export const CHECK_STATUSES = ['ok', 'error', 'disabled'] as const;
+export type CheckStatus = (typeof CHECK_STATUSES)[number];
+
+export interface CheckResult {
+  status: CheckStatus;
+  duration_ms: number;
+  error?: string;
+}
+
+const CHECK_TIMEOUT_MS = 3000;
+
+// Resolves when the check passed. Only CheckError messages are returned; other
+// failures are logged and reported as "failed".
+type Check = (signal: AbortSignal) => Promise<void>;
+
+class CheckError extends Error {}
+
+const DISABLED: CheckResult = { status: 'disabled', duration_ms: 0 };
+
+const runCheck = async (name: string, check: Check): Promise<CheckResult> => {
+  const signal = AbortSignal.timeout(CHECK_TIMEOUT_MS);
+  const start = performance.now();
+  const elapsed = () => Math.round(performance.now() - start);
+  try {
+    await check(signal);
+    return { status: 'ok', duration_ms: elapsed() };
+  } catch (error) {
+    logger.warn('Readiness check failed', { check: name, error: error instanceof CheckError ? error.cause : error });
+    const message = signal.aborted ? 'timed out' : error instanceof CheckError ? error.message : 'failed';
+    return { status: 'error', duration_ms: elapsed(), error: message };
+  }
+};
+
+// Passes on any 2xx; the body is discarded, so nothing upstream sent is echoed.
+const httpCheck =
+  (service: UpstreamService, url: string, headers: Record<string, string>): Check =>
+  async (signal) => {
+    let response: Response;
+    try {
+      response = await measuredFetch(service)(url, { headers, signal });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      throw new CheckError('could not be reached', { cause: error });
+    }
+    await response.body?.cancel();
+    if (!response.ok)
+      throw new CheckError(`answered ${response.status}`, { cause: `${url} answered ${response.status}` });
+  };
+
+export const checkReadiness = async () => {
+  const { ai, azureSearch, pexels } = getConfig();
+  const optional = (name: string, check: Check | null) => (check ? runCheck(name, check) : Promise.resolve(DISABLED));
+
+  const [database, openai, gemini, azure, photos] = await Promise.all([
+    runCheck('database', pingDatabase),
+    optional(
+      'openai',
+      ai.openai.apiKey === null
+        ? null
+        : httpCheck('openai', 'https://api.openai.com/v1/models', { Authorization: `Bearer ${ai.openai.apiKey}` }),
+    ),
+    optional(
+      'gemini',
+      ai.gemini.apiKey === null
+        ? null
+        : httpCheck('gemini', 'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1', {
+            'x-goog-api-key': ai.gemini.apiKey,
+          }),
+    ),
+    optional(
+      'azure_search',
+      azureSearch &&
+        httpCheck(
+          'azure_search',
+          `${azureSearch.endpoint}/indexes/${encodeURIComponent(azureSearch.index)}?api-version=${AZURE_API_VERSION}`,
+          { 'api-key': azureSearch.apiKey },
+        ),
+    ),
+    optional(
+      'pexels',
+      pexels && httpCheck('pexels', `${PEXELS_API_URL}/curated?per_page=1`, { Authorization: pexels.apiKey }),
+    ),
+  ]);
+
+  return {
+    ready: database.status === 'ok',
+    checks: { database, openai, gemini, azure_search: azure, pexels: photos },
+  };
+};
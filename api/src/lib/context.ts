@@ -0,0 +1,25 @@
+import { randomUUID } from 'node:crypto';
+import type { MiddlewareHandler } from 'hono';
+import type { AuthUser } from '../auth/index.js';
+
+// Per-request values shared between middleware and routes through `c.get`/`c.set`.
+declare module 'hono' {
+  interface ContextVariableMap {
+    // Set by `authenticate` when the request carries a valid bearer token.
+    user?: AuthUser;
+    // Set by `requestId` for every request.
+    requestId?: string;
+  }
+}
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Tags each request with an id, reusing a well-formed X-Request-Id from a
+// proxy or client, and echoes it back so logs on both sides can be matched.
+export const requestId = (): MiddlewareHandler => async (c, next) => {
+  const incoming = c.req.header('X-Request-Id');
+  const id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  c.set('requestId', id);
+  await next();
+  c.res.headers.set('X-Request-Id', id);
+};
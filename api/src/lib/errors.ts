@@ -0,0 +1,116 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { z } from 'zod';
+import { logger } from './logger.js';
+
+// Every error answer is one JSON envelope: a stable `code` for clients to
+// branch on, a human `message`, optional `details` and the request id to quote
+// in a bug report. Messages may change; codes may not.
+export const ERROR_CODES = [
+  'invalid_request',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'conflict',
+  'already_exists',
+  'quota_exceeded',
+  'rate_limited',
+  'payload_too_large',
+  'unsupported_media_type',
+  'upstream_error',
+  'upstream_timeout',
+  // An optional integration (Pexels, an AI provider) is not configured here.
+  'integration_unavailable',
+  'server_error',
+] as const;
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+// The code of an HTTPException thrown without one.
+const STATUS_CODES: Partial<Record<number, ErrorCode>> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  402: 'quota_exceeded',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  413: 'payload_too_large',
+  415: 'unsupported_media_type',
+  429: 'rate_limited',
+  502: 'upstream_error',
+  504: 'upstream_timeout',
+};
+
+export const ErrorEnvelope = z
+  .object({
+    code: z.enum(ERROR_CODES),
+    message: z.string(),
+    details: z.record(z.string(), z.unknown()).optional(),
+    requestId: z.string().nullable().describe('Echoed in the X-Request-Id header and the server logs.'),
+  })
+  .meta({ id: 'Error' });
+export type ErrorEnvelope = z.output<typeof ErrorEnvelope>;
+
+export interface ApiErrorOptions {
+  details?: Record<string, unknown>;
+  // Sent along with the envelope, e.g. Retry-After.
+  headers?: Record<string, string>;
+}
+
+// An HTTPException with its own code and details; plain HTTPExceptions get the
+// code of their status.
+export class ApiError extends HTTPException {
+  readonly code: ErrorCode;
+  readonly details?: Record<string, unknown>;
+  readonly headers: Record<string, string>;
+
+  constructor(status: ContentfulStatusCode, code: ErrorCode, message: string, options: ApiErrorOptions = {}) {
+    super(status, { message });
+    this.code = code;
+    this.details = options.details;
+    this.headers = options.headers ?? {};
+  }
+}
+
+// For failures of an upstream service: what it answered is logged here and kept
+// out of the response, which only names the service.
+export const upstreamError = (service: string, problem: string, logged?: unknown) => {
+  logger.error(`${service} ${problem}`, { upstream: logged });
+  return new ApiError(502, 'upstream_error', `${service} ${problem}`, { details: { service } });
+};
+
+// For an upstream service that did not answer in time.
+export const upstreamTimeout = (service: string) => {
+  logger.error(`${service} timed out`);
+  return new ApiError(504, 'upstream_timeout', `${service} timed out`, { details: { service } });
+};
+
+// Unknown errors are logged and answered with a generic 500.
+export const toErrorEnvelope = (error: unknown, requestId: string | undefined) => {
+  const envelope = (code: ErrorCode, message: string, details?: Record<string, unknown>): ErrorEnvelope => ({
+    code,
+    message,
+    details,
+    requestId: requestId ?? null,
+  });
+
+  if (error instanceof ApiError) {
+    return {
+      status: error.status,
+      headers: error.headers,
+      body: envelope(error.code, error.message, error.details),
+    };
+  }
+  if (error instanceof HTTPException) {
+    const code = STATUS_CODES[error.status] ?? (error.status >= 500 ? 'server_error' : 'invalid_request');
+    return { status: error.status, headers: {}, body: envelope(code, error.message || code) };
+  }
+  logger.error('Request failed', { requestId, error });
+  return { status: 500 as const, headers: {}, body: envelope('server_error', 'internal server error') };
+};
+
+export const errorResponse = (c: Context, error: unknown) => {
+  const { status, headers, body } = toErrorEnvelope(error, c.get('requestId'));
+  for (const [name, value] of Object.entries(headers)) c.header(name, value);
+  return c.json(body, status as ContentfulStatusCode);
+};
@@ -0,0 +1,49 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { matchedRoutes } from 'hono/route';
+
+// Structured logs: one JSON object per line, so a collector can filter on
+// requestId, route or status instead of grepping free text.
+
+type Level = 'info' | 'warn' | 'error';
+type Fields = Record<string, unknown>;
+
+// Errors do not survive JSON.stringify; keep what helps debugging.
+const serialise = (value: unknown): unknown =>
+  value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+
+const write = (level: Level, message: string, fields: Fields = {}) => {
+  const entry: Fields = { time: new Date().toISOString(), level, msg: message };
+  for (const [key, value] of Object.entries(fields)) entry[key] = serialise(value);
+  const line = JSON.stringify(entry);
+  if (level === 'info') process.stdout.write(`${line}\n`);
+  else process.stderr.write(`${line}\n`);
+};
+
+export const logger = {
+  info: (message: string, fields?: Fields) => write('info', message, fields),
+  warn: (message: string, fields?: Fields) => write('warn', message, fields),
+  error: (message: string, fields?: Fields) => write('error', message, fields),
+};
+
+// The route pattern that served the request ("/projects/:id"), which keeps log
+// and metric labels bounded; "unmatched" when no route did (404s, preflights).
+// Middleware such as requireUser is registered for every method, so the last
+// route for the request's own method is the endpoint.
+export const routeOf = (c: Context) =>
+  [...matchedRoutes(c)].reverse().find((route) => route.method !== 'ALL')?.path ?? 'unmatched';
+
+// Logs every request once it has been answered; runs after `requestId`.
+export const accessLog = (): MiddlewareHandler => async (c, next) => {
+  const start = performance.now();
+  await next();
+  const status = c.res.status;
+  write(status >= 500 ? 'error' : 'info', 'request', {
+    requestId: c.get('requestId'),
+    method: c.req.method,
+    route: routeOf(c),
+    path: c.req.path,
+    status,
+    durationMs: Math.round((performance.now() - start) * 10) / 10,
+    userId: c.get('user')?.id,
+  });
+};
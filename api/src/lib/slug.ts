@@ -0,0 +1,27 @@
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+export const MAX_SLUG_LENGTH = 80;
+
+export const isValidSlug = (value: string) => value.length <= MAX_SLUG_LENGTH && SLUG_PATTERN.test(value);
+
+// "Café & Co." -> "cafe-co"
+export const slugify = (value: string, fallback = 'item') => {
+  const slug = value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '');
+  return slug || fallback;
+};
+
+// Appends -2, -3, ... to `base` until `isTaken` reports a free slug.
+export const uniqueSlug = async (base: string, isTaken: (slug: string) => Promise<boolean>) => {
+  for (let n = 1; n < 100; n += 1) {
+    const suffix = n === 1 ? '' : `-${n}`;
+    const candidate = `${base.slice(0, MAX_SLUG_LENGTH - suffix.length).replace(/-+$/, '')}${suffix}`;
+    if (!(await isTaken(candidate))) return candidate;
+  }
+  return `${base.slice(0, MAX_SLUG_LENGTH - 9)}-${Date.now().toString(36)}`;
+};
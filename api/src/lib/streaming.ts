@@ -0,0 +1,30 @@
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { StreamEvent } from '../ai/index.js';
+import { toErrorEnvelope } from './errors.js';
+
+// Relays a completion as SSE: "delta" events with {text}, then one "done" event
+// with {provider, model, usage, finishReason}, or an "error" event with the error
+// envelope if the upstream fails mid-stream. The first chunk is awaited before
+// the response starts so failures before any output still get a regular HTTP
+// error status.
+export const streamResponse = async (c: Context, events: AsyncGenerator<StreamEvent>) => {
+  const first = await events.next();
+
+  return streamSSE(c, async (sse) => {
+    try {
+      let next = first;
+      while (!next.done) {
+        const { type, ...data } = next.value;
+        await sse.writeSSE({ event: type, data: JSON.stringify(data) });
+        next = await events.next();
+      }
+    } catch (error) {
+      if (c.req.raw.signal.aborted) return;
+      const { body } = toErrorEnvelope(error, c.get('requestId'));
+      await sse.writeSSE({ event: 'error', data: JSON.stringify(body) });
+    } finally {
+      await events.return(undefined);
+    }
+  });
+};
@@ -0,0 +1,141 @@
+import type { Env, MiddlewareHandler } from 'hono';
+import { validator } from 'hono/validator';
+import { z } from 'zod';
+import { ApiError, ErrorEnvelope } from './errors.js';
+
+// Where a request value came from, as reported back to the client.
+export type FieldLocation = 'path' | 'query' | 'body';
+
+export const FieldProblem = z
+  .object({
+    location: z.enum(['path', 'query', 'body']),
+    // Dotted path such as "images[0].url"; the location itself for the whole value.
+    field: z.string(),
+    message: z.string(),
+  })
+  .meta({ id: 'FieldProblem' });
+export type FieldProblem = z.output<typeof FieldProblem>;
+
+export const ValidationError = ErrorEnvelope.extend({
+  code: z.literal('invalid_request'),
+  details: z.object({ fields: z.array(FieldProblem) }),
+}).meta({
+  id: 'ValidationError',
+  description: 'The request failed schema validation; `details.fields` lists every problem.',
+});
+
+const ARTICLES: Record<string, string> = {
+  int: 'an integer',
+  object: 'an object',
+  array: 'an array',
+};
+
+const list = (values: readonly unknown[]) => values.map(String).join(', ');
+
+// Messages in the API's own wording ("title is required", "limit must be at
+// most 100") instead of zod's defaults.
+const issueMessage = (issue: z.core.$ZodRawIssue): string | undefined => {
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.input === undefined) return 'is required';
+      return `must be ${ARTICLES[issue.expected] ?? `a ${issue.expected}`}`;
+    case 'too_small': {
+      const minimum = Number(issue.minimum);
+      if (issue.origin === 'string') {
+        return minimum <= 1 ? 'must not be empty' : `must be at least ${minimum} characters`;
+      }
+      if (issue.origin === 'array' || issue.origin === 'set') {
+        return minimum <= 1 ? 'must not be empty' : `must contain at least ${minimum} entries`;
+      }
+      return issue.inclusive ? `must be at least ${minimum}` : `must be greater than ${minimum}`;
+    }
+    case 'too_big': {
+      const maximum = Number(issue.maximum);
+      if (issue.origin === 'string') return `must be at most ${maximum} characters`;
+      if (issue.origin === 'array' || issue.origin === 'set') return `must contain at most ${maximum} entries`;
+      return issue.inclusive ? `must be at most ${maximum}` : `must be less than ${maximum}`;
+    }
+    case 'invalid_value':
+      return issue.values.length === 1 ? `must be ${String(issue.values[0])}` : `must be one of ${list(issue.values)}`;
+    case 'invalid_union': {
+      const options = (issue as { options?: unknown[] }).options;
+      return options ? `must be one of ${list(options)}` : undefined;
+    }
+    case 'invalid_format':
+      if (issue.format === 'email') return 'must be a valid email address';
+      if (issue.format === 'date') return 'must be a date (YYYY-MM-DD)';
+      if (issue.format === 'url') return 'must be a URL';
+      return 'has an invalid format';
+    default:
+      return undefined;
+  }
+};
+
+z.config({ customError: issueMessage });
+
+// Preprocessor for text fields: trims strings and turns blank ones (and null)
+// into undefined, so `.optional()` drops them and required fields report them.
+export const trimmed = (value: unknown) =>
+  typeof value === 'string' ? value.trim() || undefined : (value ?? undefined);
+
+export const fieldPath = (path: readonly PropertyKey[], root = '') =>
+  path.reduce<string>(
+    (joined, key) =>
+      typeof key === 'number' ? `${joined}[${key}]` : joined ? `${joined}.${String(key)}` : String(key),
+    root,
+  );
+
+export const toFieldProblems = (error: z.ZodError, location: FieldLocation, root = ''): FieldProblem[] =>
+  error.issues.map((issue) => ({
+    location,
+    field: fieldPath(issue.path, root) || location,
+    message: issue.message,
+  }));
+
+// A 400 whose details list every problem, so forms can mark each field.
+export const invalidRequest = (fields: FieldProblem[]) =>
+  new ApiError(400, 'invalid_request', fields.map((problem) => `${problem.field} ${problem.message}`).join('; '), {
+    details: { fields },
+  });
+
+// For values a handler reads itself, such as multipart fields; `root` prefixes
+// the reported field names when `value` is nested in the request.
+export const parseInput = async <Schema extends z.ZodType>(
+  schema: Schema,
+  value: unknown,
+  location: FieldLocation,
+  root = '',
+): Promise<z.output<Schema>> => {
+  const result = await schema.safeParseAsync(value);
+  if (!result.success) throw invalidRequest(toFieldProblems(result.error, location, root));
+  return result.data;
+};
+
+export const VALIDATION_TARGETS = { param: 'path', query: 'query', json: 'body' } as const;
+export type ValidationTarget = keyof typeof VALIDATION_TARGETS;
+
+export interface Validation {
+  target: ValidationTarget;
+  schema: z.ZodType;
+}
+
+// Read by the OpenAPI document builder to describe each route's inputs.
+const validations = new WeakMap<object, Validation>();
+
+export const validationOf = (handler: object) => validations.get(handler);
+
+// Parses path parameters, the query string or the JSON body with `schema`;
+// handlers read the result with `c.req.valid(target)`. A body sent without a
+// JSON content type is validated as `{}`.
+export const validate = <Target extends ValidationTarget, Schema extends z.ZodType>(
+  target: Target,
+  schema: Schema,
+): MiddlewareHandler<
+  Env,
+  string,
+  { in: { [K in Target]: z.input<Schema> }; out: { [K in Target]: z.output<Schema> } }
+> => {
+  const middleware = validator(target, (value) => parseInput(schema, value, VALIDATION_TARGETS[target]));
+  validations.set(middleware, { target, schema });
+  return middleware as MiddlewareHandler;
+};
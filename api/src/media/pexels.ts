@@ -0,0 +1,114 @@
+import { getConfig } from '../config.js';
+import type { AssetSizes } from '../domain/assets.js';
+import { ApiError, upstreamError, upstreamTimeout } from '../lib/errors.js';
+import { measuredFetch } from '../metrics/index.js';
+
+// Client for the Pexels photo API. Upstream failures surface as 502s and calls
+// that take longer than PEXELS_TIMEOUT_MS as 504s; without PEXELS_API_KEY the
+// integration is off and calls answer 503 integration_unavailable (GET /ready
+// reports it as disabled).
+
+export interface PexelsPhoto {
+  id?: number;
+  photographer?: string;
+  photographer_url?: string;
+  url?: string;
+  alt?: string;
+  width?: number;
+  height?: number;
+  src: AssetSizes;
+}
+
+export interface PexelsSearchResult {
+  photos: PexelsPhoto[];
+  page: number;
+  per_page: number;
+  total_results: number;
+}
+
+export const API_URL = 'https://api.pexels.com/v1';
+
+// Covers the whole call, reading the body included.
+const PEXELS_TIMEOUT_MS = 10_000;
+
+const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+export const normalisePexelsPhoto = (photo: Record<string, unknown>): PexelsPhoto => {
+  const src = (photo.src ?? {}) as Record<string, unknown>;
+
+  return {
+    id: number(photo.id),
+    photographer: text(photo.photographer),
+    photographer_url: text(photo.photographer_url),
+    url: text(photo.url),
+    alt: text(photo.alt),
+    width: number(photo.width),
+    height: number(photo.height),
+    src: {
+      original: text(src.original),
+      large: text(src.large),
+      medium: text(src.medium),
+      small: text(src.small),
+    },
+  };
+};
+
+// null when Pexels answers 404.
+const getPexels = async (path: string, params: Record<string, string> = {}) => {
+  const pexels = getConfig().pexels;
+  if (!pexels) {
+    throw new ApiError(503, 'integration_unavailable', 'Pexels is not configured on this server', {
+      details: { integration: 'pexels' },
+    });
+  }
+
+  const url = new URL(`${API_URL}${path}`);
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+
+  const signal = AbortSignal.timeout(PEXELS_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await measuredFetch('pexels')(url, {
+      headers: {
+        Authorization: pexels.apiKey,
+      },
+      signal,
+    });
+  } catch (error) {
+    throw signal.aborted ? upstreamTimeout('Pexels API') : upstreamError('Pexels API', 'could not be reached', error);
+  }
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw upstreamError('Pexels API', `answered ${response.status}`, await response.text().catch(() => ''));
+  }
+
+  try {
+    return (await response.json()) as Record<string, unknown>;
+  } catch (error) {
+    throw signal.aborted
+      ? upstreamTimeout('Pexels API')
+      : upstreamError('Pexels API', 'sent an unreadable answer', error);
+  }
+};
+
+export const searchPexels = async (query: string, page: number, perPage: number): Promise<PexelsSearchResult> => {
+  const result = (await getPexels('/search', { query, page: String(page), per_page: String(perPage) })) ?? {};
+  const photos = Array.isArray(result.photos)
+    ? result.photos.map((photo) => normalisePexelsPhoto((photo ?? {}) as Record<string, unknown>))
+    : [];
+
+  return {
+    photos,
+    page: number(result.page) ?? page,
+    per_page: number(result.per_page) ?? perPage,
+    total_results: number(result.total_results) ?? photos.length,
+  };
+};
+
+// Looks a photo up by id, so saved assets never trust client-supplied URLs.
+export const getPexelsPhoto = async (id: number) => {
+  const photo = await getPexels(`/photos/${id}`);
+  return photo ? normalisePexelsPhoto(photo) : null;
+};
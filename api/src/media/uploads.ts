@@ -0,0 +1,93 @@
+import { randomUUID } from 'node:crypto';
+import { HTTPException } from 'hono/http-exception';
+import sharp from 'sharp';
+import { getConfig } from '../config.js';
+import type { AssetSizes } from '../domain/assets.js';
+import { extensionOf, getStorage } from '../storage/index.js';
+
+// Turns an uploaded image into stored files: the original as sent plus
+// resized variants, under projects/<projectId>/<upload id>/.
+
+// Declared type -> format sharp must detect in the bytes.
+const FORMATS: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'heif',
+};
+
+export const UPLOAD_TYPES = Object.keys(FORMATS);
+
+// Longest side of each variant; smaller images are not enlarged.
+const VARIANTS = { medium: 1200, thumbnail: 320 } as const;
+
+export const maxUploadBytes = () => getConfig().storage.uploadMaxBytes;
+
+export interface StoredUpload {
+  source_id: string;
+  storage_keys: AssetSizes;
+  file_name: string;
+  content_type: string;
+  byte_size: number;
+  width: number | null;
+  height: number | null;
+}
+
+const readImage = async (bytes: Uint8Array, contentType: string) => {
+  try {
+    const metadata = await sharp(bytes).metadata();
+    if (metadata.format === FORMATS[contentType]) return metadata;
+  } catch {
+    // reported below
+  }
+  throw new HTTPException(415, { message: `file is not a valid ${contentType} image` });
+};
+
+export const storeUpload = async (projectId: number, file: File): Promise<StoredUpload> => {
+  const contentType = file.type.toLowerCase();
+  if (!FORMATS[contentType]) {
+    throw new HTTPException(415, { message: `file must be one of ${UPLOAD_TYPES.join(', ')}` });
+  }
+  if (file.size === 0) throw new HTTPException(400, { message: 'file is empty' });
+  if (file.size > maxUploadBytes()) {
+    throw new HTTPException(413, { message: `file must be at most ${maxUploadBytes()} bytes` });
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const metadata = await readImage(bytes, contentType);
+  // EXIF orientations 5-8 are rotated by a quarter turn, so width and height swap.
+  const rotated = (metadata.orientation ?? 1) >= 5;
+
+  const id = randomUUID();
+  const folder = `projects/${projectId}/${id}`;
+  const files: { key: string; body: Uint8Array; contentType: string }[] = [
+    { key: `${folder}/original.${extensionOf(contentType)}`, body: bytes, contentType },
+  ];
+  for (const [name, size] of Object.entries(VARIANTS)) {
+    const body = await sharp(bytes)
+      .rotate()
+      .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer();
+    files.push({ key: `${folder}/${name}.webp`, body: new Uint8Array(body), contentType: 'image/webp' });
+  }
+
+  const storage = getStorage();
+  try {
+    await Promise.all(files.map((entry) => storage.put(entry.key, entry.body, entry.contentType)));
+  } catch (error) {
+    await storage.delete(files.map((entry) => entry.key)).catch(() => undefined);
+    throw error;
+  }
+
+  return {
+    source_id: id,
+    storage_keys: { original: files[0].key, medium: files[1].key, thumbnail: files[2].key },
+    file_name: file.name || 'upload',
+    content_type: contentType,
+    byte_size: bytes.byteLength,
+    width: (rotated ? metadata.height : metadata.width) ?? null,
+    height: (rotated ? metadata.width : metadata.height) ?? null,
+  };
+};
@@ -0,0 +1,76 @@
+import type { MiddlewareHandler } from 'hono';
+import { collectDefaultMetrics, Counter, Histogram, Registry } from 'prom-client';
+import { routeOf } from '../lib/logger.js';
+
+// Prometheus metrics served at GET /metrics: request counts and latencies per
+// route, and the same for every call to an upstream service, so a slow /search
+// can be told apart from a slow Azure AI Search.
+
+export type UpstreamService = 'openai' | 'gemini' | 'azure_search' | 'pexels' | 'supabase';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+// Seconds; upstream model calls run far longer than anything else.
+const HTTP_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const UPSTREAM_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const httpRequests = new Counter({
+  name: 'http_requests_total',
+  help: 'Requests answered, by route pattern, method and status.',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [registry],
+});
+
+const httpDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time to answer a request, by route pattern, method and status.',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: HTTP_BUCKETS,
+  registers: [registry],
+});
+
+const upstreamRequests = new Counter({
+  name: 'upstream_requests_total',
+  help: 'Calls to upstream services, by service and outcome: the HTTP status, "network_error" or "aborted".',
+  labelNames: ['service', 'status'] as const,
+  registers: [registry],
+});
+
+const upstreamDuration = new Histogram({
+  name: 'upstream_request_duration_seconds',
+  help: 'Time until an upstream service answered (headers only for streams), by service and outcome.',
+  labelNames: ['service', 'status'] as const,
+  buckets: UPSTREAM_BUCKETS,
+  registers: [registry],
+});
+
+// Records every request once it has been answered.
+export const measureRequests = (): MiddlewareHandler => async (c, next) => {
+  const stop = httpDuration.startTimer();
+  await next();
+  const labels = { method: c.req.method, route: routeOf(c), status: String(c.res.status) };
+  stop(labels);
+  httpRequests.inc(labels);
+};
+
+// A fetch that records the calls it makes as `service`. Failed calls are
+// counted under "network_error", or "aborted" when their signal fired (a
+// timeout or a client that went away), and rethrown.
+export const measuredFetch =
+  (service: UpstreamService): typeof fetch =>
+  async (input, init) => {
+    const stop = upstreamDuration.startTimer({ service });
+    let status: string;
+    try {
+      const response = await fetch(input, init);
+      status = String(response.status);
+      return response;
+    } catch (error) {
+      status = init?.signal?.aborted ? 'aborted' : 'network_error';
+      throw error;
+    } finally {
+      stop({ status });
+      upstreamRequests.inc({ service, status });
+    }
+  };
@@ -0,0 +1,236 @@
+import type { Hono, MiddlewareHandler } from 'hono';
+import { z } from 'zod';
+import { ErrorEnvelope } from '../lib/errors.js';
+import { ValidationError, validationOf } from '../lib/validation.js';
+import type { Validation } from '../lib/validation.js';
+
+// A response is a JSON body schema, `null` for an empty body (204), a
+// description for error statuses (answered with the error envelope), or bodies by content type (e.g. a zip, or
+// JSON and text/event-stream for routes that can stream) with their headers.
+export type ResponseDocs =
+  | z.ZodType
+  | null
+  | string
+  | { description: string; content: Record<string, z.ZodType>; headers?: Record<string, string> };
+
+export interface RouteDocs {
+  summary: string;
+  description?: string;
+  // Served without a bearer token.
+  public?: boolean;
+  // Request bodies the handler parses itself, by content type, e.g. a multipart
+  // upload; bodies checked with `validate('json', ...)` are picked up on their own.
+  body?: Record<string, z.ZodType>;
+  responses: Record<number, ResponseDocs>;
+}
+
+interface Documented extends RouteDocs {
+  tag: string;
+}
+
+const documented = new WeakMap<object, Documented>();
+
+// Returns a middleware that documents the route it is placed on:
+//   const docs = routeDocs('Pages');
+//   r.get('/', docs({ summary: 'List pages', responses: { 200: z.array(SitePage) } }), handler);
+// Every route of the app needs one; buildOpenApiDocument refuses undocumented routes.
+export const routeDocs =
+  (tag: string) =>
+  (route: RouteDocs): MiddlewareHandler => {
+    const middleware: MiddlewareHandler = (_c, next) => next();
+    documented.set(middleware, { ...route, tag });
+    return middleware;
+  };
+
+type JsonSchema = Record<string, unknown>;
+type Io = 'input' | 'output';
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No content',
+  304: 'Not modified',
+  400: 'Invalid request',
+  401: 'Missing or invalid bearer token',
+};
+
+// Converts zod schemas to JSON Schema and hoists every schema registered with
+// `.meta({ id })` into components. A registered schema must look the same in
+// requests and responses (no defaults or transforms); give the request variant
+// its own id otherwise.
+const createSchemaCollector = () => {
+  const components: Record<string, JsonSchema> = {};
+  const serialised = new Map<string, string>();
+
+  const rewrite = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(rewrite);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) =>
+        key === '$ref' && typeof entry === 'string'
+          ? [key, entry.replace('#/$defs/', '#/components/schemas/')]
+          : [key, rewrite(entry)],
+      ),
+    );
+  };
+
+  const toJsonSchema = (schema: z.ZodType, io: Io): JsonSchema => {
+    const {
+      $schema: _schema,
+      $defs = {},
+      ...root
+    } = z.toJSONSchema(schema, {
+      io,
+      unrepresentable: 'any',
+      override: ({ jsonSchema }) => {
+        // Responses are documented as open objects, like requests.
+        if (jsonSchema.additionalProperties === false) delete jsonSchema.additionalProperties;
+        // .int() implies the safe integer range; spelling it out is noise.
+        if (jsonSchema.minimum === Number.MIN_SAFE_INTEGER) delete jsonSchema.minimum;
+        if (jsonSchema.maximum === Number.MAX_SAFE_INTEGER) delete jsonSchema.maximum;
+      },
+    }) as JsonSchema;
+    for (const [id, definition] of Object.entries($defs as Record<string, JsonSchema>)) {
+      const json = JSON.stringify(definition);
+      if (serialised.has(id) && serialised.get(id) !== json) {
+        throw new Error(`schema "${id}" differs between requests and responses`);
+      }
+      serialised.set(id, json);
+      components[id] = rewrite(definition) as JsonSchema;
+    }
+    return rewrite(root) as JsonSchema;
+  };
+
+  return { components, toJsonSchema };
+};
+
+// Hono writes /projects/:id and /files/*; OpenAPI wants /projects/{id}.
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)(\{[^}]*\})?/g, '{$1}').replace(/\/\*$/, '/{path}');
+
+const pathParameterNames = (path: string) => [...path.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+// Builds an OpenAPI 3.1 document from the routes registered on `app`, their
+// `routeDocs` and their `validate` schemas. Throws when a route is undocumented
+// or a path parameter has no schema, so the contract cannot fall behind.
+export const buildOpenApiDocument = (app: Hono, info: OpenApiInfo) => {
+  const { components, toJsonSchema } = createSchemaCollector();
+  const operations = new Map<string, { method: string; path: string; handlers: object[] }>();
+  for (const { method, path, handler } of app.routes) {
+    if (method === 'ALL') continue;
+    const key = `${method} ${path}`;
+    const operation = operations.get(key) ?? { method: method.toLowerCase(), path, handlers: [] };
+    operation.handlers.push(handler);
+    operations.set(key, operation);
+  }
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [key, { method, path, handlers }] of operations) {
+    const docs = handlers.map((handler) => documented.get(handler)).find(Boolean);
+    if (!docs) throw new Error(`${key} has no routeDocs`);
+    const inputs = new Map<Validation['target'], z.ZodType>();
+    for (const handler of handlers) {
+      const validation = validationOf(handler);
+      if (validation) inputs.set(validation.target, validation.schema);
+    }
+
+    const openApiPath = toOpenApiPath(path);
+    const parameters: Record<string, unknown>[] = [];
+    const params = inputs.get('param') ? toJsonSchema(inputs.get('param'), 'input') : { properties: {} };
+    for (const name of pathParameterNames(openApiPath)) {
+      const schema = (params.properties as Record<string, JsonSchema>)[name];
+      if (!schema && !path.endsWith('/*')) throw new Error(`${key} has no schema for path parameter "${name}"`);
+      const { description, ...rest } = schema ?? { type: 'string' };
+      parameters.push({ name, in: 'path', required: true, description, schema: rest });
+    }
+    if (inputs.get('query')) {
+      const query = toJsonSchema(inputs.get('query'), 'input');
+      const required = new Set((query.required as string[] | undefined) ?? []);
+      for (const [name, schema] of Object.entries(query.properties as Record<string, JsonSchema>)) {
+        const { description, ...rest } = schema;
+        parameters.push({ name, in: 'query', required: required.has(name), description, schema: rest });
+      }
+    }
+
+    const bodies = { ...docs.body };
+    if (inputs.get('json')) bodies['application/json'] = inputs.get('json');
+    const content = Object.fromEntries(
+      Object.entries(bodies).map(([type, schema]) => [type, { schema: toJsonSchema(schema, 'input') }]),
+    );
+    const requestBody = Object.keys(content).length > 0 ? { required: true, content } : undefined;
+
+    const responses: Record<string, unknown> = {};
+    const declared: Record<number, ResponseDocs> = { ...docs.responses };
+    if ((inputs.size > 0 || requestBody) && declared[400] === undefined) declared[400] = ValidationError;
+    if (!docs.public && declared[401] === undefined) declared[401] = STATUS_TEXT[401];
+    for (const [status, response] of Object.entries(declared)) {
+      const description = STATUS_TEXT[Number(status)] ?? 'Error';
+      if (response === null) {
+        responses[status] = { description };
+      } else if (typeof response === 'string') {
+        responses[status] = {
+          description: response,
+          content:
+            Number(status) >= 400
+              ? { 'application/json': { schema: toJsonSchema(ErrorEnvelope, 'output') } }
+              : undefined,
+        };
+      } else if (response instanceof z.ZodType) {
+        responses[status] = {
+          description,
+          content: { 'application/json': { schema: toJsonSchema(response, 'output') } },
+        };
+      } else {
+        responses[status] = {
+          description: response.description,
+          headers: response.headers
+            ? Object.fromEntries(
+                Object.entries(response.headers).map(([name, header]) => [
+                  name,
+                  { description: header, schema: { type: 'string' } },
+                ]),
+              )
+            : undefined,
+          content: Object.fromEntries(
+            Object.entries(response.content).map(([type, schema]) => [
+              type,
+              { schema: toJsonSchema(schema, 'output') },
+            ]),
+          ),
+        };
+      }
+    }
+
+    paths[openApiPath] = {
+      ...paths[openApiPath],
+      [method]: {
+        tags: [docs.tag],
+        summary: docs.summary,
+        description: docs.description,
+        security: docs.public ? [] : undefined,
+        parameters: parameters.length > 0 ? parameters : undefined,
+        requestBody,
+        responses,
+      },
+    };
+  }
+
+  return JSON.parse(
+    JSON.stringify({
+      openapi: '3.1.0',
+      info,
+      security: [{ bearerAuth: [] }],
+      paths,
+      components: {
+        securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } },
+        schemas: Object.fromEntries(Object.entries(components).sort(([a], [b]) => a.localeCompare(b))),
+      },
+    }),
+  ) as Record<string, unknown>;
+};
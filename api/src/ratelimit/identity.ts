@@ -0,0 +1,65 @@
+import { BlockList, isIP } from 'node:net';
+import type { Context } from 'hono';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { getConfig } from '../config.js';
+
+let trustedProxies: BlockList | null = null;
+
+// IPv4 clients on a dual-stack socket show up as ::ffff:1.2.3.4.
+const normaliseIp = (raw: string) => {
+  const ip = raw.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+  return isIP(ip) ? ip : undefined;
+};
+
+const ipFamily = (ip: string) => (isIP(ip) === 6 ? 'ipv6' : 'ipv4');
+
+// TRUSTED_PROXIES lists the addresses or CIDR ranges of proxies in front of the
+// API (e.g. 10.0.0.0/8,::1). Only their X-Forwarded-For entries are believed.
+const getTrustedProxies = () => {
+  if (trustedProxies) return trustedProxies;
+  trustedProxies = new BlockList();
+  for (const entry of getConfig().rateLimit.trustedProxies) {
+    const [address, prefix] = entry.split('/');
+    const ip = normaliseIp(address);
+    if (!ip) throw new Error(`TRUSTED_PROXIES: invalid address "${entry}"`);
+    if (prefix === undefined) trustedProxies.addAddress(ip, ipFamily(ip));
+    else trustedProxies.addSubnet(ip, Number(prefix), ipFamily(ip));
+  }
+  return trustedProxies;
+};
+
+const isTrusted = (ip: string) => getTrustedProxies().check(ip, ipFamily(ip));
+
+// Requests built in-process (tests, app.request) have no socket.
+const socketAddress = (c: Context) => {
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    return undefined;
+  }
+};
+
+// The client is the socket peer, unless that peer is a trusted proxy: then the
+// X-Forwarded-For chain is walked from the right and the first address not
+// belonging to a trusted proxy wins. Entries further left are client-supplied.
+export const clientIp = (c: Context) => {
+  const address = socketAddress(c);
+  let ip = address ? normaliseIp(address) : undefined;
+  if (!ip || !isTrusted(ip)) return ip;
+
+  const forwarded = (c.req.header('x-forwarded-for') ?? '').split(',').reverse();
+  for (const entry of forwarded) {
+    const hop = normaliseIp(entry);
+    if (!hop) break;
+    ip = hop;
+    if (!isTrusted(hop)) break;
+  }
+  return ip;
+};
+
+// Signed-in users share one bucket across devices; everyone else is keyed by IP.
+export const clientKey = (c: Context) => {
+  const user = c.get('user');
+  if (user) return `user:${user.id}`;
+  return `ip:${clientIp(c) ?? 'unknown'}`;
+};
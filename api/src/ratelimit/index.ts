@@ -0,0 +1,86 @@
+import type { MiddlewareHandler } from 'hono';
+import { getConfig } from '../config.js';
+import { getRepositories } from '../db/index.js';
+import { msUntil } from '../domain/ratelimit.js';
+import type { BucketShape, TakeResult } from '../domain/ratelimit.js';
+import { ApiError } from '../lib/errors.js';
+import { logger } from '../lib/logger.js';
+import { clientKey } from './identity.js';
+import { createMemoryStore } from './memory.js';
+import { policyForPath } from './policies.js';
+import type { RateLimitPolicy } from './policies.js';
+
+export { clientIp, clientKey } from './identity.js';
+export { getPolicy, policyForPath } from './policies.js';
+export type { PolicyName, RateLimitPolicy } from './policies.js';
+
+export interface RateLimitStore {
+  take(key: string, bucket: BucketShape, now: number): Promise<TakeResult>;
+}
+
+const PRUNE_INTERVAL_MS = 10 * 60_000;
+// Longest window a bucket can take to refill; older rows are full again.
+const MAX_IDLE_MS = 24 * 60 * 60_000;
+
+// RATE_LIMIT_STORE=database shares buckets between instances through the
+// rate_limit_buckets table; idle rows are pruned every few minutes.
+const createDatabaseStore = (): RateLimitStore => {
+  let nextPrune = 0;
+  return {
+    async take(key, bucket, now) {
+      const { rateLimits } = getRepositories();
+      if (now >= nextPrune) {
+        nextPrune = now + PRUNE_INTERVAL_MS;
+        rateLimits.prune(now - MAX_IDLE_MS).catch((error) => logger.error('Failed to prune rate limits', { error }));
+      }
+      return rateLimits.take(key, bucket, now);
+    },
+  };
+};
+
+let store: RateLimitStore | null = null;
+
+export const getRateLimitStore = () => {
+  if (store) return store;
+  const { store: kind, maxKeys } = getConfig().rateLimit;
+  store = kind === 'memory' ? createMemoryStore(maxKeys) : createDatabaseStore();
+  return store;
+};
+
+const seconds = (ms: number) => Math.ceil(ms / 1000);
+
+// RateLimit-* headers as in the IETF httpapi draft: Reset is when the bucket
+// is full again, Policy the steady rate.
+const limitHeaders = (policy: RateLimitPolicy, result: TakeResult) => ({
+  'RateLimit-Limit': String(policy.capacity),
+  'RateLimit-Remaining': String(Math.floor(result.tokens)),
+  'RateLimit-Reset': String(seconds(msUntil(result.tokens, policy.capacity, policy))),
+  'RateLimit-Policy': `${policy.limit};w=${seconds(policy.windowMs)}`,
+});
+
+// Applies the policy matching the request path (see policies.ts), keyed per
+// client and policy. A failing store lets the request through rather than
+// taking the API down with it.
+export const rateLimit = (): MiddlewareHandler => async (c, next) => {
+  const policy = policyForPath(c.req.path);
+  if (!policy || c.req.method === 'OPTIONS') return next();
+
+  let result: TakeResult;
+  try {
+    result = await getRateLimitStore().take(`${policy.name}:${clientKey(c)}`, policy, Date.now());
+  } catch (error) {
+    logger.error('Rate limit store failed', { error });
+    return next();
+  }
+
+  const headers = limitHeaders(policy, result);
+  if (!result.allowed) {
+    const retryAfter = seconds(msUntil(result.tokens, 1, policy));
+    throw new ApiError(429, 'rate_limited', `rate limited, retry in ${retryAfter}s`, {
+      details: { retryAfter, policy: policy.name },
+      headers: { ...headers, 'Retry-After': String(retryAfter) },
+    });
+  }
+  for (const [name, value] of Object.entries(headers)) c.header(name, value);
+  await next();
+};
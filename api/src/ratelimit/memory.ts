@@ -0,0 +1,39 @@
+import { msUntilFull, takeToken } from '../domain/ratelimit.js';
+import type { BucketShape, BucketState } from '../domain/ratelimit.js';
+import type { RateLimitStore } from './index.js';
+
+interface Entry extends BucketState {
+  // When the bucket would be full again, i.e. indistinguishable from a new one.
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_KEYS = 10_000;
+
+// Per-process buckets. Expired entries are swept when the map grows past
+// `maxKeys`; if that is not enough the least recently used keys are dropped,
+// which only ever hands those clients a fresh (full) bucket.
+export const createMemoryStore = (maxKeys = DEFAULT_MAX_KEYS): RateLimitStore => {
+  const buckets = new Map<string, Entry>();
+
+  const evict = (now: number) => {
+    for (const [key, entry] of buckets) {
+      if (entry.expiresAt <= now) buckets.delete(key);
+    }
+    for (const key of buckets.keys()) {
+      if (buckets.size <= maxKeys) break;
+      buckets.delete(key);
+    }
+  };
+
+  return {
+    async take(key: string, bucket: BucketShape, now: number) {
+      const current = buckets.get(key);
+      const { result, state } = takeToken(current, bucket, now);
+      // Re-inserting keeps the Map in least-recently-used order.
+      buckets.delete(key);
+      buckets.set(key, { ...state, expiresAt: now + msUntilFull(bucket) });
+      if (!current && buckets.size > maxKeys) evict(now);
+      return result;
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import { getConfig } from '../config.js';
+import type { BucketShape } from '../domain/ratelimit.js';
+
+export type PolicyName = 'ai' | 'search' | 'media' | 'projects';
+
+export interface RateLimitPolicy extends BucketShape {
+  name: PolicyName;
+  // Requests allowed per window at the steady refill rate; `capacity` is the burst.
+  limit: number;
+  windowMs: number;
+}
+
+// Steady rate as limit/seconds; each can be overridden with RATE_LIMIT_<NAME>,
+// e.g. RATE_LIMIT_AI=10/60. Bursts default to one window's worth.
+const DEFAULTS: Record<PolicyName, { limit: number; windowSeconds: number }> = {
+  ai: { limit: 5, windowSeconds: 60 },
+  search: { limit: 30, windowSeconds: 60 },
+  media: { limit: 30, windowSeconds: 60 },
+  projects: { limit: 120, windowSeconds: 60 },
+};
+
+// First match wins, so the AI endpoints under /projects come before the catch-all.
+const ROUTES: [RegExp, PolicyName][] = [
+  [/^\/ai(\/|$)/, 'ai'],
+  [/^\/projects\/[^/]+\/generate\/?$/, 'ai'],
+  [/^\/projects\/[^/]+\/prompts\/[^/]+\/run\/?$/, 'ai'],
+  [/^\/search\/?$/, 'search'],
+  [/^\/media(\/|$)/, 'media'],
+  [/^\/projects(\/|$)/, 'projects'],
+];
+
+const readPolicy = (name: PolicyName): RateLimitPolicy => {
+  const { limit, windowSeconds } = getConfig().rateLimit.policies[name] ?? DEFAULTS[name];
+  const windowMs = windowSeconds * 1000;
+  return { name, limit, windowMs, capacity: limit, refillPerMs: limit / windowMs };
+};
+
+const policies = new Map<PolicyName, RateLimitPolicy>();
+
+export const getPolicy = (name: PolicyName) => {
+  let policy = policies.get(name);
+  if (!policy) {
+    policy = readPolicy(name);
+    policies.set(name, policy);
+  }
+  return policy;
+};
+
+// Routes without a policy (health checks, usage reports) are not limited.
+export const policyForPath = (path: string) => {
+  const route = ROUTES.find(([pattern]) => pattern.test(path));
+  return route ? getPolicy(route[1]) : undefined;
+};
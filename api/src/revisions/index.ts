@@ -0,0 +1,97 @@
+import { createHash } from 'node:crypto';
+import { getConfig } from '../config.js';
+import { getRepositories } from '../db/index.js';
+import type { ProjectRevisionSummary } from '../db/types.js';
+import { type ActivityAction, isContentAction } from '../domain/activity.js';
+import type { RevisionContent } from '../domain/revisions.js';
+import { subscribe } from '../events/index.js';
+
+const DAY_MS = 86_400_000;
+
+// REVISIONS_KEEP caps how many revisions a project keeps; REVISIONS_MAX_AGE_DAYS
+// drops older ones (0 disables it). The newest revision is always kept.
+export const readRetention = () => getConfig().revisions;
+
+// The project's current content, or null when it is missing or trashed.
+export const snapshotContent = async (projectId: number): Promise<RevisionContent | null> => {
+  const { projects, pages, sections } = getRepositories();
+  const project = await projects.get(projectId);
+  if (!project) return null;
+
+  const snapshot: RevisionContent = {
+    project: { name: project.name, slug: project.slug, description: project.description },
+    pages: [],
+  };
+  for (const page of await pages.list(projectId)) {
+    snapshot.pages.push({
+      id: page.id,
+      title: page.title,
+      slug: page.slug,
+      sections: (await sections.list(page.id)).map(({ id, type, data }) => ({ id, type, data })),
+    });
+  }
+  return snapshot;
+};
+
+const hashContent = (content: RevisionContent) => createHash('sha256').update(JSON.stringify(content)).digest('hex');
+
+const applyRetention = async (projectId: number) => {
+  const { revisions } = getRepositories();
+  const { keep, maxAgeDays } = readRetention();
+  const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : -Infinity;
+  const expired = (await revisions.list(projectId))
+    .filter((revision, index) => index > 0 && (index >= keep || new Date(revision.created_at).getTime() < cutoff))
+    .map((revision) => revision.number);
+  await revisions.delete(projectId, expired);
+};
+
+// Revisions of one project are taken one after another so numbers follow the
+// order of the saves.
+const chains = new Map<number, Promise<unknown>>();
+
+// Stores the project's content as its next revision, unless nothing changed
+// since the latest one. Resolves with the latest revision either way (null for
+// a trashed or missing project).
+export const recordRevision = (
+  projectId: number,
+  action: ActivityAction,
+  actorId: string | null,
+): Promise<ProjectRevisionSummary | null> => {
+  const next = (chains.get(projectId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const { revisions } = getRepositories();
+      const content = await snapshotContent(projectId);
+      if (!content) return null;
+      const contentHash = hashContent(content);
+      const latest = await revisions.latest(projectId);
+      if (latest?.content_hash === contentHash) return latest;
+
+      const revision = await revisions.create(projectId, {
+        content,
+        content_hash: contentHash,
+        action,
+        actor_id: actorId,
+      });
+      await applyRetention(projectId);
+      return revision;
+    });
+  chains.set(projectId, next);
+  next
+    .finally(() => {
+      if (chains.get(projectId) === next) chains.delete(projectId);
+    })
+    .catch(() => undefined);
+  return next;
+};
+
+// Rewrites the project's fields, pages and sections to match `content`, in one
+// transaction. A slug taken by another project throws UniqueViolationError.
+export const restoreContent = (projectId: number, content: RevisionContent) =>
+  getRepositories().revisions.restore(projectId, content);
+
+// Takes a revision after every content change published on the event bus.
+export const startRevisionHistory = () =>
+  subscribe((event) =>
+    isContentAction(event.type) ? recordRevision(event.projectId, event.type, event.actorId) : undefined,
+  );
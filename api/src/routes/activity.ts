@@ -0,0 +1,59 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { requireAdmin } from '../auth/index.js';
+import { requireProject } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import { invalidRequest, validate } from '../lib/validation.js';
+import { routeDocs } from '../openapi/index.js';
+import { ActivityPage, ActivityQuery } from '../schemas/activity.js';
+import { Id, rethrowInvalidCursor } from '../schemas/common.js';
+
+// Mounted at /projects/:projectId/activity (any member) and at /activity, the
+// feed across every project (admins only).
+const r = new Hono();
+const docs = routeDocs('Activity');
+
+const DAY_MS = 86_400_000;
+
+const ActivityParams = z.object({ projectId: Id.optional() });
+
+// GET ?action=project.updated,page.deleted&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=&cursor=
+// Newest first; both days are inclusive. The admin feed also takes project_id.
+r.get(
+  '/',
+  docs({ summary: 'List activity, newest first', responses: { 200: ActivityPage, 403: 'Admins only' } }),
+  validate('param', ActivityParams),
+  async (c, next) => {
+    const { projectId } = c.req.valid('param');
+    if (projectId !== undefined) {
+      await requireProject(c, projectId, { includeDeleted: true });
+      return next();
+    }
+    return requireAdmin()(c, next);
+  },
+);
+
+r.get('/', validate('param', ActivityParams), validate('query', ActivityQuery), async (c) => {
+  const { activity } = getRepositories();
+  const query = c.req.valid('query');
+  const projectId = c.req.valid('param').projectId ?? query.project_id;
+  const { from, to } = query;
+  if (from && to && to < from) {
+    throw invalidRequest([{ location: 'query', field: 'to', message: 'must not be before from' }]);
+  }
+
+  return c.json(
+    await activity
+      .list({
+        limit: query.limit,
+        cursor: query.cursor,
+        projectId,
+        actions: query.action,
+        from: from?.toISOString(),
+        to: to && new Date(to.getTime() + DAY_MS).toISOString(),
+      })
+      .catch(rethrowInvalidCursor),
+  );
+});
+
+export default r;
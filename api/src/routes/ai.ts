@@ -0,0 +1,58 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { z } from 'zod';
+import { complete, readModelOptions, streamCompletion } from '../ai/index.js';
+import type { ProviderName } from '../ai/index.js';
+import { requireProject } from '../auth/projects.js';
+import { validate } from '../lib/validation.js';
+import { streamResponse } from '../lib/streaming.js';
+import { routeDocs } from '../openapi/index.js';
+import { CompletionBody, CompletionResult, completionResponse } from '../schemas/ai.js';
+
+// Mounted at /ai.
+const r = new Hono();
+const docs = routeDocs('AI');
+
+// Both routes accept {prompt, stream?, projectId, model?, system?, temperature?,
+// maxTokens?, provider?, fallbacks?}; they only differ in the provider tried first.
+// `projectId` bills the call to that project's usage and quota.
+const runCompletion = async (
+  c: Context,
+  { prompt, stream, projectId, ...fields }: z.output<typeof CompletionBody>,
+  provider: ProviderName,
+  route: string,
+) => {
+  const { id: billed } = await requireProject(c, projectId, { role: 'editor' });
+  const { options, settings } = readModelOptions(fields);
+  const request = { ...settings, prompt };
+  // Client disconnects abort the upstream request.
+  const chain = {
+    ...options,
+    provider: options.provider ?? provider,
+    signal: c.req.raw.signal,
+    usage: { projectId: billed, route },
+  };
+
+  if (stream) {
+    return streamResponse(c, streamCompletion(request, chain));
+  }
+  return c.json(await complete(request, chain));
+};
+
+// POST /ai/complete
+r.post(
+  '/complete',
+  docs({ summary: 'Complete a prompt, trying OpenAI first', responses: { 200: completionResponse(CompletionResult) } }),
+  validate('json', CompletionBody),
+  (c) => runCompletion(c, c.req.valid('json'), 'openai', 'ai.complete'),
+);
+
+// POST /ai/gemini
+r.post(
+  '/gemini',
+  docs({ summary: 'Complete a prompt, trying Gemini first', responses: { 200: completionResponse(CompletionResult) } }),
+  validate('json', CompletionBody),
+  (c) => runCompletion(c, c.req.valid('json'), 'gemini', 'ai.gemini'),
+);
+
+export default r;
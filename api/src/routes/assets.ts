@@ -0,0 +1,205 @@
+import { Hono } from 'hono';
+import type { Context, MiddlewareHandler } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { requireProject, roleForMethod } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import { UniqueViolationError } from '../db/errors.js';
+import type { ProjectAsset, ProjectAssetInput } from '../db/types.js';
+import { type AssetSizes, normaliseTagFilter } from '../domain/assets.js';
+import { publishFrom } from '../events/index.js';
+import { ApiError } from '../lib/errors.js';
+import { logger } from '../lib/logger.js';
+import { parseInput, validate } from '../lib/validation.js';
+import { getPexelsPhoto } from '../media/pexels.js';
+import { maxUploadBytes, storeUpload } from '../media/uploads.js';
+import { routeDocs } from '../openapi/index.js';
+import {
+  AssetImport,
+  AssetListQuery,
+  AssetParams,
+  AssetTagsChange,
+  AssetUpload,
+  ProjectAsset as ProjectAssetSchema,
+} from '../schemas/assets.js';
+import { idParams } from '../schemas/common.js';
+import { getStorage, signFileUrl } from '../storage/index.js';
+
+// Mounted at /projects/:projectId/assets: the project's media library.
+const r = new Hono();
+
+const docs = routeDocs('Assets');
+
+const ProjectParams = idParams('projectId');
+
+// Uploads are answered with freshly signed URLs for each stored size; storage
+// keys stay on the server.
+const present = ({ storage_keys, ...asset }: ProjectAsset) =>
+  asset.source === 'upload'
+    ? {
+        ...asset,
+        sizes: Object.fromEntries(Object.entries(storage_keys).map(([size, key]) => [size, signFileUrl(key)])),
+      }
+    : asset;
+
+// What the activity log keeps of an asset: no URLs, which for uploads expire anyway.
+const describe = ({ storage_keys: _keys, sizes: _sizes, ...asset }: ProjectAsset) => asset;
+
+const createAsset = (projectId: number, input: ProjectAssetInput) =>
+  getRepositories()
+    .assets.create(projectId, input)
+    .catch((error: unknown) => {
+      if (error instanceof UniqueViolationError) throw new ApiError(409, 'already_exists', error.message);
+      throw error;
+    });
+
+// Every route below belongs to a live project the signed-in user is a member
+// of: viewers may browse, changes need an editor.
+r.use('*', async (c, next) => {
+  const { projectId } = await parseInput(ProjectParams, c.req.param(), 'path');
+  await requireProject(c, projectId, { role: roleForMethod(c.req.method) });
+  await next();
+});
+
+// GET /projects/:projectId/assets?tag=
+r.get(
+  '/',
+  docs({ summary: "List a project's media library", responses: { 200: z.array(ProjectAssetSchema) } }),
+  validate('param', ProjectParams),
+  validate('query', AssetListQuery),
+  async (c) => {
+    const { assets } = getRepositories();
+    const tag = normaliseTagFilter(c.req.valid('query').tag ?? '');
+    return c.json((await assets.list(c.req.valid('param').projectId, { tag })).map(present));
+  },
+);
+
+// POST /projects/:projectId/assets {pexelsId, tags?, alt?}
+// The photo and its attribution are looked up at Pexels rather than taken from the client.
+const addPexelsPhoto = async (c: Context, projectId: number) => {
+  const body = await c.req.json().catch(() => undefined);
+  const { pexelsId, tags = [], alt } = await parseInput(AssetImport, body, 'body');
+
+  const photo = await getPexelsPhoto(pexelsId);
+  if (!photo) throw new HTTPException(404, { message: 'pexels photo not found' });
+  const sizes = Object.fromEntries(Object.entries(photo.src).filter(([, url]) => url)) as AssetSizes;
+
+  return createAsset(projectId, {
+    source: 'pexels',
+    source_id: String(pexelsId),
+    source_url: photo.url ?? null,
+    photographer: photo.photographer ?? null,
+    photographer_url: photo.photographer_url ?? null,
+    alt: alt ?? photo.alt?.trim() ?? '',
+    width: photo.width ?? null,
+    height: photo.height ?? null,
+    sizes,
+    tags,
+  });
+};
+
+// POST /projects/:projectId/assets, multipart/form-data {file, tags?, alt?}
+// tags is comma-separated. The file is stored with thumbnail and medium variants.
+const addUpload = async (c: Context, projectId: number) => {
+  const { file, tags = [], alt } = await parseInput(AssetUpload, await c.req.parseBody(), 'body');
+
+  const { source_id, ...upload } = await storeUpload(projectId, file);
+  try {
+    return await createAsset(projectId, {
+      source: 'upload',
+      source_id,
+      source_url: null,
+      photographer: null,
+      photographer_url: null,
+      alt: alt ?? '',
+      sizes: {},
+      tags,
+      ...upload,
+    });
+  } catch (error) {
+    await getStorage().delete(Object.values(upload.storage_keys));
+    throw error;
+  }
+};
+
+// Multipart bodies may carry a whole file; anything else is a small JSON object.
+// Built on first use, since the limit comes from the configuration.
+let bodyLimiter: MiddlewareHandler | null = null;
+const limitBody: MiddlewareHandler = (c, next) => {
+  bodyLimiter ??= bodyLimit({
+    maxSize: maxUploadBytes() + 64 * 1024,
+    onError: () => {
+      throw new HTTPException(413, { message: `file must be at most ${maxUploadBytes()} bytes` });
+    },
+  });
+  return bodyLimiter(c, next);
+};
+
+r.post(
+  '/',
+  docs({
+    summary: 'Add an image from Pexels or upload one',
+    body: { 'application/json': AssetImport, 'multipart/form-data': AssetUpload },
+    responses: {
+      201: ProjectAssetSchema,
+      404: 'Pexels photo not found',
+      409: 'Already in the library',
+      413: 'File too large',
+    },
+  }),
+  validate('param', ProjectParams),
+  limitBody,
+  async (c) => {
+    const { projectId } = c.req.valid('param');
+    const multipart = c.req.header('content-type')?.toLowerCase().startsWith('multipart/form-data');
+    const asset = multipart ? await addUpload(c, projectId) : await addPexelsPhoto(c, projectId);
+    await publishFrom(c, 'asset.created', asset.project_id, { data: { assetId: asset.id }, after: describe(asset) });
+    return c.json(present(asset), 201);
+  },
+);
+
+// PATCH /projects/:projectId/assets/:assetId {tags}
+r.patch(
+  '/:assetId',
+  docs({ summary: "Replace an asset's tags", responses: { 200: ProjectAssetSchema, 404: 'Asset not found' } }),
+  validate('param', AssetParams),
+  validate('json', AssetTagsChange),
+  async (c) => {
+    const { assets } = getRepositories();
+    const { projectId, assetId } = c.req.valid('param');
+    const { tags } = c.req.valid('json');
+    const current = await assets.get(projectId, assetId);
+    const asset = current && (await assets.updateTags(projectId, assetId, tags));
+    if (!asset) throw new HTTPException(404, { message: 'asset not found' });
+    await publishFrom(c, 'asset.updated', projectId, {
+      data: { assetId },
+      before: { tags: current.tags },
+      after: { tags: asset.tags },
+    });
+    return c.json(present(asset));
+  },
+);
+
+// DELETE /projects/:projectId/assets/:assetId
+// Uploaded files are erased too. Sections keep the image URL, so a Pexels
+// photo still shows but exports can no longer credit the photographer.
+r.delete(
+  '/:assetId',
+  docs({ summary: 'Delete an asset', responses: { 204: null, 404: 'Asset not found' } }),
+  validate('param', AssetParams),
+  async (c) => {
+    const { assets } = getRepositories();
+    const { projectId, assetId } = c.req.valid('param');
+    const asset = await assets.get(projectId, assetId);
+    if (!asset || !(await assets.delete(projectId, assetId)))
+      throw new HTTPException(404, { message: 'asset not found' });
+    await getStorage()
+      .delete(Object.values(asset.storage_keys))
+      .catch((error) => logger.error('Failed to delete stored files', { error }));
+    await publishFrom(c, 'asset.deleted', projectId, { data: { assetId }, before: describe(asset) });
+    return c.body(null, 204);
+  },
+);
+
+export default r;
@@ -0,0 +1,51 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { validate } from '../lib/validation.js';
+import { routeDocs } from '../openapi/index.js';
+import { fileKeyFromPath, getStorage, verifyFileSignature } from '../storage/index.js';
+
+// Mounted at /files. Serves stored uploads to whoever holds a signed URL
+// (see src/storage/signing.ts), so it sits outside authentication.
+const r = new Hono();
+const docs = routeDocs('Files');
+
+const SignedFileQuery = z.object({
+  expires: z.coerce.number().int().describe('Unix time in seconds.'),
+  signature: z.string().min(1),
+});
+
+// GET /files/<key>?expires=&signature=
+r.get(
+  '/*',
+  docs({
+    summary: 'Download a stored file by signed URL',
+    public: true,
+    responses: {
+      200: { description: 'The file', content: { '*/*': z.string().meta({ format: 'binary' }) } },
+      403: 'Invalid or expired file URL',
+      404: 'File not found',
+    },
+  }),
+  validate('query', SignedFileQuery),
+  async (c) => {
+    // c.req.path is already decoded; the key is decoded from the raw path, once.
+    const key = fileKeyFromPath(new URL(c.req.url).pathname);
+    if (key === null) throw new HTTPException(400, { message: 'malformed file path' });
+    const { expires, signature } = c.req.valid('query');
+    if (!verifyFileSignature(key, expires, signature)) {
+      throw new HTTPException(403, { message: 'invalid or expired file URL' });
+    }
+
+    const file = await getStorage().get(key);
+    if (!file) throw new HTTPException(404, { message: 'file not found' });
+    const maxAge = Math.max(0, expires - Math.floor(Date.now() / 1000));
+    return c.body(file.body as Uint8Array<ArrayBuffer>, 200, {
+      'Content-Type': file.contentType,
+      'Cache-Control': `private, max-age=${maxAge}`,
+      'X-Content-Type-Options': 'nosniff',
+    });
+  },
+);
+
+export default r;
@@ -0,0 +1,106 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { ModelOptions, Provider, readModelOptions } from '../ai/index.js';
+import { generateSite } from '../ai/site.js';
+import { requireProject } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import type { GeneratedPageInput } from '../db/types.js';
+import { SiteBrief } from '../domain/generation.js';
+import { publishFrom } from '../events/index.js';
+import { uniqueSlug } from '../lib/slug.js';
+import { validate } from '../lib/validation.js';
+import { routeDocs } from '../openapi/index.js';
+import { idParams } from '../schemas/common.js';
+import { Section as SectionSchema, SitePage as SitePageSchema } from '../schemas/pages.js';
+
+// Mounted at /projects/:projectId/generate.
+const r = new Hono();
+const docs = routeDocs('Generate');
+
+const GenerateBody = SiteBrief.extend({
+  replace: z.boolean().optional(),
+  ...ModelOptions.omit({ system: true }).shape,
+});
+
+const GeneratedSite = z
+  .object({
+    pages: z.array(
+      z.object({
+        action: z.enum(['created', 'replaced']),
+        page: SitePageSchema,
+        sections: z.array(SectionSchema),
+        removedSections: z.number().int(),
+      }),
+    ),
+    warnings: z.array(z.string()).describe('Parts of the model output that were repaired or left out.'),
+    repaired: z.boolean(),
+    provider: Provider,
+    model: z.string(),
+  })
+  .meta({ id: 'GeneratedSite' });
+
+// POST /projects/:projectId/generate {description, audience?, tone?, pages?, replace?, provider?, model?, ...}
+// Generated pages are appended with fresh slugs; with `replace: true` a page whose
+// slug already exists keeps its id and has its sections replaced instead. The
+// model runs first and the result is written in one transaction, so a failure
+// leaves the project as it was.
+r.post(
+  '/',
+  docs({ summary: 'Generate pages from a brief', responses: { 201: GeneratedSite } }),
+  validate('param', idParams('projectId')),
+  validate('json', GenerateBody),
+  async (c) => {
+    const { pages } = getRepositories();
+    const { id: projectId } = await requireProject(c, c.req.valid('param').projectId, { role: 'editor' });
+
+    const { replace, description, audience, tone, pages: titles, ...modelFields } = c.req.valid('json');
+    const brief = { description, audience, tone, pages: titles };
+    const { options, settings: siteSettings } = readModelOptions(modelFields);
+
+    const { site, warnings, repaired, provider, model } = await generateSite(brief, siteSettings, {
+      ...options,
+      usage: { projectId, route: 'generate' },
+    });
+
+    const existing = await pages.list(projectId);
+    // Slugs given to earlier pages of this site, which are not stored yet.
+    const planned = new Set(site.map((generated) => generated.slug));
+    const writes: GeneratedPageInput[] = [];
+    for (const generated of site) {
+      const match = replace ? existing.find((page) => page.slug === generated.slug) : undefined;
+      if (match) {
+        writes.push({ pageId: match.id, title: match.title, slug: match.slug, sections: generated.sections });
+        continue;
+      }
+      planned.delete(generated.slug);
+      const slug = await uniqueSlug(
+        generated.slug,
+        async (candidate) => planned.has(candidate) || (await pages.slugExists(projectId, candidate)),
+      );
+      planned.add(slug);
+      writes.push({ title: generated.title, slug, sections: generated.sections });
+    }
+
+    const written = await pages.writeGenerated(projectId, writes);
+    const changes = written.map((change, index) => ({
+      action: writes[index].pageId === undefined ? ('created' as const) : ('replaced' as const),
+      ...change,
+    }));
+
+    await publishFrom(c, 'site.generated', projectId, {
+      data: {
+        provider,
+        model,
+        pages: changes.map((change) => ({
+          pageId: change.page.id,
+          action: change.action,
+          sections: change.sections.length,
+          removedSections: change.removedSections,
+        })),
+      },
+    });
+    return c.json({ pages: changes, warnings, repaired, provider, model }, 201);
+  },
+);
+
+export default r;
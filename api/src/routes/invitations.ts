@@ -0,0 +1,88 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { currentUser } from '../auth/index.js';
+import { hashInvitationToken } from '../auth/invitations.js';
+import { getRepositories } from '../db/index.js';
+import { hasRole, normaliseEmail } from '../domain/members.js';
+import { publishFrom } from '../events/index.js';
+import { validate } from '../lib/validation.js';
+import { routeDocs } from '../openapi/index.js';
+import { InvitationParams, InvitationPreview, ProjectMember } from '../schemas/members.js';
+import { Project } from '../schemas/projects.js';
+
+// Mounted at /invitations. The invitee opens the link from an owner and
+// accepts while signed in with the invited email address.
+const r = new Hono();
+const docs = routeDocs('Invitations');
+
+const AcceptedInvitation = z.object({ project: Project, member: ProjectMember }).meta({ id: 'AcceptedInvitation' });
+
+// Unknown, accepted and expired invitations all answer 404 so tokens cannot be probed.
+const requireInvitation = async (token: string) => {
+  const { invitations, projects } = getRepositories();
+  const invitation = await invitations.findByTokenHash(hashInvitationToken(token));
+  if (!invitation || invitation.accepted_at || new Date(invitation.expires_at) <= new Date()) {
+    throw new HTTPException(404, { message: 'invitation not found or expired' });
+  }
+  const project = await projects.get(invitation.project_id);
+  if (!project) throw new HTTPException(404, { message: 'invitation not found or expired' });
+  return { invitation, project };
+};
+
+// GET /invitations/:token
+r.get(
+  '/:token',
+  docs({
+    summary: 'Preview an invitation',
+    responses: { 200: InvitationPreview, 404: 'Invitation not found or expired' },
+  }),
+  validate('param', InvitationParams),
+  async (c) => {
+    const { invitation, project } = await requireInvitation(c.req.valid('param').token);
+    return c.json({
+      project: { id: project.id, name: project.name },
+      email: invitation.email,
+      role: invitation.role,
+      expires_at: invitation.expires_at,
+    });
+  },
+);
+
+// POST /invitations/:token/accept
+// Joins the project with the invited role; an existing member keeps the higher of the two.
+r.post(
+  '/:token/accept',
+  docs({
+    summary: 'Accept an invitation',
+    responses: {
+      200: AcceptedInvitation,
+      403: 'Signed in with a different email address',
+      404: 'Invitation not found or expired',
+    },
+  }),
+  validate('param', InvitationParams),
+  async (c) => {
+    const { invitations, members } = getRepositories();
+    const user = currentUser(c);
+    const { invitation, project } = await requireInvitation(c.req.valid('param').token);
+    if (!user.email || normaliseEmail(user.email) !== invitation.email) {
+      throw new HTTPException(403, { message: 'invitation was sent to a different email address' });
+    }
+    if (!(await invitations.markAccepted(invitation.id, user.id))) {
+      throw new HTTPException(404, { message: 'invitation not found or expired' });
+    }
+
+    const existing = await members.get(project.id, user.id);
+    const role = existing && hasRole(existing.role, invitation.role) ? existing.role : invitation.role;
+    const member = await members.add(project.id, { user_id: user.id, email: user.email, role });
+    await publishFrom(c, 'invitation.accepted', project.id, {
+      data: { invitationId: invitation.id },
+      before: existing && { role: existing.role },
+      after: { role: member.role },
+    });
+    return c.json({ project: { ...project, role }, member });
+  },
+);
+
+export default r;
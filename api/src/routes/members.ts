@@ -0,0 +1,158 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { currentUser } from '../auth/index.js';
+import { createInvitationToken, hashInvitationToken, invitationExpiry, invitationUrl } from '../auth/invitations.js';
+import { requireProject } from '../auth/projects.js';
+import { LastOwnerError } from '../db/errors.js';
+import { getRepositories } from '../db/index.js';
+import { publishFrom } from '../events/index.js';
+import { validate } from '../lib/validation.js';
+import { routeDocs } from '../openapi/index.js';
+import { idParams } from '../schemas/common.js';
+import {
+  CreatedInvitation,
+  InvitationCreate,
+  MemberParams,
+  ProjectInvitation,
+  ProjectMember,
+  RoleChange,
+} from '../schemas/members.js';
+
+// Mounted at /projects/:projectId. Every member can see who else has access;
+// changing roles, removing others and inviting are for owners.
+const r = new Hono();
+const docs = routeDocs('Members');
+
+const ProjectParams = idParams('projectId');
+const InvitationIdParams = idParams('projectId', 'invitationId');
+
+const requireMember = async (projectId: number, userId: string) => {
+  const member = await getRepositories().members.get(projectId, userId);
+  if (!member) throw new HTTPException(404, { message: 'member not found' });
+  return member;
+};
+
+// A project always keeps at least one owner; the repository refuses the write.
+const rethrowLastOwner = (error: unknown): never => {
+  if (error instanceof LastOwnerError) throw new HTTPException(409, { message: error.message });
+  throw error;
+};
+
+// GET /projects/:projectId/members
+r.get(
+  '/members',
+  docs({ summary: "List a project's members", responses: { 200: z.array(ProjectMember) } }),
+  validate('param', ProjectParams),
+  async (c) => {
+    const { id } = await requireProject(c, c.req.valid('param').projectId);
+    return c.json(await getRepositories().members.list(id));
+  },
+);
+
+// PATCH /projects/:projectId/members/:userId {role}
+r.patch(
+  '/members/:userId',
+  docs({
+    summary: "Change a member's role",
+    responses: { 200: ProjectMember, 404: 'Member not found', 409: 'The last owner cannot be demoted' },
+  }),
+  validate('param', MemberParams),
+  validate('json', RoleChange),
+  async (c) => {
+    const { members } = getRepositories();
+    const { projectId, userId } = c.req.valid('param');
+    const { id } = await requireProject(c, projectId, { role: 'owner' });
+    const { role } = c.req.valid('json');
+    const member = await requireMember(id, userId);
+    if (member.role === role) return c.json(member);
+
+    const updated = await members.updateRole(id, member.user_id, role).catch(rethrowLastOwner);
+    if (!updated) throw new HTTPException(404, { message: 'member not found' });
+    await publishFrom(c, 'member.updated', id, {
+      data: { userId: member.user_id },
+      before: { role: member.role },
+      after: { role: updated.role },
+    });
+    return c.json(updated);
+  },
+);
+
+// DELETE /projects/:projectId/members/:userId
+// Owners remove anyone; every member may remove themselves (leave the project).
+r.delete(
+  '/members/:userId',
+  docs({
+    summary: 'Remove a member or leave a project',
+    responses: { 204: null, 404: 'Member not found', 409: 'The last owner cannot leave' },
+  }),
+  validate('param', MemberParams),
+  async (c) => {
+    const { members } = getRepositories();
+    const { projectId, userId } = c.req.valid('param');
+    const self = userId === currentUser(c).id;
+    const { id } = await requireProject(c, projectId, { role: self ? 'viewer' : 'owner' });
+    const member = await requireMember(id, userId);
+
+    if (!(await members.remove(id, userId).catch(rethrowLastOwner)))
+      throw new HTTPException(404, { message: 'member not found' });
+    await publishFrom(c, 'member.removed', id, { data: { userId, left: self }, before: member });
+    return c.body(null, 204);
+  },
+);
+
+// GET /projects/:projectId/invitations
+// Pending invitations, expired ones included so they can be revoked or re-sent.
+r.get(
+  '/invitations',
+  docs({ summary: 'List pending invitations', responses: { 200: z.array(ProjectInvitation) } }),
+  validate('param', ProjectParams),
+  async (c) => {
+    const { id } = await requireProject(c, c.req.valid('param').projectId, { role: 'owner' });
+    return c.json(await getRepositories().invitations.listPending(id));
+  },
+);
+
+// POST /projects/:projectId/invitations {email, role}
+// The token is only returned here; share `accept_url` with the invitee.
+r.post(
+  '/invitations',
+  docs({ summary: 'Invite someone by email', responses: { 201: CreatedInvitation } }),
+  validate('param', ProjectParams),
+  validate('json', InvitationCreate),
+  async (c) => {
+    const { invitations } = getRepositories();
+    const user = currentUser(c);
+    const { id } = await requireProject(c, c.req.valid('param').projectId, { role: 'owner' });
+    const { email, role } = c.req.valid('json');
+
+    const token = createInvitationToken();
+    const invitation = await invitations.create(id, {
+      email,
+      role,
+      invited_by: user.id,
+      expires_at: invitationExpiry(),
+      token_hash: hashInvitationToken(token),
+    });
+    await publishFrom(c, 'invitation.created', id, { data: { invitationId: invitation.id }, after: invitation });
+    return c.json({ invitation, token, accept_url: invitationUrl(token) }, 201);
+  },
+);
+
+// DELETE /projects/:projectId/invitations/:invitationId
+r.delete(
+  '/invitations/:invitationId',
+  docs({ summary: 'Revoke an invitation', responses: { 204: null, 404: 'Invitation not found' } }),
+  validate('param', InvitationIdParams),
+  async (c) => {
+    const { invitations } = getRepositories();
+    const { projectId, invitationId } = c.req.valid('param');
+    const { id } = await requireProject(c, projectId, { role: 'owner' });
+    const deleted = await invitations.delete(id, invitationId);
+    if (!deleted) throw new HTTPException(404, { message: 'invitation not found' });
+    await publishFrom(c, 'invitation.revoked', id, { data: { invitationId } });
+    return c.body(null, 204);
+  },
+);
+
+export default r;
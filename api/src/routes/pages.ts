@@ -0,0 +1,266 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { requireProject, roleForMethod } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import { UniqueViolationError } from '../db/errors.js';
+import type { SitePagePatch } from '../db/types.js';
+import { pickFields, publishFrom } from '../events/index.js';
+import { SECTION_DATA, SectionInput } from '../domain/sections.js';
+import type { SectionType } from '../domain/sections.js';
+import { ApiError } from '../lib/errors.js';
+import { invalidRequest, parseInput, validate } from '../lib/validation.js';
+import { slugify, uniqueSlug } from '../lib/slug.js';
+import { routeDocs } from '../openapi/index.js';
+import { idParams, OrderedIds } from '../schemas/common.js';
+import {
+  PageCreate,
+  PageParams,
+  PagePatch,
+  Section,
+  SectionParams,
+  SectionPatch,
+  SitePage,
+  SitePageWithSections,
+} from '../schemas/pages.js';
+
+// Mounted at /projects/:projectId/pages.
+const r = new Hono();
+const docs = routeDocs('Pages');
+
+const ProjectParams = idParams('projectId');
+
+const requirePage = async ({ projectId, pageId }: { projectId: number; pageId: number }) => {
+  const page = await getRepositories().pages.get(projectId, pageId);
+  if (!page) throw new HTTPException(404, { message: 'page not found' });
+  return page;
+};
+
+// PATCH may send only `data`; it is checked against the schema of the resulting type.
+const readSection = async (type: SectionType, data: unknown) => ({
+  type,
+  data: await parseInput(SECTION_DATA[type], data, 'body', 'data'),
+});
+
+// A reorder must name every existing id exactly once.
+const checkOrder = (ids: number[], existingIds: number[]) => {
+  const valid =
+    new Set(ids).size === ids.length &&
+    ids.length === existingIds.length &&
+    existingIds.every((id) => ids.includes(id));
+  if (!valid) {
+    throw invalidRequest([{ location: 'body', field: 'ids', message: 'must list every existing id exactly once' }]);
+  }
+  return ids;
+};
+
+const rethrowConflicts = (error: unknown): never => {
+  if (error instanceof UniqueViolationError) {
+    throw new ApiError(409, 'already_exists', error.message);
+  }
+  throw error;
+};
+
+// Every route below belongs to a live (not trashed) project the signed-in user
+// is a member of: viewers may read, changes need an editor.
+r.use('*', async (c, next) => {
+  const { projectId } = await parseInput(ProjectParams, c.req.param(), 'path');
+  await requireProject(c, projectId, { role: roleForMethod(c.req.method) });
+  await next();
+});
+
+// GET /projects/:projectId/pages
+r.get(
+  '/',
+  docs({ summary: "List a project's pages", responses: { 200: z.array(SitePage) } }),
+  validate('param', ProjectParams),
+  async (c) => c.json(await getRepositories().pages.list(c.req.valid('param').projectId)),
+);
+
+// POST /projects/:projectId/pages {title, slug?}
+r.post(
+  '/',
+  docs({ summary: 'Add a page', responses: { 201: SitePage, 409: 'Slug already taken' } }),
+  validate('param', ProjectParams),
+  validate('json', PageCreate),
+  async (c) => {
+    const { pages } = getRepositories();
+    const { projectId } = c.req.valid('param');
+    const { title, slug: requested } = c.req.valid('json');
+
+    const slug =
+      requested ?? (await uniqueSlug(slugify(title, 'page'), (candidate) => pages.slugExists(projectId, candidate)));
+    const page = await pages.create(projectId, { title, slug }).catch(rethrowConflicts);
+    await publishFrom(c, 'page.created', projectId, { data: { pageId: page.id }, after: page });
+    return c.json(page, 201);
+  },
+);
+
+// PUT /projects/:projectId/pages/order {ids}
+r.put(
+  '/order',
+  docs({ summary: 'Reorder pages', responses: { 200: z.array(SitePage) } }),
+  validate('param', ProjectParams),
+  validate('json', OrderedIds),
+  async (c) => {
+    const { pages } = getRepositories();
+    const { projectId } = c.req.valid('param');
+    const existing = await pages.list(projectId);
+    const ids = checkOrder(
+      c.req.valid('json').ids,
+      existing.map((page) => page.id),
+    );
+    const reordered = await pages.reorder(projectId, ids);
+    await publishFrom(c, 'pages.reordered', projectId, {
+      before: existing.map((page) => page.id),
+      after: reordered.map((page) => page.id),
+    });
+    return c.json(reordered);
+  },
+);
+
+// GET /projects/:projectId/pages/:pageId (with its sections)
+r.get(
+  '/:pageId',
+  docs({ summary: 'Get a page with its sections', responses: { 200: SitePageWithSections, 404: 'Page not found' } }),
+  validate('param', PageParams),
+  async (c) => {
+    const page = await requirePage(c.req.valid('param'));
+    return c.json({ ...page, sections: await getRepositories().sections.list(page.id) });
+  },
+);
+
+// PATCH /projects/:projectId/pages/:pageId {title?, slug?}
+r.patch(
+  '/:pageId',
+  docs({ summary: 'Update a page', responses: { 200: SitePage, 404: 'Page not found', 409: 'Slug already taken' } }),
+  validate('param', PageParams),
+  validate('json', PagePatch),
+  async (c) => {
+    const { pages } = getRepositories();
+    const current = await requirePage(c.req.valid('param'));
+    const fields: SitePagePatch = c.req.valid('json');
+    const page = await pages.update(current.project_id, current.id, fields).catch(rethrowConflicts);
+    if (!page) throw new HTTPException(404, { message: 'page not found' });
+    const changed = Object.keys(fields) as (keyof SitePagePatch)[];
+    await publishFrom(c, 'page.updated', page.project_id, {
+      data: { pageId: page.id },
+      before: pickFields(current, changed),
+      after: pickFields(page, changed),
+    });
+    return c.json(page);
+  },
+);
+
+// DELETE /projects/:projectId/pages/:pageId
+r.delete(
+  '/:pageId',
+  docs({ summary: 'Delete a page', responses: { 204: null, 404: 'Page not found' } }),
+  validate('param', PageParams),
+  async (c) => {
+    const { pages } = getRepositories();
+    const page = await requirePage(c.req.valid('param'));
+    await pages.delete(page.project_id, page.id);
+    await publishFrom(c, 'page.deleted', page.project_id, { data: { pageId: page.id }, before: page });
+    return c.body(null, 204);
+  },
+);
+
+// GET /projects/:projectId/pages/:pageId/sections
+r.get(
+  '/:pageId/sections',
+  docs({ summary: "List a page's sections", responses: { 200: z.array(Section), 404: 'Page not found' } }),
+  validate('param', PageParams),
+  async (c) => {
+    const page = await requirePage(c.req.valid('param'));
+    return c.json(await getRepositories().sections.list(page.id));
+  },
+);
+
+// POST /projects/:projectId/pages/:pageId/sections {type, data}
+r.post(
+  '/:pageId/sections',
+  docs({ summary: 'Add a section', responses: { 201: Section, 404: 'Page not found' } }),
+  validate('param', PageParams),
+  validate('json', SectionInput),
+  async (c) => {
+    const { sections } = getRepositories();
+    const page = await requirePage(c.req.valid('param'));
+    const section = await sections.create(page.id, c.req.valid('json'));
+    await publishFrom(c, 'section.created', page.project_id, {
+      data: { pageId: page.id, sectionId: section.id },
+      after: section,
+    });
+    return c.json(section, 201);
+  },
+);
+
+// PUT /projects/:projectId/pages/:pageId/sections/order {ids}
+r.put(
+  '/:pageId/sections/order',
+  docs({ summary: 'Reorder sections', responses: { 200: z.array(Section), 404: 'Page not found' } }),
+  validate('param', PageParams),
+  validate('json', OrderedIds),
+  async (c) => {
+    const { sections } = getRepositories();
+    const page = await requirePage(c.req.valid('param'));
+    const existing = await sections.list(page.id);
+    const ids = checkOrder(
+      c.req.valid('json').ids,
+      existing.map((section) => section.id),
+    );
+    const reordered = await sections.reorder(page.id, ids);
+    await publishFrom(c, 'sections.reordered', page.project_id, {
+      data: { pageId: page.id },
+      before: existing.map((section) => section.id),
+      after: reordered.map((section) => section.id),
+    });
+    return c.json(reordered);
+  },
+);
+
+// PATCH /projects/:projectId/pages/:pageId/sections/:sectionId {type?, data}
+r.patch(
+  '/:pageId/sections/:sectionId',
+  docs({ summary: 'Update a section', responses: { 200: Section, 404: 'Page or section not found' } }),
+  validate('param', SectionParams),
+  validate('json', SectionPatch),
+  async (c) => {
+    const { sections } = getRepositories();
+    const { sectionId, ...params } = c.req.valid('param');
+    const page = await requirePage(params);
+    const current = await sections.get(page.id, sectionId);
+    if (!current) throw new HTTPException(404, { message: 'section not found' });
+
+    const body = c.req.valid('json');
+    const input = await readSection(body.type ?? current.type, body.data);
+    const section = await sections.update(page.id, sectionId, input);
+    if (!section) throw new HTTPException(404, { message: 'section not found' });
+    await publishFrom(c, 'section.updated', page.project_id, {
+      data: { pageId: page.id, sectionId },
+      before: pickFields(current, ['type', 'data']),
+      after: pickFields(section, ['type', 'data']),
+    });
+    return c.json(section);
+  },
+);
+
+// DELETE /projects/:projectId/pages/:pageId/sections/:sectionId
+r.delete(
+  '/:pageId/sections/:sectionId',
+  docs({ summary: 'Delete a section', responses: { 204: null, 404: 'Page or section not found' } }),
+  validate('param', SectionParams),
+  async (c) => {
+    const { sections } = getRepositories();
+    const { sectionId, ...params } = c.req.valid('param');
+    const page = await requirePage(params);
+    const section = await sections.get(page.id, sectionId);
+    if (!section || !(await sections.delete(page.id, sectionId))) {
+      throw new HTTPException(404, { message: 'section not found' });
+    }
+    await publishFrom(c, 'section.deleted', page.project_id, { data: { pageId: page.id, sectionId }, before: section });
+    return c.body(null, 204);
+  },
+);
+
+export default r;
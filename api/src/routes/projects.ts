@@ -1,44 +1,203 @@
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
-import { supabase } from '../db/connection.js';
+import { z } from 'zod';
+import { currentUser } from '../auth/index.js';
+import { requireProject } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import { UniqueViolationError } from '../db/errors.js';
+import type { Project as ProjectRow, ProjectPatch as ProjectPatchFields } from '../db/types.js';
+import { buildExport } from '../export/index.js';
+import { pickFields, publishFrom } from '../events/index.js';
+import { canTransition } from '../domain/projects.js';
+import { ApiError } from '../lib/errors.js';
+import { validate } from '../lib/validation.js';
+import { slugify, uniqueSlug } from '../lib/slug.js';
+import { routeDocs } from '../openapi/index.js';
+import { idParams, rethrowInvalidCursor } from '../schemas/common.js';
+import {
+  Project,
+  ProjectCreate,
+  ProjectDeleteQuery,
+  ProjectExportQuery,
+  ProjectListQuery,
+  ProjectPage,
+  ProjectPatch,
+} from '../schemas/projects.js';
 
 const r = new Hono();
+const docs = routeDocs('Projects');
 
-// GET /projects
-r.get('/', async (c) => {
-  const { data, error } = await supabase.from('projects').select('*').order('id', { ascending: false });
-  if (error) throw new HTTPException(500, { message: error.message });
-  return c.json(data ?? []);
-});
-
-// POST /projects {name}
-r.post('/', async (c) => {
-  const body = await c.req.json().catch(() => ({}));
-  const name = String(body?.name || '').trim();
-  if (!name) throw new HTTPException(400, { message: 'name required' });
-  const { data, error } = await supabase.from('projects').insert([{ name }]).select().single();
-  if (error) throw new HTTPException(500, { message: error.message });
-  return c.json(data, 201);
-});
-
-// PATCH /projects/:id {name?}
-r.patch('/:id', async (c) => {
-  const id = Number(c.req.param('id'));
-  const body = await c.req.json().catch(() => ({}));
-  const name = body?.name ? String(body.name).trim() : undefined;
-  if (!id || !name) throw new HTTPException(400, { message: 'invalid payload' });
-  const { data, error } = await supabase.from('projects').update({ name }).eq('id', id).select().single();
-  if (error) throw new HTTPException(500, { message: error.message });
-  return c.json(data);
-});
-
-// DELETE /projects/:id
-r.delete('/:id', async (c) => {
-  const id = Number(c.req.param('id'));
-  if (!id) throw new HTTPException(400, { message: 'invalid id' });
-  const { error } = await supabase.from('projects').delete().eq('id', id);
-  if (error) throw new HTTPException(500, { message: error.message });
-  return c.body(null, 204);
-});
+const IdParams = idParams('id');
+
+// The stored project without the caller's role, for the activity log.
+const withoutRole = ({ role: _role, ...project }: ProjectRow & { role: unknown }): ProjectRow => project;
+
+const rethrowConflicts = (error: unknown): never => {
+  if (error instanceof UniqueViolationError) {
+    throw new ApiError(409, 'already_exists', 'slug already taken', { details: { field: 'slug' } });
+  }
+  throw error;
+};
+
+// Every route answers for projects the signed-in user is a member of; see
+// requireProject for the role each change needs.
+
+// GET /projects?q=&status=&trashed=true&sort=name|created_at|updated_at&order=asc|desc&limit=&cursor=
+r.get(
+  '/',
+  docs({ summary: "List the caller's projects", responses: { 200: ProjectPage } }),
+  validate('query', ProjectListQuery),
+  async (c) => {
+    const { projects } = getRepositories();
+    const { sort, order, limit, status, q, cursor, trashed } = c.req.valid('query');
+    const memberId = currentUser(c).id;
+    return c.json(
+      await projects
+        .list({ limit, sort, order: order ?? (sort === 'name' ? 'asc' : 'desc'), cursor, q, status, trashed, memberId })
+        .catch(rethrowInvalidCursor),
+    );
+  },
+);
+
+// GET /projects/:id includes the caller's `role`.
+r.get(
+  '/:id',
+  docs({ summary: 'Get a project', responses: { 200: Project, 404: 'Project not found' } }),
+  validate('param', IdParams),
+  async (c) => c.json(await requireProject(c, c.req.valid('param').id)),
+);
+
+// GET /projects/:id/export?theme=classic|modern|dark&base_url=https://example.com
+// A zip of the rendered static site. base_url makes canonical links and the
+// sitemap absolute. Images that cannot be bundled stay remote; their count is
+// in X-Export-Skipped-Assets.
+r.get(
+  '/:id/export',
+  docs({
+    summary: 'Export the rendered static site',
+    responses: {
+      200: {
+        description: 'A zip of the rendered site',
+        content: { 'application/zip': z.string().meta({ format: 'binary' }) },
+        headers: {
+          'Content-Disposition': 'attachment; filename="<slug>.zip"',
+          'X-Export-Skipped-Assets': 'Number of images left as remote links',
+        },
+      },
+      409: 'Project has no pages to export',
+    },
+  }),
+  validate('param', IdParams),
+  validate('query', ProjectExportQuery),
+  async (c) => {
+    const project = await requireProject(c, c.req.valid('param').id);
+    const { theme, base_url: baseUrl } = c.req.valid('query');
+
+    const bundle = await buildExport(project, { theme, baseUrl });
+    if (!bundle) throw new HTTPException(409, { message: 'project has no pages to export' });
+    return c.body(bundle.zip, 200, {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${bundle.fileName}"`,
+      'X-Export-Skipped-Assets': String(bundle.skippedAssets.length),
+    });
+  },
+);
+
+// POST /projects {name, slug?, description?, status?}
+r.post(
+  '/',
+  docs({
+    summary: 'Create a project',
+    description: 'The caller becomes its owner. The slug is derived from the name unless given.',
+    responses: { 201: Project, 409: 'Slug already taken, or the status is not allowed for a new project' },
+  }),
+  validate('json', ProjectCreate),
+  async (c) => {
+    const { projects, members } = getRepositories();
+    const fields = c.req.valid('json');
+    if (fields.status && !canTransition('draft', fields.status)) {
+      throw new HTTPException(409, { message: `a new project cannot start as ${fields.status}` });
+    }
+
+    const slug =
+      fields.slug ?? (await uniqueSlug(slugify(fields.name, 'project'), (candidate) => projects.slugExists(candidate)));
+    const user = currentUser(c);
+    const project = await projects
+      .create({ ...fields, name: fields.name, slug, owner_id: user.id })
+      .catch(rethrowConflicts);
+    // The database already made the creator an owner; this records their email.
+    await members.add(project.id, { user_id: user.id, email: user.email, role: 'owner' });
+    await publishFrom(c, 'project.created', project.id, { after: project });
+    return c.json({ ...project, role: 'owner' }, 201);
+  },
+);
+
+// PATCH /projects/:id {name?, slug?, description?, status?}
+r.patch(
+  '/:id',
+  docs({
+    summary: 'Update a project',
+    responses: {
+      200: Project,
+      404: 'Project not found',
+      409: 'Slug already taken, or the status change is not allowed',
+    },
+  }),
+  validate('param', IdParams),
+  validate('json', ProjectPatch),
+  async (c) => {
+    const { projects } = getRepositories();
+    const { id } = c.req.valid('param');
+    const fields: ProjectPatchFields = c.req.valid('json');
+
+    const current = await requireProject(c, id, { role: 'editor' });
+    if (fields.status && !canTransition(current.status, fields.status)) {
+      throw new HTTPException(409, { message: `cannot change status from ${current.status} to ${fields.status}` });
+    }
+
+    const project = await projects.update(id, fields).catch(rethrowConflicts);
+    if (!project) throw new HTTPException(404, { message: 'project not found' });
+    const changed = Object.keys(fields) as (keyof ProjectPatchFields)[];
+    await publishFrom(c, 'project.updated', project.id, {
+      before: pickFields(current, changed),
+      after: pickFields(project, changed),
+    });
+    return c.json({ ...project, role: current.role });
+  },
+);
+
+// DELETE /projects/:id (owners only) moves the project to the trash;
+// DELETE /projects/:id?permanent=true erases a project that is already there.
+r.delete(
+  '/:id',
+  docs({ summary: 'Trash or erase a project', responses: { 204: null, 404: 'Project not found' } }),
+  validate('param', IdParams),
+  validate('query', ProjectDeleteQuery),
+  async (c) => {
+    const { projects } = getRepositories();
+    const current = await requireProject(c, c.req.valid('param').id, { role: 'owner', includeDeleted: true });
+    const { id } = current;
+    const { permanent } = c.req.valid('query');
+    const deleted = permanent ? await projects.purge(id) : await projects.delete(id);
+    if (!deleted) throw new HTTPException(404, { message: 'project not found' });
+    await publishFrom(c, permanent ? 'project.purged' : 'project.deleted', id, { before: withoutRole(current) });
+    return c.body(null, 204);
+  },
+);
+
+// POST /projects/:id/restore (owners only)
+r.post(
+  '/:id/restore',
+  docs({ summary: 'Restore a project from the trash', responses: { 200: Project, 404: 'Project not found in trash' } }),
+  validate('param', IdParams),
+  async (c) => {
+    const { projects } = getRepositories();
+    const { id } = await requireProject(c, c.req.valid('param').id, { role: 'owner', includeDeleted: true });
+    const project = await projects.restore(id);
+    if (!project) throw new HTTPException(404, { message: 'project not found in trash' });
+    await publishFrom(c, 'project.restored', id, { after: project });
+    return c.json({ ...project, role: 'owner' });
+  },
+);
 
 export default r;
@@ -0,0 +1,227 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { complete, readModelOptions, streamCompletion } from '../ai/index.js';
+import { requireProject, roleForMethod } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import { UniqueViolationError } from '../db/errors.js';
+import type { PromptTemplatePatch } from '../db/types.js';
+import { pickFields, publishFrom } from '../events/index.js';
+import { completeVariables, renderTemplate } from '../domain/prompts.js';
+import { ApiError } from '../lib/errors.js';
+import { invalidRequest, parseInput, validate } from '../lib/validation.js';
+import { streamResponse } from '../lib/streaming.js';
+import { routeDocs } from '../openapi/index.js';
+import { completionResponse } from '../schemas/ai.js';
+import { idParams } from '../schemas/common.js';
+import {
+  PromptRunResult,
+  PromptTemplate,
+  PromptTemplateVersion,
+  TemplateCreate,
+  TemplateParams,
+  TemplatePatch,
+  TemplateRun,
+} from '../schemas/prompts.js';
+
+// Mounted at /projects/:projectId/prompts.
+const r = new Hono();
+const docs = routeDocs('Prompts');
+
+const ProjectParams = idParams('projectId');
+
+const requireTemplate = async ({ projectId, templateId }: { projectId: number; templateId: number }) => {
+  const template = await getRepositories().prompts.get(projectId, templateId);
+  if (!template) throw new HTTPException(404, { message: 'prompt template not found' });
+  return template;
+};
+
+const rethrowConflicts = (error: unknown): never => {
+  if (error instanceof UniqueViolationError) {
+    throw new ApiError(409, 'already_exists', error.message);
+  }
+  throw error;
+};
+
+// Every route below belongs to a live (not trashed) project the signed-in user
+// is a member of: viewers may read, changes need an editor.
+r.use('*', async (c, next) => {
+  const { projectId } = await parseInput(ProjectParams, c.req.param(), 'path');
+  await requireProject(c, projectId, { role: roleForMethod(c.req.method) });
+  await next();
+});
+
+// GET /projects/:projectId/prompts
+r.get(
+  '/',
+  docs({ summary: "List a project's prompt templates", responses: { 200: z.array(PromptTemplate) } }),
+  validate('param', ProjectParams),
+  async (c) => c.json(await getRepositories().prompts.list(c.req.valid('param').projectId)),
+);
+
+// POST /projects/:projectId/prompts {name, body, system?, description?, variables?, provider?, model?, temperature?, max_tokens?}
+// Placeholders used in body or system but not declared in `variables` are added without a default.
+r.post(
+  '/',
+  docs({ summary: 'Add a prompt template', responses: { 201: PromptTemplate, 409: 'Name already taken' } }),
+  validate('param', ProjectParams),
+  validate('json', TemplateCreate),
+  async (c) => {
+    const { prompts } = getRepositories();
+    const fields = c.req.valid('json');
+
+    const template = await prompts
+      .create(c.req.valid('param').projectId, {
+        name: fields.name,
+        description: fields.description ?? '',
+        system: fields.system ?? null,
+        body: fields.body,
+        variables: completeVariables(fields.variables ?? [], fields.system, fields.body),
+        provider: fields.provider ?? null,
+        model: fields.model ?? null,
+        temperature: fields.temperature ?? null,
+        max_tokens: fields.max_tokens ?? null,
+      })
+      .catch(rethrowConflicts);
+    await publishFrom(c, 'prompt.created', template.project_id, { data: { templateId: template.id }, after: template });
+    return c.json(template, 201);
+  },
+);
+
+// GET /projects/:projectId/prompts/:templateId
+r.get(
+  '/:templateId',
+  docs({ summary: 'Get a prompt template', responses: { 200: PromptTemplate, 404: 'Prompt template not found' } }),
+  validate('param', TemplateParams),
+  async (c) => c.json(await requireTemplate(c.req.valid('param'))),
+);
+
+// PATCH /projects/:projectId/prompts/:templateId (same fields as POST; saves a new version)
+r.patch(
+  '/:templateId',
+  docs({
+    summary: 'Update a prompt template',
+    responses: { 200: PromptTemplate, 404: 'Prompt template not found', 409: 'Name already taken' },
+  }),
+  validate('param', TemplateParams),
+  validate('json', TemplatePatch),
+  async (c) => {
+    const { prompts } = getRepositories();
+    const current = await requireTemplate(c.req.valid('param'));
+    const fields: PromptTemplatePatch = c.req.valid('json');
+
+    if (fields.variables || fields.body || fields.system !== undefined) {
+      fields.variables = completeVariables(
+        fields.variables ?? current.variables,
+        fields.system === undefined ? current.system : fields.system,
+        fields.body ?? current.body,
+      );
+    }
+    const template = await prompts.update(current.project_id, current.id, fields).catch(rethrowConflicts);
+    if (!template) throw new HTTPException(404, { message: 'prompt template not found' });
+    const changed = Object.keys(fields) as (keyof PromptTemplatePatch)[];
+    await publishFrom(c, 'prompt.updated', template.project_id, {
+      data: { templateId: template.id, version: template.version },
+      before: pickFields(current, changed),
+      after: pickFields(template, changed),
+    });
+    return c.json(template);
+  },
+);
+
+// DELETE /projects/:projectId/prompts/:templateId
+r.delete(
+  '/:templateId',
+  docs({ summary: 'Delete a prompt template', responses: { 204: null, 404: 'Prompt template not found' } }),
+  validate('param', TemplateParams),
+  async (c) => {
+    const { prompts } = getRepositories();
+    const template = await requireTemplate(c.req.valid('param'));
+    await prompts.delete(template.project_id, template.id);
+    await publishFrom(c, 'prompt.deleted', template.project_id, {
+      data: { templateId: template.id },
+      before: template,
+    });
+    return c.body(null, 204);
+  },
+);
+
+// GET /projects/:projectId/prompts/:templateId/versions (newest first)
+r.get(
+  '/:templateId/versions',
+  docs({
+    summary: "List a prompt template's versions",
+    responses: { 200: z.array(PromptTemplateVersion), 404: 'Prompt template not found' },
+  }),
+  validate('param', TemplateParams),
+  async (c) => {
+    const template = await requireTemplate(c.req.valid('param'));
+    return c.json(await getRepositories().prompts.listVersions(template.id));
+  },
+);
+
+// POST /projects/:projectId/prompts/:templateId/run {variables?, version?, stream?, provider?, model?, ...}
+// Renders the template (or an older `version` of it) and sends it through the
+// AI provider chain. Model settings in the body override the template's.
+r.post(
+  '/:templateId/run',
+  docs({
+    summary: 'Run a prompt template',
+    responses: { 200: completionResponse(PromptRunResult), 404: 'Prompt template or version not found' },
+  }),
+  validate('param', TemplateParams),
+  validate('json', TemplateRun),
+  async (c) => {
+    const { prompts } = getRepositories();
+    const template = await requireTemplate(c.req.valid('param'));
+    const body = c.req.valid('json');
+
+    let source = template;
+    if (body.version !== undefined) {
+      const version = await prompts.getVersion(template.id, body.version);
+      if (!version) throw new HTTPException(404, { message: 'prompt template version not found' });
+      source = { ...template, ...version, id: template.id };
+    }
+
+    const values = body.variables ?? {};
+    const missing = new Set<string>();
+    const prompt = renderTemplate(source.body, source.variables, values, missing).text;
+    const system = source.system ? renderTemplate(source.system, source.variables, values, missing).text : undefined;
+    if (missing.size > 0) {
+      throw invalidRequest([
+        { location: 'body', field: 'variables', message: `must include values for ${[...missing].join(', ')}` },
+      ]);
+    }
+
+    const { options, settings } = readModelOptions(body);
+    const { system: _system, ...overrides } = settings;
+    const request = {
+      prompt,
+      system,
+      // The stored model belongs to the stored provider; a provider override drops it.
+      model: options.provider ? undefined : (source.model ?? undefined),
+      temperature: source.temperature ?? undefined,
+      maxTokens: source.max_tokens ?? undefined,
+      ...overrides,
+    };
+    const chain = {
+      ...options,
+      provider: options.provider ?? source.provider ?? undefined,
+      signal: c.req.raw.signal,
+      usage: { projectId: template.project_id, route: 'prompts.run' },
+    };
+
+    const run = { templateId: template.id, version: source.version, stream: body.stream === true };
+    if (body.stream === true) {
+      await publishFrom(c, 'prompt.run', template.project_id, { data: run });
+      return streamResponse(c, streamCompletion(request, chain));
+    }
+    const result = await complete(request, chain);
+    await publishFrom(c, 'prompt.run', template.project_id, {
+      data: { ...run, provider: result.provider, model: result.model },
+    });
+    return c.json({ ...result, version: source.version, prompt, system: system ?? null });
+  },
+);
+
+export default r;
@@ -0,0 +1,108 @@
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { currentUser } from '../auth/index.js';
+import { requireProject, roleForMethod } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import { UniqueViolationError } from '../db/errors.js';
+import { diffRevisions } from '../domain/revisions.js';
+import { publishFrom } from '../events/index.js';
+import { ApiError } from '../lib/errors.js';
+import { parseInput, validate } from '../lib/validation.js';
+import { routeDocs } from '../openapi/index.js';
+import { recordRevision, restoreContent } from '../revisions/index.js';
+import { idParams } from '../schemas/common.js';
+import {
+  RestoredRevision,
+  Revision,
+  RevisionDiff,
+  RevisionDiffQuery,
+  RevisionParams,
+  RevisionSummary,
+} from '../schemas/revisions.js';
+
+// Mounted at /projects/:projectId/revisions. A revision is taken after every
+// content change (see src/revisions); viewers may browse them, restoring
+// needs an editor.
+const r = new Hono();
+const docs = routeDocs('Revisions');
+
+const ProjectParams = idParams('projectId');
+
+const requireRevision = async (projectId: number, number: number | undefined, label = 'revision') => {
+  const revision = number === undefined ? null : await getRepositories().revisions.get(projectId, number);
+  if (!revision) throw new HTTPException(404, { message: `${label} not found` });
+  return revision;
+};
+
+r.use('*', async (c, next) => {
+  const { projectId } = await parseInput(ProjectParams, c.req.param(), 'path');
+  await requireProject(c, projectId, { role: roleForMethod(c.req.method) });
+  await next();
+});
+
+// GET /projects/:projectId/revisions (newest first, without content)
+r.get(
+  '/',
+  docs({ summary: "List a project's revisions", responses: { 200: z.array(RevisionSummary) } }),
+  validate('param', ProjectParams),
+  async (c) => c.json(await getRepositories().revisions.list(c.req.valid('param').projectId)),
+);
+
+// GET /projects/:projectId/revisions/diff?from=&to=
+// Changes from one revision to another; `to` defaults to the latest.
+r.get(
+  '/diff',
+  docs({ summary: 'Compare two revisions', responses: { 200: RevisionDiff, 404: 'Revision not found' } }),
+  validate('param', ProjectParams),
+  validate('query', RevisionDiffQuery),
+  async (c) => {
+    const { revisions } = getRepositories();
+    const { projectId } = c.req.valid('param');
+    const query = c.req.valid('query');
+    const from = await requireRevision(projectId, query.from, 'from');
+    const to = await requireRevision(projectId, query.to ?? (await revisions.latest(projectId))?.number, 'to');
+    return c.json({ from: from.number, to: to.number, changes: diffRevisions(from.content, to.content) });
+  },
+);
+
+// GET /projects/:projectId/revisions/:number (with content)
+r.get(
+  '/:number',
+  docs({ summary: 'Get a revision with its content', responses: { 200: Revision, 404: 'Revision not found' } }),
+  validate('param', RevisionParams),
+  async (c) => {
+    const { projectId, number } = c.req.valid('param');
+    return c.json(await requireRevision(projectId, number));
+  },
+);
+
+// POST /projects/:projectId/revisions/:number/restore
+// Brings the content back as it was; the result is saved as a new revision,
+// so a restore can itself be undone.
+r.post(
+  '/:number/restore',
+  docs({
+    summary: 'Restore a revision',
+    responses: { 200: RestoredRevision, 404: 'Revision not found', 409: 'A restored slug is now taken' },
+  }),
+  validate('param', RevisionParams),
+  async (c) => {
+    const { projectId, number } = c.req.valid('param');
+    const revision = await requireRevision(projectId, number);
+    await restoreContent(revision.project_id, revision.content).catch((error: unknown) => {
+      if (error instanceof UniqueViolationError) {
+        throw new ApiError(409, 'already_exists', 'the revision uses a slug that is now taken');
+      }
+      throw error;
+    });
+
+    const latest = await recordRevision(revision.project_id, 'revision.restored', currentUser(c).id);
+    await publishFrom(c, 'revision.restored', revision.project_id, {
+      data: { restored: revision.number, revision: latest?.number ?? null },
+    });
+    return c.json({ restored: revision.number, revision: latest });
+  },
+);
+
+export default r;
@@ -0,0 +1,150 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { getQuotaStatus, monthWindow, readQuotaLimits } from '../ai/usage.js';
+import { currentUser, requireAdmin } from '../auth/index.js';
+import { requireProject } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import type { DailyUsage } from '../db/types.js';
+import { invalidRequest, validate } from '../lib/validation.js';
+import { routeDocs } from '../openapi/index.js';
+import { idParams } from '../schemas/common.js';
+import { ProjectQuota, QuotaChange, QuotaSettings, QuotaStatus, UsageQuery, UsageReport } from '../schemas/usage.js';
+
+// Mounted at /usage. Reports span every project, so all routes except a
+// project's own quota status are for admins (ADMIN_USER_IDS).
+const r = new Hono();
+const docs = routeDocs('Usage');
+
+const QuotaParams = idParams('projectId');
+
+const DAY_MS = 86_400_000;
+const MAX_RANGE_DAYS = 366;
+
+const visibleProject = async (c: Context, projectId: number) => {
+  if (!currentUser(c).admin) return (await requireProject(c, projectId)).id;
+  if (!(await getRepositories().projects.get(projectId))) {
+    throw new HTTPException(404, { message: 'project not found' });
+  }
+  return projectId;
+};
+
+type Totals = Omit<DailyUsage, 'project_id' | 'day'>;
+
+const sumRows = (rows: DailyUsage[]): Totals => {
+  const totals = { calls: 0, errors: 0, input_tokens: 0, output_tokens: 0, total_tokens: 0, avg_latency_ms: 0 };
+  let latency = 0;
+  for (const row of rows) {
+    totals.calls += row.calls;
+    totals.errors += row.errors;
+    totals.input_tokens += row.input_tokens;
+    totals.output_tokens += row.output_tokens;
+    totals.total_tokens += row.total_tokens;
+    latency += row.avg_latency_ms * row.calls;
+  }
+  totals.avg_latency_ms = totals.calls > 0 ? Math.round(latency / totals.calls) : 0;
+  return totals;
+};
+
+// GET /usage?from=YYYY-MM-DD&to=YYYY-MM-DD&project_id=
+// Both days are inclusive and default to the current UTC month up to today.
+// `days` has one row per project and day (project_id null for calls made
+// outside a project); `projects` sums those rows per project.
+r.get(
+  '/',
+  docs({ summary: 'Report AI usage', responses: { 200: UsageReport, 403: 'Admins only' } }),
+  requireAdmin(),
+  validate('query', UsageQuery),
+  async (c) => {
+    const { usage } = getRepositories();
+    const query = c.req.valid('query');
+    const today = new Date(Math.floor(Date.now() / DAY_MS) * DAY_MS);
+    const from = query.from ?? monthWindow(today).start;
+    const to = query.to ?? today;
+    if (to < from) throw invalidRequest([{ location: 'query', field: 'to', message: 'must not be before from' }]);
+    if ((to.getTime() - from.getTime()) / DAY_MS >= MAX_RANGE_DAYS) {
+      throw invalidRequest([
+        { location: 'query', field: 'to', message: `must be at most ${MAX_RANGE_DAYS} days after from` },
+      ]);
+    }
+    const projectId = query.project_id;
+
+    const days = await usage.daily(from.toISOString(), new Date(to.getTime() + DAY_MS).toISOString(), projectId);
+
+    const byProject = new Map<number | null, DailyUsage[]>();
+    for (const row of days) byProject.set(row.project_id, [...(byProject.get(row.project_id) ?? []), row]);
+    const projects = [...byProject].map(([id, rows]) => ({ project_id: id, ...sumRows(rows) }));
+
+    return c.json({
+      from: from.toISOString().slice(0, 10),
+      to: to.toISOString().slice(0, 10),
+      days,
+      projects,
+      totals: sumRows(days),
+    });
+  },
+);
+
+// GET /usage/quotas
+// Limits from the environment plus every per-project override.
+r.get(
+  '/quotas',
+  docs({ summary: 'List quota limits and overrides', responses: { 200: QuotaSettings, 403: 'Admins only' } }),
+  requireAdmin(),
+  async (c) => {
+    const { usage } = getRepositories();
+    const { projectMonthlyTokens, globalMonthlyTokens } = readQuotaLimits();
+    return c.json({
+      default_monthly_tokens: projectMonthlyTokens,
+      global_monthly_tokens: globalMonthlyTokens,
+      overrides: await usage.listQuotas(),
+    });
+  },
+);
+
+// GET /usage/quotas/:projectId (also open to the project's members)
+r.get(
+  '/quotas/:projectId',
+  docs({ summary: "Get a project's quota status", responses: { 200: QuotaStatus, 404: 'Project not found' } }),
+  validate('param', QuotaParams),
+  async (c) => c.json(await getQuotaStatus(await visibleProject(c, c.req.valid('param').projectId))),
+);
+
+// PUT /usage/quotas/:projectId {monthlyTokens}
+// null lifts the limit for this project; DELETE falls back to AI_MONTHLY_TOKEN_QUOTA.
+r.put(
+  '/quotas/:projectId',
+  docs({
+    summary: "Override a project's quota",
+    responses: { 200: QuotaStatus, 403: 'Admins only', 404: 'Project not found' },
+  }),
+  requireAdmin(),
+  validate('param', QuotaParams),
+  validate('json', QuotaChange),
+  async (c) => {
+    const { usage } = getRepositories();
+    const projectId = await visibleProject(c, c.req.valid('param').projectId);
+    await usage.setQuota(projectId, c.req.valid('json').monthlyTokens);
+    return c.json(await getQuotaStatus(projectId));
+  },
+);
+
+// DELETE /usage/quotas/:projectId
+r.delete(
+  '/quotas/:projectId',
+  docs({
+    summary: "Remove a project's quota override",
+    responses: { 204: null, 403: 'Admins only', 404: 'Project or override not found' },
+  }),
+  requireAdmin(),
+  validate('param', QuotaParams),
+  async (c) => {
+    const { usage } = getRepositories();
+    const deleted = await usage.deleteQuota(await visibleProject(c, c.req.valid('param').projectId));
+    if (!deleted) throw new HTTPException(404, { message: 'quota override not found' });
+    return c.body(null, 204);
+  },
+);
+
+export default r;
@@ -0,0 +1,216 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { currentUser, requireAdmin } from '../auth/index.js';
+import { requireProject } from '../auth/projects.js';
+import { getRepositories } from '../db/index.js';
+import { z } from 'zod';
+import type { Webhook } from '../db/types.js';
+import { publishFrom } from '../events/index.js';
+import { parseInput, validate } from '../lib/validation.js';
+import { routeDocs } from '../openapi/index.js';
+import { rethrowInvalidCursor } from '../schemas/common.js';
+import {
+  DeliveryListQuery,
+  DeliveryParams,
+  WebhookCreate,
+  Webhook as WebhookSchema,
+  WebhookDelivery,
+  WebhookDeliveryPage,
+  WebhookParams,
+  WebhookPatch,
+  WebhookScopeParams,
+  WebhookWithSecret,
+} from '../schemas/webhooks.js';
+import { ping, redeliver } from '../webhooks/index.js';
+import { createWebhookSecret } from '../webhooks/signing.js';
+
+// Mounted at /projects/:projectId/webhooks (owners) and at /webhooks, for
+// webhooks receiving every project's events (admins only). Deliveries are
+// sent by src/webhooks.
+const r = new Hono();
+
+const docs = routeDocs('Webhooks');
+
+// Secrets are only shown when created or rotated.
+const describe = ({ secret: _secret, ...webhook }: Webhook) => webhook;
+
+// `projectId` is undefined on /webhooks, whose webhooks have no project.
+const requireWebhook = async ({ projectId, webhookId }: { projectId?: number; webhookId: number }) => {
+  const webhook = await getRepositories().webhooks.get(webhookId);
+  if (!webhook || webhook.project_id !== (projectId ?? null)) {
+    throw new HTTPException(404, { message: 'webhook not found' });
+  }
+  return webhook;
+};
+
+const requireDelivery = async (webhook: Webhook, deliveryId: number) => {
+  const delivery = await getRepositories().webhooks.getDelivery(webhook.id, deliveryId);
+  if (!delivery) throw new HTTPException(404, { message: 'delivery not found' });
+  return delivery;
+};
+
+// Changes to a project's webhooks go to its activity log; global ones have no project to log to.
+const publishChange = async (
+  c: Context,
+  type: 'webhook.created' | 'webhook.updated' | 'webhook.deleted',
+  webhook: Webhook,
+  change: { before?: unknown; after?: unknown },
+) => {
+  if (webhook.project_id !== null) {
+    await publishFrom(c, type, webhook.project_id, { data: { webhookId: webhook.id }, ...change });
+  }
+};
+
+r.use('*', async (c, next) => {
+  const { projectId } = await parseInput(WebhookScopeParams, c.req.param(), 'path');
+  if (projectId === undefined) return requireAdmin()(c, next);
+  await requireProject(c, projectId, { role: 'owner' });
+  await next();
+});
+
+// GET /
+r.get(
+  '/',
+  docs({ summary: 'List webhooks', responses: { 200: z.array(WebhookSchema) } }),
+  validate('param', WebhookScopeParams),
+  async (c) => c.json((await getRepositories().webhooks.list(c.req.valid('param').projectId ?? null)).map(describe)),
+);
+
+// POST / {url, events, active?}
+// events lists WEBHOOK_EVENTS names, or ['*'] for all. The response carries the signing secret.
+r.post(
+  '/',
+  docs({ summary: 'Add a webhook', responses: { 201: WebhookWithSecret } }),
+  validate('param', WebhookScopeParams),
+  validate('json', WebhookCreate),
+  async (c) => {
+    const fields = c.req.valid('json');
+    const webhook = await getRepositories().webhooks.create({
+      project_id: c.req.valid('param').projectId ?? null,
+      url: fields.url,
+      events: fields.events,
+      active: fields.active ?? true,
+      secret: createWebhookSecret(),
+      created_by: currentUser(c).id,
+    });
+    await publishChange(c, 'webhook.created', webhook, { after: describe(webhook) });
+    return c.json(webhook, 201);
+  },
+);
+
+// GET /:webhookId
+r.get(
+  '/:webhookId',
+  docs({ summary: 'Get a webhook', responses: { 200: WebhookSchema, 404: 'Webhook not found' } }),
+  validate('param', WebhookParams),
+  async (c) => c.json(describe(await requireWebhook(c.req.valid('param')))),
+);
+
+// PATCH /:webhookId {url?, events?, active?}
+r.patch(
+  '/:webhookId',
+  docs({ summary: 'Update a webhook', responses: { 200: WebhookSchema, 404: 'Webhook not found' } }),
+  validate('param', WebhookParams),
+  validate('json', WebhookPatch),
+  async (c) => {
+    const webhook = await requireWebhook(c.req.valid('param'));
+    const updated = await getRepositories().webhooks.update(webhook.id, c.req.valid('json'));
+    if (!updated) throw new HTTPException(404, { message: 'webhook not found' });
+    await publishChange(c, 'webhook.updated', updated, { before: describe(webhook), after: describe(updated) });
+    return c.json(describe(updated));
+  },
+);
+
+// DELETE /:webhookId (and its delivery log)
+r.delete(
+  '/:webhookId',
+  docs({ summary: 'Delete a webhook', responses: { 204: null, 404: 'Webhook not found' } }),
+  validate('param', WebhookParams),
+  async (c) => {
+    const webhook = await requireWebhook(c.req.valid('param'));
+    if (!(await getRepositories().webhooks.delete(webhook.id))) {
+      throw new HTTPException(404, { message: 'webhook not found' });
+    }
+    await publishChange(c, 'webhook.deleted', webhook, { before: describe(webhook) });
+    return c.body(null, 204);
+  },
+);
+
+// POST /:webhookId/secret
+// Replaces the signing secret at once; the response carries the new one.
+r.post(
+  '/:webhookId/secret',
+  docs({ summary: 'Rotate the signing secret', responses: { 200: WebhookWithSecret, 404: 'Webhook not found' } }),
+  validate('param', WebhookParams),
+  async (c) => {
+    const webhook = await requireWebhook(c.req.valid('param'));
+    const updated = await getRepositories().webhooks.update(webhook.id, { secret: createWebhookSecret() });
+    if (!updated) throw new HTTPException(404, { message: 'webhook not found' });
+    await publishChange(c, 'webhook.updated', updated, { after: { secret_rotated: true } });
+    return c.json(updated);
+  },
+);
+
+// POST /:webhookId/ping
+// Queues a webhook.ping delivery, sent even when the webhook does not subscribe to it.
+r.post(
+  '/:webhookId/ping',
+  docs({
+    summary: 'Send a test delivery',
+    responses: { 202: WebhookDelivery, 404: 'Webhook not found', 409: 'Webhook is disabled' },
+  }),
+  validate('param', WebhookParams),
+  async (c) => {
+    const webhook = await requireWebhook(c.req.valid('param'));
+    if (!webhook.active) throw new HTTPException(409, { message: 'webhook is disabled' });
+    return c.json(await ping(webhook, currentUser(c).id), 202);
+  },
+);
+
+// GET /:webhookId/deliveries?limit=&cursor=
+// Newest first, with the outcome of each delivery's latest attempt.
+r.get(
+  '/:webhookId/deliveries',
+  docs({ summary: "List a webhook's deliveries", responses: { 200: WebhookDeliveryPage, 404: 'Webhook not found' } }),
+  validate('param', WebhookParams),
+  validate('query', DeliveryListQuery),
+  async (c) => {
+    const webhook = await requireWebhook(c.req.valid('param'));
+    const { limit, cursor } = c.req.valid('query');
+    return c.json(
+      await getRepositories().webhooks.listDeliveries(webhook.id, { limit, cursor }).catch(rethrowInvalidCursor),
+    );
+  },
+);
+
+// GET /:webhookId/deliveries/:deliveryId
+r.get(
+  '/:webhookId/deliveries/:deliveryId',
+  docs({ summary: 'Get a delivery', responses: { 200: WebhookDelivery, 404: 'Webhook or delivery not found' } }),
+  validate('param', DeliveryParams),
+  async (c) => {
+    const { deliveryId, ...params } = c.req.valid('param');
+    return c.json(await requireDelivery(await requireWebhook(params), deliveryId));
+  },
+);
+
+// POST /:webhookId/deliveries/:deliveryId/redeliver
+// Sends the same payload (and event id) again as a new delivery.
+r.post(
+  '/:webhookId/deliveries/:deliveryId/redeliver',
+  docs({
+    summary: 'Redeliver a delivery',
+    responses: { 202: WebhookDelivery, 404: 'Webhook or delivery not found', 409: 'Webhook is disabled' },
+  }),
+  validate('param', DeliveryParams),
+  async (c) => {
+    const { deliveryId, ...params } = c.req.valid('param');
+    const webhook = await requireWebhook(params);
+    const delivery = await requireDelivery(webhook, deliveryId);
+    if (!webhook.active) throw new HTTPException(409, { message: 'webhook is disabled' });
+    return c.json(await redeliver(delivery), 202);
+  },
+);
+
+export default r;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { ACTIVITY_ACTIONS } from '../domain/activity.js';
+import { Day, Id, pageOf, pageQuery, Timestamp } from './common.js';
+
+export const ActivityAction = z.enum(ACTIVITY_ACTIONS).meta({ id: 'ActivityAction' });
+
+export const ActivityEntry = z
+  .object({
+    id: z.number().int(),
+    project_id: z.number().int(),
+    actor_id: z.string().nullable().describe('null for changes made outside a request, e.g. by scripts.'),
+    action: ActivityAction,
+    before: z.unknown(),
+    after: z.unknown(),
+    details: z.record(z.string(), z.unknown()),
+    request_id: z.string().nullable(),
+    created_at: Timestamp,
+  })
+  .meta({ id: 'ActivityEntry' });
+
+export const ActivityPage = pageOf(ActivityEntry, 'ActivityPage');
+
+export const ActivityQuery = z.object({
+  action: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value
+        ?.split(',')
+        .map((action) => action.trim())
+        .filter(Boolean),
+    )
+    .pipe(z.array(ActivityAction).optional())
+    .describe('A comma-separated list of actions.'),
+  from: Day.optional(),
+  to: Day.optional().describe('Inclusive.'),
+  project_id: Id.optional().describe('Only on the admin feed.'),
+  ...pageQuery(50),
+});
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { ModelOptions, Provider } from '../ai/index.js';
+import type { ResponseDocs } from '../openapi/index.js';
+import { trimmed } from '../lib/validation.js';
+import { Id } from './common.js';
+
+export const Usage = z
+  .object({
+    inputTokens: z.number().int(),
+    outputTokens: z.number().int(),
+    totalTokens: z.number().int(),
+  })
+  .meta({ id: 'Usage' });
+
+export const CompletionResult = z
+  .object({
+    text: z.string(),
+    provider: Provider,
+    model: z.string(),
+    usage: Usage.nullable(),
+    finishReason: z.enum(['stop', 'length', 'content_filter', 'other']),
+  })
+  .meta({ id: 'CompletionResult' });
+
+// {prompt, stream?, projectId} plus the model options. Every call is billed to
+// a project the caller edits, so none escapes the per-project quota.
+export const CompletionBody = ModelOptions.extend({
+  prompt: z.preprocess(trimmed, z.string()),
+  stream: z.boolean().optional(),
+  projectId: Id.describe('The project whose usage and quota the call counts against; needs the editor role.'),
+});
+
+// Routes that answer with JSON, or with SSE when the body sets `stream: true`
+// (see src/lib/streaming.ts).
+export const completionResponse = (result: z.ZodType): ResponseDocs => ({
+  description:
+    'The completion, or with `stream: true` an event stream of "delta" events and one "done" event; a failure mid-stream ends it with an "error" event holding the error envelope',
+  content: { 'application/json': result, 'text/event-stream': z.string() },
+});
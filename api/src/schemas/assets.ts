@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { ASSET_SIZES, ASSET_SOURCES, Tags } from '../domain/assets.js';
+import { trimmed } from '../lib/validation.js';
+import { Id, idParams, Timestamp } from './common.js';
+
+const MAX_ALT_LENGTH = 200;
+
+export const AssetSizes = z
+  .object(Object.fromEntries(ASSET_SIZES.map((size) => [size, z.string().optional()])))
+  .meta({ id: 'AssetSizes', description: 'Image URL per size; uploads get signed URLs that expire.' });
+
+export const ProjectAsset = z
+  .object({
+    id: z.number().int(),
+    project_id: z.number().int(),
+    source: z.enum(ASSET_SOURCES),
+    source_id: z.string().describe("The image's id at the source, e.g. the Pexels photo id."),
+    source_url: z.string().nullable(),
+    photographer: z.string().nullable(),
+    photographer_url: z.string().nullable(),
+    alt: z.string(),
+    width: z.number().int().nullable(),
+    height: z.number().int().nullable(),
+    sizes: AssetSizes,
+    tags: z.array(z.string()),
+    file_name: z.string().nullable(),
+    content_type: z.string().nullable(),
+    byte_size: z.number().int().nullable(),
+    created_at: Timestamp,
+    updated_at: Timestamp,
+  })
+  .meta({ id: 'ProjectAsset' });
+
+export const AssetParams = idParams('projectId', 'assetId');
+
+export const AssetListQuery = z.object({ tag: z.string().optional() });
+
+const Alt = z.preprocess(trimmed, z.string().max(MAX_ALT_LENGTH).optional());
+
+// The photo and its attribution are looked up at Pexels rather than taken from the client.
+export const AssetImport = z.object({
+  pexelsId: Id,
+  tags: Tags.optional(),
+  alt: Alt,
+});
+
+export const AssetUpload = z.object({
+  file: z.file(),
+  tags: z
+    .string()
+    .optional()
+    .transform((value) => (value?.trim() ? value.split(',') : undefined))
+    .pipe(Tags.optional())
+    .describe('Comma-separated.'),
+  alt: Alt,
+});
+
+export const AssetTagsChange = z.object({ tags: Tags });
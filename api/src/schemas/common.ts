@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { InvalidCursorError } from '../db/pagination.js';
+import { isValidSlug } from '../lib/slug.js';
+import { invalidRequest } from '../lib/validation.js';
+
+// Shared building blocks for the request and response schemas of the routes.
+
+// Positive integer ids; path and query values arrive as strings.
+export const Id = z.coerce.number().int().min(1);
+
+// Parameter schemas for routes whose path holds only numeric ids.
+export const idParams = <K extends string>(...names: K[]) =>
+  z.object(Object.fromEntries(names.map((name) => [name, Id])) as Record<K, typeof Id>);
+
+export const Timestamp = z.string().meta({ format: 'date-time' });
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// An optional YYYY-MM-DD query parameter, read as midnight UTC.
+export const Day = z
+  .string()
+  .refine(
+    (value) => DAY_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`)),
+    'must be a date (YYYY-MM-DD)',
+  )
+  .transform((value) => new Date(`${value}T00:00:00Z`))
+  .meta({ format: 'date' });
+
+// A query flag such as ?trashed=true.
+export const Flag = z
+  .enum(['true', 'false'])
+  .transform((value) => value === 'true')
+  .optional();
+
+// Query parameters of cursor-paginated lists.
+export const pageQuery = (defaultLimit: number, maxLimit = 100) => ({
+  limit: z.coerce.number().int().min(1).max(maxLimit).default(defaultLimit),
+  cursor: z
+    .string()
+    .optional()
+    .transform((value) => value || undefined)
+    .describe('`nextCursor` of the previous page.'),
+});
+
+// One page of a cursor-paginated list (see src/db/pagination.ts).
+export const pageOf = <T extends z.ZodType>(item: T, id: string) =>
+  z
+    .object({
+      items: z.array(item),
+      nextCursor: z.string().nullable(),
+      total: z.number().int(),
+    })
+    .meta({ id });
+
+// Order endpoints take every existing id exactly once; the handler checks the set.
+export const OrderedIds = z.object({ ids: z.array(z.number().int()) });
+
+// A cursor that does not decode is reported like any other bad query value.
+export const rethrowInvalidCursor = (error: unknown): never => {
+  if (error instanceof InvalidCursorError) {
+    throw invalidRequest([{ location: 'query', field: 'cursor', message: 'is invalid' }]);
+  }
+  throw error;
+};
+
+// Slugs in request bodies: lowercase letters, digits and single dashes.
+export const Slug = z.string().trim().refine(isValidSlug, 'must be lowercase letters, digits and single dashes');
+
+// For PATCH bodies whose fields are all optional.
+export const hasSomeField = (value: object) => Object.values(value).some((entry) => entry !== undefined);
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { CHECK_STATUSES } from '../health/index.js';
+
+const ReadinessCheck = z
+  .object({
+    status: z.enum(CHECK_STATUSES).describe('"disabled" when the integration is not configured.'),
+    duration_ms: z.number().int(),
+    error: z.string().optional().describe('Why the check failed; upstream answers are not included.'),
+  })
+  .meta({ id: 'ReadinessCheck' });
+
+export const Readiness = z
+  .object({
+    ready: z.boolean().describe('Whether the database answered; optional integrations do not affect it.'),
+    checks: z.object({
+      database: ReadinessCheck,
+      openai: ReadinessCheck,
+      gemini: ReadinessCheck,
+      azure_search: ReadinessCheck,
+      pexels: ReadinessCheck,
+    }),
+  })
+  .meta({ id: 'Readiness' });
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { AssetSizes } from './assets.js';
+
+export const PexelsPhoto = z
+  .object({
+    id: z.number().int().optional(),
+    photographer: z.string().optional(),
+    photographer_url: z.string().optional(),
+    url: z.string().optional(),
+    alt: z.string().optional(),
+    width: z.number().int().optional(),
+    height: z.number().int().optional(),
+    src: AssetSizes,
+  })
+  .meta({ id: 'PexelsPhoto' });
+
+export const PexelsSearchResult = z
+  .object({
+    photos: z.array(PexelsPhoto),
+    page: z.number().int(),
+    per_page: z.number().int(),
+    total_results: z.number().int(),
+  })
+  .meta({ id: 'PexelsSearchResult' });
+
+export const PexelsQuery = z.object({
+  query: z.string().trim().min(1),
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(80).default(10),
+});
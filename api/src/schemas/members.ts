@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { isEmail, normaliseEmail, PROJECT_ROLES } from '../domain/members.js';
+import { Id, Timestamp } from './common.js';
+
+// Ordered from least to most access.
+export const ProjectRole = z.enum(PROJECT_ROLES).meta({ id: 'ProjectRole' });
+
+export const ProjectMember = z
+  .object({
+    project_id: z.number().int(),
+    user_id: z.string(),
+    email: z.string().nullable(),
+    role: ProjectRole,
+    created_at: Timestamp,
+    updated_at: Timestamp,
+  })
+  .meta({ id: 'ProjectMember' });
+
+export const ProjectInvitation = z
+  .object({
+    id: z.number().int(),
+    project_id: z.number().int(),
+    email: z.string(),
+    role: ProjectRole,
+    invited_by: z.string(),
+    expires_at: Timestamp,
+    accepted_at: Timestamp.nullable(),
+    accepted_by: z.string().nullable(),
+    created_at: Timestamp,
+  })
+  .meta({ id: 'ProjectInvitation' });
+
+// The token is only ever returned here; accept_url is the link to share.
+export const CreatedInvitation = z
+  .object({
+    invitation: ProjectInvitation,
+    token: z.string(),
+    accept_url: z.string(),
+  })
+  .meta({ id: 'CreatedInvitation' });
+
+export const InvitationPreview = z
+  .object({
+    project: z.object({ id: z.number().int(), name: z.string() }),
+    email: z.string(),
+    role: ProjectRole,
+    expires_at: Timestamp,
+  })
+  .meta({ id: 'InvitationPreview' });
+
+export const MemberParams = z.object({ projectId: Id, userId: z.string().min(1) });
+
+export const InvitationParams = z.object({ token: z.string().min(1) });
+
+export const RoleChange = z.object({ role: ProjectRole });
+
+export const InvitationCreate = z.object({
+  email: z.preprocess(
+    (value) => (typeof value === 'string' ? normaliseEmail(value) : value),
+    z.string().refine(isEmail, 'must be a valid email address'),
+  ),
+  role: ProjectRole.default('editor'),
+});
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { SECTION_TYPES, SectionData } from '../domain/sections.js';
+import { hasSomeField, idParams, Slug, Timestamp } from './common.js';
+
+export const SectionType = z.enum(SECTION_TYPES).meta({ id: 'SectionType' });
+
+export const SitePage = z
+  .object({
+    id: z.number().int(),
+    project_id: z.number().int(),
+    title: z.string(),
+    slug: z.string(),
+    position: z.number().int(),
+    created_at: Timestamp,
+    updated_at: Timestamp,
+  })
+  .meta({ id: 'SitePage' });
+
+export const Section = z
+  .object({
+    id: z.number().int(),
+    page_id: z.number().int(),
+    type: SectionType,
+    position: z.number().int(),
+    data: SectionData,
+    created_at: Timestamp,
+    updated_at: Timestamp,
+  })
+  .meta({ id: 'Section' });
+
+export const SitePageWithSections = SitePage.extend({ sections: z.array(Section) }).meta({
+  id: 'SitePageWithSections',
+});
+
+export const PageParams = idParams('projectId', 'pageId');
+
+export const SectionParams = idParams('projectId', 'pageId', 'sectionId');
+
+const PageFields = z.object({
+  title: z.string().trim().min(1).max(120),
+  slug: Slug,
+});
+
+export const PageCreate = PageFields.partial().required({ title: true });
+
+export const PagePatch = PageFields.partial().refine(hasSomeField, 'must include at least one field');
+
+// `data` is checked against the schema of `type`, or of the section's current type.
+export const SectionPatch = z.object({
+  type: SectionType.optional(),
+  data: z.record(z.string(), z.unknown()).describe('Shaped like SectionData for the section type.'),
+});
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { PROJECT_SORTS } from '../db/types.js';
+import { MAX_DESCRIPTION_LENGTH, PROJECT_STATUSES } from '../domain/projects.js';
+import { DEFAULT_EXPORT_THEME, EXPORT_THEMES } from '../export/themes.js';
+import { trimmed } from '../lib/validation.js';
+import { Flag, hasSomeField, pageOf, pageQuery, Slug, Timestamp } from './common.js';
+import { ProjectRole } from './members.js';
+
+export const ProjectStatus = z.enum(PROJECT_STATUSES).meta({ id: 'ProjectStatus' });
+
+export const Project = z
+  .object({
+    id: z.number().int(),
+    name: z.string(),
+    slug: z.string(),
+    description: z.string(),
+    status: ProjectStatus,
+    owner_id: z.string().nullable().describe("The creator; access itself is governed by the project's members."),
+    created_at: Timestamp,
+    updated_at: Timestamp,
+    deleted_at: Timestamp.nullable(),
+    role: ProjectRole.optional().describe("The caller's role; included when a single project is fetched or changed."),
+  })
+  .meta({ id: 'Project' });
+
+export const ProjectPage = pageOf(Project, 'ProjectPage');
+
+// The editable fields shared by POST and PATCH.
+const ProjectFields = z.object({
+  name: z.string().trim().min(1),
+  slug: Slug,
+  description: z.preprocess(
+    (value) => (value === null ? '' : value),
+    z.string().trim().max(MAX_DESCRIPTION_LENGTH).optional(),
+  ),
+  status: ProjectStatus,
+});
+
+export const ProjectCreate = ProjectFields.partial().required({ name: true });
+
+export const ProjectPatch = ProjectFields.partial().refine(hasSomeField, 'must include at least one field');
+
+export const ProjectListQuery = z.object({
+  q: z.preprocess(trimmed, z.string().optional()),
+  status: z.preprocess(trimmed, ProjectStatus.optional()),
+  trashed: Flag.describe('Lists the trash instead of live projects.'),
+  sort: z.enum(PROJECT_SORTS).default('created_at'),
+  order: z.enum(['asc', 'desc']).optional().describe('Defaults to asc for name and desc otherwise.'),
+  ...pageQuery(20),
+});
+
+export const ProjectExportQuery = z.object({
+  theme: z.enum(EXPORT_THEMES).default(DEFAULT_EXPORT_THEME),
+  base_url: z
+    .preprocess(
+      trimmed,
+      z
+        .string()
+        .regex(/^https?:\/\/[^\s/]+/i, 'must be an http(s) URL')
+        .optional(),
+    )
+    .describe('Makes canonical links and the sitemap absolute.'),
+});
+
+export const ProjectDeleteQuery = z.object({
+  permanent: Flag.describe('Erases a project that is already in the trash.'),
+});
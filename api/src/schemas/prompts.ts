@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { MAX_SYSTEM_LENGTH, MaxTokens, Model, ModelOptions, Provider, Temperature } from '../ai/index.js';
+import { MAX_PROMPT_BODY_LENGTH, MAX_PROMPT_NAME_LENGTH, PromptVariable, PromptVariables } from '../domain/prompts.js';
+import { CompletionResult } from './ai.js';
+import { hasSomeField, Id, idParams, Timestamp } from './common.js';
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+export const PromptTemplate = z
+  .object({
+    id: z.number().int(),
+    project_id: z.number().int(),
+    name: z.string(),
+    description: z.string(),
+    system: z.string().nullable(),
+    body: z.string(),
+    variables: z.array(PromptVariable),
+    provider: Provider.nullable(),
+    model: z.string().nullable(),
+    temperature: z.number().nullable(),
+    max_tokens: z.number().int().nullable(),
+    version: z.number().int(),
+    created_at: Timestamp,
+    updated_at: Timestamp,
+  })
+  .meta({ id: 'PromptTemplate' });
+
+export const PromptTemplateVersion = PromptTemplate.omit({ project_id: true, updated_at: true })
+  .extend({ template_id: z.number().int() })
+  .meta({ id: 'PromptTemplateVersion' });
+
+export const PromptRunResult = CompletionResult.extend({
+  version: z.number().int(),
+  prompt: z.string().describe('The rendered body.'),
+  system: z.string().nullable().describe('The rendered system prompt.'),
+}).meta({ id: 'PromptRunResult' });
+
+export const TemplateParams = idParams('projectId', 'templateId');
+
+// Nullable model settings: null clears the value so the provider default applies.
+const TemplateFields = z.object({
+  name: z.string().trim().min(1).max(MAX_PROMPT_NAME_LENGTH),
+  description: z.preprocess(
+    (value) => (value === null ? '' : value),
+    z.string().trim().max(MAX_DESCRIPTION_LENGTH).optional(),
+  ),
+  system: z
+    .string()
+    .trim()
+    .max(MAX_SYSTEM_LENGTH)
+    .nullable()
+    .transform((value) => value || null),
+  body: z.string().trim().min(1).max(MAX_PROMPT_BODY_LENGTH),
+  variables: PromptVariables,
+  provider: Provider.nullable(),
+  model: Model.nullable(),
+  temperature: Temperature.nullable(),
+  max_tokens: MaxTokens.nullable(),
+});
+
+export const TemplateCreate = TemplateFields.partial().required({ name: true, body: true });
+
+export const TemplatePatch = TemplateFields.partial().refine(hasSomeField, 'must include at least one field');
+
+// Values may be sent as numbers or booleans for convenience; everything renders as text.
+export const TemplateRun = ModelOptions.extend({
+  variables: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]).transform(String)).optional(),
+  version: Id.optional().describe('Runs an older version of the template.'),
+  stream: z.boolean().optional(),
+});
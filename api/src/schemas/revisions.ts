@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { SectionData } from '../domain/sections.js';
+import { ActivityAction } from './activity.js';
+import { Id, Timestamp } from './common.js';
+import { SectionType } from './pages.js';
+
+const RevisionSection = z.object({ id: z.number().int(), type: SectionType, data: SectionData });
+
+const PageRef = z.object({ id: z.number().int(), title: z.string(), slug: z.string() });
+
+export const RevisionContent = z
+  .object({
+    project: z.object({ name: z.string(), slug: z.string(), description: z.string() }),
+    pages: z.array(PageRef.extend({ sections: z.array(RevisionSection) })),
+  })
+  .meta({ id: 'RevisionContent' });
+
+export const RevisionSummary = z
+  .object({
+    id: z.number().int(),
+    project_id: z.number().int(),
+    number: z.number().int().describe('Counts up per project from 1 and is never reused.'),
+    content_hash: z.string(),
+    action: ActivityAction.describe('The change that led to this revision.'),
+    actor_id: z.string().nullable(),
+    created_at: Timestamp,
+  })
+  .meta({ id: 'RevisionSummary' });
+
+export const Revision = RevisionSummary.extend({ content: RevisionContent }).meta({ id: 'Revision' });
+
+const FieldChange = z.object({ field: z.string(), before: z.unknown(), after: z.unknown() });
+
+export const RevisionDiff = z
+  .object({
+    from: z.number().int(),
+    to: z.number().int(),
+    changes: z.object({
+      project: z.array(FieldChange),
+      pages: z.object({
+        added: z.array(PageRef),
+        removed: z.array(PageRef),
+        changed: z.array(
+          PageRef.omit({ slug: true }).extend({
+            changes: z.array(FieldChange),
+            sections: z.object({
+              added: z.array(RevisionSection),
+              removed: z.array(RevisionSection),
+              changed: z.array(z.object({ id: z.number().int(), changes: z.array(FieldChange) })),
+              reordered: z.boolean(),
+            }),
+          }),
+        ),
+        reordered: z.boolean(),
+      }),
+    }),
+  })
+  .meta({ id: 'RevisionDiff' });
+
+export const RestoredRevision = z
+  .object({
+    restored: z.number().int(),
+    revision: RevisionSummary.nullable().describe('The revision saved after the restore.'),
+  })
+  .meta({ id: 'RestoredRevision' });
+
+export const RevisionParams = z.object({ projectId: Id, number: Id });
+
+export const RevisionDiffQuery = z.object({
+  from: Id,
+  to: Id.optional().describe('Defaults to the latest revision.'),
+});
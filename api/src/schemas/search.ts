@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const SearchQuery = z.object({ q: z.string().trim().min(1) });
+
+export const SearchResult = z
+  .object({
+    hits: z.array(z.record(z.string(), z.unknown())).describe('Matching projects and pages, best first.'),
+  })
+  .meta({ id: 'SearchResult' });
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { Day, Id, Timestamp } from './common.js';
+
+const UsageTotals = z.object({
+  calls: z.number().int(),
+  errors: z.number().int(),
+  input_tokens: z.number().int(),
+  output_tokens: z.number().int(),
+  total_tokens: z.number().int(),
+  avg_latency_ms: z.number().int(),
+});
+
+export const DailyUsage = UsageTotals.extend({
+  project_id: z.number().int().nullable().describe('null for calls made outside a project.'),
+  day: z.string().meta({ format: 'date' }),
+}).meta({ id: 'DailyUsage' });
+
+export const UsageReport = z
+  .object({
+    from: z.string().meta({ format: 'date' }),
+    to: z.string().meta({ format: 'date' }),
+    days: z.array(DailyUsage),
+    projects: z.array(UsageTotals.extend({ project_id: z.number().int().nullable() })),
+    totals: UsageTotals,
+  })
+  .meta({ id: 'UsageReport' });
+
+export const ProjectQuota = z
+  .object({
+    project_id: z.number().int(),
+    monthly_tokens: z.number().int().nullable().describe('null means unlimited.'),
+    updated_at: Timestamp,
+  })
+  .meta({ id: 'ProjectQuota' });
+
+export const QuotaSettings = z
+  .object({
+    default_monthly_tokens: z.number().int().nullable(),
+    global_monthly_tokens: z.number().int().nullable(),
+    overrides: z.array(ProjectQuota),
+  })
+  .meta({ id: 'QuotaSettings' });
+
+export const QuotaStatus = z
+  .object({
+    project_id: z.number().int(),
+    monthly_tokens: z.number().int().nullable(),
+    used_tokens: z.number().int(),
+    remaining_tokens: z.number().int().nullable(),
+    override: z.boolean().describe('true when monthly_tokens comes from a per-project override.'),
+    resets_at: Timestamp,
+  })
+  .meta({ id: 'QuotaStatus' });
+
+export const UsageQuery = z.object({
+  from: Day.optional().describe('Defaults to the first day of the current UTC month.'),
+  to: Day.optional().describe('Inclusive; defaults to today.'),
+  project_id: Id.optional(),
+});
+
+export const QuotaChange = z.object({
+  monthlyTokens: z.number().int().min(0).nullable().describe('null lifts the limit for this project.'),
+});
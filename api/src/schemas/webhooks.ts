@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { ALL_EVENTS, isWebhookUrl, WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENTS } from '../domain/webhooks.js';
+import { hasSomeField, Id, pageOf, pageQuery, Timestamp } from './common.js';
+
+export const WebhookEvent = z.enum(WEBHOOK_EVENTS).meta({ id: 'WebhookEvent' });
+
+export const WebhookSubscription = z
+  .enum([ALL_EVENTS, ...WEBHOOK_EVENTS])
+  .meta({ id: 'WebhookSubscription', description: `An event name, or "${ALL_EVENTS}" for all of them.` });
+
+export const Webhook = z
+  .object({
+    id: z.number().int(),
+    project_id: z.number().int().nullable().describe("null for webhooks that receive every project's events."),
+    url: z.string(),
+    events: z.array(WebhookSubscription),
+    active: z.boolean(),
+    created_by: z.string().nullable(),
+    created_at: Timestamp,
+    updated_at: Timestamp,
+  })
+  .meta({ id: 'Webhook' });
+
+// Only returned when the webhook is created or its secret rotated.
+export const WebhookWithSecret = Webhook.extend({
+  secret: z.string().describe('Signs every delivery; see the X-Webhook-Signature header.'),
+}).meta({ id: 'WebhookWithSecret' });
+
+export const WebhookDelivery = z
+  .object({
+    id: z.number().int(),
+    webhook_id: z.number().int(),
+    event_id: z.string().describe('Shared by redeliveries of the same event.'),
+    event: WebhookEvent,
+    payload: z.record(z.string(), z.unknown()),
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES),
+    attempts: z.number().int(),
+    next_attempt_at: Timestamp.nullable(),
+    response_status: z.number().int().nullable().describe("The receiver's status on the latest attempt."),
+    error: z
+      .string()
+      .nullable()
+      .describe('Why the latest attempt did not succeed, e.g. "answered 500" or "timed out".'),
+    duration_ms: z.number().int().nullable(),
+    redelivery_of: z.number().int().nullable(),
+    last_attempt_at: Timestamp.nullable(),
+    created_at: Timestamp,
+  })
+  .meta({ id: 'WebhookDelivery' });
+
+export const WebhookDeliveryPage = pageOf(WebhookDelivery, 'WebhookDeliveryPage');
+
+// projectId is absent on the global /webhooks routes.
+export const WebhookScopeParams = z.object({ projectId: Id.optional() });
+
+export const WebhookParams = WebhookScopeParams.extend({ webhookId: Id });
+
+export const DeliveryParams = WebhookParams.extend({ deliveryId: Id });
+
+const WebhookFields = z.object({
+  url: z.string().trim().refine(isWebhookUrl, 'must be an http(s) URL without credentials'),
+  events: z
+    .array(WebhookSubscription)
+    .min(1)
+    .transform((events) => [...new Set(events)]),
+  active: z.boolean(),
+});
+
+export const WebhookCreate = WebhookFields.partial().required({ url: true, events: true });
+
+export const WebhookPatch = WebhookFields.partial().refine(hasSomeField, 'must include at least one field');
+
+export const DeliveryListQuery = z.object(pageQuery(20));
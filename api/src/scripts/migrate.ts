@@ -1,16 +1,72 @@
 import 'dotenv/config';
-import { getSupabaseClient } from '../db/connection';
+import { getConfig } from '../config.js';
+import { openSqliteDatabase } from '../db/connection.js';
+import {
+  getMigrationStatus,
+  loadMigrations,
+  migrateDown,
+  migrationLabel,
+  migrateUp,
+  MIGRATIONS_DIR,
+  SQLITE_MIGRATIONS_DIR,
+  type MigrationStore,
+} from '../db/migrations.js';
+import { createSqliteMigrationStore } from '../db/sqlite/migrations.js';
+import { createPostgresMigrationStore } from '../db/supabase/migrations.js';
 
-const supabase = getSupabaseClient();
+const USAGE = 'Usage: migrate <status|up|down> [steps]';
 
-const main = async () => {
-  const { error } = await supabase.from('projects').select('id').limit(1);
+const openStore = async (): Promise<{ store: MigrationStore; dir: string }> => {
+  const { db } = getConfig();
+  if (db.driver === 'sqlite') {
+    return { store: createSqliteMigrationStore(openSqliteDatabase()), dir: SQLITE_MIGRATIONS_DIR };
+  }
+
+  const connectionString = db.databaseUrl;
+  if (!connectionString) {
+    throw new Error('DATABASE_URL is required to migrate the Supabase database (Project Settings > Database).');
+  }
+  return { store: await createPostgresMigrationStore(connectionString), dir: MIGRATIONS_DIR };
+};
 
-  if (error) {
-    throw new Error(`Supabase error: ${error.message}`);
+const main = async () => {
+  const [command = 'status', stepsArg] = process.argv.slice(2);
+  if (!['status', 'up', 'down'].includes(command)) {
+    throw new Error(USAGE);
   }
 
-  console.log('Supabase connection verified.');
+  const { store, dir } = await openStore();
+  try {
+    const migrations = loadMigrations(dir);
+
+    if (command === 'up') {
+      const applied = await migrateUp(store, migrations);
+      applied.forEach((migration) => console.log(`applied  ${migrationLabel(migration)}`));
+      console.log(applied.length ? `${applied.length} migration(s) applied.` : 'Database is up to date.');
+      return;
+    }
+
+    if (command === 'down') {
+      const steps = stepsArg ? Number.parseInt(stepsArg, 10) : 1;
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(USAGE);
+      }
+      const reverted = await migrateDown(store, migrations, steps);
+      reverted.forEach((migration) => console.log(`reverted ${migrationLabel(migration)}`));
+      console.log(reverted.length ? `${reverted.length} migration(s) reverted.` : 'Nothing to revert.');
+      return;
+    }
+
+    await store.init();
+    const statuses = getMigrationStatus(migrations, await store.listApplied());
+    for (const status of statuses) {
+      console.log(
+        `${status.state.padEnd(8)} ${migrationLabel(status)}${status.applied_at ? `  (${status.applied_at})` : ''}`,
+      );
+    }
+  } finally {
+    await store.close();
+  }
 };
 
 main().catch((error) => {
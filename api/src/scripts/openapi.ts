@@ -0,0 +1,28 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { openApiDocument } from '../app.js';
+
+const USAGE = 'Usage: openapi [--check]';
+
+// Writes the OpenAPI document of the API to openapi.json, from which the
+// frontend generates its client types (npm run generate:api there). With
+// --check, fails instead when the committed file is out of date.
+const main = async () => {
+  const args = process.argv.slice(2);
+  if (args.some((arg) => arg !== '--check')) throw new Error(USAGE);
+
+  const target = new URL('../../openapi.json', import.meta.url);
+  const json = `${JSON.stringify(openApiDocument(), null, 2)}\n`;
+  if (args.includes('--check')) {
+    const current = await readFile(target, 'utf8').catch(() => '');
+    if (current !== json) throw new Error('openapi.json is out of date; run npm run openapi.');
+    console.log('openapi.json is up to date.');
+    return;
+  }
+  await writeFile(target, json);
+  console.log(`Wrote ${target.pathname}.`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,20 @@
+import 'dotenv/config';
+import { getSearchBackend, reindexAll } from '../search/index.js';
+
+// Rebuilds the search documents of every project, e.g. after creating the
+// Azure index or changing what gets indexed. Trashed projects are removed.
+const main = async () => {
+  const backend = getSearchBackend();
+  if (backend.name === 'local') {
+    console.log('Azure AI Search is not configured; the API builds its local index on the first search.');
+    return;
+  }
+  const started = Date.now();
+  const count = await reindexAll();
+  console.log(`Reindexed ${count} project(s) into ${backend.name} in ${Date.now() - started} ms.`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import 'dotenv/config';
+import { SignJWT } from 'jose';
+import { getConfig } from '../config.js';
+
+const USAGE = 'Usage: token <user id> [email] [hours]';
+
+// Issues an HS256 access token signed with JWT_SECRET, for local development
+// without Supabase Auth. Paste it into the frontend's login screen.
+const main = async () => {
+  const [userId, email, hoursArg = '12'] = process.argv.slice(2);
+  const hours = Number(hoursArg);
+  if (!userId || !Number.isFinite(hours) || hours <= 0) {
+    throw new Error(USAGE);
+  }
+
+  const { secret, issuer, audience } = getConfig().auth;
+  if (!secret) {
+    throw new Error('JWT_SECRET is required to sign development tokens.');
+  }
+
+  let jwt = new SignJWT(email ? { email } : {})
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId)
+    .setIssuedAt()
+    .setExpirationTime(`${hours}h`);
+  if (issuer) jwt = jwt.setIssuer(issuer);
+  if (audience) jwt = jwt.setAudience(audience);
+
+  console.log(await jwt.sign(new TextEncoder().encode(secret)));
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
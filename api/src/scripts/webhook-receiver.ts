@@ -0,0 +1,44 @@
+import 'dotenv/config';
+import { createServer } from 'node:http';
+import { SIGNATURE_HEADER, verifySignature } from '../webhooks/signing.js';
+
+const USAGE = 'Usage: webhook:receiver <secret> [port] [failures]';
+
+// A local endpoint for trying webhooks: logs every delivery and whether its
+// signature checks out. The first `failures` requests get a 500, to watch the
+// API retry them. Register http://localhost:<port>/ as the webhook's URL and
+// run the API with WEBHOOK_ALLOW_PRIVATE_TARGETS=true, or it refuses to deliver.
+const main = async () => {
+  const [secret, portArg = '8790', failuresArg = '0'] = process.argv.slice(2);
+  const port = Number(portArg);
+  let failures = Number(failuresArg);
+  if (!secret || !Number.isInteger(port) || !Number.isInteger(failures) || failures < 0) {
+    throw new Error(USAGE);
+  }
+
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const valid = verifySignature(secret, req.headers[SIGNATURE_HEADER.toLowerCase()] as string | undefined, body);
+      const status = !valid ? 401 : failures > 0 ? 500 : 200;
+      if (valid && failures > 0) failures -= 1;
+
+      console.log(
+        `${new Date().toISOString()} ${req.headers['x-webhook-event']} delivery=${req.headers['x-webhook-delivery']}` +
+          ` signature=${valid ? 'valid' : 'INVALID'} -> ${status}`,
+      );
+      console.log(body);
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ received: status === 200 }));
+    });
+  });
+
+  server.listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}/`));
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+import { upstreamError } from '../lib/errors.js';
+import { measuredFetch } from '../metrics/index.js';
+import type { SearchBackend, SearchDocument } from './types.js';
+
+// Azure AI Search backend. The index needs the SearchDocument fields with `id`
+// as key and `project_id` filterable. Upstream failures surface as 502s.
+
+export const API_VERSION = '2023-11-01';
+// Azure accepts at most 1000 actions per indexing batch.
+const BATCH_SIZE = 1000;
+
+export interface AzureSearchConfig {
+  endpoint: string;
+  apiKey: string;
+  index: string;
+}
+
+const projectFilter = (projectIds: number[]) => projectIds.map((id) => `project_id eq ${id}`).join(' or ');
+
+export const createAzureSearch = ({ endpoint, apiKey, index }: AzureSearchConfig): SearchBackend => {
+  const call = async (operation: 'search' | 'index', body: unknown) => {
+    const url = `${endpoint}/indexes/${encodeURIComponent(index)}/docs/${operation}?api-version=${API_VERSION}`;
+    let response: Response;
+    try {
+      response = await measuredFetch('azure_search')(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'api-key': apiKey,
+        },
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      throw upstreamError('Azure AI Search', 'could not be reached', error);
+    }
+
+    if (!response.ok) {
+      throw upstreamError('Azure AI Search', `answered ${response.status}`, await response.text().catch(() => ''));
+    }
+    return (await response.json()) as Record<string, unknown>;
+  };
+
+  const indexedIds = async (projectId: number) => {
+    const result = await call('search', { search: '*', filter: projectFilter([projectId]), select: 'id', top: 1000 });
+    return Array.isArray(result.value) ? result.value.map((item) => String((item as Record<string, unknown>).id)) : [];
+  };
+
+  return {
+    name: 'azure',
+
+    async search(query, { top, projectIds }) {
+      if (projectIds.length === 0) return { hits: [] };
+      const result = await call('search', { search: query, top, filter: projectFilter(projectIds) });
+      const hits = Array.isArray(result.value)
+        ? result.value.map((item) => {
+            if (!item || typeof item !== 'object') {
+              return {};
+            }
+            const record = item as Record<string, unknown>;
+            return {
+              id: record['@search.document'] ?? record.id ?? record.key,
+              score: record['@search.score'],
+              ...record,
+            };
+          })
+        : [];
+      return { hits };
+    },
+
+    async replaceProject(projectId, documents: SearchDocument[]) {
+      const keep = new Set(documents.map((document) => document.id));
+      const actions = [
+        ...documents.map((document) => ({ '@search.action': 'mergeOrUpload', ...document })),
+        ...(await indexedIds(projectId))
+          .filter((id) => !keep.has(id))
+          .map((id) => ({ '@search.action': 'delete', id })),
+      ];
+      for (let start = 0; start < actions.length; start += BATCH_SIZE) {
+        await call('index', { value: actions.slice(start, start + BATCH_SIZE) });
+      }
+    },
+  };
+};
@@ -0,0 +1,58 @@
+import { getRepositories } from '../db/index.js';
+import type { Section } from '../db/types.js';
+import type { SearchDocument } from './types.js';
+
+// Link targets are not worth matching on.
+const URL_FIELDS = new Set(['url', 'imageUrl', 'ctaHref', 'buttonHref']);
+
+const collectText = (value: unknown, out: string[]) => {
+  if (typeof value === 'string') {
+    if (value.trim()) out.push(value.trim());
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectText(item, out);
+  } else if (value && typeof value === 'object') {
+    for (const [field, item] of Object.entries(value)) {
+      if (!URL_FIELDS.has(field)) collectText(item, out);
+    }
+  }
+  return out;
+};
+
+export const sectionText = (sections: Section[]) =>
+  sections.flatMap((section) => collectText(section.data, [])).join('\n');
+
+// The documents a project should have in the index right now; none when it is
+// missing or in the trash.
+export const projectDocuments = async (projectId: number): Promise<SearchDocument[]> => {
+  const { projects, pages, sections } = getRepositories();
+  const project = await projects.get(projectId);
+  if (!project) return [];
+
+  const documents: SearchDocument[] = [
+    {
+      id: `project-${project.id}`,
+      kind: 'project',
+      project_id: project.id,
+      project_name: project.name,
+      page_id: null,
+      title: project.name,
+      slug: project.slug,
+      content: project.description,
+      updated_at: project.updated_at,
+    },
+  ];
+  for (const page of await pages.list(project.id)) {
+    documents.push({
+      id: `page-${page.id}`,
+      kind: 'page',
+      project_id: project.id,
+      project_name: project.name,
+      page_id: page.id,
+      title: page.title,
+      slug: page.slug,
+      content: sectionText(await sections.list(page.id)),
+      updated_at: page.updated_at,
+    });
+  }
+  return documents;
+};
@@ -0,0 +1,87 @@
+import { getResponseCache } from '../cache/index.js';
+import { getConfig } from '../config.js';
+import { getRepositories } from '../db/index.js';
+import { isContentAction } from '../domain/activity.js';
+import { subscribe } from '../events/index.js';
+import { createAzureSearch } from './azure.js';
+import { projectDocuments } from './documents.js';
+import { createLocalSearch } from './local.js';
+import type { SearchBackend } from './types.js';
+
+export type { SearchBackend, SearchDocument, SearchResult } from './types.js';
+
+const MAX_HITS = 10;
+const LIST_PAGE_SIZE = 100;
+
+let backend: SearchBackend | null = null;
+// The local index starts empty in every process and is filled on first use.
+let localBuild: Promise<unknown> | null = null;
+
+// Azure AI Search when configured, otherwise the in-memory local index.
+export const getSearchBackend = () => {
+  if (backend) return backend;
+  const azure = getConfig().azureSearch;
+  backend = azure ? createAzureSearch(azure) : createLocalSearch();
+  return backend;
+};
+
+// Syncs of one project run one after another; a sync requested while another
+// is waiting reuses it, since it will read the latest state anyway.
+const chains = new Map<number, Promise<void>>();
+const queued = new Set<number>();
+
+export const syncProject = (projectId: number): Promise<void> => {
+  const waiting = chains.get(projectId);
+  if (waiting && queued.has(projectId)) return waiting;
+
+  queued.add(projectId);
+  const next = (waiting ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      queued.delete(projectId);
+      await getSearchBackend().replaceProject(projectId, await projectDocuments(projectId));
+      // Cached result lists may now be stale.
+      getResponseCache('search').clear();
+    });
+  chains.set(projectId, next);
+  next
+    .finally(() => {
+      if (chains.get(projectId) === next) chains.delete(projectId);
+    })
+    .catch(() => undefined);
+  return next;
+};
+
+// Re-syncs every project, live and trashed (whose documents are removed).
+// Returns how many projects were processed.
+export const reindexAll = async () => {
+  const { projects } = getRepositories();
+  let count = 0;
+  for (const trashed of [false, true]) {
+    let cursor: string | undefined;
+    do {
+      const page = await projects.list({ limit: LIST_PAGE_SIZE, sort: 'created_at', order: 'asc', cursor, trashed });
+      for (const project of page.items) await syncProject(project.id);
+      count += page.items.length;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+  return count;
+};
+
+// Searches the documents of the given projects, in the same `hits` shape for both backends.
+export const searchProjects = async (query: string, projectIds: number[]) => {
+  const search = getSearchBackend();
+  if (search.name === 'local') {
+    localBuild ??= reindexAll().catch((error) => {
+      localBuild = null;
+      throw error;
+    });
+    await localBuild;
+  }
+  return search.search(query, { top: MAX_HITS, projectIds });
+};
+
+// Keeps the index current with every content change published on the event bus.
+export const startSearchIndexing = () =>
+  subscribe((event) => (isContentAction(event.type) ? syncProject(event.projectId) : undefined));
@@ -0,0 +1,118 @@
+import type { SearchBackend, SearchDocument } from './types.js';
+
+// Built-in full-text search used when Azure AI Search is not configured, so
+// search works in development and tests. The index lives in memory: terms are
+// case- and accent-insensitive, every query term must match, and the last one
+// also matches as a prefix so results appear while typing. Scoring is BM25
+// with title matches counting more than body text.
+
+const FIELD_WEIGHTS = { title: 3, slug: 2, project_name: 1, content: 1 } as const;
+const K1 = 1.2;
+const B = 0.75;
+
+interface IndexedDocument {
+  document: SearchDocument;
+  terms: Map<string, number>;
+  length: number;
+}
+
+export const tokenize = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+const indexDocument = (document: SearchDocument): IndexedDocument => {
+  const terms = new Map<string, number>();
+  let length = 0;
+  for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+    for (const term of tokenize(String(document[field as keyof typeof FIELD_WEIGHTS]))) {
+      terms.set(term, (terms.get(term) ?? 0) + weight);
+      length += 1;
+    }
+  }
+  return { document, terms, length };
+};
+
+export const createLocalSearch = (): SearchBackend => {
+  const documents = new Map<string, IndexedDocument>();
+  const byProject = new Map<number, Set<string>>();
+  const postings = new Map<string, Set<string>>();
+  let totalLength = 0;
+
+  const remove = (id: string) => {
+    const entry = documents.get(id);
+    if (!entry) return;
+    documents.delete(id);
+    totalLength -= entry.length;
+    for (const term of entry.terms.keys()) {
+      const ids = postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) postings.delete(term);
+    }
+  };
+
+  const add = (document: SearchDocument) => {
+    const entry = indexDocument(document);
+    documents.set(document.id, entry);
+    totalLength += entry.length;
+    for (const term of entry.terms.keys()) {
+      let ids = postings.get(term);
+      if (!ids) postings.set(term, (ids = new Set()));
+      ids.add(document.id);
+    }
+  };
+
+  // Index terms a query term matches, with the prefix rule for the last one.
+  const expand = (token: string, prefix: boolean) =>
+    prefix ? [...postings.keys()].filter((term) => term.startsWith(token)) : postings.has(token) ? [token] : [];
+
+  return {
+    name: 'local',
+
+    async search(query, { top, projectIds }) {
+      const tokens = [...new Set(tokenize(query))];
+      const allowed = new Set(projectIds);
+      if (tokens.length === 0 || allowed.size === 0) return { hits: [] };
+
+      const averageLength = totalLength / Math.max(documents.size, 1) || 1;
+      const scores = new Map<string, number>();
+      for (const [position, token] of tokens.entries()) {
+        const matched = new Map<string, number>();
+        for (const term of expand(token, position === tokens.length - 1)) {
+          const ids = postings.get(term)!;
+          const idf = Math.log(1 + (documents.size - ids.size + 0.5) / (ids.size + 0.5));
+          for (const id of ids) {
+            const entry = documents.get(id)!;
+            if (!allowed.has(entry.document.project_id)) continue;
+            if (position > 0 && !scores.has(id)) continue;
+            const frequency = entry.terms.get(term)!;
+            const score =
+              (idf * frequency * (K1 + 1)) / (frequency + K1 * (1 - B + (B * entry.length) / averageLength));
+            matched.set(id, Math.max(matched.get(id) ?? 0, score));
+          }
+        }
+        // Every term must match: keep only documents matched so far and now.
+        for (const id of scores.keys()) if (!matched.has(id)) scores.delete(id);
+        for (const [id, score] of matched) scores.set(id, (scores.get(id) ?? 0) + score);
+        if (scores.size === 0) break;
+      }
+
+      const hits = [...scores]
+        .sort(([a, left], [b, right]) => right - left || a.localeCompare(b))
+        .slice(0, top)
+        .map(([id, score]) => ({ ...documents.get(id)!.document, score: Math.round(score * 1000) / 1000 }));
+      return { hits };
+    },
+
+    async replaceProject(projectId, next) {
+      for (const id of byProject.get(projectId) ?? []) remove(id);
+      byProject.delete(projectId);
+      if (next.length === 0) return;
+      for (const document of next) add(document);
+      byProject.set(projectId, new Set(next.map((document) => document.id)));
+    },
+  };
+};
@@ -0,0 +1,30 @@
+// One searchable unit: a project (name and description) or one of its pages
+// (title plus the text of its sections). Ids are "project-<id>" and "page-<id>".
+export interface SearchDocument {
+  id: string;
+  kind: 'project' | 'page';
+  project_id: number;
+  project_name: string;
+  page_id: number | null;
+  title: string;
+  slug: string;
+  content: string;
+  updated_at: string;
+}
+
+export interface SearchResult {
+  hits: Record<string, unknown>[];
+}
+
+export interface SearchOptions {
+  top: number;
+  // Only documents of these projects are returned.
+  projectIds: number[];
+}
+
+export interface SearchBackend {
+  readonly name: 'azure' | 'local';
+  search(query: string, options: SearchOptions): Promise<SearchResult>;
+  // Makes `documents` the project's only documents; an empty list removes the project.
+  replaceProject(projectId: number, documents: SearchDocument[]): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { getConfig } from '../config.js';
+import { createLocalStorage } from './local.js';
+import type { StorageDriver } from './types.js';
+
+export { fileKeyFromPath, fileKeyFromUrl, signFileUrl, verifyFileSignature } from './signing.js';
+export { contentTypeOf, extensionOf } from './types.js';
+export type { StorageDriver, StoredObject } from './types.js';
+
+let storage: StorageDriver | null = null;
+
+// STORAGE_DRIVER=local (the default) writes under STORAGE_LOCAL_PATH. Other
+// backends (Supabase Storage, S3-compatible) plug in here behind StorageDriver.
+export const getStorage = () => {
+  if (!storage) {
+    const { driver, localPath } = getConfig().storage;
+    if (driver !== 'local') throw new Error(`Unsupported STORAGE_DRIVER: ${driver}`);
+    storage = createLocalStorage(localPath);
+  }
+  return storage;
+};
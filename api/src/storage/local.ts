@@ -0,0 +1,35 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { contentTypeOf, type StorageDriver } from './types.js';
+
+// Keeps objects as plain files under one directory, the key being the relative path.
+export const createLocalStorage = (root: string): StorageDriver => {
+  const base = path.resolve(root);
+
+  const fileOf = (key: string) => {
+    const file = path.resolve(base, key);
+    if (!file.startsWith(`${base}${path.sep}`)) throw new Error(`invalid storage key: ${key}`);
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = fileOf(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+
+    async get(key) {
+      try {
+        return { body: new Uint8Array(await readFile(fileOf(key))), contentType: contentTypeOf(key) };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(keys) {
+      await Promise.all(keys.map((key) => rm(fileOf(key), { force: true })));
+    },
+  };
+};
@@ -0,0 +1,61 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { getConfig } from '../config.js';
+import { logger } from '../lib/logger.js';
+
+// Stored files are only reachable through /files/<key>?expires=&signature=,
+// an HMAC of the key and expiry. Anyone holding the URL can fetch the file
+// until it expires.
+
+let secret: string | null = null;
+
+const signingSecret = () => {
+  if (secret === null) {
+    secret = getConfig().storage.signingSecret ?? '';
+    if (!secret) {
+      logger.warn('STORAGE_SIGNING_SECRET is not set; file URLs stop working when the server restarts');
+      secret = randomBytes(32).toString('hex');
+    }
+  }
+  return secret;
+};
+
+const signatureOf = (key: string, expires: number) =>
+  createHmac('sha256', signingSecret()).update(`${key}\n${expires}`).digest('base64url');
+
+const encodeKey = (key: string) => key.split('/').map(encodeURIComponent).join('/');
+
+// The key in the raw (still percent-encoded) path of a file URL, decoded once,
+// the inverse of encodeKey; null when the path is not /files/<key> or is not
+// valid percent-encoding.
+export const fileKeyFromPath = (pathname: string) => {
+  if (!pathname.startsWith('/files/')) return null;
+  try {
+    return pathname.slice('/files/'.length).split('/').map(decodeURIComponent).join('/') || null;
+  } catch {
+    return null;
+  }
+};
+
+export const signFileUrl = (key: string, now = Date.now()) => {
+  const { publicApiUrl, storage } = getConfig();
+  const expires = Math.floor(now / 1000) + storage.urlTtlSeconds;
+  return `${publicApiUrl}/files/${encodeKey(key)}?expires=${expires}&signature=${signatureOf(key, expires)}`;
+};
+
+export const verifyFileSignature = (key: string, expires: number, signature: string, now = Date.now()) => {
+  if (!Number.isInteger(expires) || expires * 1000 <= now) return false;
+  const expected = Buffer.from(signatureOf(key, expires));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+};
+
+// The storage key behind one of our file URLs, signed or not; null for any other URL.
+export const fileKeyFromUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.origin !== new URL(getConfig().publicApiUrl).origin) return null;
+    return fileKeyFromPath(parsed.pathname);
+  } catch {
+    return null;
+  }
+};
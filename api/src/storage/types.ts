@@ -0,0 +1,29 @@
+export interface StoredObject {
+  body: Uint8Array;
+  contentType: string;
+}
+
+// Where uploaded files live. Keys are slash-separated paths such as
+// "projects/1/<id>/original.png"; a driver maps them onto its own namespace.
+export interface StorageDriver {
+  put(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  // null when nothing is stored under the key.
+  get(key: string): Promise<StoredObject | null>;
+  // Missing keys are ignored.
+  delete(keys: string[]): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+// Content type from the key's extension, for drivers without object metadata.
+export const contentTypeOf = (key: string) =>
+  CONTENT_TYPES[key.slice(key.lastIndexOf('.') + 1).toLowerCase()] ?? 'application/octet-stream';
+
+export const extensionOf = (contentType: string) =>
+  Object.entries(CONTENT_TYPES).find(([, type]) => type === contentType)?.[0];
@@ -0,0 +1,257 @@
+import { randomUUID } from 'node:crypto';
+import { getConfig } from '../config.js';
+import { getRepositories } from '../db/index.js';
+import type { Webhook, WebhookDelivery } from '../db/types.js';
+import { isDelivered, retryDelay, subscribesTo, type WebhookEvent, webhookEventFor } from '../domain/webhooks.js';
+import { type DomainEvent, subscribe } from '../events/index.js';
+import { logger } from '../lib/logger.js';
+import { SIGNATURE_HEADER, signPayload } from './signing.js';
+import { BlockedTargetError, guardedRequest } from './targets.js';
+
+const BATCH_SIZE = 10;
+
+// WEBHOOK_MAX_ATTEMPTS bounds the tries per delivery; retries wait
+// WEBHOOK_RETRY_BASE_SECONDS, doubling up to WEBHOOK_RETRY_MAX_SECONDS.
+// WEBHOOK_ALLOW_PRIVATE_TARGETS lifts the address check in ./targets.ts.
+export const readWebhookConfig = () => getConfig().webhooks;
+
+// A bus event, or for pings to a global webhook the same without a project.
+type PayloadSource = Omit<DomainEvent, 'type' | 'projectId'> & { projectId: number | null };
+
+// What receivers get as the JSON body. `id` identifies the event and is kept
+// by redeliveries.
+const buildPayload = (event: WebhookEvent, eventId: string, source: PayloadSource) => ({
+  id: eventId,
+  event,
+  occurred_at: source.occurredAt,
+  project_id: source.projectId,
+  actor_id: source.actorId,
+  request_id: source.requestId,
+  data: source.data,
+  before: source.before,
+  after: source.after,
+});
+
+// Short notes for the delivery log, which project owners read: nothing the
+// receiver sent and no details of the network behind the API.
+const errorMessage = (error: unknown) => {
+  if (error instanceof BlockedTargetError) return error.message;
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) return 'timed out';
+  const code = error instanceof Error ? (error as NodeJS.ErrnoException).code : undefined;
+  return code ? `could not be reached (${code})` : 'could not be reached';
+};
+
+const responseNote = (status: number) =>
+  isDelivered(status) ? null : status >= 300 && status < 400 ? 'redirects are not followed' : `answered ${status}`;
+
+// POSTs `body` to `url` and resolves with the response status; the response
+// body is never read and redirects are not followed.
+const post = async (
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+  allowPrivate: boolean,
+) => {
+  const response = await guardedRequest(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+    body,
+    allowPrivate,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  response.destroy();
+  return response.statusCode ?? 0;
+};
+
+const send = async (webhook: Webhook, delivery: WebhookDelivery) => {
+  const { timeoutMs, allowPrivateTargets } = readWebhookConfig();
+  const body = JSON.stringify(delivery.payload);
+  const started = Date.now();
+  try {
+    const headers = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'SiteFactory-Webhooks/1.0',
+      'X-Webhook-Id': String(webhook.id),
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Event-Id': delivery.event_id,
+      'X-Webhook-Delivery': String(delivery.id),
+      [SIGNATURE_HEADER]: signPayload(webhook.secret, body),
+    };
+    const status = await post(new URL(webhook.url), headers, body, timeoutMs, allowPrivateTargets);
+    return { response_status: status, error: responseNote(status), duration_ms: Date.now() - started };
+  } catch (error) {
+    return {
+      response_status: null,
+      error: errorMessage(error),
+      duration_ms: Date.now() - started,
+    };
+  }
+};
+
+// Makes one attempt and records its outcome, scheduling the next one unless
+// the receiver answered 2xx or the attempts are used up. Deliveries of a
+// deleted or disabled webhook fail without being sent.
+const attempt = async (delivery: WebhookDelivery) => {
+  const { webhooks } = getRepositories();
+  const { maxAttempts, retryBaseMs, retryMaxMs } = readWebhookConfig();
+  const webhook = await webhooks.get(delivery.webhook_id);
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+
+  if (!webhook?.active) {
+    await webhooks.recordAttempt(delivery.id, {
+      status: 'failed',
+      attempts: delivery.attempts,
+      next_attempt_at: null,
+      response_status: null,
+      error: 'webhook is disabled',
+      duration_ms: null,
+      last_attempt_at: now.toISOString(),
+    });
+    return;
+  }
+
+  const outcome = await send(webhook, delivery);
+  const delivered = outcome.response_status !== null && isDelivered(outcome.response_status);
+  const retry = !delivered && attempts < maxAttempts;
+  await webhooks.recordAttempt(delivery.id, {
+    ...outcome,
+    status: delivered ? 'succeeded' : retry ? 'pending' : 'failed',
+    attempts,
+    next_attempt_at: retry ? new Date(Date.now() + retryDelay(attempts, retryBaseMs, retryMaxMs)).toISOString() : null,
+    last_attempt_at: now.toISOString(),
+  });
+};
+
+let running: Promise<void> | null = null;
+let rerun = false;
+
+// Sends every due delivery, in batches. Each delivery is claimed first (its
+// next attempt pushed past the timeout), so other instances polling the same
+// table skip it.
+const processDue = async () => {
+  const { webhooks } = getRepositories();
+  const { timeoutMs } = readWebhookConfig();
+  for (;;) {
+    const due = await webhooks.dueDeliveries(new Date().toISOString(), BATCH_SIZE);
+    if (due.length === 0) return;
+    const lease = new Date(Date.now() + timeoutMs * 2).toISOString();
+    const claimed = [];
+    for (const delivery of due) {
+      if (delivery.next_attempt_at && (await webhooks.claimDelivery(delivery.id, delivery.next_attempt_at, lease))) {
+        claimed.push(delivery);
+      }
+    }
+    if (claimed.length === 0) return;
+    await Promise.all(
+      claimed.map((delivery) =>
+        attempt(delivery).catch((error) => logger.error(`Webhook delivery ${delivery.id} failed`, { error })),
+      ),
+    );
+  }
+};
+
+// Starts a pass over the due deliveries, or queues one more after the pass in progress.
+const kick = () => {
+  if (running) {
+    rerun = true;
+    return;
+  }
+  running = processDue()
+    .catch((error) => logger.error('Failed to process webhook deliveries', { error }))
+    .finally(() => {
+      running = null;
+      if (rerun) {
+        rerun = false;
+        kick();
+      }
+    });
+};
+
+// Queues `source` for every active webhook of its project (and every global
+// webhook) subscribed to `event`.
+const enqueue = async (event: WebhookEvent, source: Omit<DomainEvent, 'type'>) => {
+  const { webhooks } = getRepositories();
+  const targets = (await webhooks.listActive(source.projectId)).filter((webhook) =>
+    subscribesTo(webhook.events, event),
+  );
+  if (targets.length === 0) return;
+
+  const eventId = randomUUID();
+  const payload = buildPayload(event, eventId, source);
+  const now = new Date().toISOString();
+  for (const webhook of targets) {
+    await webhooks.createDelivery({
+      webhook_id: webhook.id,
+      event_id: eventId,
+      event,
+      payload,
+      next_attempt_at: now,
+      redelivery_of: null,
+    });
+  }
+  kick();
+};
+
+// Sends the payload of an earlier delivery again as a new delivery with its
+// own attempts, whatever the earlier one's outcome.
+export const redeliver = async (delivery: WebhookDelivery) => {
+  const redelivery = await getRepositories().webhooks.createDelivery({
+    webhook_id: delivery.webhook_id,
+    event_id: delivery.event_id,
+    event: delivery.event,
+    payload: delivery.payload,
+    next_attempt_at: new Date().toISOString(),
+    redelivery_of: delivery.id,
+  });
+  kick();
+  return redelivery;
+};
+
+// Queues a webhook.ping for one webhook, to check its receiver.
+export const ping = async (webhook: Webhook, actorId: string | null) => {
+  const eventId = randomUUID();
+  const delivery = await getRepositories().webhooks.createDelivery({
+    webhook_id: webhook.id,
+    event_id: eventId,
+    event: 'webhook.ping',
+    payload: buildPayload('webhook.ping', eventId, {
+      projectId: webhook.project_id,
+      actorId,
+      requestId: null,
+      data: { webhook_id: webhook.id },
+      before: null,
+      after: null,
+      occurredAt: new Date().toISOString(),
+    }),
+    next_attempt_at: new Date().toISOString(),
+    redelivery_of: null,
+  });
+  kick();
+  return delivery;
+};
+
+let timer: NodeJS.Timeout | null = null;
+
+// Turns bus events into deliveries, and polls every WEBHOOK_POLL_MS for
+// retries that have come due (including ones left over from before a restart).
+export const startWebhookDelivery = () => {
+  const unsubscribe = subscribe((event) => {
+    const webhookEvent = webhookEventFor(event.type);
+    return webhookEvent ? enqueue(webhookEvent, event) : undefined;
+  });
+
+  const { pollMs } = readWebhookConfig();
+  const poll = () => {
+    kick();
+    timer = setTimeout(poll, pollMs);
+    timer.unref();
+  };
+  poll();
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+};
@@ -0,0 +1,40 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// Header carrying `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`,
+// keyed with the webhook's secret. Receivers recompute the HMAC over the raw
+// body and reject old timestamps to stop replays.
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Receivers accept signatures up to this many seconds old by default.
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export const createWebhookSecret = () => `whsec_${randomBytes(24).toString('base64url')}`;
+
+const hmac = (secret: string, timestamp: number, body: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export const signPayload = (secret: string, body: string, now = Date.now()) => {
+  const timestamp = Math.floor(now / 1000);
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+};
+
+export const verifySignature = (
+  secret: string,
+  header: string | null | undefined,
+  body: string,
+  { now = Date.now(), toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS } = {},
+) => {
+  const parts = new Map(
+    (header ?? '').split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')] as const;
+    }),
+  );
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1') ?? '';
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,90 @@
+import { lookup } from 'node:dns';
+import { type IncomingMessage, request as httpRequest, type RequestOptions } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+
+// Webhook URLs and section images are chosen by users, so without a check the
+// API could be made to request itself, the host's metadata service or anything
+// else on its private network. Webhook deliveries and export downloads are
+// refused when the host is, or resolves to, an address in one of these ranges;
+// WEBHOOK_ALLOW_PRIVATE_TARGETS lifts that for webhooks (e.g. for a receiver on
+// localhost during development). The check runs in the lookup of the
+// connection itself, so the address that was checked is the one connected to.
+
+const BLOCKED_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], // "this" network
+  ['10.0.0.0', 8, 'ipv4'], // private
+  ['100.64.0.0', 10, 'ipv4'], // carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'], // loopback
+  ['169.254.0.0', 16, 'ipv4'], // link-local, including cloud metadata services
+  ['172.16.0.0', 12, 'ipv4'], // private
+  ['192.0.0.0', 24, 'ipv4'], // IETF protocol assignments
+  ['192.168.0.0', 16, 'ipv4'], // private
+  ['198.18.0.0', 15, 'ipv4'], // benchmarking
+  ['224.0.0.0', 4, 'ipv4'], // multicast
+  ['240.0.0.0', 4, 'ipv4'], // reserved and broadcast
+  ['::', 128, 'ipv6'], // unspecified
+  ['::1', 128, 'ipv6'], // loopback
+  ['fc00::', 7, 'ipv6'], // unique local
+  ['fe80::', 10, 'ipv6'], // link-local
+  ['ff00::', 8, 'ipv6'], // multicast
+];
+
+// BlockList matches IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the
+// IPv4 ranges as well.
+const blocked = new BlockList();
+for (const [network, prefix, family] of BLOCKED_RANGES) blocked.addSubnet(network, prefix, family);
+
+export const isBlockedAddress = (address: string) => {
+  const family = isIP(address);
+  return family !== 0 && blocked.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+export class BlockedTargetError extends Error {
+  constructor() {
+    super('the receiver address is not allowed');
+    this.name = 'BlockedTargetError';
+  }
+}
+
+// The URL's host when it is an IP address literal, which connections use
+// without a lookup.
+export const literalAddress = (url: URL) => {
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  return isIP(host) ? host : null;
+};
+
+// dns.lookup, failing with a BlockedTargetError when any address of the host
+// is blocked, so a name with one public and one private address is refused too.
+export const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new BlockedTargetError(), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Sends a request to `url` under the checks above, unless `allowPrivate`, and
+// resolves with the response once its head arrives; the caller reads or
+// destroys it. Redirects are never followed.
+export const guardedRequest = (
+  url: URL,
+  { body, allowPrivate = false, ...options }: RequestOptions & { body?: string; allowPrivate?: boolean } = {},
+) =>
+  new Promise<IncomingMessage>((resolve, reject) => {
+    const literal = literalAddress(url);
+    if (!allowPrivate && literal && isBlockedAddress(literal)) {
+      reject(new BlockedTargetError());
+      return;
+    }
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(
+      url,
+      { ...options, lookup: allowPrivate ? undefined : guardedLookup },
+      resolve,
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
@@ -0,0 +1,103 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { complete, streamCompletion, type UsageContext } from '../../src/ai/index.js';
+import { getQuotaStatus } from '../../src/ai/usage.js';
+import { getRepositories } from '../../src/db/index.js';
+
+// An in-memory database, the mock provider and no keys for the real ones. The
+// service-wide quota is set high enough that only its own test reaches it.
+vi.stubEnv('DB_DRIVER', 'sqlite');
+vi.stubEnv('SQLITE_PATH', ':memory:');
+vi.stubEnv('JWT_SECRET', 'test');
+vi.stubEnv('AI_PROVIDER', 'mock');
+vi.stubEnv('AI_FALLBACK_PROVIDERS', '');
+vi.stubEnv('OPENAI_API_KEY', '');
+vi.stubEnv('GOOGLE_API_KEY', '');
+vi.stubEnv('AI_MONTHLY_TOKEN_QUOTA', '');
+vi.stubEnv('AI_GLOBAL_MONTHLY_TOKEN_QUOTA', '1000000');
+
+const PROMPT = { prompt: 'Write a tagline for a bakery' };
+
+let usage: UsageContext;
+
+// Ledger rows of the test project, as [calls, errors].
+const ledger = async () => {
+  const rows = await getRepositories().usage.daily('2000-01-01', '2100-01-01', usage.projectId ?? undefined);
+  return [rows.reduce((sum, row) => sum + row.calls, 0), rows.reduce((sum, row) => sum + row.errors, 0)];
+};
+
+const drain = async (events: AsyncIterable<unknown>) => {
+  const seen = [];
+  for await (const event of events) seen.push(event);
+  return seen;
+};
+
+beforeAll(async () => {
+  const project = await getRepositories().projects.create({ name: 'AI', slug: 'ai' });
+  usage = { projectId: project.id, route: 'test' };
+});
+
+describe('provider chain', () => {
+  it('skips providers without a key and answers from the next one', async () => {
+    const [calls] = await ledger();
+    const result = await complete(PROMPT, { provider: 'openai', fallbacks: ['gemini', 'mock'], usage });
+    expect(result.provider).toBe('mock');
+    expect(await ledger()).toEqual([calls + 1, 0]);
+  });
+
+  it('streams from the next configured provider too', async () => {
+    const events = await drain(streamCompletion(PROMPT, { provider: 'openai', fallbacks: ['mock'], usage }));
+    expect(events.at(-1)).toMatchObject({ type: 'done', provider: 'mock' });
+  });
+
+  it('answers 503 without recording anything when no provider is configured', async () => {
+    const before = await ledger();
+    await expect(complete(PROMPT, { provider: 'openai', fallbacks: ['gemini'], usage })).rejects.toMatchObject({
+      status: 503,
+      code: 'integration_unavailable',
+    });
+    expect(await ledger()).toEqual(before);
+  });
+
+  it('records a failed call and surfaces its status', async () => {
+    const [calls, errors] = await ledger();
+    await expect(complete({ ...PROMPT, model: 'mock-error' }, { provider: 'mock', usage })).rejects.toMatchObject({
+      status: 502,
+      code: 'upstream_error',
+    });
+    expect(await ledger()).toEqual([calls + 1, errors + 1]);
+  });
+});
+
+describe('quotas', () => {
+  it('answers 402 once the project has used its quota', async () => {
+    const projectId = usage.projectId as number;
+    const { used_tokens: used } = await getQuotaStatus(projectId);
+    await getRepositories().usage.setQuota(projectId, used + 1);
+    // The call that crosses the quota still completes.
+    await complete(PROMPT, { usage });
+    await expect(complete(PROMPT, { usage })).rejects.toMatchObject({
+      status: 402,
+      code: 'quota_exceeded',
+      details: { scope: 'project' },
+    });
+    await getRepositories().usage.deleteQuota(projectId);
+  });
+
+  it('answers 429 with Retry-After once the service quota is used up', async () => {
+    await getRepositories().usage.record({
+      project_id: null,
+      route: 'test',
+      provider: 'mock',
+      model: 'mock-1',
+      input_tokens: 0,
+      output_tokens: 1_000_000,
+      total_tokens: 1_000_000,
+      latency_ms: 1,
+      outcome: 'success',
+      error: null,
+    });
+    const failure = await complete(PROMPT, { usage }).catch((error) => error);
+    expect(failure).toMatchObject({ status: 429, code: 'quota_exceeded', details: { scope: 'service' } });
+    expect(Number(failure.headers['Retry-After'])).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createLruCache } from '../../src/cache/lru.js';
+
+const NOW = 1_000_000;
+const LATER = NOW + 60_000;
+
+describe('createLruCache', () => {
+  it('evicts the least recently used entry when over the entry limit', () => {
+    const cache = createLruCache<string>({ maxEntries: 3, maxSize: 100 });
+    cache.set('a', 'A', 1, LATER, NOW);
+    cache.set('b', 'B', 1, LATER, NOW);
+    cache.set('c', 'C', 1, LATER, NOW);
+    expect(cache.get('a', NOW)).toBe('A');
+
+    cache.set('d', 'D', 1, LATER, NOW);
+    expect(cache.get('b', NOW)).toBeUndefined();
+    expect(['a', 'c', 'd'].map((key) => cache.get(key, NOW))).toEqual(['A', 'C', 'D']);
+  });
+
+  it('evicts only as many entries as the size limit needs', () => {
+    const cache = createLruCache<string>({ maxEntries: 10, maxSize: 10 });
+    cache.set('a', 'A', 4, LATER, NOW);
+    cache.set('b', 'B', 3, LATER, NOW);
+    cache.set('c', 'C', 3, LATER, NOW);
+    cache.set('d', 'D', 5, LATER, NOW);
+    expect(['a', 'b', 'c', 'd'].map((key) => cache.get(key, NOW))).toEqual([undefined, undefined, 'C', 'D']);
+  });
+
+  it('keeps live entries that expire sooner than the new one', () => {
+    const cache = createLruCache<string>({ maxEntries: 2, maxSize: 100 });
+    cache.set('short', 'S', 1, NOW + 1000, NOW);
+    cache.set('long', 'L', 1, LATER, NOW);
+    cache.set('longer', 'X', 1, LATER + 1000, NOW);
+    expect(cache.get('short', NOW)).toBeUndefined();
+    expect(cache.get('long', NOW)).toBe('L');
+    expect(cache.get('longer', NOW)).toBe('X');
+  });
+
+  it('drops expired entries before live ones when room is needed', () => {
+    const cache = createLruCache<string>({ maxEntries: 2, maxSize: 100 });
+    cache.set('live', 'L', 1, LATER, NOW);
+    cache.set('stale', 'S', 1, NOW + 10, NOW);
+    cache.set('new', 'N', 1, LATER, NOW + 20);
+    expect(cache.get('live', NOW + 20)).toBe('L');
+    expect(cache.get('new', NOW + 20)).toBe('N');
+  });
+});
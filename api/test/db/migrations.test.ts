@@ -0,0 +1,96 @@
+import { mkdtempSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getMigrationStatus, loadMigrations, MigrationError, migrateDown, migrateUp } from '../../src/db/migrations.js';
+import { createSqliteMigrationStore } from '../../src/db/sqlite/migrations.js';
+
+let dir: string;
+let db: Database;
+
+const write = (file: string, sql: string) => writeFileSync(join(dir, file), sql);
+const tables = () =>
+  db
+    .prepare<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 't\\_%' ESCAPE '\\'")
+    .all()
+    .map(({ name }) => name)
+    .sort();
+
+const up = () => migrateUp(createSqliteMigrationStore(db), loadMigrations(dir));
+const down = (steps?: number) => migrateDown(createSqliteMigrationStore(db), loadMigrations(dir), steps);
+const states = () =>
+  getMigrationStatus(loadMigrations(dir), createSqliteMigrationStore(db).listApplied()).map(
+    ({ version, state }) => `${version}:${state}`,
+  );
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'migrations-'));
+  db = new Database(':memory:');
+  write('001_one.sql', 'CREATE TABLE t_one (id INTEGER);');
+  write('001_one.down.sql', 'DROP TABLE t_one;');
+  write('002_two.sql', 'CREATE TABLE t_two (id INTEGER);');
+  write('002_two.down.sql', 'DROP TABLE t_two;');
+});
+
+afterEach(() => {
+  db.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('migrateUp', () => {
+  it('applies pending migrations in order, once', async () => {
+    expect((await up()).map(({ name }) => name)).toEqual(['one', 'two']);
+    expect(await up()).toEqual([]);
+    expect(tables()).toEqual(['t_one', 't_two']);
+    expect(states()).toEqual(['1:applied', '2:applied']);
+  });
+
+  it('refuses to run after an applied migration was edited', async () => {
+    await up();
+    write('001_one.sql', 'CREATE TABLE t_one (id INTEGER, name TEXT);');
+    write('003_three.sql', 'CREATE TABLE t_three (id INTEGER);');
+    expect(states()).toEqual(['1:modified', '2:applied', '3:pending']);
+    await expect(up()).rejects.toThrow(MigrationError);
+    await expect(up()).rejects.toThrow('001_one (modified)');
+    expect(tables()).toEqual(['t_one', 't_two']);
+  });
+
+  it('refuses to run after an applied migration was removed', async () => {
+    await up();
+    unlinkSync(join(dir, '002_two.sql'));
+    await expect(up()).rejects.toThrow('002_two (missing)');
+  });
+
+  it('leaves nothing behind when a migration fails', async () => {
+    write('002_two.sql', 'CREATE TABLE t_two (id INTEGER); NOT SQL;');
+    await expect(up()).rejects.toThrow();
+    expect(tables()).toEqual(['t_one']);
+    expect(states()).toEqual(['1:applied', '2:pending']);
+  });
+});
+
+describe('migrateDown', () => {
+  it('reverts the newest migrations', async () => {
+    await up();
+    expect((await down()).map(({ name }) => name)).toEqual(['two']);
+    expect(tables()).toEqual(['t_one']);
+    expect(states()).toEqual(['1:applied', '2:pending']);
+    expect((await down(5)).map(({ name }) => name)).toEqual(['one']);
+    expect(tables()).toEqual([]);
+  });
+
+  it('refuses when an applied migration was edited', async () => {
+    await up();
+    write('002_two.sql', 'CREATE TABLE t_two (id INTEGER, name TEXT);');
+    await expect(down()).rejects.toThrow('002_two (modified)');
+    expect(tables()).toEqual(['t_one', 't_two']);
+  });
+
+  it('refuses to revert a migration without a down file', async () => {
+    await up();
+    unlinkSync(join(dir, '002_two.down.sql'));
+    await expect(down()).rejects.toThrow('No down file for: 002_two');
+    expect(tables()).toEqual(['t_one', 't_two']);
+  });
+});
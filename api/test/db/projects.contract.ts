@@ -0,0 +1,282 @@
+import { randomUUID } from 'node:crypto';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { UniqueViolationError } from '../../src/db/errors.js';
+import type { Repositories } from '../../src/db/index.js';
+import type { ProjectInput, ProjectListOptions } from '../../src/db/types.js';
+import { diffRevisions, type RevisionContent } from '../../src/domain/revisions.js';
+
+// The repositories the suite needs; restoring a revision spans all of them.
+export type ContractRepositories = Pick<Repositories, 'projects' | 'pages' | 'sections' | 'revisions'>;
+
+// The behaviour every ProjectRepository backend must share. Each run works on
+// projects whose names and slugs carry its own prefix, and lists filter on it,
+// so the suite can run against a database that already holds data.
+export const projectRepositoryContract = (backend: string, open: () => Promise<ContractRepositories>) => {
+  describe(`ProjectRepository (${backend})`, () => {
+    const run = `t${randomUUID().slice(0, 8)}`;
+    const created: number[] = [];
+    let repositories: ContractRepositories;
+    let projects: ContractRepositories['projects'];
+
+    const create = async (input: Partial<ProjectInput> & { name: string }) => {
+      const project = await projects.create({
+        slug: `${run}-${created.length}`,
+        ...input,
+        name: `${run} ${input.name}`,
+      });
+      created.push(project.id);
+      return project;
+    };
+
+    const list = (options: Partial<ProjectListOptions> = {}) =>
+      projects.list({ limit: 50, sort: 'created_at', order: 'asc', q: run, ...options });
+
+    const listAll = async (options: Partial<ProjectListOptions>) => {
+      const names: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await list({ ...options, cursor });
+        names.push(...page.items.map((project) => project.name.slice(run.length + 1)));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+      return names;
+    };
+
+    beforeAll(async () => {
+      repositories = await open();
+      ({ projects } = repositories);
+    });
+
+    afterAll(async () => {
+      for (const id of created) {
+        await projects.delete(id);
+        await projects.purge(id);
+      }
+    });
+
+    describe('create and get', () => {
+      it('fills in the defaults', async () => {
+        const project = await create({ name: 'Defaults', owner_id: 'alice' });
+        expect(project).toMatchObject({
+          name: `${run} Defaults`,
+          description: '',
+          status: 'draft',
+          owner_id: 'alice',
+          deleted_at: null,
+        });
+        expect(await projects.get(project.id)).toEqual(project);
+      });
+
+      it('rejects a slug that is taken', async () => {
+        const project = await create({ name: 'Taken' });
+        await expect(projects.create({ name: 'Again', slug: project.slug })).rejects.toBeInstanceOf(
+          UniqueViolationError,
+        );
+      });
+
+      it('answers null for a missing project', async () => {
+        expect(await projects.get(2_000_000_000)).toBeNull();
+      });
+
+      it('checks slugs, optionally ignoring one project', async () => {
+        const project = await create({ name: 'Slug' });
+        expect(await projects.slugExists(project.slug)).toBe(true);
+        expect(await projects.slugExists(project.slug, project.id)).toBe(false);
+        expect(await projects.slugExists(`${run}-unused`)).toBe(false);
+      });
+    });
+
+    describe('update', () => {
+      it('changes only the given fields', async () => {
+        const project = await create({ name: 'Before', description: 'kept' });
+        const updated = await projects.update(project.id, { name: `${run} After`, status: 'published' });
+        expect(updated).toMatchObject({ name: `${run} After`, description: 'kept', status: 'published' });
+      });
+
+      it('rejects a slug that is taken', async () => {
+        const [first, second] = [await create({ name: 'First' }), await create({ name: 'Second' })];
+        await expect(projects.update(second.id, { slug: first.slug })).rejects.toBeInstanceOf(UniqueViolationError);
+      });
+
+      it('answers null for a missing or trashed project', async () => {
+        const project = await create({ name: 'Trashed' });
+        await projects.delete(project.id);
+        expect(await projects.update(project.id, { name: 'Nope' })).toBeNull();
+        expect(await projects.update(2_000_000_000, { name: 'Nope' })).toBeNull();
+      });
+    });
+
+    describe('trash', () => {
+      it('hides a deleted project until it is restored', async () => {
+        const project = await create({ name: 'Bin' });
+        expect(await projects.delete(project.id)).toBe(true);
+        expect(await projects.delete(project.id)).toBe(false);
+        expect(await projects.get(project.id)).toBeNull();
+        expect((await projects.get(project.id, { includeDeleted: true }))?.deleted_at).not.toBeNull();
+        expect((await list()).items.map(({ id }) => id)).not.toContain(project.id);
+        expect((await list({ trashed: true })).items.map(({ id }) => id)).toContain(project.id);
+
+        expect((await projects.restore(project.id))?.deleted_at).toBeNull();
+        expect(await projects.restore(project.id)).toBeNull();
+        expect(await projects.get(project.id)).not.toBeNull();
+      });
+
+      it('purges only trashed projects', async () => {
+        const project = await create({ name: 'Purge' });
+        expect(await projects.purge(project.id)).toBe(false);
+        await projects.delete(project.id);
+        expect(await projects.purge(project.id)).toBe(true);
+        expect(await projects.get(project.id, { includeDeleted: true })).toBeNull();
+      });
+    });
+
+    describe('list', () => {
+      const names = ['banana', 'Apple', 'cherry', 'apricot', 'Blueberry'];
+
+      beforeAll(async () => {
+        for (const name of names) {
+          await create({ name: `fruit ${name}`, status: name === 'cherry' ? 'published' : 'draft' });
+        }
+      });
+
+      it('sorts names without regard to case, in both directions', async () => {
+        const sorted = ['fruit Apple', 'fruit apricot', 'fruit banana', 'fruit Blueberry', 'fruit cherry'];
+        expect(await listAll({ q: `${run} fruit`, sort: 'name', order: 'asc', limit: 2 })).toEqual(sorted);
+        expect(await listAll({ q: `${run} fruit`, sort: 'name', order: 'desc', limit: 2 })).toEqual(
+          [...sorted].reverse(),
+        );
+      });
+
+      it('pages through every match once, with the total', async () => {
+        const first = await list({ q: `${run} fruit`, limit: 2 });
+        expect(first.items).toHaveLength(2);
+        expect(first.total).toBe(names.length);
+        expect(new Set(await listAll({ q: `${run} fruit`, limit: 2 })).size).toBe(names.length);
+      });
+
+      it('filters by status', async () => {
+        const page = await list({ q: `${run} fruit`, status: 'published' });
+        expect(page.items.map((project) => project.name)).toEqual([`${run} fruit cherry`]);
+        expect(page.total).toBe(1);
+      });
+
+      it('matches the query literally and without regard to case', async () => {
+        await create({ name: '100% juice' });
+        await create({ name: '100 juice' });
+        expect(await listAll({ q: `${run} 100%` })).toEqual(['100% juice']);
+        expect(await listAll({ q: `${run} FRUIT APPLE` })).toEqual(['fruit Apple']);
+      });
+    });
+
+    describe('revisions', () => {
+      // The project's content as a revision stores it.
+      const snapshot = async (projectId: number): Promise<RevisionContent> => {
+        const { pages, sections } = repositories;
+        const project = await projects.get(projectId);
+        if (!project) throw new Error(`project ${projectId} not found`);
+        const content: RevisionContent = {
+          project: { name: project.name, slug: project.slug, description: project.description },
+          pages: [],
+        };
+        for (const page of await pages.list(projectId)) {
+          const pageSections = await sections.list(page.id);
+          content.pages.push({
+            id: page.id,
+            title: page.title,
+            slug: page.slug,
+            sections: pageSections.map(({ id, type, data }) => ({ id, type, data })),
+          });
+        }
+        return content;
+      };
+
+      const createSite = async (name: string) => {
+        const { pages, sections } = repositories;
+        const project = await create({ name });
+        for (const slug of ['home', 'about', 'contact']) {
+          const page = await pages.create(project.id, { title: slug, slug });
+          await sections.create(page.id, { type: 'rich_text', data: { body: `${slug} one` } });
+          await sections.create(page.id, { type: 'rich_text', data: { body: `${slug} two` } });
+        }
+        return project;
+      };
+
+      it('restores fields, pages, sections and their order', async () => {
+        const { pages, sections } = repositories;
+        const project = await createSite('Restore');
+        const before = await snapshot(project.id);
+        const [home, about, contact] = before.pages;
+
+        await projects.update(project.id, { name: `${run} Renamed`, description: 'changed' });
+        await pages.delete(project.id, contact.id);
+        await pages.update(project.id, home.id, { slug: 'start' });
+        await pages.update(project.id, about.id, { slug: 'home', title: 'About us' });
+        await pages.create(project.id, { title: 'Blog', slug: 'blog' });
+        await pages.reorder(project.id, [about.id, home.id]);
+        await sections.update(home.id, home.sections[0].id, { type: 'rich_text', data: { body: 'edited' } });
+        await sections.delete(about.id, about.sections[1].id);
+        await sections.reorder(home.id, [home.sections[1].id, home.sections[0].id]);
+        const after = await snapshot(project.id);
+
+        const diff = diffRevisions(before, after);
+        expect(diff.project.map(({ field }) => field)).toEqual(['name', 'description']);
+        expect(diff.pages.removed.map(({ slug }) => slug)).toEqual(['contact']);
+        expect(diff.pages.added.map(({ slug }) => slug)).toEqual(['blog']);
+        expect(diff.pages.reordered).toBe(true);
+        const changed = new Map(diff.pages.changed.map((page) => [page.id, page]));
+        expect(changed.get(home.id)?.changes).toEqual([{ field: 'slug', before: 'home', after: 'start' }]);
+        expect(changed.get(home.id)?.sections).toMatchObject({
+          changed: [{ id: home.sections[0].id }],
+          reordered: true,
+        });
+        expect(changed.get(about.id)?.sections.removed).toEqual([about.sections[1]]);
+
+        expect(await repositories.revisions.restore(project.id, before)).toBe(true);
+        const restored = await snapshot(project.id);
+        // The deleted page and section come back under new ids.
+        const diffBack = diffRevisions(before, restored);
+        expect(diffBack.project).toEqual([]);
+        expect(diffBack.pages.removed.map(({ slug }) => slug)).toEqual(['contact']);
+        expect(diffBack.pages.added.map(({ slug }) => slug)).toEqual(['contact']);
+        expect(diffBack.pages.reordered).toBe(false);
+        expect(diffBack.pages.changed.map((page) => [page.id, page.changes, page.sections.added.length])).toEqual([
+          [about.id, [], 1],
+        ]);
+        const strip = (content: RevisionContent) =>
+          content.pages.map(({ title, slug, sections: list }) => ({
+            title,
+            slug,
+            sections: list.map(({ data }) => data),
+          }));
+        expect(strip(restored)).toEqual(strip(before));
+        expect(restored.pages[0]).toEqual(home);
+      });
+
+      it('changes nothing when a restore fails part-way', async () => {
+        const project = await createSite('Conflict');
+        const before = await snapshot(project.id);
+        await repositories.pages.delete(project.id, before.pages[2].id);
+        await projects.update(project.id, { slug: `${run}-conflict-moved` });
+        const after = await snapshot(project.id);
+
+        const taken = await create({ name: 'Taker', slug: before.project.slug });
+        await expect(repositories.revisions.restore(project.id, before)).rejects.toBeInstanceOf(UniqueViolationError);
+        expect(await snapshot(project.id)).toEqual(after);
+
+        // Fails on the last page, after the project and the other pages were written.
+        await projects.update(taken.id, { slug: `${run}-taker-moved` });
+        const clash = { id: 0, title: 'Clash', slug: before.pages[0].slug, sections: [] };
+        const broken = { ...before, pages: [...before.pages, clash] };
+        await expect(repositories.revisions.restore(project.id, broken)).rejects.toBeInstanceOf(UniqueViolationError);
+        expect(await snapshot(project.id)).toEqual(after);
+      });
+
+      it('answers false for a trashed project', async () => {
+        const project = await createSite('Trashed site');
+        const before = await snapshot(project.id);
+        await projects.delete(project.id);
+        expect(await repositories.revisions.restore(project.id, before)).toBe(false);
+      });
+    });
+  });
+};
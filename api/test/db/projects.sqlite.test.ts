@@ -0,0 +1,19 @@
+import Database from 'better-sqlite3';
+import { applySqliteMigrations } from '../../src/db/connection.js';
+import { createSqlitePageRepository } from '../../src/db/sqlite/pages.js';
+import { createSqliteProjectRepository } from '../../src/db/sqlite/projects.js';
+import { createSqliteRevisionRepository } from '../../src/db/sqlite/revisions.js';
+import { createSqliteSectionRepository } from '../../src/db/sqlite/sections.js';
+import { projectRepositoryContract } from './projects.contract.js';
+
+projectRepositoryContract('sqlite', async () => {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  applySqliteMigrations(db);
+  return {
+    projects: createSqliteProjectRepository(db),
+    pages: createSqlitePageRepository(db),
+    sections: createSqliteSectionRepository(db),
+    revisions: createSqliteRevisionRepository(db),
+  };
+});
@@ -0,0 +1,26 @@
+import { createClient } from '@supabase/supabase-js';
+import { describe } from 'vitest';
+import { createSupabasePageRepository } from '../../src/db/supabase/pages.js';
+import { createSupabaseProjectRepository } from '../../src/db/supabase/projects.js';
+import { createSupabaseRevisionRepository } from '../../src/db/supabase/revisions.js';
+import { createSupabaseSectionRepository } from '../../src/db/supabase/sections.js';
+import { projectRepositoryContract } from './projects.contract.js';
+
+// Runs against a migrated Supabase project when SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are set; it only touches the projects it creates.
+const url = process.env.SUPABASE_URL;
+const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (url && key) {
+  projectRepositoryContract('supabase', async () => {
+    const supabase = createClient(url, key, { auth: { persistSession: false } });
+    return {
+      projects: createSupabaseProjectRepository(supabase),
+      pages: createSupabasePageRepository(supabase),
+      sections: createSupabaseSectionRepository(supabase),
+      revisions: createSupabaseRevisionRepository(supabase),
+    };
+  });
+} else {
+  describe.skip('ProjectRepository (supabase): set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY', () => {});
+}
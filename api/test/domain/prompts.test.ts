@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate } from '../../src/domain/prompts.js';
+
+describe('renderTemplate', () => {
+  it('fills values, then defaults, and reports the rest as missing', () => {
+    const rendered = renderTemplate('{{ city }} in {{season}} for {{who}}', [{ name: 'season', default: 'spring' }], {
+      city: 'Lyon',
+    });
+    expect(rendered).toEqual({ text: 'Lyon in spring for {{who}}', missing: ['who'] });
+  });
+
+  it('ignores values inherited from Object.prototype', () => {
+    const rendered = renderTemplate('{{constructor}} {{toString}} {{__proto__}} {{hasOwnProperty}}', [], {});
+    expect(rendered.text).toBe('{{constructor}} {{toString}} {{__proto__}} {{hasOwnProperty}}');
+    expect(rendered.missing).toEqual(['constructor', 'toString', '__proto__', 'hasOwnProperty']);
+  });
+
+  it('uses own values and defaults for those names', () => {
+    const values = JSON.parse('{"__proto__": "proto", "constructor": "built"}');
+    const rendered = renderTemplate(
+      '{{__proto__}} {{constructor}} {{toString}}',
+      [{ name: 'toString', default: 'text' }],
+      values,
+    );
+    expect(rendered).toEqual({ text: 'proto built text', missing: [] });
+  });
+});
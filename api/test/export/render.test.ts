@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import type { Section, SitePage } from '../../src/db/types.js';
+import type { SectionDataByType } from '../../src/domain/sections.js';
+import { type ExportSite, renderSite, STYLESHEET_PATH } from '../../src/export/render.js';
+
+const TIMESTAMP = '2024-05-01T10:00:00.000Z';
+
+const page = (id: number, title: string, slug: string): SitePage => ({
+  id,
+  project_id: 1,
+  title,
+  slug,
+  position: id,
+  created_at: TIMESTAMP,
+  updated_at: TIMESTAMP,
+});
+
+let nextSectionId = 1;
+const section = <T extends Section['type']>(type: T, data: SectionDataByType[T]): Section => ({
+  id: nextSectionId++,
+  page_id: 1,
+  type,
+  position: 0,
+  data,
+  created_at: TIMESTAMP,
+  updated_at: TIMESTAMP,
+});
+
+const PHOTO = 'https://images.pexels.com/photos/1/bakery.jpeg?w=1200';
+
+// Every section type with every field set, across pages that link to each other.
+const fullSite: ExportSite = {
+  project: { name: 'Corner Bakery', slug: 'corner-bakery', description: 'Fresh bread every morning.' },
+  pages: [
+    {
+      page: page(1, 'Home', 'home'),
+      sections: [
+        section('hero', {
+          heading: 'Bread, baked daily',
+          subheading: 'Sourdough and pastries from 7am.',
+          imageUrl: PHOTO,
+          ctaLabel: 'Visit us',
+          ctaHref: '/contact#map',
+        }),
+        section('rich_text', { heading: 'Our story', body: 'Founded in 1998.\nFamily run.\n\nStill the same oven.' }),
+        section('image_gallery', {
+          heading: 'From the counter',
+          images: [
+            { url: PHOTO, alt: 'Loaves on a shelf', caption: 'Morning batch' },
+            { url: 'https://example.com/croissant.jpg' },
+          ],
+        }),
+        section('call_to_action', {
+          heading: 'Order ahead',
+          body: 'Cakes need two days.',
+          buttonLabel: 'Contact',
+          buttonHref: '/contact',
+        }),
+      ],
+    },
+    {
+      page: page(2, 'Contact', 'contact'),
+      sections: [
+        section('call_to_action', { heading: 'Call us', buttonLabel: 'Map', buttonHref: 'https://maps.example.com' }),
+      ],
+    },
+    // Must not overwrite the home page.
+    { page: page(3, 'Index', 'index'), sections: [section('rich_text', { body: 'An index of products.' })] },
+  ],
+  credits: [
+    {
+      urls: ['https://images.pexels.com/photos/1/bakery.jpeg?w=640'],
+      photographer: 'Ana Baker',
+      photographer_url: 'https://www.pexels.com/@ana',
+      source: 'pexels',
+      source_url: null,
+    },
+  ],
+};
+
+describe('renderSite', () => {
+  it('renders every section type', () => {
+    const files = renderSite(fullSite, {
+      theme: 'modern',
+      baseUrl: 'https://bakery.example/',
+      assets: new Map([[PHOTO, 'assets/images/bakery.jpeg']]),
+    });
+    expect(Object.keys(files)).toEqual([
+      'index.html',
+      'contact.html',
+      'index-page.html',
+      STYLESHEET_PATH,
+      'sitemap.xml',
+      'robots.txt',
+    ]);
+    expect(files['index.html']).toMatchSnapshot();
+    expect(files['contact.html']).toMatchSnapshot();
+    expect(files['index-page.html']).toMatchSnapshot();
+    expect(files['sitemap.xml']).toMatchSnapshot();
+    expect(files['robots.txt']).toMatchSnapshot();
+  });
+
+  it('leaves out optional parts without blank lines', () => {
+    const site: ExportSite = {
+      project: { name: 'Plain', slug: 'plain', description: '' },
+      pages: [
+        {
+          page: page(1, 'Plain', 'plain'),
+          sections: [
+            section('hero', { heading: 'Only a heading' }),
+            section('rich_text', { body: 'Only a body.' }),
+            section('image_gallery', { images: [{ url: 'https://example.com/a.png' }] }),
+            section('call_to_action', { heading: 'Go', buttonLabel: 'Go', buttonHref: 'https://example.com' }),
+          ],
+        },
+      ],
+    };
+    const files = renderSite(site, { theme: 'classic' });
+    expect(files['index.html']).not.toMatch(/\n\s*\n/);
+    expect(files['index.html']).toMatchSnapshot();
+    expect(files['sitemap.xml']).toMatchSnapshot();
+    expect(files['robots.txt']).toMatchSnapshot();
+  });
+
+  it('renders a page without sections', () => {
+    const site: ExportSite = {
+      project: { name: 'Empty', slug: 'empty', description: 'Nothing here yet.' },
+      pages: [{ page: page(1, 'Welcome', 'welcome'), sections: [] }],
+    };
+    expect(renderSite(site, { theme: 'dark' })['index.html']).toMatchSnapshot();
+  });
+
+  it('escapes every piece of user content', () => {
+    const hostile = `<script>alert("x")</script> & 'quotes'`;
+    const site: ExportSite = {
+      project: { name: hostile, slug: 'hostile', description: hostile },
+      pages: [
+        {
+          page: page(1, hostile, 'home'),
+          sections: [
+            section('hero', {
+              heading: hostile,
+              subheading: hostile,
+              imageUrl: 'https://example.com/a.png?a=1&b="2"',
+              ctaLabel: hostile,
+              ctaHref: 'https://example.com/?q="><script>',
+            }),
+            section('rich_text', { heading: hostile, body: `${hostile}\n\n${hostile}` }),
+            section('image_gallery', {
+              heading: hostile,
+              images: [{ url: 'https://example.com/b.png', alt: hostile, caption: hostile }],
+            }),
+            section('call_to_action', { heading: hostile, body: hostile, buttonLabel: hostile, buttonHref: '/?q=<b>' }),
+          ],
+        },
+      ],
+      credits: [
+        {
+          urls: ['https://example.com/b.png'],
+          photographer: hostile,
+          photographer_url: 'https://example.com/"photographer"',
+          source: '<source>',
+          source_url: 'https://example.com/<source>',
+        },
+      ],
+    };
+    const html = renderSite(site, { theme: 'modern', baseUrl: 'https://example.com/"base"' })['index.html'];
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('href="https://example.com/?q=&quot;&gt;&lt;script&gt;"');
+    expect(html).toMatchSnapshot();
+  });
+
+  it('renders the same input to the same output', () => {
+    const options = { theme: 'modern' as const, baseUrl: 'https://bakery.example' };
+    expect(renderSite(fullSite, options)).toEqual(renderSite(fullSite, options));
+  });
+});
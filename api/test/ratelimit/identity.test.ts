@@ -0,0 +1,44 @@
+import { Hono } from 'hono';
+import { describe, expect, it, vi } from 'vitest';
+import { clientKey } from '../../src/ratelimit/identity.js';
+
+vi.stubEnv('DB_DRIVER', 'sqlite');
+vi.stubEnv('JWT_SECRET', 'test');
+vi.stubEnv('TRUSTED_PROXIES', '10.0.0.0/8');
+
+const app = new Hono<{ Variables: { user?: { id: string } } }>();
+app.get('/', (c) => {
+  const user = c.req.header('x-test-user');
+  if (user) c.set('user', { id: user });
+  return c.text(clientKey(c));
+});
+
+// What @hono/node-server hands the app for a request from `remoteAddress`.
+const keyFor = async (remoteAddress: string | null, headers: Record<string, string> = {}) => {
+  const env = remoteAddress === null ? {} : { incoming: { socket: { remoteAddress, remoteFamily: 'IPv4' } } };
+  return (await app.request('/', { headers }, env)).text();
+};
+
+describe('clientKey', () => {
+  it('keys signed-in users by id, wherever they connect from', async () => {
+    expect(await keyFor('203.0.113.7', { 'x-test-user': 'alice' })).toBe('user:alice');
+    expect(await keyFor('198.51.100.1', { 'x-test-user': 'alice' })).toBe('user:alice');
+  });
+
+  it('keys everyone else by the socket address', async () => {
+    expect(await keyFor('203.0.113.7')).toBe('ip:203.0.113.7');
+    expect(await keyFor('::ffff:203.0.113.7')).toBe('ip:203.0.113.7');
+    expect(await keyFor(null)).toBe('ip:unknown');
+  });
+
+  it('ignores X-Forwarded-For unless the peer is a trusted proxy', async () => {
+    const forwarded = { 'x-forwarded-for': '198.51.100.9' };
+    expect(await keyFor('203.0.113.7', forwarded)).toBe('ip:203.0.113.7');
+    expect(await keyFor('10.0.0.2', forwarded)).toBe('ip:198.51.100.9');
+  });
+
+  it('takes the rightmost untrusted X-Forwarded-For entry', async () => {
+    const forwarded = { 'x-forwarded-for': '192.0.2.66, 198.51.100.9, 10.0.0.3' };
+    expect(await keyFor('10.0.0.2', forwarded)).toBe('ip:198.51.100.9');
+  });
+});
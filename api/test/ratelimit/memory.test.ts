@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { BucketShape } from '../../src/domain/ratelimit.js';
+import { createMemoryStore } from '../../src/ratelimit/memory.js';
+
+const NOW = 1_000_000;
+// A burst of 3, refilling one token per second.
+const BUCKET: BucketShape = { capacity: 3, refillPerMs: 1 / 1000 };
+
+const takeMany = async (store: ReturnType<typeof createMemoryStore>, key: string, count: number, now: number) => {
+  const allowed = [];
+  for (let i = 0; i < count; i += 1) allowed.push((await store.take(key, BUCKET, now)).allowed);
+  return allowed;
+};
+
+describe('createMemoryStore', () => {
+  it('allows a full burst, then refuses', async () => {
+    const store = createMemoryStore();
+    expect(await takeMany(store, 'a', 4, NOW)).toEqual([true, true, true, false]);
+    expect((await store.take('a', BUCKET, NOW)).tokens).toBe(0);
+  });
+
+  it('refills continuously at the steady rate', async () => {
+    const store = createMemoryStore();
+    await takeMany(store, 'a', 3, NOW);
+    expect((await store.take('a', BUCKET, NOW + 999)).allowed).toBe(false);
+    // The refused request above still moved the clock, with 0.999 tokens kept.
+    expect(await store.take('a', BUCKET, NOW + 1000)).toEqual({ allowed: true, tokens: expect.closeTo(0, 5) });
+    expect(await takeMany(store, 'a', 2, NOW + 3000)).toEqual([true, true]);
+    expect((await store.take('a', BUCKET, NOW + 3000)).allowed).toBe(false);
+  });
+
+  it('never refills past the burst', async () => {
+    const store = createMemoryStore();
+    await store.take('a', BUCKET, NOW);
+    expect(await takeMany(store, 'a', 4, NOW + 60_000)).toEqual([true, true, true, false]);
+  });
+
+  it('keeps a bucket per key', async () => {
+    const store = createMemoryStore();
+    await takeMany(store, 'a', 3, NOW);
+    expect(await takeMany(store, 'b', 3, NOW)).toEqual([true, true, true]);
+    expect((await store.take('a', BUCKET, NOW)).allowed).toBe(false);
+  });
+
+  it('forgets the least recently used keys past maxKeys, handing them a full bucket', async () => {
+    const store = createMemoryStore(2);
+    await takeMany(store, 'a', 3, NOW);
+    await takeMany(store, 'b', 3, NOW);
+    await store.take('a', BUCKET, NOW);
+    await store.take('c', BUCKET, NOW);
+    expect((await store.take('a', BUCKET, NOW)).allowed).toBe(false);
+    expect((await store.take('b', BUCKET, NOW)).allowed).toBe(true);
+  });
+});
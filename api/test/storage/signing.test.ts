@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { fileKeyFromPath } from '../../src/storage/signing.js';
+
+describe('fileKeyFromPath', () => {
+  it('decodes each segment exactly once', () => {
+    expect(fileKeyFromPath('/files/projects/7/a%20b.png')).toBe('projects/7/a b.png');
+    expect(fileKeyFromPath('/files/projects/7/100%2525.png')).toBe('projects/7/100%25.png');
+    expect(fileKeyFromPath('/files/projects/7/a%2Fb.png')).toBe('projects/7/a/b.png');
+  });
+
+  it('answers null for malformed encoding and other paths', () => {
+    expect(fileKeyFromPath('/files/projects/7/%E0%A4%A.png')).toBeNull();
+    expect(fileKeyFromPath('/files/%')).toBeNull();
+    expect(fileKeyFromPath('/files/')).toBeNull();
+    expect(fileKeyFromPath('/other/a.png')).toBeNull();
+  });
+});
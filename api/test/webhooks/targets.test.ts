@@ -0,0 +1,86 @@
+import type { LookupAddress } from 'node:dns';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  BlockedTargetError,
+  guardedLookup,
+  guardedRequest,
+  isBlockedAddress,
+  literalAddress,
+} from '../../src/webhooks/targets.js';
+
+const resolve = (hostname: string) =>
+  new Promise<LookupAddress[]>((done, fail) =>
+    guardedLookup(hostname, { all: true }, (error, addresses) =>
+      error ? fail(error) : done(addresses as LookupAddress[]),
+    ),
+  );
+
+describe('isBlockedAddress', () => {
+  it('blocks loopback, private, link-local and other internal ranges', () => {
+    const internal = [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+    ];
+    expect(internal.filter((address) => !isBlockedAddress(address))).toEqual([]);
+  });
+
+  it('allows public addresses', () => {
+    const external = ['8.8.8.8', '1.1.1.1', '172.32.0.1', '::ffff:8.8.8.8', '2606:4700:4700::1111'];
+    expect(external.filter((address) => isBlockedAddress(address))).toEqual([]);
+  });
+});
+
+describe('literalAddress', () => {
+  it('returns IP literals, without brackets', () => {
+    expect(literalAddress(new URL('http://127.0.0.1:8080/hook'))).toBe('127.0.0.1');
+    expect(literalAddress(new URL('http://[::1]/hook'))).toBe('::1');
+    expect(literalAddress(new URL('http://2130706433/hook'))).toBe('127.0.0.1');
+    expect(literalAddress(new URL('https://example.com/hook'))).toBeNull();
+  });
+});
+
+describe('guardedLookup', () => {
+  it('refuses names that resolve to a blocked address', async () => {
+    await expect(resolve('localhost')).rejects.toBeInstanceOf(BlockedTargetError);
+  });
+});
+
+describe('guardedRequest', () => {
+  let server: Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/moved') res.writeHead(302, { Location: '/' }).end();
+      else res.end('ok');
+    });
+    await new Promise<void>((done) => server.listen(0, '127.0.0.1', done));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise<void>((done) => server.close(() => done())));
+
+  it('refuses loopback hosts, by name or as a literal', async () => {
+    await expect(guardedRequest(new URL(`http://localhost:${port}/`))).rejects.toBeInstanceOf(BlockedTargetError);
+    await expect(guardedRequest(new URL(`http://127.0.0.1:${port}/`))).rejects.toBeInstanceOf(BlockedTargetError);
+  });
+
+  it('reaches them when private targets are allowed, without following redirects', async () => {
+    const response = await guardedRequest(new URL(`http://127.0.0.1:${port}/moved`), { allowPrivate: true });
+    response.destroy();
+    expect(response.statusCode).toBe(302);
+  });
+});
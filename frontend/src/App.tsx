@@ -1,13 +1,79 @@
+import { useEffect, useState } from 'react';
+import { clearToken, describeUser, getToken, isTokenExpired, LOGIN_HASH, redirectToLogin } from './auth';
+import AcceptInvitationPage from './pages/AcceptInvitation';
+import LoginPage from './pages/Login';
+import ProjectDetailPage from './pages/ProjectDetail';
 import ProjectsPage from './pages/Projects';
 
+// Minimal hash routing: "#/login" signs in, "#/projects/:id" opens the page editor,
+// "#/invitations/:token" accepts an invitation, anything else the project list.
+const readProjectId = () => {
+  const match = /^#\/projects\/(\d+)$/.exec(window.location.hash);
+  return match ? Number(match[1]) : null;
+};
+
+const readInvitationToken = () => {
+  const match = /^#\/invitations\/([\w-]+)$/.exec(window.location.hash);
+  return match ? match[1] : null;
+};
+
+const hasSession = () => {
+  const token = getToken();
+  return token !== null && !isTokenExpired(token);
+};
+
 const App = () => {
+  const [hash, setHash] = useState(window.location.hash);
+
+  useEffect(() => {
+    const handleHashChange = () => setHash(window.location.hash);
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const onLogin = hash === LOGIN_HASH;
+  const signedIn = !onLogin && hasSession();
+
+  useEffect(() => {
+    if (!onLogin && !signedIn) {
+      redirectToLogin();
+    }
+  }, [onLogin, signedIn]);
+
+  const handleSignOut = () => {
+    clearToken();
+    window.location.hash = LOGIN_HASH;
+  };
+
+  const projectId = signedIn ? readProjectId() : null;
+  const invitationToken = signedIn ? readInvitationToken() : null;
+  const token = getToken();
+
   return (
-    <main style={{ margin: '0 auto', maxWidth: '720px', padding: '2rem' }}>
+    <main style={{ margin: '0 auto', maxWidth: projectId === null ? '720px' : '960px', padding: '2rem' }}>
       <header style={{ marginBottom: '2rem' }}>
-        <h1 style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>Projects</h1>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: '1rem' }}>
+          <h1 style={{ fontSize: '2rem', marginBottom: '0.5rem' }}>Projects</h1>
+          {signedIn && token && (
+            <span style={{ color: '#555', fontSize: '0.9rem' }}>
+              {describeUser(token)}{' '}
+              <button type="button" onClick={handleSignOut}>
+                Sign out
+              </button>
+            </span>
+          )}
+        </div>
         <p style={{ color: '#555' }}>Manage your SiteFactory projects via the API.</p>
       </header>
-      <ProjectsPage />
+      {onLogin ? (
+        <LoginPage />
+      ) : !signedIn ? null : invitationToken !== null ? (
+        <AcceptInvitationPage key={invitationToken} token={invitationToken} />
+      ) : projectId === null ? (
+        <ProjectsPage />
+      ) : (
+        <ProjectDetailPage key={projectId} projectId={projectId} />
+      )}
     </main>
   );
 };
@@ -1,21 +1,95 @@
-export interface Project {
-  id: number;
-  name: string;
-  created_at: string;
-  updated_at: string;
+import createClient from 'openapi-fetch';
+import type { components, paths } from './api.schema';
+import { getToken, redirectToLogin } from './auth';
+
+// Types come from the API's OpenAPI document: run `npm run openapi` in api/
+// and then `npm run generate:api` here after changing a route.
+type Schemas = components['schemas'];
+
+// The JSON body a route accepts.
+type JsonBody<Path extends keyof paths, Method extends keyof paths[Path]> = paths[Path][Method] extends {
+  requestBody?: { content: { 'application/json': infer Body } };
+}
+  ? Body
+  : never;
+
+export type ProjectStatus = Schemas['ProjectStatus'];
+
+// Ordered from least to most access, as on the API.
+export const PROJECT_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type ProjectRole = Schemas['ProjectRole'];
+
+export const hasRole = (role: ProjectRole | undefined, required: ProjectRole) =>
+  role !== undefined && PROJECT_ROLES.indexOf(role) >= PROJECT_ROLES.indexOf(required);
+
+export type Project = Schemas['Project'];
+
+export type ProjectPatch = JsonBody<'/projects/{id}', 'patch'>;
+
+export type ProjectSort = NonNullable<NonNullable<paths['/projects']['get']['parameters']['query']>['sort']>;
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
 }
 
+export interface ListProjectsParams {
+  q?: string;
+  sort?: ProjectSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string | null;
+  status?: ProjectStatus;
+  trashed?: boolean;
+}
+
+export type ErrorCode = Schemas['Error']['code'];
+
+export type FieldProblem = Schemas['FieldProblem'];
+
+const isEnvelope = (body: unknown): body is Schemas['Error'] =>
+  !!body &&
+  typeof body === 'object' &&
+  typeof (body as { code?: unknown }).code === 'string' &&
+  typeof (body as { message?: unknown }).message === 'string';
+
+// A failed call. The API answers errors with an envelope of a stable `code`, a
+// readable message, details and the request id; `code` is null when the answer
+// was something else, such as a proxy's error page.
 export class ApiError extends Error {
   status: number;
-  body: unknown;
+  code: ErrorCode | null;
+  details: Record<string, unknown>;
+  requestId: string | null;
 
-  constructor(message: string, status: number, body: unknown) {
-    super(message);
+  constructor(status: number, body: unknown) {
+    super(isEnvelope(body) ? body.message : `Request failed with status ${status}`);
     this.status = status;
-    this.body = body;
+    this.code = isEnvelope(body) ? body.code : null;
+    this.details = (isEnvelope(body) && body.details) || {};
+    this.requestId = isEnvelope(body) ? body.requestId : null;
+  }
+
+  // The problems of an invalid_request, by field, for marking form inputs.
+  get fields(): FieldProblem[] {
+    return Array.isArray(this.details.fields) ? (this.details.fields as FieldProblem[]) : [];
+  }
+
+  // Seconds to wait before retrying a rate_limited or quota_exceeded call.
+  get retryAfter(): number | null {
+    return typeof this.details.retryAfter === 'number' ? this.details.retryAfter : null;
   }
 }
 
+// Client errors carry a readable reason from the API ("slug already taken",
+// "rate limited, retry in 20s"), as does a feature switched off on the server;
+// anything else gets `fallback`.
+export const describeError = (error: unknown, fallback: string) =>
+  error instanceof ApiError && error.code && (error.status < 500 || error.code === 'integration_unavailable')
+    ? error.message
+    : fallback;
+
 const rawBaseUrl = (import.meta.env.VITE_API_BASE_URL as string | undefined) ?? '';
 
 if (!rawBaseUrl) {
@@ -31,51 +105,565 @@ const buildUrl = (path: string) => {
   return `${baseUrl}${path}`;
 };
 
-const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
-  const response = await fetch(buildUrl(path), {
-    headers: {
-      'Content-Type': 'application/json',
-      ...(init?.headers ?? {})
-    },
-    ...init
-  });
+// Every call carries the session token when there is one.
+const authHeaders = (): Record<string, string> => {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
 
-  if (!response.ok) {
-    let body: unknown = null;
-    try {
-      body = await response.json();
-    } catch {
-      try {
-        body = await response.text();
-      } catch {
-        body = null;
-      }
+// A 401 means the token is missing, expired or revoked: back to the login screen.
+const toApiError = (response: Response, body: unknown) => {
+  if (response.status === 401) {
+    redirectToLogin();
+  }
+  return new ApiError(response.status, body);
+};
+
+// For the few calls made without the typed client (uploads and streams).
+const readApiError = async (response: Response) => toApiError(response, await response.json().catch(() => null));
+
+const client = createClient<paths>({ baseUrl });
+
+client.use({
+  onRequest: ({ request }) => {
+    const token = getToken();
+    if (token) {
+      request.headers.set('Authorization', `Bearer ${token}`);
     }
-    throw new ApiError(`Request failed with status ${response.status}`, response.status, body);
+    return request;
   }
+});
 
-  if (response.status === 204) {
-    return null as T;
+// Resolves with the response data, or rejects with an ApiError.
+const unwrap = async <T>(call: Promise<{ data?: T; error?: unknown; response: Response }>) => {
+  const { data, error, response } = await call;
+  if (!response.ok) {
+    throw toApiError(response, error);
   }
+  return data as T;
+};
+
+// Filters leave blank values out of the query string.
+const withoutBlanks = <T extends object>(params: T) =>
+  Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== '')
+  ) as { [K in keyof T]?: Exclude<T[K], null | ''> };
+
+export const listProjects = (params: ListProjectsParams = {}, init?: RequestInit) =>
+  unwrap(
+    client.GET('/projects', {
+      params: { query: withoutBlanks({ ...params, trashed: params.trashed ? ('true' as const) : undefined }) },
+      signal: init?.signal
+    })
+  );
+
+export const createProject = (name: string) => unwrap(client.POST('/projects', { body: { name } }));
+
+export const updateProject = (id: number, payload: ProjectPatch) =>
+  unwrap(client.PATCH('/projects/{id}', { params: { path: { id } }, body: payload }));
+
+export const deleteProject = (id: number) => unwrap(client.DELETE('/projects/{id}', { params: { path: { id } } }));
+
+export const restoreProject = (id: number) =>
+  unwrap(client.POST('/projects/{id}/restore', { params: { path: { id } } }));
+
+export const purgeProject = (id: number) =>
+  unwrap(client.DELETE('/projects/{id}', { params: { path: { id }, query: { permanent: 'true' } } }));
+
+export type ExportTheme = NonNullable<
+  NonNullable<paths['/projects/{id}/export']['get']['parameters']['query']>['theme']
+>;
 
-  return (await response.json()) as T;
+export const EXPORT_THEMES: ExportTheme[] = ['classic', 'modern', 'dark'];
+
+export interface ProjectExport {
+  file: Blob;
+  fileName: string;
+  // Images that stayed remote links because they could not be bundled.
+  skippedAssets: number;
+}
+
+// Downloads the zip of the rendered static site.
+export const exportProject = async (
+  id: number,
+  options: { theme?: ExportTheme; baseUrl?: string } = {}
+): Promise<ProjectExport> => {
+  const { data, error, response } = await client.GET('/projects/{id}/export', {
+    params: { path: { id }, query: withoutBlanks({ theme: options.theme, base_url: options.baseUrl }) },
+    parseAs: 'blob'
+  });
+  if (!response.ok) {
+    throw toApiError(response, error);
+  }
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  return {
+    file: data as Blob,
+    fileName: /filename="([^"]+)"/.exec(disposition)?.[1] ?? `project-${id}.zip`,
+    skippedAssets: Number(response.headers.get('X-Export-Skipped-Assets') ?? 0)
+  };
 };
 
-export const listProjects = () => request<Project[]>('/projects');
+export type ProjectMember = Schemas['ProjectMember'];
+
+export type ProjectInvitation = Schemas['ProjectInvitation'];
+
+// The token is only ever returned here; accept_url is the link to share.
+export type CreatedInvitation = Schemas['CreatedInvitation'];
+
+export type InvitationPreview = Schemas['InvitationPreview'];
+
+export const listMembers = (projectId: number) =>
+  unwrap(client.GET('/projects/{projectId}/members', { params: { path: { projectId } } }));
+
+export const updateMemberRole = (projectId: number, userId: string, role: ProjectRole) =>
+  unwrap(
+    client.PATCH('/projects/{projectId}/members/{userId}', { params: { path: { projectId, userId } }, body: { role } })
+  );
+
+export const removeMember = (projectId: number, userId: string) =>
+  unwrap(client.DELETE('/projects/{projectId}/members/{userId}', { params: { path: { projectId, userId } } }));
+
+export const listInvitations = (projectId: number) =>
+  unwrap(client.GET('/projects/{projectId}/invitations', { params: { path: { projectId } } }));
+
+export const createInvitation = (projectId: number, email: string, role: ProjectRole) =>
+  unwrap(client.POST('/projects/{projectId}/invitations', { params: { path: { projectId } }, body: { email, role } }));
+
+export const revokeInvitation = (projectId: number, invitationId: number) =>
+  unwrap(
+    client.DELETE('/projects/{projectId}/invitations/{invitationId}', {
+      params: { path: { projectId, invitationId } }
+    })
+  );
+
+export const getInvitation = (token: string) =>
+  unwrap(client.GET('/invitations/{token}', { params: { path: { token } } }));
+
+export const acceptInvitation = (token: string) =>
+  unwrap(client.POST('/invitations/{token}/accept', { params: { path: { token } } }));
+
+export const ACTIVITY_ACTIONS = [
+  'project.created',
+  'project.updated',
+  'project.deleted',
+  'project.restored',
+  'project.purged',
+  'page.created',
+  'page.updated',
+  'page.deleted',
+  'pages.reordered',
+  'section.created',
+  'section.updated',
+  'section.deleted',
+  'sections.reordered',
+  'site.generated',
+  'revision.restored',
+  'prompt.created',
+  'prompt.updated',
+  'prompt.deleted',
+  'prompt.run',
+  'asset.created',
+  'asset.updated',
+  'asset.deleted',
+  'member.updated',
+  'member.removed',
+  'invitation.created',
+  'invitation.revoked',
+  'invitation.accepted',
+  'webhook.created',
+  'webhook.updated',
+  'webhook.deleted'
+] as const;
+export type ActivityAction = Schemas['ActivityAction'];
+
+export type ActivityEntry = Schemas['ActivityEntry'];
+
+// Days are YYYY-MM-DD and inclusive.
+export interface ActivityFilters {
+  action?: ActivityAction | '';
+  from?: string;
+  to?: string;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export const listActivity = (projectId: number, filters: ActivityFilters = {}) =>
+  unwrap(
+    client.GET('/projects/{projectId}/activity', {
+      params: { path: { projectId }, query: withoutBlanks(filters) }
+    })
+  );
+
+export type ProjectRevision = Schemas['RevisionSummary'];
+
+export type RevisionDiff = Schemas['RevisionDiff'];
+
+export type FieldChange = RevisionDiff['changes']['project'][number];
+
+export const listRevisions = (projectId: number) =>
+  unwrap(client.GET('/projects/{projectId}/revisions', { params: { path: { projectId } } }));
+
+// Without `to`, compares against the latest revision.
+export const diffRevisions = (projectId: number, from: number, to?: number) =>
+  unwrap(
+    client.GET('/projects/{projectId}/revisions/diff', {
+      params: { path: { projectId }, query: { from, to } }
+    })
+  );
+
+export const restoreRevision = (projectId: number, revision: number) =>
+  unwrap(
+    client.POST('/projects/{projectId}/revisions/{number}/restore', {
+      params: { path: { projectId, number: revision } }
+    })
+  );
+
+export const WEBHOOK_EVENTS = [
+  'project.created',
+  'project.updated',
+  'project.deleted',
+  'project.restored',
+  'project.purged',
+  'page.created',
+  'page.updated',
+  'page.deleted',
+  'generation.completed',
+  'revision.restored',
+  'webhook.ping'
+] as const;
+export type WebhookEvent = Schemas['WebhookEvent'];
+
+export type Webhook = Schemas['Webhook'];
+
+export type WebhookSubscription = Schemas['WebhookSubscription'];
+
+// Only returned when a webhook is created or its secret rotated.
+export type WebhookWithSecret = Schemas['WebhookWithSecret'];
+
+export type WebhookFields = JsonBody<'/projects/{projectId}/webhooks/{webhookId}', 'patch'>;
+
+export type WebhookDelivery = Schemas['WebhookDelivery'];
+
+export const listWebhooks = (projectId: number) =>
+  unwrap(client.GET('/projects/{projectId}/webhooks', { params: { path: { projectId } } }));
+
+export const createWebhook = (projectId: number, fields: JsonBody<'/projects/{projectId}/webhooks', 'post'>) =>
+  unwrap(client.POST('/projects/{projectId}/webhooks', { params: { path: { projectId } }, body: fields }));
+
+export const updateWebhook = (projectId: number, webhookId: number, fields: WebhookFields) =>
+  unwrap(
+    client.PATCH('/projects/{projectId}/webhooks/{webhookId}', {
+      params: { path: { projectId, webhookId } },
+      body: fields
+    })
+  );
+
+export const deleteWebhook = (projectId: number, webhookId: number) =>
+  unwrap(client.DELETE('/projects/{projectId}/webhooks/{webhookId}', { params: { path: { projectId, webhookId } } }));
+
+export const rotateWebhookSecret = (projectId: number, webhookId: number) =>
+  unwrap(
+    client.POST('/projects/{projectId}/webhooks/{webhookId}/secret', { params: { path: { projectId, webhookId } } })
+  );
 
-export const createProject = (name: string) =>
-  request<Project>('/projects', {
+export const pingWebhook = (projectId: number, webhookId: number) =>
+  unwrap(
+    client.POST('/projects/{projectId}/webhooks/{webhookId}/ping', { params: { path: { projectId, webhookId } } })
+  );
+
+export const listWebhookDeliveries = (projectId: number, webhookId: number, cursor?: string | null) =>
+  unwrap(
+    client.GET('/projects/{projectId}/webhooks/{webhookId}/deliveries', {
+      params: { path: { projectId, webhookId }, query: withoutBlanks({ cursor, limit: 10 }) }
+    })
+  );
+
+export const redeliverWebhook = (projectId: number, webhookId: number, deliveryId: number) =>
+  unwrap(
+    client.POST('/projects/{projectId}/webhooks/{webhookId}/deliveries/{deliveryId}/redeliver', {
+      params: { path: { projectId, webhookId, deliveryId } }
+    })
+  );
+
+export type AssetSize = keyof Schemas['AssetSizes'];
+
+export type PexelsPhoto = Schemas['PexelsPhoto'];
+
+export type PexelsSearchResult = Schemas['PexelsSearchResult'];
+
+// Uploaded files come with signed URLs that expire (an hour by default);
+// reload the library for fresh ones.
+export type ProjectAsset = Schemas['ProjectAsset'];
+
+export const UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif'];
+
+export const searchPexels = (query: string, page = 1, perPage = 12, init?: RequestInit) =>
+  unwrap(client.GET('/media/pexels', { params: { query: { query, page, per_page: perPage } }, signal: init?.signal }));
+
+export const listAssets = (projectId: number, tag?: string) =>
+  unwrap(
+    client.GET('/projects/{projectId}/assets', { params: { path: { projectId }, query: withoutBlanks({ tag }) } })
+  );
+
+export const addPexelsAsset = (projectId: number, pexelsId: number, tags: string[] = []) =>
+  unwrap(client.POST('/projects/{projectId}/assets', { params: { path: { projectId } }, body: { pexelsId, tags } }));
+
+// Multipart upload; the browser sets the Content-Type boundary itself.
+export const uploadAsset = async (projectId: number, file: File, tags: string[] = []) => {
+  const form = new FormData();
+  form.set('file', file);
+  if (tags.length > 0) {
+    form.set('tags', tags.join(','));
+  }
+  const response = await fetch(buildUrl(`/projects/${projectId}/assets`), {
     method: 'POST',
-    body: JSON.stringify({ name })
+    headers: authHeaders(),
+    body: form
   });
+  if (!response.ok) {
+    throw await readApiError(response);
+  }
+  return (await response.json()) as ProjectAsset;
+};
 
-export const updateProject = (id: number, payload: Partial<Pick<Project, 'name'>>) =>
-  request<Project>(`/projects/${id}`, {
-    method: 'PATCH',
-    body: JSON.stringify(payload)
-  });
+export const updateAssetTags = (projectId: number, assetId: number, tags: string[]) =>
+  unwrap(
+    client.PATCH('/projects/{projectId}/assets/{assetId}', {
+      params: { path: { projectId, assetId } },
+      body: { tags }
+    })
+  );
+
+export const deleteAsset = (projectId: number, assetId: number) =>
+  unwrap(client.DELETE('/projects/{projectId}/assets/{assetId}', { params: { path: { projectId, assetId } } }));
+
+export type SectionType = Schemas['SectionType'];
+
+export type HeroData = Schemas['HeroData'];
+
+export type RichTextData = Schemas['RichTextData'];
+
+export type GalleryImage = Schemas['GalleryImage'];
+
+export type ImageGalleryData = Schemas['ImageGalleryData'];
+
+export type CallToActionData = Schemas['CallToActionData'];
+
+export interface SectionDataByType {
+  hero: HeroData;
+  rich_text: RichTextData;
+  image_gallery: ImageGalleryData;
+  call_to_action: CallToActionData;
+}
+
+export type SectionData = Schemas['SectionData'];
+
+export type Section = Schemas['Section'];
+
+export type SitePage = Schemas['SitePage'];
+
+export type SitePageWithSections = Schemas['SitePageWithSections'];
+
+export const getProject = (id: number) => unwrap(client.GET('/projects/{id}', { params: { path: { id } } }));
+
+export const listPages = (projectId: number) =>
+  unwrap(client.GET('/projects/{projectId}/pages', { params: { path: { projectId } } }));
+
+export const getPage = (projectId: number, pageId: number) =>
+  unwrap(client.GET('/projects/{projectId}/pages/{pageId}', { params: { path: { projectId, pageId } } }));
+
+export const createPage = (projectId: number, payload: JsonBody<'/projects/{projectId}/pages', 'post'>) =>
+  unwrap(client.POST('/projects/{projectId}/pages', { params: { path: { projectId } }, body: payload }));
+
+export const updatePage = (
+  projectId: number,
+  pageId: number,
+  payload: JsonBody<'/projects/{projectId}/pages/{pageId}', 'patch'>
+) =>
+  unwrap(
+    client.PATCH('/projects/{projectId}/pages/{pageId}', { params: { path: { projectId, pageId } }, body: payload })
+  );
+
+export const deletePage = (projectId: number, pageId: number) =>
+  unwrap(client.DELETE('/projects/{projectId}/pages/{pageId}', { params: { path: { projectId, pageId } } }));
+
+export const reorderPages = (projectId: number, ids: number[]) =>
+  unwrap(client.PUT('/projects/{projectId}/pages/order', { params: { path: { projectId } }, body: { ids } }));
+
+export const createSection = <Type extends SectionType>(
+  projectId: number,
+  pageId: number,
+  type: Type,
+  data: SectionDataByType[Type]
+) =>
+  unwrap(
+    client.POST('/projects/{projectId}/pages/{pageId}/sections', {
+      params: { path: { projectId, pageId } },
+      body: { type, data } as JsonBody<'/projects/{projectId}/pages/{pageId}/sections', 'post'>
+    })
+  );
+
+export const updateSection = (projectId: number, pageId: number, sectionId: number, data: SectionData) =>
+  unwrap(
+    client.PATCH('/projects/{projectId}/pages/{pageId}/sections/{sectionId}', {
+      params: { path: { projectId, pageId, sectionId } },
+      body: { data }
+    })
+  );
+
+export const deleteSection = (projectId: number, pageId: number, sectionId: number) =>
+  unwrap(
+    client.DELETE('/projects/{projectId}/pages/{pageId}/sections/{sectionId}', {
+      params: { path: { projectId, pageId, sectionId } }
+    })
+  );
+
+export const reorderSections = (projectId: number, pageId: number, ids: number[]) =>
+  unwrap(
+    client.PUT('/projects/{projectId}/pages/{pageId}/sections/order', {
+      params: { path: { projectId, pageId } },
+      body: { ids }
+    })
+  );
 
-export const deleteProject = (id: number) =>
-  request<void>(`/projects/${id}`, {
-    method: 'DELETE'
+export type SiteBrief = JsonBody<'/projects/{projectId}/generate', 'post'>;
+
+export type GenerateSiteResult = Schemas['GeneratedSite'];
+
+export type GeneratedPageChange = GenerateSiteResult['pages'][number];
+
+export const generateSite = (projectId: number, brief: SiteBrief) =>
+  unwrap(client.POST('/projects/{projectId}/generate', { params: { path: { projectId } }, body: brief }));
+
+export type AiProvider = Schemas['ProviderName'];
+
+export type CompletionPayload = Omit<JsonBody<'/ai/complete', 'post'>, 'stream'>;
+
+export type CompletionUsage = Schemas['Usage'];
+
+export type CompletionResult = Schemas['CompletionResult'];
+
+export type StreamOptions = {
+  onDelta?: (text: string, soFar: string) => void;
+  signal?: AbortSignal;
+};
+
+export type StreamCompletionOptions = StreamOptions & {
+  // "gemini" only changes the provider tried first.
+  endpoint?: 'complete' | 'gemini';
+};
+
+// POSTs `payload` with `stream: true` and reads the SSE reply, calling `onDelta` as
+// text arrives. Resolves with the full text once the final "done" event is received;
+// aborting `signal` closes the connection, which also cancels the upstream model call.
+const streamSse = async (
+  path: string,
+  payload: object,
+  { onDelta, signal }: StreamOptions
+): Promise<CompletionResult> => {
+  const response = await fetch(buildUrl(path), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ ...payload, stream: true }),
+    signal
   });
+  if (!response.ok || !response.body) {
+    throw await readApiError(response);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+
+  const handleEvent = (block: string): CompletionResult | null => {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trim());
+      }
+    }
+    const payload = data.length > 0 ? JSON.parse(data.join('\n')) : {};
+    if (event === 'delta') {
+      text += payload.text;
+      onDelta?.(payload.text, text);
+    } else if (event === 'error') {
+      // The envelope of a failure after the stream started.
+      throw new ApiError(502, payload);
+    } else if (event === 'done') {
+      return { ...payload, text };
+    }
+    return null;
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += value;
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+    for (const block of blocks) {
+      const result = handleEvent(block);
+      if (result) {
+        await reader.cancel();
+        return result;
+      }
+    }
+  }
+
+  throw new ApiError(502, { code: 'upstream_error', message: 'stream ended before completion', requestId: null });
+};
+
+// Streams /ai/complete (or /ai/gemini); see streamSse.
+export const streamCompletion = (
+  payload: CompletionPayload,
+  { endpoint = 'complete', ...options }: StreamCompletionOptions = {}
+) => streamSse(`/ai/${endpoint}`, payload, options);
+
+export type PromptVariable = Schemas['PromptVariable'];
+
+export type PromptTemplate = Schemas['PromptTemplate'];
+
+export type PromptTemplateInput = JsonBody<'/projects/{projectId}/prompts', 'post'>;
+
+export type PromptTemplateVersion = Schemas['PromptTemplateVersion'];
+
+export type RunPromptPayload = Omit<JsonBody<'/projects/{projectId}/prompts/{templateId}/run', 'post'>, 'stream'>;
+
+export const listPromptTemplates = (projectId: number) =>
+  unwrap(client.GET('/projects/{projectId}/prompts', { params: { path: { projectId } } }));
+
+export const createPromptTemplate = (projectId: number, payload: PromptTemplateInput) =>
+  unwrap(client.POST('/projects/{projectId}/prompts', { params: { path: { projectId } }, body: payload }));
+
+export const updatePromptTemplate = (
+  projectId: number,
+  templateId: number,
+  payload: JsonBody<'/projects/{projectId}/prompts/{templateId}', 'patch'>
+) =>
+  unwrap(
+    client.PATCH('/projects/{projectId}/prompts/{templateId}', {
+      params: { path: { projectId, templateId } },
+      body: payload
+    })
+  );
+
+export const deletePromptTemplate = (projectId: number, templateId: number) =>
+  unwrap(client.DELETE('/projects/{projectId}/prompts/{templateId}', { params: { path: { projectId, templateId } } }));
+
+export const listPromptTemplateVersions = (projectId: number, templateId: number) =>
+  unwrap(
+    client.GET('/projects/{projectId}/prompts/{templateId}/versions', { params: { path: { projectId, templateId } } })
+  );
+
+// Renders and runs a template, streaming the answer; see streamSse.
+export const runPromptTemplate = (
+  projectId: number,
+  templateId: number,
+  payload: RunPromptPayload,
+  options: StreamOptions = {}
+) => streamSse(`/projects/${projectId}/prompts/${templateId}/run`, payload, options);
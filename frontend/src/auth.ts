@@ -0,0 +1,82 @@
+// Browser side of authentication: the API only verifies bearer tokens, so the
+// session is just an access token in localStorage. Tokens come from Supabase
+// Auth (email and password) or are pasted in, e.g. from `npm run token` in api/.
+
+const TOKEN_KEY = 'sitef.accessToken';
+const RETURN_KEY = 'sitef.returnTo';
+
+export const LOGIN_HASH = '#/login';
+
+const supabaseUrl = (import.meta.env.VITE_SUPABASE_URL as string | undefined)?.replace(/\/$/, '');
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined;
+
+export const passwordLoginAvailable = Boolean(supabaseUrl && supabaseAnonKey);
+
+export const getToken = () => window.localStorage.getItem(TOKEN_KEY);
+
+export const setToken = (token: string) => window.localStorage.setItem(TOKEN_KEY, token);
+
+export const clearToken = () => window.localStorage.removeItem(TOKEN_KEY);
+
+// Claims are read without verification, only to label the UI; the API checks the signature.
+const readClaims = (token: string): Record<string, unknown> | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(window.atob(payload));
+  } catch {
+    return null;
+  }
+};
+
+export const isTokenExpired = (token: string) => {
+  const exp = readClaims(token)?.exp;
+  return typeof exp === 'number' && exp * 1000 <= Date.now();
+};
+
+export const describeUser = (token: string) => {
+  const claims = readClaims(token);
+  if (typeof claims?.email === 'string') {
+    return claims.email;
+  }
+  return typeof claims?.sub === 'string' ? claims.sub : 'signed in';
+};
+
+export const currentUserId = () => {
+  const token = getToken();
+  const sub = token ? readClaims(token)?.sub : undefined;
+  return typeof sub === 'string' ? sub : null;
+};
+
+// Drops the session and opens the login screen, remembering the current page.
+export const redirectToLogin = () => {
+  clearToken();
+  if (window.location.hash !== LOGIN_HASH) {
+    window.sessionStorage.setItem(RETURN_KEY, window.location.hash);
+    window.location.hash = LOGIN_HASH;
+  }
+};
+
+// Where to go after signing in.
+export const takeReturnHash = () => {
+  const hash = window.sessionStorage.getItem(RETURN_KEY);
+  window.sessionStorage.removeItem(RETURN_KEY);
+  return hash && hash !== LOGIN_HASH ? hash : '#/';
+};
+
+// Supabase Auth password grant; resolves with the access token.
+export const signInWithPassword = async (email: string, password: string) => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Password sign-in is not configured.');
+  }
+  const response = await fetch(`${supabaseUrl}/auth/v1/token?grant_type=password`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', apikey: supabaseAnonKey },
+    body: JSON.stringify({ email, password })
+  });
+  const body = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  if (!response.ok || typeof body.access_token !== 'string') {
+    const reason = body.error_description ?? body.msg ?? body.message;
+    throw new Error(typeof reason === 'string' ? reason : 'Sign-in failed.');
+  }
+  return body.access_token;
+};
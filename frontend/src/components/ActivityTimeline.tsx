@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ACTIVITY_ACTIONS, describeError, listActivity, type ActivityAction, type ActivityEntry } from '../api';
+import { currentUserId } from '../auth';
+
+type ActivityTimelineProps = {
+  projectId: number;
+};
+
+const PAGE_SIZE = 25;
+const inputStyle = { padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return '…';
+  const text = String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+// "name: Old → New" for updates, otherwise the name of what was added or removed.
+const summarise = ({ before, after }: ActivityEntry) => {
+  if (isRecord(before) && isRecord(after)) {
+    return Object.keys(after)
+      .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map((key) => `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`)
+      .join(', ');
+  }
+  const subject = isRecord(after) ? after : isRecord(before) ? before : null;
+  const label = subject?.title ?? subject?.name ?? subject?.email ?? subject?.file_name ?? subject?.url;
+  return typeof label === 'string' ? label : '';
+};
+
+// Newest changes first, filterable by action and day.
+const ActivityTimeline = ({ projectId }: ActivityTimelineProps) => {
+  const me = currentUserId();
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [action, setAction] = useState<ActivityAction | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (cursor: string | null) => {
+      try {
+        setLoading(true);
+        setError(null);
+        const page = await listActivity(projectId, { action, from, to, cursor, limit: PAGE_SIZE });
+        setEntries((prev) => (cursor ? [...prev, ...page.items] : page.items));
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        console.error(err);
+        setError(describeError(err, 'Failed to load activity.'));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [projectId, action, from, to]
+  );
+
+  useEffect(() => {
+    void load(null);
+  }, [load]);
+
+  return (
+    <section style={{ marginTop: '2rem' }}>
+      <h3 style={{ margin: 0 }}>Activity</h3>
+
+      <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', margin: '0.75rem 0' }}>
+        <select
+          value={action}
+          onChange={(event) => setAction(event.target.value as ActivityAction | '')}
+          aria-label="Filter by action"
+          style={inputStyle}
+        >
+          <option value="">All actions</option>
+          {ACTIVITY_ACTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={(event) => setFrom(event.target.value)}
+          aria-label="From day"
+          style={inputStyle}
+        />
+        <input
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={(event) => setTo(event.target.value)}
+          aria-label="To day"
+          style={inputStyle}
+        />
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          style={{ backgroundColor: '#fee2e2', color: '#b91c1c', padding: '0.5rem 0.75rem', borderRadius: '0.5rem' }}
+        >
+          {error}
+        </div>
+      )}
+
+      {!loading && entries.length === 0 && !error && <p>No activity yet.</p>}
+
+      <ol style={{ listStyle: 'none', padding: 0, margin: 0, borderLeft: '2px solid #e5e7eb' }}>
+        {entries.map((entry) => {
+          const summary = summarise(entry);
+          return (
+            <li key={entry.id} style={{ padding: '0.35rem 0 0.35rem 1rem', position: 'relative' }}>
+              <span
+                aria-hidden
+                style={{
+                  position: 'absolute',
+                  left: '-5px',
+                  top: '0.75rem',
+                  width: '8px',
+                  height: '8px',
+                  borderRadius: '50%',
+                  backgroundColor: '#6b7280'
+                }}
+              />
+              <div style={{ fontSize: '0.8rem', color: '#6b7280' }}>
+                {new Date(entry.created_at).toLocaleString()} ·{' '}
+                {entry.actor_id === null ? 'system' : entry.actor_id === me ? 'you' : entry.actor_id}
+              </div>
+              <div>
+                <code>{entry.action}</code>
+                {summary && <span style={{ color: '#374151' }}> {summary}</span>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {loading && <p>Loading activity...</p>}
+      {!loading && nextCursor && (
+        <button type="button" onClick={() => void load(nextCursor)} style={{ marginTop: '0.5rem' }}>
+          Load more
+        </button>
+      )}
+    </section>
+  );
+};
+
+export default ActivityTimeline;
@@ -0,0 +1,109 @@
+import { FormEvent, useState } from 'react';
+import type { SiteBrief } from '../api';
+
+type GenerateSiteFormProps = {
+  onSubmit: (brief: SiteBrief) => Promise<void> | void;
+  submitting: boolean;
+};
+
+const inputStyle = { width: '100%', padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+
+const GenerateSiteForm = ({ onSubmit, submitting }: GenerateSiteFormProps) => {
+  const [description, setDescription] = useState('');
+  const [audience, setAudience] = useState('');
+  const [tone, setTone] = useState('');
+  const [pages, setPages] = useState('Home, About, Contact');
+  const [replace, setReplace] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!description.trim()) {
+      return;
+    }
+    const titles = pages
+      .split(',')
+      .map((title) => title.trim())
+      .filter(Boolean);
+    await onSubmit({
+      description: description.trim(),
+      audience: audience.trim() || undefined,
+      tone: tone.trim() || undefined,
+      pages: titles.length > 0 ? titles : undefined,
+      replace
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', fontSize: '0.9rem' }}
+    >
+      <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+        <span>Business brief *</span>
+        <textarea
+          rows={3}
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          disabled={submitting}
+          style={inputStyle}
+        />
+      </label>
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <label style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+          <span>Audience</span>
+          <input
+            value={audience}
+            onChange={(event) => setAudience(event.target.value)}
+            disabled={submitting}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+          <span>Tone</span>
+          <input
+            value={tone}
+            onChange={(event) => setTone(event.target.value)}
+            disabled={submitting}
+            style={inputStyle}
+          />
+        </label>
+      </div>
+      <label style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+        <span>Pages (comma separated)</span>
+        <input
+          value={pages}
+          onChange={(event) => setPages(event.target.value)}
+          disabled={submitting}
+          style={inputStyle}
+        />
+      </label>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '0.35rem' }}>
+        <input
+          type="checkbox"
+          checked={replace}
+          onChange={(event) => setReplace(event.target.checked)}
+          disabled={submitting}
+        />
+        Replace the sections of pages that already exist
+      </label>
+      <div>
+        <button
+          type="submit"
+          disabled={submitting || !description.trim()}
+          style={{
+            padding: '0.4rem 0.9rem',
+            borderRadius: '0.5rem',
+            border: 'none',
+            backgroundColor: '#2563eb',
+            color: 'white',
+            cursor: submitting ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {submitting ? 'Generating...' : 'Generate'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default GenerateSiteForm;
@@ -0,0 +1,267 @@
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from 'react';
+import {
+  addPexelsAsset,
+  deleteAsset,
+  describeError,
+  listAssets,
+  updateAssetTags,
+  uploadAsset,
+  UPLOAD_TYPES,
+  type PexelsPhoto,
+  type ProjectAsset
+} from '../api';
+import MediaPicker from './MediaPicker';
+
+type MediaLibraryProps = {
+  projectId: number;
+  canEdit: boolean;
+};
+
+const cardStyle = { border: '1px solid #e5e7eb', borderRadius: '0.75rem', padding: '0.5rem' };
+
+const parseTags = (value: string) =>
+  value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+// The project's saved images, from Pexels or uploaded. Section forms take image
+// URLs, so each asset offers to copy its largest web size.
+const MediaLibrary = ({ projectId, canEdit }: MediaLibraryProps) => {
+  const [assets, setAssets] = useState<ProjectAsset[]>([]);
+  const [tag, setTag] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [picking, setPicking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const fetchAssets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setAssets(await listAssets(projectId, tag || undefined));
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load the media library.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, tag]);
+
+  useEffect(() => {
+    void fetchAssets();
+  }, [fetchAssets]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = (photo: PexelsPhoto) =>
+    run(async () => {
+      if (photo.id === undefined) {
+        return;
+      }
+      const asset = await addPexelsAsset(projectId, photo.id, tag ? [tag] : []);
+      setAssets((prev) => [asset, ...prev]);
+    }, 'Unable to add the photo.');
+
+  const handleUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+    void run(async () => {
+      for (const file of files) {
+        const asset = await uploadAsset(projectId, file, tag ? [tag] : []);
+        setAssets((prev) => [asset, ...prev]);
+      }
+    }, 'Unable to upload the file.');
+  };
+
+  const handleEditTags = (asset: ProjectAsset) => {
+    const value = window.prompt('Tags (comma-separated)', asset.tags.join(', '));
+    if (value === null) {
+      return;
+    }
+    void run(async () => {
+      const updated = await updateAssetTags(projectId, asset.id, parseTags(value));
+      setAssets((prev) =>
+        tag && !updated.tags.includes(tag)
+          ? prev.filter((item) => item.id !== updated.id)
+          : prev.map((item) => (item.id === updated.id ? updated : item))
+      );
+    }, 'Unable to update tags.');
+  };
+
+  const handleDelete = (asset: ProjectAsset) => {
+    if (
+      !window.confirm(
+        asset.source === 'upload'
+          ? 'Delete this upload? Sections that use it will lose the image.'
+          : 'Remove this image from the library? Sections that use it keep working.'
+      )
+    ) {
+      return;
+    }
+    void run(async () => {
+      await deleteAsset(projectId, asset.id);
+      setAssets((prev) => prev.filter((item) => item.id !== asset.id));
+    }, 'Unable to remove the image.');
+  };
+
+  const handleCopy = async (asset: ProjectAsset) => {
+    const url = asset.sizes.large ?? asset.sizes.medium ?? asset.sizes.original;
+    if (!url) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice('Image URL copied.');
+    } catch {
+      window.prompt('Copy the image URL', url);
+    }
+  };
+
+  const knownTags = [...new Set(assets.flatMap((asset) => asset.tags))].sort();
+
+  return (
+    <section style={{ marginTop: '2rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem' }}>
+        <h3 style={{ margin: 0 }}>Media library</h3>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <input
+            type="search"
+            value={tag}
+            onChange={(event) => setTag(event.target.value.trim().toLowerCase())}
+            placeholder="Filter by tag"
+            aria-label="Filter by tag"
+            list={`asset-tags-${projectId}`}
+            style={{ padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' }}
+          />
+          <datalist id={`asset-tags-${projectId}`}>
+            {knownTags.map((value) => (
+              <option key={value} value={value} />
+            ))}
+          </datalist>
+          {canEdit && (
+            <>
+              <input
+                ref={fileInput}
+                type="file"
+                accept={UPLOAD_TYPES.join(',')}
+                multiple
+                onChange={handleUpload}
+                style={{ display: 'none' }}
+              />
+              <button type="button" onClick={() => fileInput.current?.click()} disabled={busy}>
+                Upload
+              </button>
+            </>
+          )}
+          {canEdit && (
+            <button type="button" onClick={() => setPicking((value) => !value)}>
+              {picking ? 'Done' : 'Add from Pexels'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p role="alert" style={{ color: '#b91c1c' }}>
+          {error}
+        </p>
+      )}
+      {notice && <p style={{ color: '#047857' }}>{notice}</p>}
+
+      {picking && (
+        <div style={{ marginTop: '0.75rem' }}>
+          <MediaPicker
+            savedIds={new Set(assets.map((asset) => asset.source_id))}
+            adding={busy}
+            onAdd={(photo) => void handleAdd(photo)}
+            onClose={() => setPicking(false)}
+          />
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading media...</p>
+      ) : assets.length === 0 ? (
+        <p>{tag ? `No images tagged "${tag}".` : 'No images yet.'}</p>
+      ) : (
+        <ul
+          style={{
+            listStyle: 'none',
+            padding: 0,
+            display: 'grid',
+            gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))',
+            gap: '0.75rem'
+          }}
+        >
+          {assets.map((asset) => (
+            <li key={asset.id} style={{ ...cardStyle, display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+              <img
+                src={asset.sizes.thumbnail ?? asset.sizes.medium ?? asset.sizes.small ?? asset.sizes.original}
+                alt={asset.alt}
+                style={{ width: '100%', aspectRatio: '4 / 3', objectFit: 'cover', borderRadius: '0.5rem' }}
+              />
+              {asset.source === 'upload' ? (
+                <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                  {asset.file_name}
+                  {asset.width && asset.height ? ` · ${asset.width}×${asset.height}` : ''}
+                </span>
+              ) : (
+                <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                  Photo by{' '}
+                  {asset.photographer_url ? (
+                    <a href={asset.photographer_url} target="_blank" rel="noreferrer">
+                      {asset.photographer ?? 'unknown'}
+                    </a>
+                  ) : (
+                    (asset.photographer ?? 'unknown')
+                  )}{' '}
+                  on{' '}
+                  <a href={asset.source_url ?? 'https://www.pexels.com'} target="_blank" rel="noreferrer">
+                    Pexels
+                  </a>
+                </span>
+              )}
+              {asset.tags.length > 0 && (
+                <span style={{ fontSize: '0.75rem' }}>{asset.tags.map((value) => `#${value}`).join(' ')}</span>
+              )}
+              <div style={{ display: 'flex', gap: '0.25rem', flexWrap: 'wrap' }}>
+                <button type="button" onClick={() => void handleCopy(asset)}>
+                  Copy URL
+                </button>
+                {canEdit && (
+                  <>
+                    <button type="button" onClick={() => handleEditTags(asset)} disabled={busy}>
+                      Tags
+                    </button>
+                    <button type="button" onClick={() => handleDelete(asset)} disabled={busy}>
+                      Remove
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default MediaLibrary;
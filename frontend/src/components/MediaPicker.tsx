@@ -0,0 +1,167 @@
+import { FormEvent, useState } from 'react';
+import { describeError, searchPexels, type PexelsPhoto, type PexelsSearchResult } from '../api';
+
+type MediaPickerProps = {
+  // Ids of Pexels photos already in the library.
+  savedIds: Set<string>;
+  adding: boolean;
+  onAdd: (photo: PexelsPhoto) => void;
+  onClose: () => void;
+};
+
+const PAGE_SIZES = [12, 24, 48];
+
+const inputStyle = { padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+
+// Searches Pexels page by page; picks are added to the project by the parent.
+const MediaPicker = ({ savedIds, adding, onAdd, onClose }: MediaPickerProps) => {
+  const [query, setQuery] = useState('');
+  const [perPage, setPerPage] = useState(PAGE_SIZES[0]);
+  const [result, setResult] = useState<PexelsSearchResult | null>(null);
+  const [searchedFor, setSearchedFor] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (term: string, page: number, size: number) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setResult(await searchPexels(term, page, size));
+      setSearchedFor(term);
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, 'Unable to search Pexels.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const term = query.trim();
+    if (term) {
+      void load(term, 1, perPage);
+    }
+  };
+
+  const handlePerPage = (size: number) => {
+    setPerPage(size);
+    if (searchedFor) {
+      void load(searchedFor, 1, size);
+    }
+  };
+
+  const lastPage = result ? Math.max(1, Math.ceil(result.total_results / result.per_page)) : 1;
+
+  return (
+    <div
+      style={{
+        border: '1px solid #e5e7eb',
+        borderRadius: '0.75rem',
+        padding: '0.75rem 1rem',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '0.75rem'
+      }}
+    >
+      <form onSubmit={handleSearch} style={{ display: 'flex', gap: '0.5rem' }}>
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search Pexels photos"
+          aria-label="Search Pexels photos"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <select
+          value={perPage}
+          onChange={(event) => handlePerPage(Number(event.target.value))}
+          aria-label="Results per page"
+          style={inputStyle}
+        >
+          {PAGE_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {size} per page
+            </option>
+          ))}
+        </select>
+        <button type="submit" disabled={loading || query.trim().length === 0}>
+          Search
+        </button>
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </form>
+
+      {error && (
+        <p role="alert" style={{ color: '#b91c1c', margin: 0 }}>
+          {error}
+        </p>
+      )}
+
+      {loading && <p style={{ margin: 0 }}>Searching...</p>}
+
+      {result && !loading && (
+        <>
+          {result.photos.length === 0 ? (
+            <p style={{ margin: 0 }}>No photos found for "{searchedFor}".</p>
+          ) : (
+            <ul
+              style={{
+                listStyle: 'none',
+                padding: 0,
+                margin: 0,
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))',
+                gap: '0.5rem'
+              }}
+            >
+              {result.photos.map((photo) => {
+                const saved = photo.id !== undefined && savedIds.has(String(photo.id));
+                return (
+                  <li key={photo.id} style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                    <img
+                      src={photo.src.small ?? photo.src.medium}
+                      alt={photo.alt ?? ''}
+                      style={{ width: '100%', aspectRatio: '4 / 3', objectFit: 'cover', borderRadius: '0.5rem' }}
+                    />
+                    <span style={{ fontSize: '0.75rem', color: '#6b7280' }}>
+                      {photo.photographer ? `Photo by ${photo.photographer}` : 'Unknown photographer'}
+                    </span>
+                    <button type="button" onClick={() => onAdd(photo)} disabled={adding || saved || !photo.id}>
+                      {saved ? 'In library' : 'Add'}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', fontSize: '0.85rem' }}>
+            <button
+              type="button"
+              onClick={() => void load(searchedFor, result.page - 1, perPage)}
+              disabled={result.page <= 1}
+            >
+              Previous
+            </button>
+            <span>
+              Page {result.page} of {lastPage} · {result.total_results} photos
+            </span>
+            <button
+              type="button"
+              onClick={() => void load(searchedFor, result.page + 1, perPage)}
+              disabled={result.page >= lastPage}
+            >
+              Next
+            </button>
+            <a href="https://www.pexels.com" target="_blank" rel="noreferrer" style={{ marginLeft: 'auto' }}>
+              Photos provided by Pexels
+            </a>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MediaPicker;
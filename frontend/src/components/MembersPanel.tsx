@@ -0,0 +1,250 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import {
+  createInvitation,
+  describeError,
+  listInvitations,
+  listMembers,
+  PROJECT_ROLES,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+  type ProjectInvitation,
+  type ProjectMember,
+  type ProjectRole
+} from '../api';
+import { currentUserId } from '../auth';
+
+type MembersPanelProps = {
+  projectId: number;
+  role: ProjectRole;
+  // Called after the signed-in user leaves the project.
+  onLeft: () => void;
+};
+
+const cardStyle = { border: '1px solid #e5e7eb', borderRadius: '0.75rem', padding: '0.75rem 1rem' };
+const inputStyle = { padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+
+// Everyone sees who has access; owners change roles, remove people and invite.
+const MembersPanel = ({ projectId, role, onLeft }: MembersPanelProps) => {
+  const isOwner = role === 'owner';
+  const me = currentUserId();
+  const [members, setMembers] = useState<ProjectMember[]>([]);
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('editor');
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [memberData, invitationData] = await Promise.all([
+        listMembers(projectId),
+        isOwner ? listInvitations(projectId) : Promise.resolve([])
+      ]);
+      setMembers(memberData);
+      setInvitations(invitationData);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load members.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, isOwner]);
+
+  useEffect(() => {
+    void fetchMembers();
+  }, [fetchMembers]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRoleChange = (member: ProjectMember, next: ProjectRole) =>
+    run(async () => {
+      const updated = await updateMemberRole(projectId, member.user_id, next);
+      setMembers((prev) => prev.map((item) => (item.user_id === updated.user_id ? updated : item)));
+    }, 'Unable to change role.');
+
+  const handleRemove = (member: ProjectMember) => {
+    const self = member.user_id === me;
+    const label = member.email ?? member.user_id;
+    if (!window.confirm(self ? 'Leave this project?' : `Remove ${label} from this project?`)) {
+      return;
+    }
+    void run(
+      async () => {
+        await removeMember(projectId, member.user_id);
+        if (self) {
+          onLeft();
+          return;
+        }
+        setMembers((prev) => prev.filter((item) => item.user_id !== member.user_id));
+      },
+      self ? 'Unable to leave the project.' : 'Unable to remove member.'
+    );
+  };
+
+  const handleInvite = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void run(async () => {
+      const created = await createInvitation(projectId, email.trim(), inviteRole);
+      setInvitations((prev) => [created.invitation, ...prev]);
+      setInviteLink(created.accept_url);
+      setEmail('');
+    }, 'Unable to send invitation.');
+  };
+
+  const handleRevoke = (invitation: ProjectInvitation) =>
+    run(async () => {
+      await revokeInvitation(projectId, invitation.id);
+      setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+    }, 'Unable to revoke invitation.');
+
+  return (
+    <section style={{ marginTop: '2rem' }}>
+      <h3 style={{ margin: 0 }}>Members</h3>
+
+      {error && (
+        <div
+          role="alert"
+          style={{
+            backgroundColor: '#fee2e2',
+            color: '#b91c1c',
+            padding: '0.5rem 0.75rem',
+            borderRadius: '0.5rem',
+            marginTop: '0.75rem'
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading members...</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+          {members.map((member) => (
+            <li
+              key={member.user_id}
+              style={{
+                ...cardStyle,
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '0.5rem'
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <strong>{member.email ?? member.user_id}</strong>
+                {member.user_id === me && <span style={{ color: '#6b7280' }}> (you)</span>}
+              </div>
+              <div style={{ display: 'flex', gap: '0.35rem', flexShrink: 0 }}>
+                {isOwner ? (
+                  <select
+                    value={member.role}
+                    onChange={(event) => void handleRoleChange(member, event.target.value as ProjectRole)}
+                    disabled={busy}
+                    aria-label={`Role of ${member.email ?? member.user_id}`}
+                    style={inputStyle}
+                  >
+                    {PROJECT_ROLES.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span style={{ color: '#6b7280' }}>{member.role}</span>
+                )}
+                {(isOwner || member.user_id === me) && (
+                  <button type="button" onClick={() => handleRemove(member)} disabled={busy}>
+                    {member.user_id === me ? 'Leave' : 'Remove'}
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isOwner && (
+        <div style={{ ...cardStyle, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          <form onSubmit={handleInvite} style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <input
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder="name@example.com"
+              aria-label="Email to invite"
+              required
+              disabled={busy}
+              style={{ ...inputStyle, flex: 1, minWidth: '200px' }}
+            />
+            <select
+              value={inviteRole}
+              onChange={(event) => setInviteRole(event.target.value as ProjectRole)}
+              disabled={busy}
+              aria-label="Role to invite as"
+              style={inputStyle}
+            >
+              {PROJECT_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+            <button type="submit" disabled={busy || email.trim().length === 0}>
+              Invite
+            </button>
+          </form>
+
+          {inviteLink && (
+            <p style={{ margin: 0, fontSize: '0.85rem' }}>
+              Share this link with the invitee (it is only shown once):{' '}
+              <input
+                readOnly
+                value={inviteLink}
+                onFocus={(event) => event.target.select()}
+                style={{ ...inputStyle, width: '100%' }}
+              />
+            </p>
+          )}
+
+          {invitations.length > 0 && (
+            <ul style={{ paddingLeft: '1.25rem', margin: 0 }}>
+              {invitations.map((invitation) => {
+                const expired = new Date(invitation.expires_at).getTime() <= Date.now();
+                return (
+                  <li key={invitation.id} style={{ marginBottom: '0.25rem' }}>
+                    {invitation.email} as {invitation.role} ·{' '}
+                    <span style={{ color: expired ? '#b91c1c' : '#6b7280' }}>
+                      {expired ? 'expired' : `expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                    </span>{' '}
+                    <button type="button" onClick={() => void handleRevoke(invitation)} disabled={busy}>
+                      Revoke
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default MembersPanel;
@@ -1,75 +1,195 @@
-import type { Project } from '../api';
+import { type CSSProperties, useEffect, useRef } from 'react';
+import type { Project, ProjectStatus } from '../api';
 
 type ProjectListProps = {
   projects: Project[];
+  view: 'active' | 'trash';
   onRename: (project: Project) => Promise<void> | void;
+  onEditDescription: (project: Project) => Promise<void> | void;
+  onStatusChange: (project: Project, status: ProjectStatus) => Promise<void> | void;
   onDelete: (project: Project) => Promise<void> | void;
+  onRestore: (project: Project) => Promise<void> | void;
+  onPurge: (project: Project) => Promise<void> | void;
   pendingId: number | null;
+  searching: boolean;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
 };
 
-const ProjectList = ({ projects, onRename, onDelete, pendingId }: ProjectListProps) => {
+// Mirrors the transitions the API accepts (see api/src/domain/projects.ts).
+const NEXT_STATUSES: Record<ProjectStatus, ProjectStatus[]> = {
+  draft: ['published'],
+  published: ['draft', 'archived'],
+  archived: ['draft']
+};
+
+const STATUS_COLORS: Record<ProjectStatus, { background: string; color: string }> = {
+  draft: { background: '#f3f4f6', color: '#374151' },
+  published: { background: '#dcfce7', color: '#166534' },
+  archived: { background: '#fef3c7', color: '#92400e' }
+};
+
+const outlineButton = (busy: boolean): CSSProperties => ({
+  padding: '0.35rem 0.75rem',
+  borderRadius: '0.5rem',
+  border: '1px solid #2563eb',
+  backgroundColor: busy ? '#bfdbfe' : 'white',
+  color: '#1d4ed8',
+  cursor: busy ? 'not-allowed' : 'pointer'
+});
+
+const dangerButton = (busy: boolean): CSSProperties => ({
+  padding: '0.35rem 0.75rem',
+  borderRadius: '0.5rem',
+  border: '1px solid #dc2626',
+  backgroundColor: busy ? '#fecaca' : '#dc2626',
+  color: 'white',
+  cursor: busy ? 'not-allowed' : 'pointer'
+});
+
+const ProjectList = ({
+  projects,
+  view,
+  onRename,
+  onEditDescription,
+  onStatusChange,
+  onDelete,
+  onRestore,
+  onPurge,
+  pendingId,
+  searching,
+  hasMore,
+  loadingMore,
+  onLoadMore
+}: ProjectListProps) => {
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  // Fetch the next page as soon as the end of the list scrolls into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore) {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore]);
+
   if (projects.length === 0) {
-    return <p>No projects yet. Create your first project above.</p>;
+    if (view === 'trash') {
+      return <p>The trash is empty.</p>;
+    }
+    return <p>{searching ? 'No projects match your search.' : 'No projects yet. Create your first project above.'}</p>;
   }
 
   return (
-    <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
-      {projects.map((project) => {
-        const busy = pendingId === project.id;
-        return (
-          <li
-            key={project.id}
-            style={{
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'space-between',
-              border: '1px solid #e5e7eb',
-              borderRadius: '0.75rem',
-              padding: '0.75rem 1rem'
-            }}
-          >
-            <div>
-              <strong>{project.name}</strong>
-              <div style={{ fontSize: '0.85rem', color: '#6b7280' }}>
-                Updated {new Date(project.updated_at).toLocaleString()}
+    <>
+      <ul
+        style={{ listStyle: 'none', padding: 0, margin: 0, display: 'flex', flexDirection: 'column', gap: '0.75rem' }}
+      >
+        {projects.map((project) => {
+          const busy = pendingId === project.id;
+          return (
+            <li
+              key={project.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                gap: '1rem',
+                border: '1px solid #e5e7eb',
+                borderRadius: '0.75rem',
+                padding: '0.75rem 1rem'
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                  <strong>
+                    {project.deleted_at ? (
+                      project.name
+                    ) : (
+                      <a href={`#/projects/${project.id}`} style={{ color: 'inherit' }}>
+                        {project.name}
+                      </a>
+                    )}
+                  </strong>
+                  <span
+                    style={{
+                      ...STATUS_COLORS[project.status],
+                      fontSize: '0.75rem',
+                      padding: '0.1rem 0.5rem',
+                      borderRadius: '999px'
+                    }}
+                  >
+                    {project.status}
+                  </span>
+                </div>
+                <div style={{ fontSize: '0.85rem', color: '#6b7280' }}>/{project.slug}</div>
+                {project.description && (
+                  <p style={{ margin: '0.25rem 0', fontSize: '0.9rem' }}>{project.description}</p>
+                )}
+                <div style={{ fontSize: '0.85rem', color: '#6b7280' }}>
+                  {view === 'trash' && project.deleted_at
+                    ? `Deleted ${new Date(project.deleted_at).toLocaleString()}`
+                    : `Updated ${new Date(project.updated_at).toLocaleString()}`}
+                </div>
               </div>
-            </div>
-            <div style={{ display: 'flex', gap: '0.5rem' }}>
-              <button
-                type="button"
-                onClick={() => onRename(project)}
-                disabled={busy}
-                style={{
-                  padding: '0.35rem 0.75rem',
-                  borderRadius: '0.5rem',
-                  border: '1px solid #2563eb',
-                  backgroundColor: busy ? '#bfdbfe' : 'white',
-                  color: '#1d4ed8',
-                  cursor: busy ? 'not-allowed' : 'pointer'
-                }}
-              >
-                Rename
-              </button>
-              <button
-                type="button"
-                onClick={() => onDelete(project)}
-                disabled={busy}
-                style={{
-                  padding: '0.35rem 0.75rem',
-                  borderRadius: '0.5rem',
-                  border: '1px solid #dc2626',
-                  backgroundColor: busy ? '#fecaca' : '#dc2626',
-                  color: 'white',
-                  cursor: busy ? 'not-allowed' : 'pointer'
-                }}
-              >
-                Delete
-              </button>
-            </div>
-          </li>
-        );
-      })}
-    </ul>
+              {view === 'trash' ? (
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <button type="button" onClick={() => onRestore(project)} disabled={busy} style={outlineButton(busy)}>
+                    Restore
+                  </button>
+                  <button type="button" onClick={() => onPurge(project)} disabled={busy} style={dangerButton(busy)}>
+                    Delete forever
+                  </button>
+                </div>
+              ) : (
+                <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                  <select
+                    aria-label={`Status of ${project.name}`}
+                    value={project.status}
+                    disabled={busy}
+                    onChange={(event) => onStatusChange(project, event.target.value as ProjectStatus)}
+                    style={{ padding: '0.35rem', borderRadius: '0.5rem', border: '1px solid #ccc' }}
+                  >
+                    {[project.status, ...NEXT_STATUSES[project.status]].map((status) => (
+                      <option key={status} value={status}>
+                        {status}
+                      </option>
+                    ))}
+                  </select>
+                  <button type="button" onClick={() => onRename(project)} disabled={busy} style={outlineButton(busy)}>
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onEditDescription(project)}
+                    disabled={busy}
+                    style={outlineButton(busy)}
+                  >
+                    Describe
+                  </button>
+                  <button type="button" onClick={() => onDelete(project)} disabled={busy} style={dangerButton(busy)}>
+                    Delete
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <div ref={sentinelRef} style={{ padding: '1rem 0', textAlign: 'center', color: '#6b7280' }}>
+        {loadingMore ? 'Loading more...' : null}
+      </div>
+    </>
   );
 };
 
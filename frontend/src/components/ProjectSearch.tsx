@@ -0,0 +1,45 @@
+import type { ProjectSort } from '../api';
+
+type ProjectSearchProps = {
+  query: string;
+  sort: ProjectSort;
+  total: number | null;
+  onQueryChange: (query: string) => void;
+  onSortChange: (sort: ProjectSort) => void;
+};
+
+const SORT_LABELS: Record<ProjectSort, string> = {
+  created_at: 'Newest',
+  updated_at: 'Recently updated',
+  name: 'Name'
+};
+
+const ProjectSearch = ({ query, sort, total, onQueryChange, onSortChange }: ProjectSearchProps) => {
+  return (
+    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem' }}>
+      <input
+        aria-label="Search projects"
+        type="search"
+        value={query}
+        onChange={(event) => onQueryChange(event.target.value)}
+        placeholder="Search by name"
+        style={{ flex: 1, padding: '0.5rem 0.75rem', borderRadius: '0.5rem', border: '1px solid #ccc' }}
+      />
+      <select
+        aria-label="Sort projects"
+        value={sort}
+        onChange={(event) => onSortChange(event.target.value as ProjectSort)}
+        style={{ padding: '0.5rem', borderRadius: '0.5rem', border: '1px solid #ccc' }}
+      >
+        {(Object.keys(SORT_LABELS) as ProjectSort[]).map((value) => (
+          <option key={value} value={value}>
+            {SORT_LABELS[value]}
+          </option>
+        ))}
+      </select>
+      {total !== null && <span style={{ fontSize: '0.85rem', color: '#6b7280' }}>{total} total</span>}
+    </div>
+  );
+};
+
+export default ProjectSearch;
@@ -0,0 +1,191 @@
+import { FormEvent, useMemo, useState } from 'react';
+import type { AiProvider, PromptTemplate, PromptTemplateInput } from '../api';
+
+type PromptTemplateFormProps = {
+  initial: PromptTemplate | null;
+  saving: boolean;
+  onSave: (input: PromptTemplateInput) => Promise<void> | void;
+  onCancel: () => void;
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const inputStyle = { width: '100%', padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+const labelStyle = { display: 'flex', flexDirection: 'column' as const, gap: '0.25rem', flex: 1 };
+
+const PromptTemplateForm = ({ initial, saving, onSave, onCancel }: PromptTemplateFormProps) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [description, setDescription] = useState(initial?.description ?? '');
+  const [system, setSystem] = useState(initial?.system ?? '');
+  const [body, setBody] = useState(initial?.body ?? '');
+  const [provider, setProvider] = useState<AiProvider | ''>(initial?.provider ?? '');
+  const [model, setModel] = useState(initial?.model ?? '');
+  const [temperature, setTemperature] = useState(initial?.temperature?.toString() ?? '');
+  const [maxTokens, setMaxTokens] = useState(initial?.max_tokens?.toString() ?? '');
+  const [defaults, setDefaults] = useState<Record<string, string>>(() =>
+    Object.fromEntries((initial?.variables ?? []).map((variable) => [variable.name, variable.default ?? '']))
+  );
+
+  // Variables follow the placeholders currently used in the system prompt and body.
+  const variableNames = useMemo(
+    () => [...new Set([...`${system}\n${body}`.matchAll(PLACEHOLDER)].map((match) => match[1]))],
+    [system, body]
+  );
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!name.trim() || !body.trim()) {
+      return;
+    }
+    await onSave({
+      name: name.trim(),
+      description: description.trim(),
+      system: system.trim() || null,
+      body,
+      variables: variableNames.map((variable) =>
+        defaults[variable] ? { name: variable, default: defaults[variable] } : { name: variable }
+      ),
+      provider: provider || null,
+      model: model.trim() || null,
+      temperature: temperature === '' ? null : Number(temperature),
+      max_tokens: maxTokens === '' ? null : Number(maxTokens)
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', fontSize: '0.9rem' }}
+    >
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <label style={labelStyle}>
+          <span>Name *</span>
+          <input value={name} onChange={(event) => setName(event.target.value)} disabled={saving} style={inputStyle} />
+        </label>
+        <label style={labelStyle}>
+          <span>Description</span>
+          <input
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            disabled={saving}
+            style={inputStyle}
+          />
+        </label>
+      </div>
+      <label style={labelStyle}>
+        <span>System prompt</span>
+        <textarea
+          rows={2}
+          value={system}
+          onChange={(event) => setSystem(event.target.value)}
+          disabled={saving}
+          style={inputStyle}
+        />
+      </label>
+      <label style={labelStyle}>
+        <span>Prompt * (use {'{{variable}}'} placeholders)</span>
+        <textarea
+          rows={5}
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          disabled={saving}
+          style={inputStyle}
+        />
+      </label>
+
+      {variableNames.length > 0 && (
+        <fieldset style={{ border: '1px solid #e5e7eb', borderRadius: '0.5rem', padding: '0.5rem' }}>
+          <legend>Variable defaults</legend>
+          {variableNames.map((variable) => (
+            <label
+              key={variable}
+              style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.35rem' }}
+            >
+              <code style={{ minWidth: '8rem' }}>{variable}</code>
+              <input
+                placeholder="required"
+                value={defaults[variable] ?? ''}
+                onChange={(event) => setDefaults((prev) => ({ ...prev, [variable]: event.target.value }))}
+                disabled={saving}
+                style={inputStyle}
+              />
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <label style={labelStyle}>
+          <span>Provider</span>
+          <select
+            value={provider}
+            onChange={(event) => setProvider(event.target.value as AiProvider | '')}
+            disabled={saving}
+            style={inputStyle}
+          >
+            <option value="">Default</option>
+            <option value="openai">OpenAI</option>
+            <option value="gemini">Gemini</option>
+            <option value="mock">Mock</option>
+          </select>
+        </label>
+        <label style={labelStyle}>
+          <span>Model</span>
+          <input
+            placeholder="provider default"
+            value={model}
+            onChange={(event) => setModel(event.target.value)}
+            disabled={saving}
+            style={inputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          <span>Temperature</span>
+          <input
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={temperature}
+            onChange={(event) => setTemperature(event.target.value)}
+            disabled={saving}
+            style={inputStyle}
+          />
+        </label>
+        <label style={labelStyle}>
+          <span>Max tokens</span>
+          <input
+            type="number"
+            min={1}
+            value={maxTokens}
+            onChange={(event) => setMaxTokens(event.target.value)}
+            disabled={saving}
+            style={inputStyle}
+          />
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button
+          type="submit"
+          disabled={saving || !name.trim() || !body.trim()}
+          style={{
+            padding: '0.4rem 0.9rem',
+            borderRadius: '0.5rem',
+            border: 'none',
+            backgroundColor: '#2563eb',
+            color: 'white',
+            cursor: saving ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button type="button" onClick={onCancel} disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PromptTemplateForm;
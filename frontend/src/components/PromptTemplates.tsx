@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createPromptTemplate,
+  deletePromptTemplate,
+  describeError,
+  listPromptTemplates,
+  listPromptTemplateVersions,
+  runPromptTemplate,
+  updatePromptTemplate,
+  type CompletionResult,
+  type PromptTemplate,
+  type PromptTemplateInput,
+  type PromptTemplateVersion
+} from '../api';
+import PromptTemplateForm from './PromptTemplateForm';
+
+type PromptTemplatesProps = {
+  projectId: number;
+};
+
+// What the panel below the list shows for the selected template.
+type Mode = { kind: 'create' } | { kind: 'edit' | 'run' | 'history'; template: PromptTemplate } | null;
+
+const cardStyle = { border: '1px solid #e5e7eb', borderRadius: '0.75rem', padding: '0.75rem 1rem' };
+const inputStyle = { width: '100%', padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+
+const PromptTemplates = ({ projectId }: PromptTemplatesProps) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [mode, setMode] = useState<Mode>(null);
+
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [runVersion, setRunVersion] = useState<number | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [output, setOutput] = useState('');
+  const [result, setResult] = useState<CompletionResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const runController = useRef<AbortController | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setTemplates(await listPromptTemplates(projectId));
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load prompt templates.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void fetchTemplates();
+  }, [fetchTemplates]);
+
+  useEffect(() => () => runController.current?.abort(), []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const replaceTemplate = (template: PromptTemplate) =>
+    setTemplates((prev) => prev.map((item) => (item.id === template.id ? template : item)));
+
+  const handleSave = (input: PromptTemplateInput) =>
+    run(async () => {
+      if (mode?.kind === 'edit') {
+        replaceTemplate(await updatePromptTemplate(projectId, mode.template.id, input));
+      } else {
+        const template = await createPromptTemplate(projectId, input);
+        setTemplates((prev) => [...prev, template].sort((a, b) => a.name.localeCompare(b.name)));
+      }
+      setMode(null);
+    }, 'Unable to save prompt template.');
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (!window.confirm(`Delete prompt template "${template.name}" and its history?`)) {
+      return;
+    }
+    void run(async () => {
+      await deletePromptTemplate(projectId, template.id);
+      setTemplates((prev) => prev.filter((item) => item.id !== template.id));
+      setMode(null);
+    }, 'Unable to delete prompt template.');
+  };
+
+  const openRun = (template: PromptTemplate, version: number | null = null) => {
+    setMode({ kind: 'run', template });
+    setRunVersion(version);
+    setValues({});
+    setOutput('');
+    setResult(null);
+  };
+
+  const openHistory = (template: PromptTemplate) =>
+    run(async () => {
+      setVersions(await listPromptTemplateVersions(projectId, template.id));
+      setMode({ kind: 'history', template });
+    }, 'Unable to load version history.');
+
+  const handleRun = async (template: PromptTemplate) => {
+    if (running) {
+      runController.current?.abort();
+      return;
+    }
+    const controller = new AbortController();
+    runController.current = controller;
+    const filled = Object.fromEntries(Object.entries(values).filter(([, value]) => value !== ''));
+    try {
+      setRunning(true);
+      setError(null);
+      setOutput('');
+      setResult(null);
+      const completion = await runPromptTemplate(
+        projectId,
+        template.id,
+        { variables: filled, version: runVersion ?? undefined },
+        { signal: controller.signal, onDelta: (_, soFar) => setOutput(soFar) }
+      );
+      setResult(completion);
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setError(describeError(err, 'Unable to run prompt template.'));
+      }
+    } finally {
+      setRunning(false);
+      runController.current = null;
+    }
+  };
+
+  const runVariables =
+    mode?.kind === 'run'
+      ? (runVersion !== null && versions.find((version) => version.version === runVersion)?.variables) ||
+        mode.template.variables
+      : [];
+
+  return (
+    <section style={{ marginTop: '2rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{ margin: 0 }}>Prompt templates</h3>
+        <button type="button" onClick={() => setMode({ kind: 'create' })} disabled={busy}>
+          New template
+        </button>
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          style={{
+            backgroundColor: '#fee2e2',
+            color: '#b91c1c',
+            padding: '0.5rem 0.75rem',
+            borderRadius: '0.5rem',
+            marginTop: '0.75rem'
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading prompt templates...</p>
+      ) : templates.length === 0 ? (
+        <p>No prompt templates yet.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+          {templates.map((template) => (
+            <li
+              key={template.id}
+              style={{
+                ...cardStyle,
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '0.5rem'
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <strong>{template.name}</strong>{' '}
+                <span style={{ color: '#6b7280', fontSize: '0.8rem' }}>
+                  v{template.version}
+                  {template.provider && ` · ${template.provider}`}
+                  {template.model && ` · ${template.model}`}
+                </span>
+                {template.description && (
+                  <div style={{ color: '#4b5563', fontSize: '0.85rem' }}>{template.description}</div>
+                )}
+              </div>
+              <div style={{ display: 'flex', gap: '0.35rem', flexShrink: 0 }}>
+                <button type="button" onClick={() => openRun(template)} disabled={busy}>
+                  Run
+                </button>
+                <button type="button" onClick={() => setMode({ kind: 'edit', template })} disabled={busy}>
+                  Edit
+                </button>
+                <button type="button" onClick={() => void openHistory(template)} disabled={busy}>
+                  History
+                </button>
+                <button type="button" onClick={() => handleDelete(template)} disabled={busy}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(mode?.kind === 'create' || mode?.kind === 'edit') && (
+        <div style={cardStyle}>
+          <PromptTemplateForm
+            key={mode.kind === 'edit' ? mode.template.id : 'new'}
+            initial={mode.kind === 'edit' ? mode.template : null}
+            saving={busy}
+            onSave={handleSave}
+            onCancel={() => setMode(null)}
+          />
+        </div>
+      )}
+
+      {mode?.kind === 'history' && (
+        <div style={cardStyle}>
+          <strong>History of {mode.template.name}</strong>
+          <ul style={{ paddingLeft: '1.25rem' }}>
+            {versions.map((version) => (
+              <li key={version.id} style={{ marginBottom: '0.5rem' }}>
+                v{version.version} · {new Date(version.created_at).toLocaleString()}{' '}
+                <button type="button" onClick={() => openRun(mode.template, version.version)}>
+                  Run this version
+                </button>
+                <pre style={{ whiteSpace: 'pre-wrap', fontSize: '0.8rem', color: '#4b5563', margin: '0.25rem 0 0' }}>
+                  {version.body}
+                </pre>
+              </li>
+            ))}
+          </ul>
+          <button type="button" onClick={() => setMode(null)}>
+            Close
+          </button>
+        </div>
+      )}
+
+      {mode?.kind === 'run' && (
+        <div style={{ ...cardStyle, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          <strong>
+            Run {mode.template.name} (v{runVersion ?? mode.template.version})
+          </strong>
+          {runVariables.map((variable) => (
+            <label
+              key={variable.name}
+              style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.9rem' }}
+            >
+              <code style={{ minWidth: '8rem' }}>{variable.name}</code>
+              <input
+                placeholder={variable.default ?? 'required'}
+                value={values[variable.name] ?? ''}
+                onChange={(event) => setValues((prev) => ({ ...prev, [variable.name]: event.target.value }))}
+                disabled={running}
+                style={inputStyle}
+              />
+            </label>
+          ))}
+          <div style={{ display: 'flex', gap: '0.5rem' }}>
+            <button type="button" onClick={() => void handleRun(mode.template)}>
+              {running ? 'Stop' : 'Run'}
+            </button>
+            <button type="button" onClick={() => setMode(null)} disabled={running}>
+              Close
+            </button>
+          </div>
+          {(output || running) && (
+            <pre
+              aria-live="polite"
+              style={{
+                whiteSpace: 'pre-wrap',
+                backgroundColor: '#f9fafb',
+                padding: '0.75rem',
+                borderRadius: '0.5rem',
+                margin: 0
+              }}
+            >
+              {output || '...'}
+            </pre>
+          )}
+          {result && (
+            <span style={{ color: '#6b7280', fontSize: '0.8rem' }}>
+              {result.provider} · {result.model}
+              {result.usage && ` · ${result.usage.totalTokens} tokens`} · {result.finishReason}
+            </span>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default PromptTemplates;
@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  describeError,
+  diffRevisions,
+  listRevisions,
+  restoreRevision,
+  type FieldChange,
+  type ProjectRevision,
+  type RevisionDiff
+} from '../api';
+
+type RevisionsPanelProps = {
+  projectId: number;
+  canEdit: boolean;
+  // Called after a restore so the page can reload the project's content.
+  onRestored: () => Promise<void>;
+};
+
+const cardStyle = { border: '1px solid #e5e7eb', borderRadius: '0.75rem', padding: '0.75rem 1rem' };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? '…' : `"${String(value)}"`;
+};
+
+const describeChanges = (prefix: string, changes: FieldChange[]) =>
+  changes.map(({ field, before, after }) => `${prefix} ${field}: ${formatValue(before)} → ${formatValue(after)}`);
+
+// One line per change, e.g. `Page "Home": 1 section(s) added, 2 changed`.
+const describeDiff = ({ changes }: RevisionDiff) => {
+  const lines = describeChanges('Project', changes.project);
+  for (const page of changes.pages.added) lines.push(`Page "${page.title}" added`);
+  for (const page of changes.pages.removed) lines.push(`Page "${page.title}" removed`);
+  for (const page of changes.pages.changed) {
+    lines.push(...describeChanges(`Page "${page.title}"`, page.changes));
+    const { added, removed, changed, reordered } = page.sections;
+    const parts = [
+      added.length > 0 && `${added.length} section(s) added`,
+      removed.length > 0 && `${removed.length} removed`,
+      changed.length > 0 && `${changed.length} changed`,
+      reordered && 'reordered'
+    ].filter(Boolean);
+    if (parts.length > 0) lines.push(`Page "${page.title}": ${parts.join(', ')}`);
+  }
+  if (changes.pages.reordered) lines.push('Pages reordered');
+  return lines;
+};
+
+// Every save is kept as a numbered revision; any of them can be compared with
+// the current content and restored.
+const RevisionsPanel = ({ projectId, canEdit, onRestored }: RevisionsPanelProps) => {
+  const [revisions, setRevisions] = useState<ProjectRevision[]>([]);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRevisions(await listRevisions(projectId));
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load revisions.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void fetchRevisions();
+  }, [fetchRevisions]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCompare = (revision: ProjectRevision) =>
+    run(async () => {
+      setDiff(await diffRevisions(projectId, revision.number));
+    }, 'Unable to compare revisions.');
+
+  const handleRestore = (revision: ProjectRevision) => {
+    if (!window.confirm(`Restore revision ${revision.number}? The current content is kept as a revision too.`)) {
+      return;
+    }
+    void run(async () => {
+      await restoreRevision(projectId, revision.number);
+      setDiff(null);
+      await onRestored();
+      await fetchRevisions();
+    }, 'Unable to restore the revision.');
+  };
+
+  const latest = revisions[0]?.number;
+  const diffLines = diff ? describeDiff(diff) : [];
+
+  return (
+    <section style={{ marginTop: '2rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{ margin: 0 }}>Revisions</h3>
+        <button type="button" onClick={() => void fetchRevisions()} disabled={loading || busy}>
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          style={{
+            backgroundColor: '#fee2e2',
+            color: '#b91c1c',
+            padding: '0.5rem 0.75rem',
+            borderRadius: '0.5rem',
+            marginTop: '0.75rem'
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {diff && (
+        <div style={{ ...cardStyle, marginTop: '0.75rem' }}>
+          <strong>
+            Changes from revision {diff.from} to {diff.to}
+          </strong>
+          {diffLines.length === 0 ? (
+            <p style={{ margin: '0.5rem 0 0' }}>No differences.</p>
+          ) : (
+            <ul style={{ margin: '0.5rem 0 0', paddingLeft: '1.25rem' }}>
+              {diffLines.map((line, index) => (
+                <li key={index}>{line}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading revisions...</p>
+      ) : revisions.length === 0 ? (
+        <p>No revisions yet.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: '0.35rem' }}>
+          {revisions.map((revision) => (
+            <li
+              key={revision.id}
+              style={{ ...cardStyle, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
+            >
+              <div>
+                <strong>#{revision.number}</strong> <code>{revision.action}</code>
+                <div style={{ fontSize: '0.8rem', color: '#6b7280' }}>
+                  {new Date(revision.created_at).toLocaleString()}
+                  {revision.number === latest && ' · current'}
+                </div>
+              </div>
+              {revision.number !== latest && (
+                <div style={{ display: 'flex', gap: '0.35rem' }}>
+                  <button type="button" onClick={() => void handleCompare(revision)} disabled={busy}>
+                    Compare
+                  </button>
+                  {canEdit && (
+                    <button type="button" onClick={() => handleRestore(revision)} disabled={busy}>
+                      Restore
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default RevisionsPanel;
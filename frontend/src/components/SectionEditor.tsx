@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createSection,
+  deleteSection,
+  describeError,
+  getPage,
+  reorderSections,
+  type Section,
+  type SectionData,
+  type SectionType,
+  updateSection
+} from '../api';
+import SectionForm from './SectionForm';
+
+type SectionEditorProps = {
+  projectId: number;
+  pageId: number;
+};
+
+const SECTION_LABELS: Record<SectionType, string> = {
+  hero: 'Hero',
+  rich_text: 'Rich text',
+  image_gallery: 'Image gallery',
+  call_to_action: 'Call to action'
+};
+
+const cardStyle = { border: '1px solid #e5e7eb', borderRadius: '0.75rem', padding: '0.75rem 1rem' };
+
+const SectionEditor = ({ projectId, pageId }: SectionEditorProps) => {
+  const [sections, setSections] = useState<Section[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draftType, setDraftType] = useState<SectionType | null>(null);
+  const [newType, setNewType] = useState<SectionType>('hero');
+
+  const fetchSections = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await getPage(projectId, pageId);
+      setSections(page.sections);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load sections.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, pageId]);
+
+  useEffect(() => {
+    setEditingId(null);
+    setDraftType(null);
+    void fetchSections();
+  }, [fetchSections]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = (data: SectionData) =>
+    run(async () => {
+      if (!draftType) {
+        return;
+      }
+      const section = await createSection(projectId, pageId, draftType, data);
+      setSections((prev) => [...prev, section]);
+      setDraftType(null);
+    }, 'Unable to add section.');
+
+  const handleUpdate = (section: Section, data: SectionData) =>
+    run(async () => {
+      const updated = await updateSection(projectId, pageId, section.id, data);
+      setSections((prev) => prev.map((item) => (item.id === section.id ? updated : item)));
+      setEditingId(null);
+    }, 'Unable to save section.');
+
+  const handleDelete = (section: Section) => {
+    if (!window.confirm(`Delete this ${SECTION_LABELS[section.type].toLowerCase()} section?`)) {
+      return;
+    }
+    void run(async () => {
+      await deleteSection(projectId, pageId, section.id);
+      setSections((prev) => prev.filter((item) => item.id !== section.id));
+    }, 'Unable to delete section.');
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= sections.length) {
+      return;
+    }
+    const ids = sections.map((section) => section.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    void run(async () => {
+      setSections(await reorderSections(projectId, pageId, ids));
+    }, 'Unable to reorder sections.');
+  };
+
+  if (loading) {
+    return <p>Loading sections...</p>;
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+      {error && (
+        <div
+          role="alert"
+          style={{ backgroundColor: '#fee2e2', color: '#b91c1c', padding: '0.5rem 0.75rem', borderRadius: '0.5rem' }}
+        >
+          {error}
+        </div>
+      )}
+
+      {sections.length === 0 && !draftType && <p>This page has no sections yet.</p>}
+
+      {sections.map((section, index) => (
+        <div key={section.id} style={cardStyle}>
+          <div
+            style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}
+          >
+            <strong>{SECTION_LABELS[section.type]}</strong>
+            <div style={{ display: 'flex', gap: '0.35rem' }}>
+              <button
+                type="button"
+                onClick={() => handleMove(index, -1)}
+                disabled={busy || index === 0}
+                aria-label="Move up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => handleMove(index, 1)}
+                disabled={busy || index === sections.length - 1}
+                aria-label="Move down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditingId(editingId === section.id ? null : section.id)}
+                disabled={busy}
+              >
+                {editingId === section.id ? 'Close' : 'Edit'}
+              </button>
+              <button type="button" onClick={() => handleDelete(section)} disabled={busy}>
+                Delete
+              </button>
+            </div>
+          </div>
+          {editingId === section.id ? (
+            <SectionForm
+              projectId={projectId}
+              type={section.type}
+              initialData={section.data}
+              saving={busy}
+              onSave={(data) => handleUpdate(section, data)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <p style={{ margin: 0, color: '#4b5563', fontSize: '0.9rem' }}>
+              {'heading' in section.data && section.data.heading ? section.data.heading : 'Untitled section'}
+            </p>
+          )}
+        </div>
+      ))}
+
+      {draftType ? (
+        <div style={cardStyle}>
+          <strong style={{ display: 'block', marginBottom: '0.5rem' }}>
+            New {SECTION_LABELS[draftType].toLowerCase()}
+          </strong>
+          <SectionForm
+            projectId={projectId}
+            type={draftType}
+            initialData={null}
+            saving={busy}
+            onSave={handleCreate}
+            onCancel={() => setDraftType(null)}
+          />
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <select
+            aria-label="Section type"
+            value={newType}
+            onChange={(event) => setNewType(event.target.value as SectionType)}
+            style={{ padding: '0.4rem', borderRadius: '0.5rem', border: '1px solid #ccc' }}
+          >
+            {(Object.keys(SECTION_LABELS) as SectionType[]).map((type) => (
+              <option key={type} value={type}>
+                {SECTION_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={() => setDraftType(newType)} disabled={busy}>
+            Add section
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SectionEditor;
@@ -0,0 +1,209 @@
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { describeError, streamCompletion, type GalleryImage, type SectionData, type SectionType } from '../api';
+
+type SectionFormProps = {
+  // Drafts are billed to this project's AI quota.
+  projectId: number;
+  type: SectionType;
+  initialData: Partial<SectionData> | null;
+  saving: boolean;
+  onSave: (data: SectionData) => Promise<void> | void;
+  onCancel?: () => void;
+};
+
+type FieldSpec = { name: string; label: string; multiline?: boolean; required?: boolean };
+
+// Text fields per section type; galleries add an image list on top.
+const FIELDS: Record<SectionType, FieldSpec[]> = {
+  hero: [
+    { name: 'heading', label: 'Heading', required: true },
+    { name: 'subheading', label: 'Subheading', multiline: true },
+    { name: 'imageUrl', label: 'Image URL' },
+    { name: 'ctaLabel', label: 'Button label' },
+    { name: 'ctaHref', label: 'Button link' }
+  ],
+  rich_text: [
+    { name: 'heading', label: 'Heading' },
+    { name: 'body', label: 'Body', multiline: true, required: true }
+  ],
+  image_gallery: [{ name: 'heading', label: 'Heading' }],
+  call_to_action: [
+    { name: 'heading', label: 'Heading', required: true },
+    { name: 'body', label: 'Body', multiline: true },
+    { name: 'buttonLabel', label: 'Button label', required: true },
+    { name: 'buttonHref', label: 'Button link', required: true }
+  ]
+};
+
+const inputStyle = { width: '100%', padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+
+const SectionForm = ({ projectId, type, initialData, saving, onSave, onCancel }: SectionFormProps) => {
+  const [values, setValues] = useState<Record<string, string>>(() => {
+    const data = (initialData ?? {}) as Record<string, unknown>;
+    return Object.fromEntries(FIELDS[type].map(({ name }) => [name, typeof data[name] === 'string' ? data[name] : '']));
+  });
+  const [images, setImages] = useState<GalleryImage[]>(() => {
+    const existing = (initialData as { images?: GalleryImage[] } | null)?.images;
+    return existing && existing.length > 0 ? existing : [{ url: '' }];
+  });
+
+  const [drafting, setDrafting] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const draftController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => draftController.current?.abort(), []);
+
+  // Streams a body text for the current heading into the form as it is generated.
+  const handleDraft = async () => {
+    if (drafting) {
+      draftController.current?.abort();
+      return;
+    }
+    const controller = new AbortController();
+    draftController.current = controller;
+    const topic = values.heading?.trim() || 'our business';
+    try {
+      setDrafting(true);
+      setDraftError(null);
+      setValues((prev) => ({ ...prev, body: '' }));
+      await streamCompletion(
+        {
+          prompt: `Write the body text of a website section titled "${topic}".`,
+          system: 'You write concise, friendly website copy. Reply with plain text only.',
+          maxTokens: 400,
+          projectId
+        },
+        {
+          signal: controller.signal,
+          onDelta: (_, soFar) => setValues((prev) => ({ ...prev, body: soFar }))
+        }
+      );
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setDraftError(describeError(err, 'Unable to draft text.'));
+      }
+    } finally {
+      setDrafting(false);
+      draftController.current = null;
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const data: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(values)) {
+      if (value.trim()) {
+        data[name] = value.trim();
+      }
+    }
+    if (type === 'image_gallery') {
+      data.images = images.filter((image) => image.url.trim());
+    }
+    await onSave(data as unknown as SectionData);
+  };
+
+  const updateImage = (index: number, patch: Partial<GalleryImage>) =>
+    setImages((prev) => prev.map((image, i) => (i === index ? { ...image, ...patch } : image)));
+
+  return (
+    <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      {FIELDS[type].map((field) => (
+        <label
+          key={field.name}
+          style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem', fontSize: '0.9rem' }}
+        >
+          <span>
+            {field.label}
+            {field.required && ' *'}
+          </span>
+          {field.multiline ? (
+            <textarea
+              rows={field.name === 'body' ? 5 : 2}
+              value={values[field.name]}
+              onChange={(event) => setValues((prev) => ({ ...prev, [field.name]: event.target.value }))}
+              disabled={saving || (drafting && field.name === 'body')}
+              style={inputStyle}
+            />
+          ) : (
+            <input
+              type="text"
+              value={values[field.name]}
+              onChange={(event) => setValues((prev) => ({ ...prev, [field.name]: event.target.value }))}
+              disabled={saving}
+              style={inputStyle}
+            />
+          )}
+          {field.name === 'body' && (
+            <span style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <button type="button" onClick={handleDraft} disabled={saving}>
+                {drafting ? 'Stop' : 'Draft with AI'}
+              </button>
+              {draftError && <span style={{ color: '#b91c1c' }}>{draftError}</span>}
+            </span>
+          )}
+        </label>
+      ))}
+
+      {type === 'image_gallery' && (
+        <fieldset style={{ border: '1px solid #e5e7eb', borderRadius: '0.5rem', padding: '0.5rem' }}>
+          <legend style={{ fontSize: '0.9rem' }}>Images *</legend>
+          {images.map((image, index) => (
+            <div key={index} style={{ display: 'flex', gap: '0.35rem', marginBottom: '0.35rem' }}>
+              <input
+                aria-label={`Image ${index + 1} URL`}
+                placeholder="https://..."
+                value={image.url}
+                onChange={(event) => updateImage(index, { url: event.target.value })}
+                disabled={saving}
+                style={{ ...inputStyle, flex: 2 }}
+              />
+              <input
+                aria-label={`Image ${index + 1} alt text`}
+                placeholder="Alt text"
+                value={image.alt ?? ''}
+                onChange={(event) => updateImage(index, { alt: event.target.value })}
+                disabled={saving}
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <button
+                type="button"
+                onClick={() => setImages((prev) => prev.filter((_, i) => i !== index))}
+                disabled={saving || images.length === 1}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button type="button" onClick={() => setImages((prev) => [...prev, { url: '' }])} disabled={saving}>
+            Add image
+          </button>
+        </fieldset>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <button
+          type="submit"
+          disabled={saving || drafting}
+          style={{
+            padding: '0.4rem 0.9rem',
+            borderRadius: '0.5rem',
+            border: 'none',
+            backgroundColor: '#2563eb',
+            color: 'white',
+            cursor: saving ? 'not-allowed' : 'pointer'
+          }}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} disabled={saving}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default SectionForm;
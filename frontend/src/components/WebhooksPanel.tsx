@@ -0,0 +1,310 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import {
+  createWebhook,
+  deleteWebhook,
+  describeError,
+  listWebhookDeliveries,
+  listWebhooks,
+  pingWebhook,
+  redeliverWebhook,
+  rotateWebhookSecret,
+  updateWebhook,
+  WEBHOOK_EVENTS,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookSubscription
+} from '../api';
+
+type WebhooksPanelProps = {
+  projectId: number;
+};
+
+const ALL_EVENTS: WebhookSubscription = '*';
+
+const cardStyle = { border: '1px solid #e5e7eb', borderRadius: '0.75rem', padding: '0.75rem 1rem' };
+const inputStyle = { padding: '0.4rem 0.6rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+
+const STATUS_COLORS: Record<WebhookDelivery['status'], string> = {
+  pending: '#92400e',
+  succeeded: '#166534',
+  failed: '#b91c1c'
+};
+
+const describeOutcome = (delivery: WebhookDelivery) => {
+  if (delivery.attempts === 0) return 'not sent yet';
+  const result = delivery.response_status !== null ? `HTTP ${delivery.response_status}` : delivery.error;
+  const retry =
+    delivery.status === 'pending' && delivery.next_attempt_at
+      ? `, retrying ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`
+      : '';
+  return `${result} after ${delivery.attempts} attempt(s)${retry}`;
+};
+
+// Owners point project events at their own endpoints (deploys, chat
+// notifications) and check what was sent in each webhook's delivery log.
+const WebhooksPanel = ({ projectId }: WebhooksPanelProps) => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookSubscription[]>(['project.updated', 'generation.completed']);
+  const [secret, setSecret] = useState<{ webhookId: number; value: string } | null>(null);
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setWebhooks(await listWebhooks(projectId));
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load webhooks.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadDeliveries = (webhookId: number, cursor: string | null) =>
+    run(async () => {
+      const page = await listWebhookDeliveries(projectId, webhookId, cursor);
+      setDeliveries((prev) => (cursor ? [...prev, ...page.items] : page.items));
+      setNextCursor(page.nextCursor);
+    }, 'Unable to load deliveries.');
+
+  const toggleEvent = (event: WebhookSubscription) =>
+    setEvents((prev) => (prev.includes(event) ? prev.filter((item) => item !== event) : [...prev, event]));
+
+  const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void run(async () => {
+      const created = await createWebhook(projectId, { url: url.trim(), events });
+      const { secret: value, ...webhook } = created;
+      setWebhooks((prev) => [...prev, webhook]);
+      setSecret({ webhookId: created.id, value });
+      setUrl('');
+    }, 'Unable to add the webhook.');
+  };
+
+  const handleToggle = (webhook: Webhook) =>
+    run(async () => {
+      const updated = await updateWebhook(projectId, webhook.id, { active: !webhook.active });
+      setWebhooks((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    }, 'Unable to update the webhook.');
+
+  const handleRotate = (webhook: Webhook) => {
+    if (!window.confirm('Replace the signing secret? The receiver must switch to the new one.')) {
+      return;
+    }
+    void run(async () => {
+      const { secret: value } = await rotateWebhookSecret(projectId, webhook.id);
+      setSecret({ webhookId: webhook.id, value });
+    }, 'Unable to rotate the secret.');
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url} and its delivery log?`)) {
+      return;
+    }
+    void run(async () => {
+      await deleteWebhook(projectId, webhook.id);
+      setWebhooks((prev) => prev.filter((item) => item.id !== webhook.id));
+      if (openId === webhook.id) setOpenId(null);
+    }, 'Unable to delete the webhook.');
+  };
+
+  const handleShowDeliveries = (webhook: Webhook) => {
+    if (openId === webhook.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(webhook.id);
+    setDeliveries([]);
+    void loadDeliveries(webhook.id, null);
+  };
+
+  const handlePing = (webhook: Webhook) =>
+    run(async () => {
+      const delivery = await pingWebhook(projectId, webhook.id);
+      if (openId === webhook.id) setDeliveries((prev) => [delivery, ...prev]);
+    }, 'Unable to ping the webhook.');
+
+  const handleRedeliver = (webhookId: number, delivery: WebhookDelivery) =>
+    run(async () => {
+      const redelivery = await redeliverWebhook(projectId, webhookId, delivery.id);
+      setDeliveries((prev) => [redelivery, ...prev]);
+    }, 'Unable to redeliver.');
+
+  return (
+    <section style={{ marginTop: '2rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <h3 style={{ margin: 0 }}>Webhooks</h3>
+        <button type="button" onClick={() => void fetchWebhooks()} disabled={loading || busy}>
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          style={{
+            backgroundColor: '#fee2e2',
+            color: '#b91c1c',
+            padding: '0.5rem 0.75rem',
+            borderRadius: '0.5rem',
+            marginTop: '0.75rem'
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {secret && (
+        <div style={{ ...cardStyle, marginTop: '0.75rem', backgroundColor: '#f0fdf4' }}>
+          Signing secret for webhook #{secret.webhookId}, shown only once:{' '}
+          <code style={{ wordBreak: 'break-all' }}>{secret.value}</code>{' '}
+          <button type="button" onClick={() => setSecret(null)}>
+            Done
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading webhooks...</p>
+      ) : webhooks.length === 0 ? (
+        <p>No webhooks yet.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} style={cardStyle}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', flexWrap: 'wrap' }}>
+                <div style={{ minWidth: 0 }}>
+                  <strong style={{ wordBreak: 'break-all' }}>{webhook.url}</strong>
+                  {!webhook.active && <span style={{ color: '#6b7280' }}> (disabled)</span>}
+                  <div style={{ fontSize: '0.8rem', color: '#6b7280' }}>{webhook.events.join(', ')}</div>
+                </div>
+                <div style={{ display: 'flex', gap: '0.35rem', flexWrap: 'wrap' }}>
+                  <button type="button" onClick={() => handleShowDeliveries(webhook)} disabled={busy}>
+                    {openId === webhook.id ? 'Hide deliveries' : 'Deliveries'}
+                  </button>
+                  <button type="button" onClick={() => void handlePing(webhook)} disabled={busy || !webhook.active}>
+                    Ping
+                  </button>
+                  <button type="button" onClick={() => void handleToggle(webhook)} disabled={busy}>
+                    {webhook.active ? 'Disable' : 'Enable'}
+                  </button>
+                  <button type="button" onClick={() => handleRotate(webhook)} disabled={busy}>
+                    Rotate secret
+                  </button>
+                  <button type="button" onClick={() => handleDelete(webhook)} disabled={busy}>
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {openId === webhook.id && (
+                <div style={{ marginTop: '0.5rem' }}>
+                  {deliveries.length === 0 ? (
+                    <p style={{ margin: 0, color: '#6b7280' }}>No deliveries yet.</p>
+                  ) : (
+                    <ul style={{ listStyle: 'none', padding: 0, margin: 0, fontSize: '0.85rem' }}>
+                      {deliveries.map((delivery) => (
+                        <li
+                          key={delivery.id}
+                          style={{
+                            display: 'flex',
+                            justifyContent: 'space-between',
+                            gap: '0.5rem',
+                            padding: '0.25rem 0',
+                            borderTop: '1px solid #f3f4f6'
+                          }}
+                        >
+                          <span>
+                            <strong style={{ color: STATUS_COLORS[delivery.status] }}>{delivery.status}</strong>{' '}
+                            <code>{delivery.event}</code> · {describeOutcome(delivery)} ·{' '}
+                            {new Date(delivery.created_at).toLocaleString()}
+                            {delivery.redelivery_of !== null && ` · redelivery of #${delivery.redelivery_of}`}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => void handleRedeliver(webhook.id, delivery)}
+                            disabled={busy || !webhook.active}
+                          >
+                            Redeliver
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {nextCursor && (
+                    <button
+                      type="button"
+                      onClick={() => void loadDeliveries(webhook.id, nextCursor)}
+                      disabled={busy}
+                      style={{ marginTop: '0.5rem' }}
+                    >
+                      Load more
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        style={{ ...cardStyle, display: 'flex', flexDirection: 'column', gap: '0.5rem', marginTop: '0.75rem' }}
+      >
+        <input
+          type="url"
+          value={url}
+          onChange={(event) => setUrl(event.target.value)}
+          placeholder="https://example.com/hooks/sitef"
+          aria-label="Webhook URL"
+          required
+          disabled={busy}
+          style={inputStyle}
+        />
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem 0.75rem', fontSize: '0.85rem' }}>
+          {[ALL_EVENTS, ...WEBHOOK_EVENTS.filter((event) => event !== 'webhook.ping')].map((event) => (
+            <label key={event}>
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => toggleEvent(event)}
+                disabled={busy || (event !== ALL_EVENTS && events.includes(ALL_EVENTS))}
+              />{' '}
+              {event === ALL_EVENTS ? 'all events' : event}
+            </label>
+          ))}
+        </div>
+        <button type="submit" disabled={busy || events.length === 0} style={{ alignSelf: 'flex-start' }}>
+          Add webhook
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default WebhooksPanel;
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { acceptInvitation, describeError, getInvitation, type InvitationPreview } from '../api';
+
+type AcceptInvitationPageProps = {
+  token: string;
+};
+
+const AcceptInvitationPage = ({ token }: AcceptInvitationPageProps) => {
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getInvitation(token)
+      .then(setInvitation)
+      .catch((err) => {
+        console.error(err);
+        setError(describeError(err, 'Failed to load invitation.'));
+      })
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleAccept = async () => {
+    try {
+      setAccepting(true);
+      setError(null);
+      const { project } = await acceptInvitation(token);
+      window.location.hash = `#/projects/${project.id}`;
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, 'Unable to accept invitation.'));
+      setAccepting(false);
+    }
+  };
+
+  if (loading) {
+    return <p>Loading invitation...</p>;
+  }
+
+  return (
+    <section style={{ maxWidth: '480px' }}>
+      <a href="#/">← All projects</a>
+      <h2>Project invitation</h2>
+      {invitation && (
+        <>
+          <p>
+            You have been invited to <strong>{invitation.project.name}</strong> as {invitation.role}. The invitation was
+            sent to {invitation.email} and expires {new Date(invitation.expires_at).toLocaleDateString()}.
+          </p>
+          <button type="button" onClick={() => void handleAccept()} disabled={accepting}>
+            {accepting ? 'Joining...' : 'Accept invitation'}
+          </button>
+        </>
+      )}
+      {error && (
+        <p role="alert" style={{ color: '#b91c1c' }}>
+          {error}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default AcceptInvitationPage;
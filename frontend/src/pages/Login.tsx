@@ -0,0 +1,105 @@
+import { FormEvent, useState } from 'react';
+import { passwordLoginAvailable, setToken, signInWithPassword, takeReturnHash } from '../auth';
+
+const inputStyle = { width: '100%', padding: '0.5rem 0.75rem', borderRadius: '0.5rem', border: '1px solid #ccc' };
+const labelStyle = { display: 'flex', flexDirection: 'column' as const, gap: '0.25rem', fontSize: '0.9rem' };
+
+const LoginPage = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [token, setTokenInput] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const finish = (accessToken: string) => {
+    setToken(accessToken);
+    window.location.hash = takeReturnHash();
+  };
+
+  const handlePassword = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      finish(await signInWithPassword(email.trim(), password));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Sign-in failed.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleToken = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = token.trim();
+    if (trimmed) {
+      finish(trimmed);
+    }
+  };
+
+  return (
+    <section style={{ maxWidth: '360px', display: 'flex', flexDirection: 'column', gap: '1.5rem' }}>
+      <h2 style={{ margin: 0 }}>Sign in</h2>
+
+      {error && (
+        <div
+          role="alert"
+          style={{ backgroundColor: '#fee2e2', color: '#b91c1c', padding: '0.5rem 0.75rem', borderRadius: '0.5rem' }}
+        >
+          {error}
+        </div>
+      )}
+
+      {passwordLoginAvailable && (
+        <form onSubmit={handlePassword} style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+          <label style={labelStyle}>
+            Email
+            <input
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              disabled={submitting}
+              required
+              style={inputStyle}
+            />
+          </label>
+          <label style={labelStyle}>
+            Password
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              disabled={submitting}
+              required
+              style={inputStyle}
+            />
+          </label>
+          <button type="submit" disabled={submitting}>
+            {submitting ? 'Signing in...' : 'Sign in'}
+          </button>
+        </form>
+      )}
+
+      <form onSubmit={handleToken} style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
+        <label style={labelStyle}>
+          {passwordLoginAvailable ? 'Or paste an access token' : 'Access token'}
+          <textarea
+            rows={4}
+            value={token}
+            onChange={(event) => setTokenInput(event.target.value)}
+            placeholder="eyJ..."
+            style={{ ...inputStyle, fontFamily: 'monospace', fontSize: '0.8rem' }}
+          />
+        </label>
+        <button type="submit" disabled={token.trim().length === 0}>
+          Use token
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export default LoginPage;
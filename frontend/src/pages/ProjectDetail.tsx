@@ -0,0 +1,338 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createPage,
+  deletePage,
+  describeError,
+  EXPORT_THEMES,
+  exportProject,
+  type ExportTheme,
+  generateSite,
+  getProject,
+  hasRole,
+  listPages,
+  type Project,
+  reorderPages,
+  type SiteBrief,
+  type SitePage,
+  updatePage
+} from '../api';
+import ActivityTimeline from '../components/ActivityTimeline';
+import GenerateSiteForm from '../components/GenerateSiteForm';
+import MediaLibrary from '../components/MediaLibrary';
+import MembersPanel from '../components/MembersPanel';
+import PromptTemplates from '../components/PromptTemplates';
+import RevisionsPanel from '../components/RevisionsPanel';
+import WebhooksPanel from '../components/WebhooksPanel';
+import SectionEditor from '../components/SectionEditor';
+
+type ProjectDetailPageProps = {
+  projectId: number;
+};
+
+const ProjectDetailPage = ({ projectId }: ProjectDetailPageProps) => {
+  const [project, setProject] = useState<Project | null>(null);
+  const [pages, setPages] = useState<SitePage[]>([]);
+  const [selectedPageId, setSelectedPageId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [showGenerator, setShowGenerator] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [exportTheme, setExportTheme] = useState<ExportTheme>('modern');
+  // Bumped after a generation or restore so the open section editor reloads replaced content.
+  const [generation, setGeneration] = useState(0);
+
+  const fetchProject = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [projectData, pageData] = await Promise.all([getProject(projectId), listPages(projectId)]);
+      setProject(projectData);
+      setPages(pageData);
+      setSelectedPageId((current) => current ?? pageData[0]?.id ?? null);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to load project.');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    void fetchProject();
+  }, [fetchProject]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, failure));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleGenerate = (brief: SiteBrief) =>
+    run(async () => {
+      setNotice(null);
+      const result = await generateSite(projectId, brief);
+      setPages(await listPages(projectId));
+      setSelectedPageId(result.pages[0]?.page.id ?? selectedPageId);
+      setGeneration((value) => value + 1);
+      setShowGenerator(false);
+      const created = result.pages.filter((change) => change.action === 'created').length;
+      const replaced = result.pages.length - created;
+      const skipped = result.warnings.length > 0 ? ` ${result.warnings.length} invalid item(s) were skipped.` : '';
+      setNotice(`Generated ${created} new and ${replaced} replaced page(s).${skipped}`);
+    }, 'Unable to generate the site.');
+
+  const handleRestored = async () => {
+    const [projectData, pageData] = await Promise.all([getProject(projectId), listPages(projectId)]);
+    setProject(projectData);
+    setPages(pageData);
+    setSelectedPageId((current) =>
+      pageData.some((page) => page.id === current) ? current : (pageData[0]?.id ?? null)
+    );
+    setGeneration((value) => value + 1);
+    setNotice('Revision restored.');
+  };
+
+  const handleExport = () =>
+    run(async () => {
+      setNotice(null);
+      const { file, fileName, skippedAssets } = await exportProject(projectId, { theme: exportTheme });
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      if (skippedAssets > 0) {
+        setNotice(`${skippedAssets} image(s) could not be bundled and still point to their original address.`);
+      }
+    }, 'Unable to export the site.');
+
+  const handleAddPage = () => {
+    const title = window.prompt('Page title')?.trim();
+    if (!title) {
+      return;
+    }
+    void run(async () => {
+      const page = await createPage(projectId, { title });
+      setPages((prev) => [...prev, page]);
+      setSelectedPageId(page.id);
+    }, 'Unable to add page.');
+  };
+
+  const handleRenamePage = (page: SitePage) => {
+    const title = window.prompt('Rename page', page.title)?.trim();
+    if (!title || title === page.title) {
+      return;
+    }
+    void run(async () => {
+      const updated = await updatePage(projectId, page.id, { title });
+      setPages((prev) => prev.map((item) => (item.id === page.id ? updated : item)));
+    }, 'Unable to rename page.');
+  };
+
+  const handleDeletePage = (page: SitePage) => {
+    if (!window.confirm(`Delete page "${page.title}" and all of its sections?`)) {
+      return;
+    }
+    void run(async () => {
+      await deletePage(projectId, page.id);
+      const remaining = pages.filter((item) => item.id !== page.id);
+      setPages(remaining);
+      if (selectedPageId === page.id) {
+        setSelectedPageId(remaining[0]?.id ?? null);
+      }
+    }, 'Unable to delete page.');
+  };
+
+  const handleMovePage = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= pages.length) {
+      return;
+    }
+    const ids = pages.map((page) => page.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    void run(async () => {
+      setPages(await reorderPages(projectId, ids));
+    }, 'Unable to reorder pages.');
+  };
+
+  if (loading) {
+    return <p>Loading project...</p>;
+  }
+
+  if (!project) {
+    return (
+      <section>
+        <a href="#/">← All projects</a>
+        <p role="alert">{error ?? 'Project not found.'}</p>
+      </section>
+    );
+  }
+
+  // Viewers get a read-only editor; the API enforces the same rule.
+  const canEdit = hasRole(project.role, 'editor');
+
+  return (
+    <section>
+      <a href="#/">← All projects</a>
+      <h2 style={{ marginBottom: '0.25rem' }}>{project.name}</h2>
+      <p style={{ color: '#6b7280', marginTop: 0 }}>
+        /{project.slug} · {project.status}
+        {project.role && ` · you are ${project.role === 'owner' ? 'an' : 'a'} ${project.role}`}
+      </p>
+
+      <div style={{ marginBottom: '1rem' }}>
+        <button type="button" onClick={() => setShowGenerator((value) => !value)} disabled={busy || !canEdit}>
+          {showGenerator ? 'Close generator' : 'Generate with AI'}
+        </button>
+        <span style={{ marginLeft: '0.75rem' }}>
+          <select
+            value={exportTheme}
+            onChange={(event) => setExportTheme(event.target.value as ExportTheme)}
+            disabled={busy}
+            aria-label="Export theme"
+          >
+            {EXPORT_THEMES.map((theme) => (
+              <option key={theme} value={theme}>
+                {theme}
+              </option>
+            ))}
+          </select>{' '}
+          <button type="button" onClick={() => void handleExport()} disabled={busy || pages.length === 0}>
+            Export site
+          </button>
+        </span>
+        {showGenerator && (
+          <div
+            style={{
+              border: '1px solid #e5e7eb',
+              borderRadius: '0.75rem',
+              padding: '0.75rem 1rem',
+              marginTop: '0.5rem'
+            }}
+          >
+            <GenerateSiteForm onSubmit={handleGenerate} submitting={busy} />
+          </div>
+        )}
+        {notice && <p style={{ color: '#047857' }}>{notice}</p>}
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          style={{
+            backgroundColor: '#fee2e2',
+            color: '#b91c1c',
+            padding: '0.75rem 1rem',
+            borderRadius: '0.75rem',
+            marginBottom: '1rem'
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: '220px 1fr', gap: '1.5rem', alignItems: 'start' }}>
+        <nav aria-label="Pages">
+          <ul
+            style={{
+              listStyle: 'none',
+              padding: 0,
+              margin: '0 0 0.75rem',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '0.35rem'
+            }}
+          >
+            {pages.map((page, index) => (
+              <li
+                key={page.id}
+                style={{
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '0.5rem',
+                  padding: '0.4rem 0.5rem',
+                  backgroundColor: page.id === selectedPageId ? '#eff6ff' : 'white'
+                }}
+              >
+                <button
+                  type="button"
+                  onClick={() => setSelectedPageId(page.id)}
+                  style={{
+                    border: 'none',
+                    background: 'none',
+                    padding: 0,
+                    cursor: 'pointer',
+                    fontWeight: 600,
+                    textAlign: 'left'
+                  }}
+                >
+                  {page.title}
+                </button>
+                <div style={{ fontSize: '0.8rem', color: '#6b7280' }}>/{page.slug}</div>
+                <div style={{ display: 'flex', gap: '0.25rem', marginTop: '0.25rem' }}>
+                  <button
+                    type="button"
+                    onClick={() => handleMovePage(index, -1)}
+                    disabled={busy || !canEdit || index === 0}
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMovePage(index, 1)}
+                    disabled={busy || !canEdit || index === pages.length - 1}
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </button>
+                  <button type="button" onClick={() => handleRenamePage(page)} disabled={busy || !canEdit}>
+                    Rename
+                  </button>
+                  <button type="button" onClick={() => handleDeletePage(page)} disabled={busy || !canEdit}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button type="button" onClick={handleAddPage} disabled={busy || !canEdit}>
+            Add page
+          </button>
+        </nav>
+
+        <div>
+          {selectedPageId === null ? (
+            <p>Add a page to start building this site.</p>
+          ) : (
+            <SectionEditor key={`${selectedPageId}-${generation}`} projectId={projectId} pageId={selectedPageId} />
+          )}
+        </div>
+      </div>
+
+      <MediaLibrary projectId={projectId} canEdit={canEdit} />
+
+      <PromptTemplates projectId={projectId} />
+
+      {project.role && (
+        <MembersPanel projectId={projectId} role={project.role} onLeft={() => (window.location.hash = '#/')} />
+      )}
+
+      <RevisionsPanel projectId={projectId} canEdit={canEdit} onRestored={handleRestored} />
+
+      {project.role === 'owner' && <WebhooksPanel projectId={projectId} />}
+
+      <ActivityTimeline projectId={projectId} />
+    </section>
+  );
+};
+
+export default ProjectDetailPage;
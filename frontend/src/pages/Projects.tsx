@@ -1,7 +1,23 @@
-import { useCallback, useEffect, useState } from 'react';
-import { createProject, deleteProject, listProjects, type Project, updateProject } from '../api';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createProject,
+  deleteProject,
+  describeError,
+  listProjects,
+  purgeProject,
+  restoreProject,
+  type Project,
+  type ProjectPatch,
+  type ProjectSort,
+  type ProjectStatus,
+  updateProject
+} from '../api';
 import ProjectForm from '../components/ProjectForm';
 import ProjectList from '../components/ProjectList';
+import ProjectSearch from '../components/ProjectSearch';
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 250;
 
 const ProjectsPage = () => {
   const [projects, setProjects] = useState<Project[]>([]);
@@ -9,39 +25,113 @@ const ProjectsPage = () => {
   const [error, setError] = useState<string | null>(null);
   const [creating, setCreating] = useState(false);
   const [pendingId, setPendingId] = useState<number | null>(null);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [sort, setSort] = useState<ProjectSort>('created_at');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [view, setView] = useState<'active' | 'trash'>('active');
+  const firstPageController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [query]);
 
+  // Reloads from the first page; a newer search aborts any request still in flight.
   const fetchProjects = useCallback(async () => {
+    firstPageController.current?.abort();
+    const controller = new AbortController();
+    firstPageController.current = controller;
+
     try {
       setLoading(true);
       setError(null);
-      const data = await listProjects();
-      setProjects(data);
+      const page = await listProjects(
+        { q: debouncedQuery, sort, limit: PAGE_SIZE, trashed: view === 'trash' },
+        { signal: controller.signal }
+      );
+      setProjects(page.items);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
     } catch (err) {
+      if (controller.signal.aborted) {
+        return;
+      }
       console.error(err);
-      setError('Failed to load projects.');
+      setError(describeError(err, 'Failed to load projects.'));
     } finally {
-      setLoading(false);
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
     }
-  }, []);
+  }, [debouncedQuery, sort, view]);
 
   useEffect(() => {
     void fetchProjects();
+    return () => firstPageController.current?.abort();
   }, [fetchProjects]);
 
+  const handleLoadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) {
+      return;
+    }
+
+    try {
+      setLoadingMore(true);
+      const page = await listProjects({
+        q: debouncedQuery,
+        sort,
+        limit: PAGE_SIZE,
+        cursor: nextCursor,
+        trashed: view === 'trash'
+      });
+      setProjects((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, 'Failed to load more projects.'));
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [debouncedQuery, sort, view, nextCursor, loadingMore]);
+
   const handleCreate = async (name: string) => {
     try {
       setCreating(true);
       setError(null);
-      const project = await createProject(name);
-      setProjects((prev) => [...prev, project].sort((a, b) => a.id - b.id));
+      await createProject(name);
+      await fetchProjects();
     } catch (err) {
       console.error(err);
-      setError('Unable to create project.');
+      setError(describeError(err, 'Unable to create project.'));
     } finally {
       setCreating(false);
     }
   };
 
+  const applyUpdate = async (project: Project, patch: ProjectPatch, failure: string) => {
+    try {
+      setPendingId(project.id);
+      setError(null);
+      const updated = await updateProject(project.id, patch);
+      setProjects((prev) => prev.map((item) => (item.id === project.id ? updated : item)));
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, failure));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  // Removes a project from the current view after it moved to/from the trash.
+  const removeFromView = (project: Project) => {
+    setProjects((prev) => prev.filter((item) => item.id !== project.id));
+    setTotal((prev) => (prev === null ? prev : prev - 1));
+  };
+
   const handleRename = async (project: Project) => {
     const newName = window.prompt('Rename project', project.name);
     if (newName === null) {
@@ -52,21 +142,61 @@ const ProjectsPage = () => {
       return;
     }
 
+    await applyUpdate(project, { name: trimmed }, 'Unable to rename project.');
+  };
+
+  const handleEditDescription = async (project: Project) => {
+    const description = window.prompt('Project description', project.description);
+    if (description === null || description.trim() === project.description) {
+      return;
+    }
+
+    await applyUpdate(project, { description: description.trim() }, 'Unable to update the description.');
+  };
+
+  const handleStatusChange = async (project: Project, status: ProjectStatus) => {
+    if (status === project.status) {
+      return;
+    }
+
+    await applyUpdate(project, { status }, `Unable to mark project as ${status}.`);
+  };
+
+  const handleDelete = async (project: Project) => {
+    const confirmed = window.confirm(`Move project "${project.name}" to the trash?`);
+    if (!confirmed) {
+      return;
+    }
+
     try {
       setPendingId(project.id);
       setError(null);
-      const updated = await updateProject(project.id, { name: trimmed });
-      setProjects((prev) => prev.map((item) => (item.id === project.id ? updated : item)));
+      await deleteProject(project.id);
+      removeFromView(project);
     } catch (err) {
       console.error(err);
-      setError('Unable to rename project.');
+      setError(describeError(err, 'Unable to delete project.'));
     } finally {
       setPendingId(null);
     }
   };
 
-  const handleDelete = async (project: Project) => {
-    const confirmed = window.confirm(`Delete project "${project.name}"?`);
+  const handleRestore = async (project: Project) => {
+    try {
+      setPendingId(project.id);
+      setError(null);
+      await restoreProject(project.id);
+      removeFromView(project);
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, 'Unable to restore project.'));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handlePurge = async (project: Project) => {
+    const confirmed = window.confirm(`Permanently delete "${project.name}"? This cannot be undone.`);
     if (!confirmed) {
       return;
     }
@@ -74,11 +204,11 @@ const ProjectsPage = () => {
     try {
       setPendingId(project.id);
       setError(null);
-      await deleteProject(project.id);
-      setProjects((prev) => prev.filter((item) => item.id !== project.id));
+      await purgeProject(project.id);
+      removeFromView(project);
     } catch (err) {
       console.error(err);
-      setError('Unable to delete project.');
+      setError(describeError(err, 'Unable to delete project permanently.'));
     } finally {
       setPendingId(null);
     }
@@ -101,16 +231,48 @@ const ProjectsPage = () => {
         </div>
       )}
 
-      <ProjectForm onSubmit={handleCreate} submitting={creating} />
+      <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+        {(['active', 'trash'] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setView(option)}
+            aria-pressed={view === option}
+            style={{
+              padding: '0.35rem 0.75rem',
+              borderRadius: '0.5rem',
+              border: '1px solid #d1d5db',
+              backgroundColor: view === option ? '#111827' : 'white',
+              color: view === option ? 'white' : '#111827',
+              cursor: 'pointer'
+            }}
+          >
+            {option === 'active' ? 'Projects' : 'Trash'}
+          </button>
+        ))}
+      </div>
+
+      {view === 'active' && <ProjectForm onSubmit={handleCreate} submitting={creating} />}
+
+      <ProjectSearch query={query} sort={sort} total={total} onQueryChange={setQuery} onSortChange={setSort} />
 
       {loading ? (
         <p>Loading projects...</p>
       ) : (
         <ProjectList
           projects={projects}
+          view={view}
           onRename={handleRename}
+          onEditDescription={handleEditDescription}
+          onStatusChange={handleStatusChange}
           onDelete={handleDelete}
+          onRestore={handleRestore}
+          onPurge={handlePurge}
           pendingId={pendingId}
+          searching={debouncedQuery.length > 0}
+          hasMore={nextCursor !== null}
+          loadingMore={loadingMore}
+          onLoadMore={handleLoadMore}
         />
       )}
     </section>